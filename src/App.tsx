@@ -13,10 +13,18 @@ import {
   graphDataAtom,
   parseErrorAtom,
   parseProgressAtom,
+  typingsAtom,
   viewModeAtom,
 } from '@/entities/AppView/model/atoms';
 import { store } from '@/entities/AppView/model/store';
+import { ChangeImpactPanel } from '@/features/ChangeImpact/ui/ChangeImpactPanel';
+import { DataFlowPanel } from '@/features/Code/DataFlow/ui/DataFlowPanel';
+import { GitRepositoryLoader } from '@/features/Git/ui/GitRepositoryLoader';
+import { LiveMountWatcher } from '@/features/LiveMount/ui/LiveMountWatcher';
+import { PatchPreviewPanel } from '@/features/Patch/ui/PatchPreviewPanel';
+import { ProblemsPanel } from '@/features/Problems/ui/ProblemsPanel';
 import { UnifiedSearchModal } from '@/features/Search/UnifiedSearch/ui/UnifiedSearchModal';
+import { TypingsPersistence } from '@/features/Typings/TypingsPersistence';
 import { JsonExplorer } from '@/pages/JsonExplorer/JsonExplorer';
 import { deadCodePanelOpenAtom } from '@/pages/PageAnalysis/DeadCodePanel/model/atoms';
 import { PageAnalysis } from '@/pages/PageAnalysis/PageAnalysis';
@@ -29,32 +37,29 @@ import CodeDocView from './widgets/CodeDocView/CodeDocView';
 const AppContent: React.FC = () => {
   // Parse project when files change
   const files = useAtomValue(filesAtom);
+  const typings = useAtomValue(typingsAtom);
   const setGraphData = useSetAtom(graphDataAtom);
   const setParseError = useSetAtom(parseErrorAtom);
   const setParseProgress = useSetAtom(parseProgressAtom);
   const viewMode = useAtomValue(viewModeAtom);
   const deadCodePanelOpen = useAtomValue(deadCodePanelOpenAtom);
   const workerRef = useRef<Worker | null>(null);
+  const latestRequestIdRef = useRef(0);
+  const sentTypingsRef = useRef<Record<string, string> | null>(null); // Worker에 마지막으로 보낸 typings
 
   // 🔥 Web Worker for Project Parsing
+  // Worker는 한 번만 생성해서 재사용 → Worker 내부 캐시로 변경된 파일만 재파싱
   useEffect(() => {
-    console.log('[App] Files changed, starting Worker-based parsing');
-
-    // Create Worker
     const worker = new Worker(new URL('./workers/parseProject.worker.ts', import.meta.url), { type: 'module' });
     workerRef.current = worker;
-
-    // Set loading state
-    setParseProgress({
-      isLoading: true,
-      current: 0,
-      total: Object.keys(files).length,
-      currentFile: null,
-    });
+    sentTypingsRef.current = null;
 
     // Handle Worker messages
     worker.onmessage = (event) => {
-      const { type } = event.data;
+      const { type, requestId } = event.data;
+
+      // 더 최신 요청이 있으면 오래된 응답은 무시
+      if (requestId !== latestRequestIdRef.current) return;
 
       if (type === 'progress') {
         // Update progress
@@ -67,8 +72,11 @@ const AppContent: React.FC = () => {
         });
       } else if (type === 'result') {
         // Parse complete
-        const { nodes, parseTime } = event.data;
-        console.log(`[App] Worker parsing complete: ${nodes.length} nodes in ${parseTime.toFixed(2)}ms`);
+        const { nodes, parseTime, stats } = event.data;
+        console.log(
+          `[App] Worker parsing complete: ${nodes.length} nodes in ${parseTime.toFixed(2)}ms`,
+          stats ? `(${stats.reparsedFiles}/${stats.totalFiles} files reparsed)` : ''
+        );
 
         // Reconstruct SourceFileNode[] with ts.SourceFile
         const reconstructedNodes: SourceFileNode[] = nodes.map((serializedNode: unknown) => {
@@ -107,9 +115,15 @@ const AppContent: React.FC = () => {
           total: nodes.length,
           currentFile: null,
         });
-
-        // Terminate worker
-        worker.terminate();
+      } else if (type === 'error') {
+        console.error('[App] Worker parse error:', event.data.message);
+        setParseError(event.data.message);
+        setParseProgress({
+          isLoading: false,
+          current: 0,
+          total: 0,
+          currentFile: null,
+        });
       }
     };
 
@@ -122,26 +136,53 @@ const AppContent: React.FC = () => {
         total: 0,
         currentFile: null,
       });
-      worker.terminate();
     };
 
-    // Send parsing request
-    worker.postMessage({ type: 'parseProject', files });
-
     // Cleanup
     return () => {
-      if (workerRef.current) {
-        workerRef.current.terminate();
-        workerRef.current = null;
-      }
+      worker.terminate();
+      workerRef.current = null;
     };
-  }, [files, setGraphData, setParseError, setParseProgress]);
+  }, [setGraphData, setParseError, setParseProgress]);
+
+  // Parse project when files change
+  useEffect(() => {
+    const worker = workerRef.current;
+    if (!worker) return;
+
+    console.log('[App] Files changed, requesting incremental parse');
+
+    const requestId = latestRequestIdRef.current + 1;
+    latestRequestIdRef.current = requestId;
+
+    // Set loading state
+    setParseProgress({
+      isLoading: true,
+      current: 0,
+      total: Object.keys(files).length,
+      currentFile: null,
+    });
+
+    // typings는 용량이 크므로 바뀐 경우에만 전송 (Worker가 보관 후 LSIF 재인덱싱)
+    if (sentTypingsRef.current !== typings) {
+      worker.postMessage({ type: 'setTypings', typings });
+      sentTypingsRef.current = typings;
+    }
+
+    // Send parsing request
+    worker.postMessage({ type: 'parseProject', requestId, files });
+  }, [files, typings, setParseProgress]);
 
   return (
     <div className="flex h-screen flex-col overflow-hidden bg-bg-deep text-text-primary select-none">
       {/* Workspace persistence (save/restore state) */}
       {/*<WorkspacePersistence />*/}
 
+      {/* Third-party typings (restore / save / register) */}
+      <TypingsPersistence />
+      <LiveMountWatcher />
+      <GitRepositoryLoader />
+
       {/* 키보드 단축키 관리 */}
       <KeyboardShortcuts />
 
@@ -162,11 +203,17 @@ const AppContent: React.FC = () => {
             {/* Left Sidebar: File Explorer */}
             <AppSidebar />
 
-            {/* Main Content Area: Canvas or IDEScrollView or CodeDocView */}
-            <div className="flex-1 relative overflow-hidden">
-              {viewMode === 'canvas' && <PipelineCanvas />}
-              {viewMode === 'ide' && <IDEScrollView />}
-              {viewMode === 'codeDoc' && <CodeDocView />}
+            {/* Main Content Area: Canvas or IDEScrollView or CodeDocView (+ 하단 Problems / Change Impact 패널) */}
+            <div className="flex-1 flex flex-col overflow-hidden">
+              <div className="flex-1 relative overflow-hidden">
+                {viewMode === 'canvas' && <PipelineCanvas />}
+                {viewMode === 'ide' && <IDEScrollView />}
+                {viewMode === 'codeDoc' && <CodeDocView />}
+                <DataFlowPanel />
+              </div>
+              <PatchPreviewPanel />
+              <ProblemsPanel />
+              <ChangeImpactPanel />
             </div>
           </>
         )}
@@ -4,17 +4,36 @@
  */
 
 import { useAtom, useSetAtom } from 'jotai';
-import { BookOpenText, FileJson, Files, GitBranch, LucideMap, SearchAlertIcon, Settings, Sparkles } from 'lucide-react';
+import {
+  BookOpenText,
+  FileJson,
+  Files,
+  GitBranch,
+  GitCompareArrows,
+  LucideMap,
+  SearchAlertIcon,
+  Settings,
+  Sparkles,
+} from 'lucide-react';
 import { useState } from 'react';
+import { sidebarViewAtom } from '@/app/ui/AppSidebar/model/atoms.ts';
 import { ActivityBar, ActivityBarItem, ActivityBarSeparator } from '@/components/ide/ActivityBar.tsx';
 import { rightPanelOpenAtom, viewModeAtom } from '@/entities/AppView/model/atoms';
+import { changeImpactPanelOpenAtom } from '@/features/ChangeImpact/model/atoms.ts';
 import { DocumentModeToggle } from '@/features/DocumentMode/DocumentModeToggle.tsx';
-import UploadFolderButton from '@/features/UploadFolderButton.tsx';
+import LiveMountButtons from '@/features/LiveMount/ui/LiveMountButtons.tsx';
+import LSIFDumpButtons from '@/features/LSIFDump/LSIFDumpButtons.tsx';
+import PatchButton from '@/features/Patch/ui/PatchButton.tsx';
+import TypingsButtons from '@/features/Typings/TypingsButtons.tsx';
+import UploadFolderButton from '@/features/UploadFolder/UploadFolderButton.tsx';
+import ZipArchiveButtons from '@/features/ZipArchive/ZipArchiveButtons.tsx';
 import { deadCodePanelOpenAtom } from '@/pages/PageAnalysis/DeadCodePanel/model/atoms.ts';
 
 export function AppActivityBar() {
   const [viewMode, setViewMode] = useAtom(viewModeAtom);
   const setDeadCodePanelOpen = useSetAtom(deadCodePanelOpenAtom);
+  const [sidebarView, setSidebarView] = useAtom(sidebarViewAtom);
+  const [changeImpactOpen, setChangeImpactOpen] = useAtom(changeImpactPanelOpenAtom);
   const [_rightPanelOpen, _setRightPanelOpen] = useAtom(rightPanelOpenAtom);
 
   // Active view for ActivityBar (0: Explorer, 1: Search, 2: Dead Code, 3: Canvas, 4: AI)
@@ -25,9 +44,10 @@ export function AppActivityBar() {
       <ActivityBarItem
         icon={Files}
         label="Explorer"
-        active={activeView === 0 && viewMode === 'ide'}
+        active={activeView === 0 && viewMode === 'ide' && sidebarView === 'explorer'}
         onClick={() => {
           setActiveView(0);
+          setSidebarView('explorer');
           setViewMode('ide');
           setDeadCodePanelOpen(false); // ✅ Dead Code Panel 닫기
         }}
@@ -78,11 +98,32 @@ export function AppActivityBar() {
         active={activeView === 3}
         onClick={() => setActiveView(3)}
       />
-      <ActivityBarItem icon={GitBranch} label="Git" />
+      <ActivityBarItem
+        icon={GitBranch}
+        label="Git"
+        active={activeView === 0 && viewMode === 'ide' && sidebarView === 'git'}
+        onClick={() => {
+          setActiveView(0);
+          setSidebarView('git');
+          setViewMode('ide');
+          setDeadCodePanelOpen(false);
+        }}
+      />
+      <ActivityBarItem
+        icon={GitCompareArrows}
+        label="Change Impact"
+        active={changeImpactOpen}
+        onClick={() => setChangeImpactOpen((open) => !open)}
+      />
 
       <div className="flex-1" />
 
       <UploadFolderButton />
+      <LiveMountButtons />
+      <ZipArchiveButtons />
+      <PatchButton />
+      <LSIFDumpButtons />
+      <TypingsButtons />
       <div className="px-1">
         <DocumentModeToggle />
       </div>
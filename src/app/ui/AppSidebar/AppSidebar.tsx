@@ -1,5 +1,5 @@
 /**
- * AppSidebar - Sidebar container with FileExplorer
+ * AppSidebar - Sidebar container with FileExplorer (or Git panel)
  * Provides resizable sidebar layout for file navigation
  */
 
@@ -11,13 +11,15 @@ import { Sidebar } from '@/components/ide/Sidebar.tsx';
 import { viewModeAtom } from '@/entities/AppView/model/atoms';
 import { useOpenFile } from '@/features/File/OpenFiles/lib/useOpenFile.ts';
 import { activeTabAtom, openedTabsAtom } from '@/features/File/OpenFiles/model/atoms.ts';
+import { GitPanelContainer } from '@/features/Git/ui/GitPanelContainer.tsx';
 import { FileIcon } from '../../../entities/SourceFileNode/ui/FileIcon.tsx';
 import { getFileName } from '../../../shared/pathUtils.ts';
 import { FileExplorer } from '../../../widgets/FileExplorer/FileExplorer.tsx';
-import { isSidebarOpenAtom } from './model/atoms.ts';
+import { isSidebarOpenAtom, sidebarViewAtom } from './model/atoms.ts';
 
 export const AppSidebar: React.FC = () => {
   const isSidebarOpen = useAtomValue(isSidebarOpenAtom);
+  const sidebarView = useAtomValue(sidebarViewAtom);
   const _viewMode = useAtomValue(viewModeAtom);
   const openedTabs = useAtomValue(openedTabsAtom);
   const activeTab = useAtomValue(activeTabAtom);
@@ -32,6 +34,16 @@ export const AppSidebar: React.FC = () => {
     return null;
   }
 
+  if (sidebarView === 'git') {
+    return (
+      <div ref={containerRef} className="relative focus:outline-none">
+        <Sidebar resizable defaultWidth={250} minWidth={200} maxWidth={800} className="h-full shadow-2xl">
+          <GitPanelContainer />
+        </Sidebar>
+      </div>
+    );
+  }
+
   const workspaceLabel = 'Workspace';
   const projectLabel = 'Project';
 
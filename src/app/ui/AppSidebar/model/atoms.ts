@@ -1,8 +1,12 @@
 /**
  * AppSidebar Widget - Atoms
- * 사이드바 표시 여부 상태
+ * 사이드바 표시 여부 / 표시 중인 뷰 상태
  */
 import { atom } from 'jotai';
 
 // 사이드바 열림/닫힘 상태 (Cmd/Ctrl + \ 토글)
 export const isSidebarOpenAtom = atom<boolean>(true);
+
+// 사이드바 뷰 (Explorer / Source Control)
+export type SidebarView = 'explorer' | 'git';
+export const sidebarViewAtom = atom<SidebarView>('explorer');
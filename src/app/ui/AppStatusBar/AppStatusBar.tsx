@@ -1,27 +1,34 @@
 /**
  * App Status Bar Widget
- * Bottom status bar with git info, cursor position, parsing progress, and AI status
+ * Bottom status bar with git info, problem counts, cursor position, parsing progress, and AI status
  */
 
-import { useAtomValue } from 'jotai';
+import { useAtomValue, useSetAtom } from 'jotai';
 import { StatusBar } from '@/components/ide/StatusBar.tsx';
 import { parseProgressAtom } from '@/entities/AppView/model/atoms';
+import { gitSummaryAtom } from '@/features/Git/model/atoms';
+import { problemCountsAtom, problemsPanelOpenAtom } from '@/features/Problems/model/atoms';
 
 export function AppStatusBar() {
   const parseProgress = useAtomValue(parseProgressAtom);
+  const problemCounts = useAtomValue(problemCountsAtom);
+  const setProblemsPanelOpen = useSetAtom(problemsPanelOpenAtom);
+  const gitSummary = useAtomValue(gitSummaryAtom);
 
   // TODO: Replace with actual data from atoms
   // For now, using static values - to be connected to real state later
-  const branch = 'main';
   const ahead = 0;
   const behind = 0;
   const line = 1;
   const column = 1;
   const aiActive = false;
 
+  // 업로드된 .git의 현재 branch (detached HEAD면 짧은 커밋 해시)
+  const branch = gitSummary ? (gitSummary.currentBranch ?? gitSummary.head?.slice(0, 7) ?? 'HEAD') : 'main';
+
   // Show parsing progress if loading
   const statusText = parseProgress.isLoading
-    ? `Parsing... ${parseProgress.current}/${parseProgress.total} files`
+    ? `${parseProgress.phase === 'reading' ? 'Reading' : 'Parsing'}... ${parseProgress.current}/${parseProgress.total} files`
     : undefined;
 
   return (
@@ -33,6 +40,9 @@ export function AppStatusBar() {
       column={column}
       aiActive={aiActive}
       statusText={statusText}
+      errorCount={problemCounts.errors}
+      warningCount={problemCounts.warnings}
+      onProblemsClick={() => setProblemsPanelOpen((open) => !open)}
     />
   );
 }
@@ -16,6 +16,8 @@ export interface FileTreeItemProps {
   onFocus?: () => void; // Single click - update focus
   onDoubleClick?: () => void; // Double click - open file or toggle folder
   fileExtension?: string; // File extension for icon coloring (.ts, .vue, .json, etc.)
+  badge?: string; // Secondary label after the name (e.g. workspace package name)
+  changeMarker?: 'added' | 'modified'; // Changed since last look (Live Mount)
 }
 
 export const FileTreeItem = React.forwardRef<HTMLDivElement, FileTreeItemProps>(
@@ -33,6 +35,8 @@ export const FileTreeItem = React.forwardRef<HTMLDivElement, FileTreeItemProps>(
       onFocus,
       onDoubleClick,
       fileExtension,
+      badge,
+      changeMarker,
     },
     ref
   ) => {
@@ -129,6 +133,18 @@ export const FileTreeItem = React.forwardRef<HTMLDivElement, FileTreeItemProps>(
           />
         )}
         <span className="flex-1 truncate whitespace-nowrap overflow-hidden text-ellipsis min-w-0">{label}</span>
+        {badge && <span className="shrink-0 truncate max-w-[50%] text-2xs text-text-tertiary">{badge}</span>}
+        {changeMarker && (
+          <span
+            className={cn(
+              'shrink-0 text-2xs font-semibold',
+              changeMarker === 'added' ? 'text-emerald-400' : 'text-amber-400'
+            )}
+            title={changeMarker === 'added' ? 'Added since last look' : 'Modified since last look'}
+          >
+            {changeMarker === 'added' ? 'A' : 'M'}
+          </span>
+        )}
         {opened && !isFolder && (
           <Indicator variant="warning" className={cn('h-1 w-1 shrink-0', active && 'animate-pulse')} />
         )}
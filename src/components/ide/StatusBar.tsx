@@ -1,4 +1,4 @@
-import { ArrowDown, ArrowUp, GitBranch } from 'lucide-react';
+import { AlertTriangle, ArrowDown, ArrowUp, GitBranch, XCircle } from 'lucide-react';
 import * as React from 'react';
 import { cn } from '@/components/lib/utils';
 import { Indicator } from '@/components/ui/Indicator';
@@ -13,6 +13,9 @@ export interface StatusBarProps extends React.HTMLAttributes<HTMLDivElement> {
   language?: string;
   aiActive?: boolean;
   statusText?: string; // Custom status text (e.g., parsing progress)
+  errorCount?: number; // Problems (TypeScript diagnostics)
+  warningCount?: number;
+  onProblemsClick?: () => void;
 }
 
 const StatusBar = React.forwardRef<HTMLDivElement, StatusBarProps>(
@@ -28,6 +31,9 @@ const StatusBar = React.forwardRef<HTMLDivElement, StatusBarProps>(
       language = 'TS',
       aiActive = false,
       statusText,
+      errorCount = 0,
+      warningCount = 0,
+      onProblemsClick,
       ...props
     },
     ref
@@ -72,6 +78,27 @@ const StatusBar = React.forwardRef<HTMLDivElement, StatusBarProps>(
               </div>
             )}
           </div>
+
+          {/* Problems counts */}
+          <button
+            type="button"
+            onClick={onProblemsClick}
+            className="flex items-center gap-2 hover:text-text-primary"
+            title="Toggle Problems panel"
+          >
+            <span className="flex items-center gap-0.5">
+              <XCircle size={11} className={errorCount > 0 ? 'text-red-400' : 'text-text-muted'} strokeWidth={1.5} />
+              {errorCount}
+            </span>
+            <span className="flex items-center gap-0.5">
+              <AlertTriangle
+                size={11}
+                className={warningCount > 0 ? 'text-amber-400' : 'text-text-muted'}
+                strokeWidth={1.5}
+              />
+              {warningCount}
+            </span>
+          </button>
         </div>
 
         {/* Right Side */}
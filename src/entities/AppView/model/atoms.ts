@@ -14,6 +14,10 @@ import type { GraphData, SourceFileNode } from '@/entities/SourceFileNode/model/
 // 가상 파일 시스템 (Virtual file system)
 export const filesAtom = atom<Record<string, string>>(DEFAULT_FILES);
 
+// Third-party 타입 정의 (`/node_modules/...` → .d.ts 내용, IndexedDB에 저장)
+// Language Service의 npm import 해석용 - 파일 트리/파싱 대상에는 포함되지 않음
+export const typingsAtom = atom<Record<string, string>>({});
+
 // Folder Focus Mode - 특정 폴더를 Root로 하는 격리 뷰
 // null: 전체 파일 트리 표시
 // "src/features": 해당 폴더만 Root로 표시
@@ -35,6 +39,7 @@ export const parseProgressAtom = atom<{
   current: number;
   total: number;
   currentFile: string | null;
+  phase?: 'reading' | 'parsing'; // reading: 폴더 업로드 파일 읽기 (기본 parsing)
 }>({
   isLoading: false,
   current: 0,
@@ -1,4 +1,4 @@
-import type { SourceFileNode } from '../../SourceFileNode';
+import type { SourceFileNode } from '../../SourceFileNode/model/types';
 
 export interface TemplateTokenRange {
   startOffset: number; // Absolute position in template content
@@ -0,0 +1,25 @@
+/**
+ * 테스트용 SourceFileNode Fixture
+ *
+ * 파일 경로 → 코드 Record로 Worker 없이 파일 노드 / GraphData 생성
+ * (views 없음 → getImports / getExports는 sourceFile AST fallback 사용)
+ */
+
+import * as ts from 'typescript';
+import type { GraphData, SourceFileNode } from '../../model/types';
+
+export function createFileNodes(files: Record<string, string>): SourceFileNode[] {
+  return Object.entries(files).map(([filePath, code]) => ({
+    id: filePath,
+    label: filePath.split('/').pop() ?? filePath,
+    filePath,
+    type: 'file',
+    codeSnippet: code,
+    startLine: 1,
+    sourceFile: ts.createSourceFile(filePath, code, ts.ScriptTarget.Latest, true),
+  }));
+}
+
+export function createGraph(files: Record<string, string>): GraphData {
+  return { nodes: createFileNodes(files) };
+}
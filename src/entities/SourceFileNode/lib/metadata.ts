@@ -31,6 +31,39 @@ export interface ImportInfo {
   from: string;
   isDefault: boolean;
   isNamespace: boolean;
+  isTypeOnly: boolean; // import type { A } / import { type A }
+}
+
+/**
+ * Symbol 노드의 호출 관계 (Symbol 노드 id 목록)
+ */
+export interface CallGraphInfo {
+  calls: string[]; // 이 Symbol이 호출하는 Symbol
+  calledBy: string[]; // 이 Symbol을 호출하는 Symbol
+}
+
+/**
+ * 파일의 TypeScript diagnostic (syntactic + semantic)
+ */
+export interface DiagnosticInfo {
+  line: number; // 1-based
+  column: number; // 0-based
+  endLine: number;
+  endColumn: number;
+  severity: 'error' | 'warning' | 'info';
+  code: number; // TS 에러 코드 (2322 → TS2322)
+  message: string;
+  source: 'syntactic' | 'semantic';
+}
+
+/**
+ * 파일의 결과를 기다리지 않는 async 호출 (Promise 반환 함수 호출부)
+ */
+export interface AsyncCallInfo {
+  calleeName: string;
+  line: number; // 1-based
+  issue: 'non-promise-expected' | 'sync-caller' | 'floating' | 'unawaited' | 'condition';
+  callerName?: string; // 호출부를 감싼 함수 (최상위 코드면 없음)
 }
 
 export interface DeclarationInfo {
@@ -140,6 +173,37 @@ export function getSymbolUsages(node: SourceFileNode, symbolName: string): strin
   return [];
 }
 
+/**
+ * Symbol 노드의 호출 관계 (function/method 단위 call graph)
+ * @param node - Symbol 노드 (파일 노드는 빈 결과)
+ */
+export function getCallGraph(node: SourceFileNode): CallGraphInfo {
+  if (node.type === 'file') return { calls: [], calledBy: [] };
+
+  // Call Graph는 TypeChecker가 필요하므로 Worker에서만 계산 (Fallback 없음)
+  return node.views?.callGraph ?? { calls: [], calledBy: [] };
+}
+
+/**
+ * 파일의 diagnostics (파일 노드만, Symbol 노드는 filePath로 파일 노드를 찾아서 조회)
+ */
+export function getDiagnostics(node: SourceFileNode): DiagnosticInfo[] {
+  if (node.type !== 'file') return [];
+
+  // Diagnostics는 공유 Program이 필요하므로 Worker에서만 계산 (Fallback 없음)
+  return node.views?.diagnostics ?? [];
+}
+
+/**
+ * 결과를 기다리지 않는 async 호출 조회
+ */
+export function getAsyncCalls(node: SourceFileNode): AsyncCallInfo[] {
+  if (node.type !== 'file') return [];
+
+  // TypeChecker가 필요하므로 Worker에서만 계산 (Fallback 없음)
+  return node.views?.asyncCalls ?? [];
+}
+
 /**
  * export되지 않은 로컬 함수 추출
  */
@@ -164,6 +228,15 @@ export function getUsedIdentifiers(node: SourceFileNode): Set<string> {
   return extractUsedIdentifiersFromAST(node.sourceFile);
 }
 
+/**
+ * 값 위치 (타입 위치 제외)에서 사용된 identifier 추출
+ * - import한 이름이 getUsedIdentifiers()에는 있고 여기에 없으면 타입으로만 사용된 것
+ */
+export function getValueUsedIdentifiers(node: SourceFileNode): Set<string> {
+  if (!node.sourceFile || node.type !== 'file') return new Set();
+  return extractValueUsedIdentifiersFromAST(node.sourceFile);
+}
+
 /**
  * 컴포넌트의 props 정보 추출 (unused props 감지용)
  */
@@ -281,6 +354,7 @@ function extractImportsFromAST(sourceFile: ts.SourceFile): ImportInfo[] {
 
       const importClause = statement.importClause;
       if (!importClause) return;
+      const isTypeOnly = importClause.isTypeOnly;
 
       // Default import: import React from 'react'
       if (importClause.name) {
@@ -290,6 +364,7 @@ function extractImportsFromAST(sourceFile: ts.SourceFile): ImportInfo[] {
           from,
           isDefault: true,
           isNamespace: false,
+          isTypeOnly,
         });
       }
 
@@ -303,6 +378,7 @@ function extractImportsFromAST(sourceFile: ts.SourceFile): ImportInfo[] {
               from,
               isDefault: false,
               isNamespace: false,
+              isTypeOnly: isTypeOnly || element.isTypeOnly,
             });
           });
         }
@@ -314,6 +390,7 @@ function extractImportsFromAST(sourceFile: ts.SourceFile): ImportInfo[] {
             from,
             isDefault: false,
             isNamespace: true,
+            isTypeOnly,
           });
         }
       }
@@ -564,6 +641,58 @@ function extractUsedIdentifiersFromAST(sourceFile: ts.SourceFile): Set<string> {
   return usedIdentifiers;
 }
 
+/**
+ * AST에서 값 위치에 사용된 identifiers 추출 (Private)
+ *
+ * 타입 위치는 순회하지 않음:
+ * - interface / type alias 선언, type annotation, 제네릭 인자, `typeof X` (타입 쿼리)
+ * - `implements` 절 (`extends` 절의 class 표현식은 값)
+ */
+function extractValueUsedIdentifiersFromAST(sourceFile: ts.SourceFile): Set<string> {
+  const usedIdentifiers = new Set<string>();
+
+  // 식별자가 아닌 이름 자리 (obj.foo, { foo: 1 }, <X foo />)
+  function isMemberName(node: ts.Identifier): boolean {
+    const parent = node.parent;
+    if (ts.isPropertyAccessExpression(parent)) return parent.name === node;
+    if (ts.isQualifiedName(parent)) return parent.right === node;
+    if (
+      ts.isPropertyAssignment(parent) ||
+      ts.isPropertyDeclaration(parent) ||
+      ts.isMethodDeclaration(parent) ||
+      ts.isGetAccessorDeclaration(parent) ||
+      ts.isSetAccessorDeclaration(parent) ||
+      ts.isEnumMember(parent)
+    ) {
+      return parent.name === node;
+    }
+    if (ts.isBindingElement(parent)) return parent.propertyName === node;
+    return ts.isJsxAttribute(parent);
+  }
+
+  function visit(astNode: ts.Node) {
+    if (ts.isImportDeclaration(astNode)) return;
+    if (ts.isInterfaceDeclaration(astNode) || ts.isTypeAliasDeclaration(astNode)) return;
+    if (ts.isHeritageClause(astNode) && astNode.token === ts.SyntaxKind.ImplementsKeyword) return;
+
+    // class A extends B<T>: B는 값, T는 타입
+    if (ts.isExpressionWithTypeArguments(astNode)) {
+      visit(astNode.expression);
+      return;
+    }
+    if (ts.isTypeNode(astNode)) return;
+
+    if (ts.isIdentifier(astNode) && !isMemberName(astNode)) {
+      usedIdentifiers.add(astNode.text);
+    }
+
+    ts.forEachChild(astNode, visit);
+  }
+
+  visit(sourceFile);
+  return usedIdentifiers;
+}
+
 /**
  * AST에서 컴포넌트의 props 정보 추출 (Private)
  *
@@ -1,5 +1,5 @@
 import type * as ts from 'typescript';
-import type { ExportInfo, ImportInfo } from '../lib/metadata';
+import type { AsyncCallInfo, CallGraphInfo, DiagnosticInfo, ExportInfo, ImportInfo } from '../lib/metadata';
 
 /**
  * SourceFileNode - TypeScript SourceFile 래퍼 또는 Symbol 노드
@@ -8,14 +8,17 @@ import type { ExportInfo, ImportInfo } from '../lib/metadata';
  * - Worker 파싱 시점에 파일 노드 + Symbol 노드 모두 생성 (AST 순회 1번)
  * - 파일 노드: sourceFile 포함 (전체 AST) + View Map (미리 계산된 메타데이터)
  * - Symbol 노드: sourceFile 없음 (top-level type/interface/function 등)
+ * - 멤버 노드: class 메서드/프로퍼티, interface 멤버 (parentId로 소속 Symbol 노드 연결)
  * - 검색/분석 단계에서 AST 재순회 금지 → View Map 조회
  */
 export interface SourceFileNode {
   // 기본 식별자
-  id: string; // 파일: filePath, Symbol: filePath::symbolName
+  id: string; // 파일: filePath, Symbol: filePath::symbolName, 멤버: filePath::Class.member
   label: string; // 파일명 (확장자 제외) or 심볼명
   filePath: string; // 파일 경로
-  type: 'file' | 'type' | 'interface' | 'function' | 'const' | 'variable' | 'class' | 'enum'; // 노드 타입
+  // 노드 타입 (method/property: class/interface 멤버)
+  type: 'file' | 'type' | 'interface' | 'function' | 'const' | 'variable' | 'class' | 'enum' | 'method' | 'property';
+  parentId?: string; // 멤버 노드의 소속 class/interface 노드 id
 
   // 원본 데이터
   codeSnippet: string; // 원본 코드
@@ -26,6 +29,8 @@ export interface SourceFileNode {
 
   // 계산된 속성 (캐싱용)
   dependencies?: string[]; // getDependencies()로 계산
+  typeDependencies?: string[]; // type-only import로만 의존하는 파일 (Worker 계산)
+  packageName?: string; // 소속 workspace 패키지 (monorepo, package.json name)
 
   // 🔥 NEW: View Map (CouchDB 스타일 - 미리 계산된 메타데이터)
   // Worker 파싱 시 1번 순회로 모든 View 생성 → AST 재순회 없이 조회만
@@ -33,6 +38,9 @@ export interface SourceFileNode {
     exports?: ExportInfo[]; // export 정보
     imports?: ImportInfo[]; // import 정보
     usages?: Record<string, string[]>; // symbolName → [importerFilePath]
+    callGraph?: CallGraphInfo; // Symbol 노드만: calls / calledBy (Symbol 노드 id)
+    diagnostics?: DiagnosticInfo[]; // 파일 노드만: TypeScript syntactic + semantic diagnostics
+    asyncCalls?: AsyncCallInfo[]; // 파일 노드만: 결과를 기다리지 않는 async 호출
     // 추가 View는 여기에 확장
   };
 
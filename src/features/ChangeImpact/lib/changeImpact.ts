@@ -0,0 +1,257 @@
+/**
+ * Change Impact 분석 - 두 스냅샷 사이에서 바뀐 export 심볼 + 그 심볼에 의존하는 파일
+ *
+ * 1. 내용이 다른 파일마다 export 비교 (추가 / 삭제 / 시그니처 변경 / 구현 변경)
+ *    - 시그니처: function / variable은 extractExportSignatures, interface / type / enum은 선언 전체,
+ *      class는 멤버 선언 (구현 본문 제외)
+ * 2. 추가 외의 변경이 있는 파일은 importedBy / importedByIndirect (dependencyAnalyzer)로 영향 파일 수집
+ *    - 삭제된 파일은 before 그래프 기준 (after에 남아 있는 파일만)
+ */
+
+import * as ts from 'typescript';
+import { type ExportInfo, getExports, getImports } from '@/entities/SourceFileNode/lib/metadata';
+import type { SourceFileNode } from '@/entities/SourceFileNode/model/types';
+import { analyzeDependencies, type DependencyItem } from '@/shared/dependencyAnalyzer';
+import { resolvePath } from '@/shared/tsParser/utils/pathResolver';
+import { extractExportSignatures } from '@/widgets/CodeDocView/lib/extractExportSignatures';
+import type { SnapshotGraph } from './snapshotGraph';
+
+export type SymbolChangeKind = 'added' | 'removed' | 'signature' | 'body';
+
+export interface SymbolChange {
+  name: string;
+  kind: ExportInfo['kind'];
+  change: SymbolChangeKind;
+  beforeSignature?: string;
+  afterSignature?: string;
+  startLine?: number; // after 버전 선언 범위 (파일 라인, 삭제된 심볼은 없음)
+  endLine?: number;
+}
+
+export interface ImpactedFile {
+  filePath: string;
+  depth: number; // 0: 직접 import, 1+: 간접
+  via: string | null; // 이 파일이 import하는 (영향받은) 파일
+  usedSymbols: string[]; // 직접 import하는 변경 심볼 (namespace import는 '*')
+  importLines: number[]; // 그 import 문 라인
+}
+
+export interface FileImpact {
+  filePath: string;
+  status: 'added' | 'removed' | 'modified';
+  symbols: SymbolChange[];
+  importedBy: ImpactedFile[];
+  importedByIndirect: ImpactedFile[];
+}
+
+export interface ChangeImpactReport {
+  beforeLabel: string;
+  afterLabel: string;
+  files: FileImpact[];
+  impactedFileCount: number; // 변경 파일 외에 영향받는 파일 수 (중복 제외)
+}
+
+interface ExportDeclaration {
+  info: ExportInfo;
+  signature: string;
+  text: string; // 공백 정규화된 선언 전체
+  startLine: number;
+  endLine: number;
+}
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * class 시그니처: heritage + 멤버 선언 (메서드 본문 / 프로퍼티 초기값 제외)
+ */
+function getClassSignature(declaration: ts.ClassDeclaration, sourceFile: ts.SourceFile): string {
+  const heritage = declaration.heritageClauses?.map((clause) => clause.getText(sourceFile)).join(' ') ?? '';
+  const members = declaration.members.map((member) => {
+    const text = member.getText(sourceFile);
+    const cut =
+      'body' in member && member.body
+        ? (member.body as ts.Node)
+        : ts.isPropertyDeclaration(member) && member.initializer
+          ? member.initializer
+          : null;
+    return cut ? text.slice(0, cut.getStart(sourceFile) - member.getStart(sourceFile)) : text;
+  });
+  return normalize(`class ${declaration.name?.text ?? ''} ${heritage} { ${members.join('; ')} }`);
+}
+
+function collectExportDeclarations(
+  node: SourceFileNode,
+  lineOffset: number,
+  checker: ts.TypeChecker | null
+): Map<string, ExportDeclaration> {
+  const declarations = new Map<string, ExportDeclaration>();
+  const sourceFile = node.sourceFile;
+  if (!sourceFile) return declarations;
+
+  const lineOf = (pos: number) => sourceFile.getLineAndCharacterOfPosition(pos).line + 1;
+  const statements = sourceFile.statements.map((statement) => ({
+    statement,
+    startLine: lineOf(statement.getStart(sourceFile)),
+    endLine: lineOf(statement.getEnd()),
+  }));
+  // Vue 파일 AST는 스냅샷 Program 밖에서 만든 것이라 checker 사용 불가
+  const fileChecker = checker && !node.filePath.endsWith('.vue') ? checker : undefined;
+  const signatureByLine = new Map(
+    extractExportSignatures(node, fileChecker).map((section) => [section.startLine, section.content])
+  );
+
+  getExports(node).forEach((info) => {
+    const entry = statements.find(({ startLine, endLine }) => startLine <= info.line && info.line <= endLine);
+    if (!entry) return;
+
+    const text = normalize(entry.statement.getText(sourceFile));
+    const signature =
+      info.kind === 'function' || info.kind === 'variable'
+        ? (signatureByLine.get(entry.startLine) ?? text)
+        : ts.isClassDeclaration(entry.statement)
+          ? getClassSignature(entry.statement, sourceFile)
+          : text;
+
+    declarations.set(info.name, {
+      info,
+      signature,
+      text,
+      startLine: entry.startLine + lineOffset,
+      endLine: entry.endLine + lineOffset,
+    });
+  });
+
+  return declarations;
+}
+
+/**
+ * 파일 하나의 export 변경 목록 (이름 순)
+ */
+export function diffExportedSymbols(
+  before: { node: SourceFileNode; lineOffset: number; checker: ts.TypeChecker | null } | null,
+  after: { node: SourceFileNode; lineOffset: number; checker: ts.TypeChecker | null } | null
+): SymbolChange[] {
+  const beforeExports = before ? collectExportDeclarations(before.node, before.lineOffset, before.checker) : new Map();
+  const afterExports = after ? collectExportDeclarations(after.node, after.lineOffset, after.checker) : new Map();
+  const changes: SymbolChange[] = [];
+
+  const names = new Set<string>([...beforeExports.keys(), ...afterExports.keys()]);
+  Array.from(names)
+    .sort()
+    .forEach((name) => {
+      const prev: ExportDeclaration | undefined = beforeExports.get(name);
+      const next: ExportDeclaration | undefined = afterExports.get(name);
+
+      let change: SymbolChangeKind | null = null;
+      if (!prev) change = 'added';
+      else if (!next) change = 'removed';
+      else if (prev.signature !== next.signature) change = 'signature';
+      else if (prev.text !== next.text) change = 'body';
+      if (!change) return;
+
+      changes.push({
+        name,
+        kind: (next ?? prev)!.info.kind,
+        change,
+        beforeSignature: prev?.signature,
+        afterSignature: next?.signature,
+        startLine: next?.startLine,
+        endLine: next?.endLine,
+      });
+    });
+
+  return changes;
+}
+
+/**
+ * importer가 filePath에서 가져오는 변경 심볼 + import 라인
+ */
+function findUsedSymbols(
+  importer: SourceFileNode | undefined,
+  filePath: string,
+  changedNames: Set<string>,
+  graph: SnapshotGraph
+): Pick<ImpactedFile, 'usedSymbols' | 'importLines'> {
+  const usedSymbols = new Set<string>();
+  const importLines = new Set<number>();
+  if (!importer) return { usedSymbols: [], importLines: [] };
+
+  const lineOffset = graph.lineOffsets.get(importer.filePath) ?? 0;
+  getImports(importer).forEach((imp) => {
+    if (resolvePath(importer.filePath, imp.from, graph.files) !== filePath) return;
+
+    const name = imp.isNamespace ? '*' : imp.isDefault ? 'default' : imp.name;
+    if (name === '*' || changedNames.has(name)) {
+      usedSymbols.add(name);
+      importLines.add(imp.line + lineOffset);
+    }
+  });
+
+  return { usedSymbols: Array.from(usedSymbols), importLines: Array.from(importLines).sort((a, b) => a - b) };
+}
+
+export function analyzeChangeImpact(
+  before: SnapshotGraph,
+  after: SnapshotGraph,
+  labels: { before: string; after: string }
+): ChangeImpactReport {
+  const beforeNodes = new Map(before.graphData.nodes.map((node) => [node.filePath, node]));
+  const afterNodes = new Map(after.graphData.nodes.map((node) => [node.filePath, node]));
+  const paths = Array.from(new Set([...beforeNodes.keys(), ...afterNodes.keys()])).sort();
+
+  const files: FileImpact[] = [];
+  const impacted = new Set<string>();
+
+  paths.forEach((filePath) => {
+    const beforeNode = beforeNodes.get(filePath);
+    const afterNode = afterNodes.get(filePath);
+    if (beforeNode && afterNode && beforeNode.codeSnippet === afterNode.codeSnippet) return;
+
+    const symbols = diffExportedSymbols(
+      beforeNode
+        ? { node: beforeNode, lineOffset: before.lineOffsets.get(filePath) ?? 0, checker: before.checker }
+        : null,
+      afterNode ? { node: afterNode, lineOffset: after.lineOffsets.get(filePath) ?? 0, checker: after.checker } : null
+    );
+    const status = !beforeNode ? 'added' : !afterNode ? 'removed' : 'modified';
+    const fileImpact: FileImpact = { filePath, status, symbols, importedBy: [], importedByIndirect: [] };
+    files.push(fileImpact);
+
+    // 새 export만 추가된 파일은 기존 의존 파일에 영향 없음
+    const breaking = symbols.filter((symbol) => symbol.change !== 'added');
+    if (status === 'added' || (status === 'modified' && breaking.length === 0)) return;
+
+    const graph = afterNode ? after : before;
+    const nodesByPath = afterNode ? afterNodes : beforeNodes;
+    const changedNames = new Set(breaking.map((symbol) => symbol.name));
+    const dependencies = analyzeDependencies(filePath, graph.graphData, graph.files);
+
+    const toImpactedFile = (item: DependencyItem, depth: number): ImpactedFile => ({
+      filePath: item.filePath,
+      depth,
+      via: item.directImporter ?? null,
+      ...(depth === 0
+        ? findUsedSymbols(nodesByPath.get(item.filePath), filePath, changedNames, graph)
+        : { usedSymbols: [], importLines: [] }),
+    });
+
+    fileImpact.importedBy = dependencies.importedBy
+      .filter((item) => afterNodes.has(item.filePath))
+      .map((item) => toImpactedFile(item, 0));
+    fileImpact.importedByIndirect = dependencies.importedByIndirect
+      .filter((item) => afterNodes.has(item.filePath))
+      .map((item) => toImpactedFile(item, item.depth));
+
+    [...fileImpact.importedBy, ...fileImpact.importedByIndirect].forEach((item) => {
+      impacted.add(item.filePath);
+    });
+  });
+
+  const changedPaths = new Set(files.map((file) => file.filePath));
+  return {
+    beforeLabel: labels.before,
+    afterLabel: labels.after,
+    files,
+    impactedFileCount: Array.from(impacted).filter((path) => !changedPaths.has(path)).length,
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * Change Impact → CodeViewer 라인 표시
+ * - 변경 파일: 바뀐 export 선언 범위 (after 버전 라인)
+ * - 직접 의존 파일: 변경 심볼을 가져오는 import 문
+ */
+
+import type { ChangeImpactReport, SymbolChangeKind } from './changeImpact';
+
+export interface ImpactLineMark {
+  startLine: number;
+  endLine: number;
+  change: Exclude<SymbolChangeKind, 'removed'> | 'import';
+  title: string;
+}
+
+const CHANGE_LABELS: Record<ImpactLineMark['change'], string> = {
+  added: 'Added export',
+  signature: 'Signature changed',
+  body: 'Implementation changed',
+  import: 'Imports changed symbols',
+};
+
+export function collectImpactLineMarks(report: ChangeImpactReport): Map<string, ImpactLineMark[]> {
+  const marks = new Map<string, ImpactLineMark[]>();
+  const add = (filePath: string, mark: ImpactLineMark) => {
+    const list = marks.get(filePath) ?? [];
+    list.push(mark);
+    marks.set(filePath, list);
+  };
+
+  report.files.forEach((file) => {
+    file.symbols.forEach((symbol) => {
+      if (symbol.change === 'removed' || symbol.startLine === undefined || symbol.endLine === undefined) return;
+      add(file.filePath, {
+        startLine: symbol.startLine,
+        endLine: symbol.endLine,
+        change: symbol.change,
+        title: `${CHANGE_LABELS[symbol.change]}: ${symbol.name}`,
+      });
+    });
+
+    file.importedBy.forEach((importer) => {
+      importer.importLines.forEach((line) => {
+        add(importer.filePath, {
+          startLine: line,
+          endLine: line,
+          change: 'import',
+          title: `${CHANGE_LABELS.import} from ${file.filePath}: ${importer.usedSymbols.join(', ')}`,
+        });
+      });
+    });
+  });
+
+  return marks;
+}
+
+export function getChangeLabel(change: ImpactLineMark['change']): string {
+  return CHANGE_LABELS[change];
+}
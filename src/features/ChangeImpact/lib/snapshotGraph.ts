@@ -0,0 +1,60 @@
+/**
+ * 프로젝트 스냅샷 → 가벼운 GraphData (파일 노드만)
+ * - 비교용 before / after 버전은 Worker 파싱 (LSIF, diagnostics) 없이 AST만 생성
+ * - View가 없으므로 getExports / getImports는 AST fallback으로 동작
+ * - TS/JS 파일의 AST는 스냅샷 Program에서 가져옴 → annotation 없는 export 타입을 checker로 추론
+ */
+
+import * as ts from 'typescript';
+import type { GraphData, SourceFileNode } from '@/entities/SourceFileNode/model/types';
+import { isSourceFile } from '@/shared/fileSystem/sourceFiles';
+import { createLanguageServiceHost } from '@/shared/tsParser/utils/languageService';
+import { extractVueScript } from '@/shared/tsParser/utils/vueExtractor';
+
+export interface ProjectSnapshot {
+  label: string; // 'Workspace', 'Upload: my-app', 'Commit a1b2c3d' 등
+  files: Record<string, string>; // filesAtom과 같은 경로 체계
+}
+
+export interface SnapshotGraph {
+  files: Record<string, string>;
+  graphData: GraphData;
+  lineOffsets: Map<string, number>; // Vue 파일: <script> 시작 라인 (AST 라인 → 파일 라인 보정)
+  checker: ts.TypeChecker | null; // Vue 파일 AST는 Program에 속하지 않으므로 사용 불가
+}
+
+const getScriptKind = (filePath: string) =>
+  filePath.endsWith('.tsx') ? ts.ScriptKind.TSX : filePath.endsWith('.jsx') ? ts.ScriptKind.JSX : ts.ScriptKind.TS;
+
+export function buildSnapshotGraph(files: Record<string, string>): SnapshotGraph {
+  const nodes: SourceFileNode[] = [];
+  const lineOffsets = new Map<string, number>();
+  // 공유 캐시 (createLanguageService)를 덮어쓰지 않도록 스냅샷 전용 Language Service
+  const program = ts.createLanguageService(createLanguageServiceHost(files)).getProgram();
+
+  Object.entries(files).forEach(([filePath, content]) => {
+    if (!isSourceFile(filePath)) return;
+
+    let script = content;
+    if (filePath.endsWith('.vue')) {
+      script = extractVueScript(content, filePath) ?? '';
+      const scriptStart = script ? content.indexOf(script) : -1;
+      if (scriptStart > 0) lineOffsets.set(filePath, content.slice(0, scriptStart).split('\n').length - 1);
+    }
+
+    const fileName = filePath.split('/').pop() || filePath;
+    nodes.push({
+      id: filePath,
+      label: fileName.replace(/\.(tsx?|jsx?|vue)$/, ''),
+      filePath,
+      type: 'file',
+      codeSnippet: content,
+      startLine: 1,
+      sourceFile:
+        (!filePath.endsWith('.vue') && program?.getSourceFile(filePath)) ||
+        ts.createSourceFile(filePath, script, ts.ScriptTarget.Latest, true, getScriptKind(filePath)),
+    });
+  });
+
+  return { files, graphData: { nodes }, lineOffsets, checker: program?.getTypeChecker() ?? null };
+}
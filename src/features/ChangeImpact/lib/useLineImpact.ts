@@ -0,0 +1,13 @@
+/**
+ * useLineImpact Hook
+ * 코드 라인이 Change Impact 표시 범위에 속하는지 (변경 선언 / 영향받는 import)
+ */
+
+import { useAtomValue } from 'jotai';
+import { impactLineMarksAtom } from '../model/atoms';
+import type { ImpactLineMark } from './impactMarks';
+
+export function useLineImpact(filePath: string, lineNum: number): ImpactLineMark | undefined {
+  const marks = useAtomValue(impactLineMarksAtom);
+  return marks.get(filePath)?.find((mark) => mark.startLine <= lineNum && lineNum <= mark.endLine);
+}
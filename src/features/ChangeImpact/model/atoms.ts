@@ -0,0 +1,27 @@
+/**
+ * Change Impact - State Management
+ * before 스냅샷 / after 대상 선택 + 분석 결과
+ */
+
+import { atom } from 'jotai';
+import type { ChangeImpactReport } from '../lib/changeImpact';
+import { collectImpactLineMarks, type ImpactLineMark } from '../lib/impactMarks';
+import type { ProjectSnapshot } from '../lib/snapshotGraph';
+
+// Change Impact 패널 열림 여부
+export const changeImpactPanelOpenAtom = atom<boolean>(false);
+
+// 비교 기준 (before) - 현재 workspace 스냅샷 / 업로드한 폴더 / git 커밋
+export const impactBeforeSnapshotAtom = atom(null as ProjectSnapshot | null);
+
+// 비교 대상 (after) - null: 현재 workspace, 그 외: git 커밋 hash
+export const impactAfterCommitAtom = atom(null as string | null);
+
+// 분석 결과 (afterIsWorkspace: 라인 표시가 현재 파일과 일치하는지)
+export const changeImpactResultAtom = atom(null as { report: ChangeImpactReport; afterIsWorkspace: boolean } | null);
+
+// filePath → CodeViewer 라인 표시 (after가 현재 workspace일 때만)
+export const impactLineMarksAtom = atom((get) => {
+  const result = get(changeImpactResultAtom);
+  return result?.afterIsWorkspace ? collectImpactLineMarks(result.report) : new Map<string, ImpactLineMark[]>();
+});
@@ -0,0 +1,327 @@
+/**
+ * ChangeImpactPanel Component
+ * 두 스냅샷 사이의 변경 export 심볼 + 그 심볼에 의존하는 파일 (Git diff가 보여주지 않는 영향 범위)
+ *
+ * - Before: 현재 workspace 스냅샷 / 다른 폴더 업로드 / git 커밋
+ * - After: 현재 workspace (편집, live mount, 패치 적용 후) / git 커밋
+ * - 항목 클릭: 해당 파일/라인 열기 (after가 현재 workspace일 때 CodeViewer에 변경 라인 표시)
+ */
+
+import { useAtom, useAtomValue } from 'jotai';
+import { X as IconClose, FolderOpen as IconFolder, Camera as IconSnapshot } from 'lucide-react';
+import type React from 'react';
+import { useRef, useState } from 'react';
+import { filesAtom } from '@/entities/AppView/model/atoms';
+import { useOpenFile } from '@/features/File/OpenFiles/lib/useOpenFile';
+import { splitGitDirectory } from '@/features/Git/lib/gitUpload';
+import { gitClientAtom, gitLogAtom, gitRepositoryAtom } from '@/features/Git/model/atoms';
+import { uploadFilterOptionsAtom } from '@/features/UploadFolder/model/atoms';
+import { getCommonRootFolder } from '@/features/ZipArchive/lib/workspaceSnapshot';
+import { isProjectFile } from '@/shared/fileSystem/projectFiles';
+import { planUpload, readGitignoreFiles, readPlannedFiles, toFileCandidates } from '@/shared/fileSystem/uploadFilter';
+import { analyzeChangeImpact, type FileImpact, type SymbolChange } from '../lib/changeImpact';
+import { buildSnapshotGraph } from '../lib/snapshotGraph';
+import {
+  changeImpactPanelOpenAtom,
+  changeImpactResultAtom,
+  impactAfterCommitAtom,
+  impactBeforeSnapshotAtom,
+} from '../model/atoms';
+
+const CHANGE_BADGES: Record<SymbolChange['change'], { label: string; className: string }> = {
+  added: { label: 'added', className: 'text-emerald-400 bg-emerald-900/30' },
+  removed: { label: 'removed', className: 'text-red-400 bg-red-900/30' },
+  signature: { label: 'signature', className: 'text-orange-400 bg-orange-900/30' },
+  body: { label: 'body', className: 'text-amber-300 bg-amber-900/30' },
+};
+
+const STATUS_LETTERS: Record<FileImpact['status'], { letter: string; className: string }> = {
+  added: { letter: 'A', className: 'text-emerald-400' },
+  removed: { letter: 'D', className: 'text-red-400' },
+  modified: { letter: 'M', className: 'text-amber-300' },
+};
+
+const BUTTON_CLASS =
+  'flex items-center gap-1 px-1.5 py-0.5 rounded border border-border-light text-text-secondary hover:bg-white/10 hover:text-text-primary disabled:opacity-50';
+
+/**
+ * 업로드 폴더의 루트 이름을 현재 workspace 루트로 맞춤 (my-app-v1/src/a.ts → my-app/src/a.ts)
+ */
+function remapRootFolder(files: Record<string, string>, targetRoot: string | null): Record<string, string> {
+  const sourceRoot = getCommonRootFolder(Object.keys(files));
+  if (!sourceRoot || !targetRoot || sourceRoot === targetRoot) return files;
+
+  const remapped: Record<string, string> = {};
+  Object.entries(files).forEach(([path, content]) => {
+    remapped[`${targetRoot}${path.slice(sourceRoot.length)}`] = content;
+  });
+  return remapped;
+}
+
+export const ChangeImpactPanel: React.FC = () => {
+  const [isOpen, setIsOpen] = useAtom(changeImpactPanelOpenAtom);
+  const files = useAtomValue(filesAtom);
+  const [before, setBefore] = useAtom(impactBeforeSnapshotAtom);
+  const [afterCommit, setAfterCommit] = useAtom(impactAfterCommitAtom);
+  const [result, setResult] = useAtom(changeImpactResultAtom);
+  const gitClient = useAtomValue(gitClientAtom);
+  const gitRepository = useAtomValue(gitRepositoryAtom);
+  const gitLog = useAtomValue(gitLogAtom);
+  const filterOptions = useAtomValue(uploadFilterOptionsAtom);
+  const { openFile } = useOpenFile();
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [busyMessage, setBusyMessage] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const getCommitLabel = (hash: string) => {
+    const commit = gitLog.find((c) => c.hash === hash);
+    return `Commit ${hash.slice(0, 7)}${commit ? ` ${commit.subject}` : ''}`;
+  };
+
+  // 커밋의 소스 / 설정 파일 (업로드 경로 기준)
+  const readCommitFiles = async (hash: string) => {
+    if (!gitClient || !gitRepository) throw new Error('No git repository loaded.');
+    const paths = (await gitClient.listFiles(hash)).filter(isProjectFile);
+    const repoFiles = await gitClient.readFiles(hash, paths);
+
+    const commitFiles: Record<string, string> = {};
+    Object.entries(repoFiles).forEach(([path, content]) => {
+      commitFiles[`${gitRepository.rootFolder}/${path}`] = content;
+    });
+    return commitFiles;
+  };
+
+  const runTask = async (message: string, task: () => Promise<void>) => {
+    setBusyMessage(message);
+    try {
+      await task();
+    } catch (err) {
+      console.error('[ChangeImpact] Failed:', err);
+      alert(err instanceof Error ? err.message : 'Change impact analysis failed.');
+    } finally {
+      setBusyMessage(null);
+    }
+  };
+
+  const handleSnapshotWorkspace = () => {
+    setBefore({ label: `Workspace @ ${new Date().toLocaleTimeString()}`, files });
+    setResult(null);
+  };
+
+  const handleBeforeCommit = (hash: string) =>
+    runTask('Reading commit…', async () => {
+      setBefore({ label: getCommitLabel(hash), files: await readCommitFiles(hash) });
+      setResult(null);
+    });
+
+  // 다른 버전 폴더 업로드 (업로드와 같은 필터, .git 제외)
+  const handleFolderSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const fileList = e.target.files;
+    if (!fileList || fileList.length === 0) return;
+
+    const { candidates } = splitGitDirectory(toFileCandidates(Array.from<File>(fileList)));
+    e.target.value = '';
+
+    runTask('Reading folder…', async () => {
+      const plan = planUpload(
+        candidates,
+        filterOptions.useGitignore ? await readGitignoreFiles(candidates) : {},
+        filterOptions
+      );
+      const folderFiles = await readPlannedFiles(plan.included);
+      const label = `Folder ${getCommonRootFolder(Object.keys(folderFiles)) ?? 'upload'}`;
+
+      setBefore({ label, files: remapRootFolder(folderFiles, getCommonRootFolder(Object.keys(files))) });
+      setResult(null);
+    });
+  };
+
+  const handleAnalyze = () =>
+    runTask('Analyzing…', async () => {
+      if (!before) return;
+      const afterFiles = afterCommit ? await readCommitFiles(afterCommit) : files;
+
+      // 메시지 렌더 후 분석 (AST 생성은 동기)
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      const report = analyzeChangeImpact(buildSnapshotGraph(before.files), buildSnapshotGraph(afterFiles), {
+        before: before.label,
+        after: afterCommit ? getCommitLabel(afterCommit) : 'Workspace',
+      });
+      setResult({ report, afterIsWorkspace: !afterCommit });
+    });
+
+  // after가 현재 workspace인 경우에만 라인 이동 (커밋 버전 라인은 현재 파일과 다를 수 있음)
+  const handleOpen = (filePath: string, lineNumber?: number) => {
+    if (files[filePath] === undefined) return;
+    openFile(filePath, result?.afterIsWorkspace && lineNumber ? { lineNumber } : {});
+  };
+
+  const report = result?.report;
+
+  return (
+    <div className="flex-none h-64 flex flex-col border-t border-border-light bg-bg-elevated text-xs">
+      {/* Header */}
+      <div className="flex items-center gap-2 px-3 py-1.5 border-b border-border-light">
+        <span className="font-medium uppercase tracking-wide text-text-secondary">Change Impact</span>
+
+        <span className="ml-2 text-text-muted">Before:</span>
+        <span className="max-w-[220px] truncate text-text-primary" title={before?.label}>
+          {before?.label ?? 'not set'}
+        </span>
+        <button type="button" className={BUTTON_CLASS} onClick={handleSnapshotWorkspace} disabled={!!busyMessage}>
+          <IconSnapshot className="w-3 h-3" /> Snapshot workspace
+        </button>
+        <button
+          type="button"
+          className={BUTTON_CLASS}
+          onClick={() => folderInputRef.current?.click()}
+          disabled={!!busyMessage}
+        >
+          <IconFolder className="w-3 h-3" /> Folder…
+        </button>
+        {gitClient && gitLog.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => e.target.value && handleBeforeCommit(e.target.value)}
+            className="bg-bg-deep border border-border-light rounded px-1.5 py-0.5 text-text-secondary max-w-[180px]"
+            title="Use a commit as the before version"
+            disabled={!!busyMessage}
+          >
+            <option value="">Commit…</option>
+            {gitLog.map((commit) => (
+              <option key={commit.hash} value={commit.hash}>
+                {commit.hash.slice(0, 7)} {commit.subject}
+              </option>
+            ))}
+          </select>
+        )}
+
+        <span className="ml-2 text-text-muted">After:</span>
+        <select
+          value={afterCommit ?? ''}
+          onChange={(e) => setAfterCommit(e.target.value || null)}
+          className="bg-bg-deep border border-border-light rounded px-1.5 py-0.5 text-text-secondary max-w-[180px]"
+          disabled={!!busyMessage}
+        >
+          <option value="">Current workspace</option>
+          {gitClient &&
+            gitLog.map((commit) => (
+              <option key={commit.hash} value={commit.hash}>
+                {commit.hash.slice(0, 7)} {commit.subject}
+              </option>
+            ))}
+        </select>
+
+        <button
+          type="button"
+          className={`${BUTTON_CLASS} text-text-primary`}
+          onClick={handleAnalyze}
+          disabled={!before || !!busyMessage}
+        >
+          Analyze
+        </button>
+        {busyMessage && <span className="text-text-muted">{busyMessage}</span>}
+
+        <button
+          type="button"
+          onClick={() => setIsOpen(false)}
+          className="ml-auto p-1 rounded text-text-tertiary hover:bg-white/10 hover:text-text-primary"
+          title="Close"
+        >
+          <IconClose className="w-3.5 h-3.5" />
+        </button>
+        <input
+          ref={folderInputRef}
+          type="file"
+          // @ts-expect-error - webkitdirectory is not in standard HTML types
+          webkitdirectory=""
+          multiple
+          className="hidden"
+          onChange={handleFolderSelect}
+        />
+      </div>
+
+      {/* Report */}
+      <div className="flex-1 overflow-y-auto py-1">
+        {!report && (
+          <div className="px-3 py-2 text-text-muted">
+            Set a before version (workspace snapshot, another folder, or a commit), then Analyze.
+          </div>
+        )}
+
+        {report && (
+          <div className="px-3 py-1 text-text-muted">
+            {report.beforeLabel} → {report.afterLabel}: {report.files.length} changed file
+            {report.files.length === 1 ? '' : 's'}, {report.impactedFileCount} dependent file
+            {report.impactedFileCount === 1 ? '' : 's'}
+          </div>
+        )}
+
+        {report?.files.map((file) => (
+          <div key={file.filePath} className="pb-1">
+            <button
+              type="button"
+              onClick={() => handleOpen(file.filePath)}
+              className="w-full flex items-center gap-2 px-3 py-0.5 text-left hover:bg-white/5"
+            >
+              <span className={`font-mono ${STATUS_LETTERS[file.status].className}`}>
+                {STATUS_LETTERS[file.status].letter}
+              </span>
+              <span className="font-medium text-text-primary">{file.filePath.split('/').pop()}</span>
+              <span className="text-text-muted truncate">{file.filePath}</span>
+              {file.importedBy.length + file.importedByIndirect.length > 0 && (
+                <span className="ml-auto shrink-0 text-text-muted">
+                  {file.importedBy.length} direct · {file.importedByIndirect.length} indirect
+                </span>
+              )}
+            </button>
+
+            {file.symbols.map((symbol) => (
+              <button
+                key={symbol.name}
+                type="button"
+                onClick={() => handleOpen(file.filePath, symbol.startLine)}
+                className="w-full flex items-start gap-2 pl-8 pr-3 py-0.5 text-left hover:bg-white/5"
+              >
+                <span className={`shrink-0 px-1 rounded text-2xs ${CHANGE_BADGES[symbol.change].className}`}>
+                  {CHANGE_BADGES[symbol.change].label}
+                </span>
+                <span className="shrink-0 text-text-primary font-mono">{symbol.name}</span>
+                <span className="shrink-0 text-text-muted">{symbol.kind}</span>
+                {symbol.change === 'signature' && (
+                  <span className="text-text-secondary font-mono truncate" title={symbol.afterSignature}>
+                    {symbol.beforeSignature} → {symbol.afterSignature}
+                  </span>
+                )}
+              </button>
+            ))}
+
+            {[...file.importedBy, ...file.importedByIndirect].map((dependent) => (
+              <button
+                key={dependent.filePath}
+                type="button"
+                onClick={() => handleOpen(dependent.filePath, dependent.importLines[0])}
+                className="w-full flex items-center gap-2 pl-8 pr-3 py-0.5 text-left hover:bg-white/5"
+              >
+                <span className="shrink-0 text-text-muted">
+                  {dependent.depth === 0 ? 'uses' : `depth ${dependent.depth}`}
+                </span>
+                <span className="text-text-secondary truncate">{dependent.filePath}</span>
+                <span className="ml-auto shrink-0 text-text-muted font-mono">
+                  {dependent.depth === 0
+                    ? dependent.usedSymbols.join(', ')
+                    : `via ${dependent.via?.split('/').pop() ?? ''}`}
+                </span>
+              </button>
+            ))}
+
+            {file.status === 'modified' && file.symbols.length === 0 && (
+              <div className="pl-8 pr-3 py-0.5 text-text-muted">No exported symbol changes</div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
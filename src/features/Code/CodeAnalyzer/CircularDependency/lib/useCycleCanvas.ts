@@ -0,0 +1,64 @@
+/**
+ * useCycleCanvas Hook
+ * 순환 의존성 멤버를 Canvas에 배치하고 순환 경로 + 닫는 edge를 강조
+ */
+
+import { useSetAtom } from 'jotai';
+import { viewModeAtom } from '@/entities/AppView/model/atoms';
+import type { CircularDependency } from '@/shared/dependencyAnalyzer';
+import {
+  cardPositionsAtom,
+  cycleLinksAtom,
+  lastExpandedIdAtom,
+  visibleNodeIdsAtom,
+} from '@/widgets/MainContents/PipelineCanvas/model/atoms';
+
+// Canvas 배치 간격 (useDataFlowTrace와 동일한 카드 기준)
+const COLUMN_GAP = 760;
+const ROW_GAP = 900;
+
+export function useCycleCanvas() {
+  const setViewMode = useSetAtom(viewModeAtom);
+  const setVisibleNodeIds = useSetAtom(visibleNodeIdsAtom);
+  const setCardPositions = useSetAtom(cardPositionsAtom);
+  const setLastExpandedId = useSetAtom(lastExpandedIdAtom);
+  const setCycleLinks = useSetAtom(cycleLinksAtom);
+
+  /**
+   * 대표 경로를 역순으로 (import되는 파일이 왼쪽) 한 줄에 배치, 나머지 SCC 멤버는 아랫줄
+   * - 경로의 각 import는 왼쪽 → 오른쪽, 순환을 닫는 edge만 오른쪽 끝 → 왼쪽 끝으로 되돌아감
+   */
+  const showOnCanvas = (cycle: CircularDependency) => {
+    const pathRow = [...cycle.path].reverse();
+    const others = cycle.files.filter((filePath) => !cycle.path.includes(filePath));
+
+    setCardPositions((prev) => {
+      const next = new Map(prev);
+      pathRow.forEach((filePath, index) => {
+        next.set(filePath, { x: index * COLUMN_GAP, y: 0 });
+      });
+      others.forEach((filePath, index) => {
+        next.set(filePath, { x: index * COLUMN_GAP, y: ROW_GAP });
+      });
+      return next;
+    });
+
+    // Canvas 링크: source = import되는 파일 (dependency), target = import하는 파일
+    setCycleLinks(
+      cycle.path.map((filePath, index) => {
+        const isClosing = index === cycle.path.length - 1;
+        const imported = isClosing ? cycle.path[0] : cycle.path[index + 1];
+        return { source: imported, target: filePath, kind: 'cycle', closesLoop: isClosing };
+      })
+    );
+    setVisibleNodeIds(new Set(cycle.files));
+    setLastExpandedId(pathRow[0]);
+    setViewMode('canvas');
+  };
+
+  const clearCycleHighlight = () => {
+    setCycleLinks([]);
+  };
+
+  return { showOnCanvas, clearCycleHighlight };
+}
@@ -0,0 +1,10 @@
+/**
+ * CircularDependency - Atoms
+ * import 그래프의 순환 의존성 (SCC) 목록
+ */
+import { atom } from 'jotai';
+import { filesAtom, graphDataAtom } from '@/entities/AppView/model/atoms';
+import { findCircularDependencies } from '@/shared/dependencyAnalyzer';
+
+// 구독 중일 때만 graphData / files 변경 시 재계산 (runtime 순환 먼저, 짧은 순서)
+export const circularDependenciesAtom = atom((get) => findCircularDependencies(get(graphDataAtom), get(filesAtom)));
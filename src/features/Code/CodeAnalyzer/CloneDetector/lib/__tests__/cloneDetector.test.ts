@@ -0,0 +1,145 @@
+/**
+ * Clone Detector 테스트
+ *
+ * 이름 / 리터럴만 바꾼 복사본 (exact), 일부 문장이 다른 복사본 (near)을 찾고
+ * 서로 다른 함수는 묶지 않는지 확인
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createGraph } from '@/entities/SourceFileNode/lib/__tests__/fixtures';
+import { type CloneDetectionOptions, detectClones } from '../cloneDetector';
+
+const OPTIONS: CloneDetectionOptions = { minTokens: 20, similarityThreshold: 0.8 };
+
+const SUM_PRICES = `
+export function sumPrices(items: Item[]) {
+  let total = 0;
+  for (const item of items) {
+    if (item.price > 0) {
+      total += item.price * item.quantity;
+    }
+  }
+  return Math.round(total * 100) / 100;
+}
+`;
+
+// 이름 / 리터럴만 다른 복사본
+const SUM_WEIGHTS = `
+export function sumWeights(parcels: Parcel[]) {
+  let result = 0;
+  for (const parcel of parcels) {
+    if (parcel.weight > 1) {
+      result += parcel.weight * parcel.count;
+    }
+  }
+  return Math.round(result * 1000) / 1000;
+}
+`;
+
+const UNRELATED = `
+export async function loadUser(id: string) {
+  const response = await fetch('/api/users/' + id);
+  if (!response.ok) throw new Error('Failed to load user');
+  const user = await response.json();
+  return { ...user, loadedAt: Date.now() };
+}
+`;
+
+describe('Clone Detector', () => {
+  it('이름 / 리터럴만 바꾼 복사본 → exact clone', () => {
+    const results = detectClones(
+      createGraph({ 'src/a.ts': SUM_PRICES, 'src/b.ts': SUM_WEIGHTS, 'src/c.ts': UNRELATED }),
+      OPTIONS
+    );
+
+    expect(results.functionCount).toBe(3);
+    expect(results.classes).toHaveLength(1);
+
+    const [cloneClass] = results.classes;
+    expect(cloneClass.kind).toBe('exact');
+    expect(cloneClass.similarity).toBe(1);
+    expect(
+      cloneClass.members.map(({ filePath, name, startLine, endLine }) => [filePath, name, startLine, endLine])
+    ).toEqual([
+      ['src/a.ts', 'sumPrices', 2, 10],
+      ['src/b.ts', 'sumWeights', 2, 10],
+    ]);
+    expect(results.duplicatedLineCount).toBe(9);
+  });
+
+  it('문장 하나가 다른 복사본 → near clone (threshold 이상)', () => {
+    const summarize = `
+export function summarize(orders: Order[]) {
+  let total = 0;
+  let count = 0;
+  const byStatus: Record<string, number> = {};
+  for (const order of orders) {
+    if (order.status === 'cancelled') continue;
+    total += order.amount;
+    count += 1;
+    byStatus[order.status] = (byStatus[order.status] ?? 0) + 1;
+  }
+  const average = count > 0 ? total / count : 0;
+  const rounded = Math.round(average * 100) / 100;
+  return { total, count, average: rounded, byStatus };
+}
+`;
+    const modified = summarize
+      .replace('summarize(', 'summarizeInvoices(')
+      .replace('  const average', '  console.log(total);\n  const average');
+    const graph = createGraph({ 'src/a.ts': summarize, 'src/b.ts': modified });
+    const results = detectClones(graph, OPTIONS);
+
+    expect(results.classes).toHaveLength(1);
+    const [cloneClass] = results.classes;
+    expect(cloneClass.kind).toBe('near');
+    expect(cloneClass.similarity).toBeGreaterThanOrEqual(0.8);
+    expect(cloneClass.similarity).toBeLessThan(1);
+    // 대표는 가장 긴 함수
+    expect(cloneClass.members[0].name).toBe('summarizeInvoices');
+
+    expect(detectClones(graph, { ...OPTIONS, similarityThreshold: 0.99 }).classes).toEqual([]);
+  });
+
+  it('class 메서드 / arrow function 이름', () => {
+    const method = `
+export class Cart {
+  sum(items: Item[]) {
+    let total = 0;
+    for (const item of items) {
+      if (item.price > 0) {
+        total += item.price * item.quantity;
+      }
+    }
+    return Math.round(total * 100) / 100;
+  }
+}
+`;
+    const arrow = SUM_WEIGHTS.replace(
+      'export function sumWeights(parcels: Parcel[]) {',
+      'export const sumWeights = (parcels: Parcel[]) => {'
+    );
+    const results = detectClones(createGraph({ 'src/cart.ts': method, 'src/b.ts': arrow }), OPTIONS);
+
+    expect(results.classes[0]?.members.map((member) => member.name).sort()).toEqual(['Cart.sum', 'sumWeights']);
+  });
+
+  it('minTokens보다 짧은 함수 / .vue / .d.ts는 제외', () => {
+    const results = detectClones(
+      createGraph({
+        'src/a.ts': SUM_PRICES,
+        'src/App.vue': SUM_PRICES,
+        'src/types.d.ts': SUM_PRICES,
+      }),
+      OPTIONS
+    );
+    expect(results.functionCount).toBe(1);
+    expect(results.classes).toEqual([]);
+
+    const short = detectClones(createGraph({ 'src/a.ts': SUM_PRICES, 'src/b.ts': SUM_WEIGHTS }), {
+      ...OPTIONS,
+      minTokens: 1000,
+    });
+    expect(short.functionCount).toBe(0);
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * Clone Detector - 함수 본문 중복 (copy-paste) 탐지
+ *
+ * 1. 정규화: 함수 본문 AST 토큰에서 식별자 → 'I', 리터럴 → 'L' (나머지는 SyntaxKind 그대로)
+ *    - 변수 이름 / 문자열만 바꾼 복사본도 같은 토큰 열이 됨
+ * 2. Exact: 정규화된 토큰 열이 완전히 같은 함수들
+ * 3. Near: 토큰 5-gram 집합의 Jaccard 유사도 ≥ threshold
+ *    - prefix filtering (희귀한 shingle 순으로 앞쪽만 색인)으로 후보 쌍만 비교
+ *    - 유사한 쌍을 union-find로 묶어 clone class 구성
+ *
+ * .vue 파일은 <script> 라인 오프셋을 알 수 없어 제외
+ */
+
+import * as ts from 'typescript';
+import type { GraphData } from '@/entities/SourceFileNode/model/types';
+
+export interface CloneDetectionOptions {
+  minTokens: number; // 이보다 짧은 함수는 무시 (getter, 한 줄 wrapper 등)
+  similarityThreshold: number; // near clone 기준 (0~1)
+}
+
+export const DEFAULT_CLONE_DETECTION_OPTIONS: CloneDetectionOptions = {
+  minTokens: 40,
+  similarityThreshold: 0.8,
+};
+
+export interface CloneMember {
+  filePath: string;
+  name: string; // 'formatDate', 'UserStore.load', '(anonymous)'
+  startLine: number;
+  endLine: number;
+  tokenCount: number;
+  similarity: number; // class 대표 (첫 멤버)와의 유사도 (대표 자신: 1)
+}
+
+export interface CloneClass {
+  id: string;
+  kind: 'exact' | 'near';
+  similarity: number; // 멤버 중 가장 낮은 유사도
+  tokenCount: number; // 대표 멤버의 토큰 수
+  members: CloneMember[];
+}
+
+export interface CloneDetectionResults {
+  classes: CloneClass[];
+  functionCount: number; // 비교 대상이 된 함수 수
+  duplicatedLineCount: number; // 대표를 제외한 멤버들의 라인 합
+}
+
+interface FunctionFragment {
+  filePath: string;
+  name: string;
+  startLine: number;
+  endLine: number;
+  tokens: string[];
+}
+
+const SHINGLE_SIZE = 5;
+
+const LITERAL_KINDS = new Set([
+  ts.SyntaxKind.StringLiteral,
+  ts.SyntaxKind.NumericLiteral,
+  ts.SyntaxKind.BigIntLiteral,
+  ts.SyntaxKind.RegularExpressionLiteral,
+  ts.SyntaxKind.NoSubstitutionTemplateLiteral,
+  ts.SyntaxKind.TemplateHead,
+  ts.SyntaxKind.TemplateMiddle,
+  ts.SyntaxKind.TemplateTail,
+  ts.SyntaxKind.JsxText,
+  ts.SyntaxKind.TrueKeyword,
+  ts.SyntaxKind.FalseKeyword,
+]);
+
+// ========================================
+// Phase 1: 함수 수집 + 정규화
+// ========================================
+
+/**
+ * 본문 토큰 → 정규화 토큰 열
+ */
+function normalizeTokens(node: ts.Node, sourceFile: ts.SourceFile, tokens: string[] = []): string[] {
+  if (node.kind === ts.SyntaxKind.Identifier || node.kind === ts.SyntaxKind.PrivateIdentifier) {
+    tokens.push('I');
+    return tokens;
+  }
+  if (LITERAL_KINDS.has(node.kind)) {
+    // 들여쓰기만 있는 JSX 텍스트는 토큰 아님
+    if (node.kind !== ts.SyntaxKind.JsxText || (node as ts.JsxText).text.trim()) tokens.push('L');
+    return tokens;
+  }
+
+  const children = node.getChildren(sourceFile);
+  if (children.length === 0) {
+    tokens.push(String(node.kind));
+    return tokens;
+  }
+
+  children.forEach((child) => {
+    normalizeTokens(child, sourceFile, tokens);
+  });
+  return tokens;
+}
+
+function getFunctionName(node: ts.FunctionLikeDeclaration): string {
+  const ownName = node.name && ts.isIdentifier(node.name) ? node.name.text : null;
+  const parent = node.parent;
+
+  if (ts.isMethodDeclaration(node) || ts.isConstructorDeclaration(node) || ts.isAccessor(node)) {
+    const className = ts.isClassLike(parent) && parent.name ? `${parent.name.text}.` : '';
+    return `${className}${ownName ?? 'constructor'}`;
+  }
+  if (ownName) return ownName;
+  if (ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name)) return parent.name.text;
+  if ((ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent)) && ts.isIdentifier(parent.name)) {
+    return parent.name.text;
+  }
+  return '(anonymous)';
+}
+
+function collectFunctions(sourceFile: ts.SourceFile, filePath: string, minTokens: number): FunctionFragment[] {
+  const fragments: FunctionFragment[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (ts.isFunctionLike(node) && 'body' in node && node.body) {
+      const body = node.body as ts.ConciseBody;
+      const tokens = normalizeTokens(body, sourceFile);
+
+      if (tokens.length >= minTokens) {
+        fragments.push({
+          filePath,
+          name: getFunctionName(node as ts.FunctionLikeDeclaration),
+          startLine: sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1,
+          endLine: sourceFile.getLineAndCharacterOfPosition(node.getEnd()).line + 1,
+          tokens,
+        });
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return fragments;
+}
+
+// ========================================
+// Phase 2: 유사도
+// ========================================
+
+function getShingles(tokens: string[]): Set<string> {
+  const shingles = new Set<string>();
+  for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+    shingles.add(tokens.slice(i, i + SHINGLE_SIZE).join(','));
+  }
+  return shingles;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let intersection = 0;
+  small.forEach((shingle) => {
+    if (large.has(shingle)) intersection++;
+  });
+  const union = a.size + b.size - intersection;
+  return union === 0 ? 1 : intersection / union;
+}
+
+/**
+ * 유사도 ≥ threshold일 수 있는 후보 쌍 (prefix filtering)
+ * - Jaccard ≥ t 이면 전역 순서 (희귀한 shingle 먼저)로 정렬한 앞쪽 |A| - ⌈t·|A|⌉ + 1개 중 하나는 반드시 공유
+ */
+function findCandidatePairs(shingleSets: Set<string>[], threshold: number): [number, number][] {
+  const frequency = new Map<string, number>();
+  shingleSets.forEach((shingles) => {
+    shingles.forEach((shingle) => {
+      frequency.set(shingle, (frequency.get(shingle) ?? 0) + 1);
+    });
+  });
+
+  const index = new Map<string, number[]>();
+  const pairs = new Set<string>();
+  const result: [number, number][] = [];
+
+  shingleSets.forEach((shingles, i) => {
+    const ordered = Array.from(shingles).sort(
+      (a, b) => frequency.get(a)! - frequency.get(b)! || (a < b ? -1 : a > b ? 1 : 0)
+    );
+    const prefixLength = ordered.length - Math.ceil(threshold * ordered.length) + 1;
+
+    ordered.slice(0, prefixLength).forEach((shingle) => {
+      const others = index.get(shingle) ?? [];
+      others.forEach((j) => {
+        const key = `${j}:${i}`;
+        if (!pairs.has(key)) {
+          pairs.add(key);
+          result.push([j, i]);
+        }
+      });
+      others.push(i);
+      index.set(shingle, others);
+    });
+  });
+
+  return result;
+}
+
+function createUnionFind(size: number) {
+  const parent = Array.from({ length: size }, (_, i) => i);
+  const find = (x: number): number => {
+    while (parent[x] !== x) {
+      parent[x] = parent[parent[x]];
+      x = parent[x];
+    }
+    return x;
+  };
+  const union = (a: number, b: number) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) parent[rootB] = rootA;
+  };
+  return { find, union };
+}
+
+// ========================================
+// Main
+// ========================================
+
+export function detectClones(
+  graphData: GraphData | null,
+  options: CloneDetectionOptions = DEFAULT_CLONE_DETECTION_OPTIONS
+): CloneDetectionResults {
+  const results: CloneDetectionResults = { classes: [], functionCount: 0, duplicatedLineCount: 0 };
+  if (!graphData) return results;
+
+  const fragments: FunctionFragment[] = [];
+  graphData.nodes.forEach((node) => {
+    if (node.type !== 'file' || !node.sourceFile || node.filePath.endsWith('.vue')) return;
+    if (node.filePath.endsWith('.d.ts') || node.filePath.includes('node_modules/')) return;
+    fragments.push(...collectFunctions(node.sourceFile, node.filePath, options.minTokens));
+  });
+  results.functionCount = fragments.length;
+
+  // Exact: 같은 정규화 토큰 열 → 하나의 대표 (near 비교는 대표끼리만)
+  const exactGroups = new Map<string, FunctionFragment[]>();
+  fragments.forEach((fragment) => {
+    const key = fragment.tokens.join(',');
+    const group = exactGroups.get(key) ?? [];
+    group.push(fragment);
+    exactGroups.set(key, group);
+  });
+  const groups = Array.from(exactGroups.values());
+  const shingleSets = groups.map((group) => getShingles(group[0].tokens));
+
+  // Near: 후보 쌍 검증 → union-find
+  const unionFind = createUnionFind(groups.length);
+  findCandidatePairs(shingleSets, options.similarityThreshold).forEach(([a, b]) => {
+    if (jaccard(shingleSets[a], shingleSets[b]) >= options.similarityThreshold) unionFind.union(a, b);
+  });
+
+  const components = new Map<number, number[]>();
+  groups.forEach((_, index) => {
+    const root = unionFind.find(index);
+    components.set(root, [...(components.get(root) ?? []), index]);
+  });
+
+  let classes: CloneClass[] = [];
+  components.forEach((groupIndices) => {
+    const memberCount = groupIndices.reduce((sum, index) => sum + groups[index].length, 0);
+    if (memberCount < 2) return;
+
+    // 대표: 가장 긴 함수 그룹
+    groupIndices.sort((a, b) => groups[b][0].tokens.length - groups[a][0].tokens.length);
+    const representative = shingleSets[groupIndices[0]];
+
+    const members: CloneMember[] = groupIndices.flatMap((index) => {
+      const similarity = index === groupIndices[0] ? 1 : jaccard(representative, shingleSets[index]);
+      return groups[index].map((fragment) => ({
+        filePath: fragment.filePath,
+        name: fragment.name,
+        startLine: fragment.startLine,
+        endLine: fragment.endLine,
+        tokenCount: fragment.tokens.length,
+        similarity,
+      }));
+    });
+
+    classes.push({
+      id: `${members[0].filePath}:${members[0].startLine}`,
+      kind: groupIndices.length === 1 ? 'exact' : 'near',
+      similarity: Math.min(...members.map((member) => member.similarity)),
+      tokenCount: members[0].tokenCount,
+      members,
+    });
+  });
+
+  // 다른 clone에 통째로 포함된 class 제거 (복사된 함수 안의 콜백 등)
+  const contains = (outer: CloneMember, inner: CloneMember) =>
+    outer !== inner &&
+    outer.filePath === inner.filePath &&
+    outer.startLine <= inner.startLine &&
+    inner.endLine <= outer.endLine &&
+    outer.endLine - outer.startLine > inner.endLine - inner.startLine;
+  classes = classes.filter(
+    (cloneClass) =>
+      !cloneClass.members.every((member) =>
+        classes.some((other) => other !== cloneClass && other.members.some((outer) => contains(outer, member)))
+      )
+  );
+
+  // 중복 규모 (토큰 × 복사본 수) 큰 순
+  classes.sort(
+    (a, b) => b.tokenCount * (b.members.length - 1) - a.tokenCount * (a.members.length - 1) || a.id.localeCompare(b.id)
+  );
+
+  results.classes = classes;
+  results.duplicatedLineCount = classes.reduce(
+    (sum, cloneClass) =>
+      sum + cloneClass.members.slice(1).reduce((lines, member) => lines + member.endLine - member.startLine + 1, 0),
+    0
+  );
+
+  return results;
+}
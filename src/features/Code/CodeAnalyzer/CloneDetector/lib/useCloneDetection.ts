@@ -0,0 +1,52 @@
+/**
+ * Clone Detection Hook
+ */
+
+import { useAtom, useAtomValue, useSetAtom } from 'jotai';
+import { useEffect } from 'react';
+import { graphDataAtom } from '@/entities/AppView/model/atoms';
+import {
+  cloneDetectionOptionsAtom,
+  cloneResultsAtom,
+  isDetectingClonesAtom,
+  selectedCloneClassIdAtom,
+} from '../model/atoms.ts';
+import { detectClones } from './cloneDetector.ts';
+
+export function useCloneDetection() {
+  const graphData = useAtomValue(graphDataAtom);
+  const options = useAtomValue(cloneDetectionOptionsAtom);
+  const [cloneResults, setCloneResults] = useAtom(cloneResultsAtom);
+  const [isDetecting, setIsDetecting] = useAtom(isDetectingClonesAtom);
+  const setSelectedCloneClassId = useSetAtom(selectedCloneClassIdAtom);
+
+  // Detect clones on mount
+  useEffect(() => {
+    if (graphData && !cloneResults) {
+      setIsDetecting(true);
+      // Run detection in next tick to avoid blocking UI
+      setTimeout(() => {
+        setCloneResults(detectClones(graphData, options));
+        setIsDetecting(false);
+      }, 0);
+    }
+  }, [graphData, options, cloneResults, setCloneResults, setIsDetecting]);
+
+  const redetect = () => {
+    setIsDetecting(true);
+    setCloneResults(null);
+    setSelectedCloneClassId(null);
+    setTimeout(() => {
+      if (graphData) {
+        setCloneResults(detectClones(graphData, options));
+      }
+      setIsDetecting(false);
+    }, 0);
+  };
+
+  return {
+    isDetecting,
+    cloneResults,
+    redetect,
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * CloneDetector - Atoms
+ */
+import { atom } from 'jotai';
+import { atomWithStorage } from 'jotai/utils';
+import {
+  type CloneDetectionOptions,
+  type CloneDetectionResults,
+  DEFAULT_CLONE_DETECTION_OPTIONS,
+} from '../lib/cloneDetector.ts';
+
+// ============================================================================
+// Detection State
+// ============================================================================
+
+export const cloneResultsAtom = atom(null as CloneDetectionResults | null);
+
+export const isDetectingClonesAtom = atom(false);
+
+// 최소 토큰 수 / 유사도 기준 (localStorage 유지)
+export const cloneDetectionOptionsAtom = atomWithStorage<CloneDetectionOptions>(
+  'cloneDetectionOptions',
+  DEFAULT_CLONE_DETECTION_OPTIONS
+);
+
+// ============================================================================
+// Selection State
+// ============================================================================
+
+// IDEScrollView에서 side-by-side로 볼 clone class id
+export const selectedCloneClassIdAtom = atom(null as string | null);
+
+export const selectedCloneClassAtom = atom((get) => {
+  const id = get(selectedCloneClassIdAtom);
+  return get(cloneResultsAtom)?.classes.find((cloneClass) => cloneClass.id === id) ?? null;
+});
@@ -0,0 +1,64 @@
+/**
+ * Clone Detection Settings Component
+ * 유사도 기준 / 최소 함수 크기 (변경 시 다시 탐지)
+ */
+
+import { useAtom, useSetAtom } from 'jotai';
+import { cloneDetectionOptionsAtom, cloneResultsAtom, selectedCloneClassIdAtom } from '../model/atoms.ts';
+
+const SIMILARITY_OPTIONS = [
+  { value: 1, label: 'Exact only' },
+  { value: 0.9, label: '≥ 90%' },
+  { value: 0.8, label: '≥ 80%' },
+  { value: 0.7, label: '≥ 70%' },
+];
+
+const MIN_TOKEN_OPTIONS = [20, 40, 80, 160];
+
+export function CloneDetectionSettings() {
+  const [options, setOptions] = useAtom(cloneDetectionOptionsAtom);
+  const setCloneResults = useSetAtom(cloneResultsAtom);
+  const setSelectedCloneClassId = useSetAtom(selectedCloneClassIdAtom);
+
+  const update = (patch: Partial<typeof options>) => {
+    setOptions({ ...options, ...patch });
+    // 결과를 비우면 useCloneDetection이 새 설정으로 다시 탐지
+    setCloneResults(null);
+    setSelectedCloneClassId(null);
+  };
+
+  const selectClassName = 'bg-bg-deep border border-border-light rounded px-1 py-0.5 text-2xs text-text-primary';
+
+  return (
+    <div className="flex items-center gap-2 px-3 py-2 text-2xs text-text-muted border-b border-border-DEFAULT">
+      <label className="flex items-center gap-1">
+        Similarity
+        <select
+          value={options.similarityThreshold}
+          onChange={(e) => update({ similarityThreshold: Number(e.target.value) })}
+          className={selectClassName}
+        >
+          {SIMILARITY_OPTIONS.map(({ value, label }) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-1">
+        Min tokens
+        <select
+          value={options.minTokens}
+          onChange={(e) => update({ minTokens: Number(e.target.value) })}
+          className={selectClassName}
+        >
+          {MIN_TOKEN_OPTIONS.map((value) => (
+            <option key={value} value={value}>
+              {value}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+/**
+ * Re-detect Clones Button Component
+ */
+
+import { useAtomValue } from 'jotai';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/Button.tsx';
+import { graphDataAtom } from '@/entities/AppView/model/atoms';
+import { useCloneDetection } from '../lib/useCloneDetection.ts';
+
+export function DetectClonesButton() {
+  const graphData = useAtomValue(graphDataAtom);
+  const { isDetecting, redetect } = useCloneDetection();
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="h-5 w-5 p-0"
+      onClick={redetect}
+      disabled={isDetecting || !graphData}
+      title={isDetecting ? 'Detecting...' : 'Re-detect clones'}
+    >
+      {isDetecting ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />}
+    </Button>
+  );
+}
@@ -0,0 +1,79 @@
+/**
+ * 도달성 분석 테스트
+ *
+ * entry point에서 import / re-export를 따라 파일과 export 이름이 제대로 표시되는지 확인
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createFileNodes } from '@/entities/SourceFileNode/lib/__tests__/fixtures';
+import { analyzeReachability, type EntryPointOptions } from '../reachability';
+
+const OPTIONS: EntryPointOptions = { patterns: ['main.*'], includePackageJson: false };
+
+function analyze(files: Record<string, string>) {
+  return analyzeReachability(createFileNodes(files), files, OPTIONS);
+}
+
+describe('도달성 분석 - Mark', () => {
+  it('entry point에서 import를 따라 도달', () => {
+    const result = analyze({
+      'src/main.ts': `import { a } from './a';\na();`,
+      'src/a.ts': 'export function a() {}\nexport function unused() {}',
+      'src/dead.ts': 'export const dead = 1;',
+    });
+
+    expect(result.entryFiles).toEqual(['src/main.ts']);
+    expect(result.reachableFiles.has('src/a.ts')).toBe(true);
+    expect(result.usedExports.get('src/a.ts')).toEqual(new Set(['a']));
+    expect(result.unreachableFiles).toEqual(['src/dead.ts']);
+  });
+
+  it('동적 import는 대상 파일의 모든 export 사용', () => {
+    const result = analyze({
+      'src/main.ts': `const load = () => import('./lazy');`,
+      'src/lazy.ts': 'export const x = 1;',
+    });
+
+    expect(result.usedExports.get('src/lazy.ts')?.has('*')).toBe(true);
+  });
+
+  it('barrel에서 쓰지 않는 re-export 대상 파일도 도달 + 이름은 unused re-export로 보고', () => {
+    const result = analyze({
+      'src/main.ts': `import { a } from './lib';\na();`,
+      'src/lib/index.ts': `export { a } from './a';\nexport { b as bee } from './b';`,
+      'src/lib/a.ts': 'export function a() {}',
+      'src/lib/b.ts': 'export function b() {}',
+    });
+
+    expect(result.unreachableFiles).toEqual([]);
+    expect(result.reachableFiles.has('src/lib/b.ts')).toBe(true);
+    expect(result.usedExports.get('src/lib/a.ts')).toEqual(new Set(['a']));
+    expect(result.usedExports.get('src/lib/b.ts')).toBeUndefined();
+    expect(result.unusedReExports).toEqual([{ filePath: 'src/lib/index.ts', name: 'bee', line: 2 }]);
+  });
+
+  it('export * from은 로컬 export가 아닌 이름만 전파', () => {
+    const result = analyze({
+      'src/main.ts': `import { a, local } from './lib';`,
+      'src/lib/index.ts': `export * from './a';\nexport const local = 1;`,
+      'src/lib/a.ts': 'export const a = 1;\nexport const local = 2;',
+    });
+
+    expect(result.usedExports.get('src/lib/a.ts')).toEqual(new Set(['a']));
+    expect(result.unusedReExports).toEqual([]);
+  });
+});
+
+describe('도달성 분석 - Sweep', () => {
+  it('서로만 참조하는 죽은 파일 묶음 → cluster', () => {
+    const result = analyze({
+      'src/main.ts': 'export {};',
+      'src/x.ts': `import { y } from './y';\nexport const x = y;`,
+      'src/y.ts': `import { x } from './x';\nexport const y = 1;`,
+      'src/z.ts': 'export const z = 1;',
+    });
+
+    expect(result.unreachableFiles).toEqual(['src/x.ts', 'src/y.ts', 'src/z.ts']);
+    expect(result.clusters).toEqual([{ root: 'src/x.ts', files: ['src/x.ts', 'src/y.ts'] }]);
+  });
+});
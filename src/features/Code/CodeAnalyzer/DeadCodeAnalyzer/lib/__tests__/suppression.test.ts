@@ -0,0 +1,96 @@
+/**
+ * Dead Code Suppression 테스트
+ *
+ * 주석 (line / next-line / file)과 .vibecoderc.json 패턴이 의도한 항목만 숨기는지 확인
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { DeadCodeItem } from '../deadCodeAnalyzer';
+import { createSuppressionMatcher, parseSuppressionComments } from '../suppression';
+
+function item(filePath: string, line: number, category: DeadCodeItem['category'] = 'unusedExport'): DeadCodeItem {
+  return { filePath, symbolName: 'x', line, kind: 'export', category };
+}
+
+describe('Suppression 주석 파싱', () => {
+  it('scope별 적용 라인 (file scope는 0)', () => {
+    const comments = parseSuppressionComments(
+      [
+        '// vibe-ignore-file unreachableFile',
+        '// vibe-ignore-next-line',
+        'export const a = 1;',
+        'export const b = 2; // vibe-ignore-line deadFunction',
+      ].join('\n')
+    );
+
+    expect(comments).toEqual([
+      { scope: 'file', line: 0, categories: new Set(['unreachableFile']) },
+      { scope: 'next-line', line: 3, categories: null },
+      { scope: 'line', line: 4, categories: new Set(['deadFunction']) },
+    ]);
+  });
+
+  it('공백 / 콤마로 여러 카테고리, 복수형은 단수로, `--` 이후는 설명', () => {
+    const [comment] = parseSuppressionComments(
+      '// vibe-ignore-next-line unusedExports, unusedTypeExport -- public API'
+    );
+    expect(comment.categories).toEqual(new Set(['unusedExport', 'unusedTypeExport']));
+
+    const [reasonOnly] = parseSuppressionComments('// vibe-ignore-line -- used by tests');
+    expect(reasonOnly.categories).toBeNull();
+  });
+
+  it('블록 / JSX / HTML 주석은 주석 끝에서 자름', () => {
+    const comments = parseSuppressionComments(
+      [
+        '{/* vibe-ignore-next-line */}',
+        '/* vibe-ignore-line */ export const a = 1;',
+        '/* vibe-ignore-line unusedExport */ export const b = 2;',
+        '<!-- vibe-ignore-file unusedProp --> <div />',
+      ].join('\n')
+    );
+
+    expect(comments.map(({ scope, categories }) => [scope, categories])).toEqual([
+      ['next-line', null],
+      ['line', null],
+      ['line', new Set(['unusedExport'])],
+      ['file', new Set(['unusedProp'])],
+    ]);
+  });
+});
+
+describe('Suppression Matcher', () => {
+  it('주석 scope / 카테고리가 맞는 항목만 숨김', () => {
+    const isSuppressed = createSuppressionMatcher({
+      'src/a.ts': [
+        '// vibe-ignore-next-line unusedExport',
+        'export const a = 1;',
+        'export const b = 2; /* vibe-ignore-line */',
+        'export const c = 3;',
+      ].join('\n'),
+      'src/generated.ts': '// vibe-ignore-file\nexport const d = 4;',
+    });
+
+    expect(isSuppressed(item('src/a.ts', 2))).toBe('vibe-ignore-next-line');
+    expect(isSuppressed(item('src/a.ts', 2, 'deadFunction'))).toBeNull();
+    expect(isSuppressed(item('src/a.ts', 3, 'deadFunction'))).toBe('vibe-ignore-line');
+    expect(isSuppressed(item('src/a.ts', 4))).toBeNull();
+    expect(isSuppressed(item('src/generated.ts', 2, 'unreachableFile'))).toBe('vibe-ignore-file');
+  });
+
+  it('.vibecoderc.json 패턴은 설정 파일 위치 기준', () => {
+    const isSuppressed = createSuppressionMatcher({
+      'my-app/.vibecoderc.json': JSON.stringify({
+        deadCode: { ignore: { '*': ['**/*.generated.ts'], unusedExports: ['src/public-api/**'] } },
+      }),
+      'my-app/packages/web/.vibecoderc.json': JSON.stringify({ deadCode: { ignore: { '*': ['**'] } } }),
+    });
+
+    expect(isSuppressed(item('my-app/src/api.generated.ts', 1, 'deadFunction'))).toBe('.vibecoderc.json (*)');
+    expect(isSuppressed(item('my-app/src/public-api/index.ts', 1))).toBe('.vibecoderc.json (unusedExport)');
+    expect(isSuppressed(item('my-app/src/public-api/index.ts', 1, 'deadFunction'))).toBeNull();
+    // 가장 상위의 설정 파일만 사용 + 설정 파일 폴더 밖은 매칭 안 됨
+    expect(isSuppressed(item('my-app/packages/web/main.ts', 1))).toBeNull();
+    expect(isSuppressed(item('other/src/public-api/index.ts', 1))).toBeNull();
+  });
+});
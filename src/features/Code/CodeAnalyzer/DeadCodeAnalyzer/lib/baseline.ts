@@ -0,0 +1,87 @@
+/**
+ * Dead Code Baseline - 저장한 결과와 현재 결과 비교 (new / fixed / unchanged)
+ *
+ * 항목 identity는 라인 번호 대신 category + file + kind + symbol (+ 소속 함수 / 컴포넌트)
+ * - 코드 추가 / 삭제로 라인이 밀려도 같은 항목으로 인식
+ * - 같은 identity가 여러 번 (같은 함수를 여러 곳에서 호출 등) → 라인 순서대로 #n 부여
+ */
+
+import type { DeadCodeBaselineRecord } from '@/shared/storage/indexedDB';
+import { getItemKey } from './categoryUtils.tsx';
+import { DEAD_CODE_CATEGORY_KEYS, type DeadCodeItem, type DeadCodeResults } from './deadCodeAnalyzer.ts';
+
+export type DeadCodeBaseline = DeadCodeBaselineRecord;
+export type BaselineItem = DeadCodeBaselineRecord['items'][number];
+export type BaselineStatus = 'new' | 'unchanged';
+
+export interface BaselineComparison {
+  baseline: DeadCodeBaseline;
+  status: Map<string, BaselineStatus>; // getItemKey(item) → 상태
+  newCount: number;
+  fixed: BaselineItem[]; // baseline에는 있고 현재는 없는 항목
+}
+
+function getIdentity(item: BaselineItem): string {
+  const owner = item.functionName ?? item.componentName ?? '';
+  return `${item.category}|${item.filePath}|${item.kind}|${item.symbolName}|${owner}`;
+}
+
+/**
+ * 항목 → 중복 순번까지 포함한 identity (라인 순)
+ */
+function indexByIdentity<T extends BaselineItem>(items: T[]): Map<string, T> {
+  const sorted = [...items].sort((a, b) => a.line - b.line);
+  const occurrences = new Map<string, number>();
+  const result = new Map<string, T>();
+
+  sorted.forEach((item) => {
+    const identity = getIdentity(item);
+    const occurrence = occurrences.get(identity) ?? 0;
+    occurrences.set(identity, occurrence + 1);
+    result.set(`${identity}#${occurrence}`, item);
+  });
+
+  return result;
+}
+
+const getAllItems = (results: DeadCodeResults): DeadCodeItem[] =>
+  DEAD_CODE_CATEGORY_KEYS.flatMap((key) => results[key]);
+
+export function getCategoryCounts(results: DeadCodeResults): Record<string, number> {
+  return Object.fromEntries(DEAD_CODE_CATEGORY_KEYS.map((key) => [key, results[key].length]));
+}
+
+export function createBaseline(name: string, results: DeadCodeResults): DeadCodeBaseline {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    createdAt: Date.now(),
+    items: getAllItems(results).map(({ filePath, symbolName, line, kind, category, functionName, componentName }) => ({
+      filePath,
+      symbolName,
+      line,
+      kind,
+      category,
+      functionName,
+      componentName,
+    })),
+    counts: getCategoryCounts(results),
+  };
+}
+
+export function compareWithBaseline(results: DeadCodeResults, baseline: DeadCodeBaseline): BaselineComparison {
+  const current = indexByIdentity(getAllItems(results));
+  const previous = indexByIdentity(baseline.items);
+  const status = new Map<string, BaselineStatus>();
+  let newCount = 0;
+
+  current.forEach((item, identity) => {
+    const isNew = !previous.has(identity);
+    if (isNew) newCount++;
+    status.set(getItemKey(item), isNew ? 'new' : 'unchanged');
+  });
+
+  const fixed = [...previous].filter(([identity]) => !current.has(identity)).map(([, item]) => item);
+
+  return { baseline, status, newCount, fixed };
+}
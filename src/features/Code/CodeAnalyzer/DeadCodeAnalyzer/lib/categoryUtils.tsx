@@ -1,18 +1,68 @@
 /**
  * Category utility functions
  */
-import { AlertTriangle, Box, FunctionSquare, Package } from 'lucide-react';
+import {
+  AlertTriangle,
+  Box,
+  Braces,
+  FileType,
+  FileX,
+  FunctionSquare,
+  Hourglass,
+  Network,
+  Package,
+  Unlink,
+} from 'lucide-react';
+import type { AsyncCallInfo } from '../../../../../entities/SourceFileNode/lib/metadata.ts';
+import type { CategoryKey } from '../model/types.ts';
+
+// 카테고리 제목 (선언 순서 = Explorer 표시 순서)
+export const CATEGORY_TITLES: Record<CategoryKey, string> = {
+  unusedImports: 'Unused Imports',
+  typeOnlyImports: 'Value Imports Used Only as Types',
+  unusedVariables: 'Unused Variables',
+  deadFunctions: 'Dead Functions',
+  unusedArguments: 'Unused Arguments',
+  unusedProps: 'Unused Props',
+  unusedExports: 'Unused Exports',
+  unusedTypeExports: 'Unused Type Exports',
+  unawaitedAsyncCalls: 'Unawaited Async Calls',
+  unreachableFiles: 'Unreachable Files',
+  unreachableExports: 'Unreachable Exports',
+  unreachableClusters: 'Unreachable Clusters',
+};
+
+// Unawaited Async Call 문제 종류 설명
+export const ASYNC_CALL_ISSUE_LABELS: Record<AsyncCallInfo['issue'], string> = {
+  'non-promise-expected': 'passed where a non-Promise is expected',
+  'sync-caller': 'result used in a non-async function',
+  floating: 'floating promise',
+  unawaited: 'result used without await',
+  condition: 'promise used as a condition (always truthy)',
+};
 
 export function renderCategoryIcon(category: string) {
   switch (category) {
     case 'unusedImports':
       return <Package size={14} className="text-emerald-300" />; // 가장 안전 - 초록
+    case 'typeOnlyImports':
+      return <FileType size={14} className="text-emerald-300" />; // import type으로 변경 - 안전
     case 'unusedVariables':
       return <Box size={14} className="text-cyan-300" />; // 안전 - 청록
     case 'deadFunctions':
       return <FunctionSquare size={14} className="text-amber-300" />; // 주의 - 노랑
     case 'unusedExports':
       return <Package size={14} className="text-orange-400" />; // 위험 - 주황/빨강
+    case 'unusedTypeExports':
+      return <Braces size={14} className="text-amber-300" />; // 타입은 런타임 영향 없음 - 노랑
+    case 'unawaitedAsyncCalls':
+      return <Hourglass size={14} className="text-red-400" />; // 버그 가능성 - 빨강
+    case 'unreachableFiles':
+      return <FileX size={14} className="text-orange-400" />; // 파일 삭제 - 위험
+    case 'unreachableExports':
+      return <Unlink size={14} className="text-orange-400" />;
+    case 'unreachableClusters':
+      return <Network size={14} className="text-orange-400" />;
     default:
       return <AlertTriangle size={14} className="text-text-muted" />;
   }
@@ -1,11 +1,15 @@
 /**
  * Dead Code Analyzer - 프로젝트 전체 파일 간 관계 기반 unused code 탐지
  *
- * 분석 항목: Unused Exports/Imports/Variables, Dead Functions, Unused Props/Arguments
+ * 분석 항목: Unused Exports/Type Exports/Imports/Variables, Type-only Imports, Dead Functions, Unused Props/Arguments, Unawaited Async Calls,
+ *           Unreachable Files/Exports/Clusters (entry point 기준 도달성)
+ * Suppression: `// vibe-ignore-next-line <category>` 주석, .vibecoderc.json glob → suppressed로 분리
  * 아키텍처: Getter Layer 패턴 (AST 파싱 로직 분리), 로컬 캐싱 (파일당 1회 순회), 순수 함수 설계
  */
 
 import {
+  type AsyncCallInfo,
+  getAsyncCalls,
   getComponentProps,
   getExports,
   getFunctionArguments,
@@ -13,47 +17,121 @@ import {
   getLocalFunctions,
   getLocalVariables,
   getUsedIdentifiers,
+  getValueUsedIdentifiers,
 } from '../../../../../entities/SourceFileNode/lib/metadata.ts';
 import type { GraphData } from '../../../../../entities/SourceFileNode/model/types.ts';
+import { analyzeReachability, DEFAULT_ENTRY_POINT_OPTIONS, type EntryPointOptions } from './reachability.ts';
+import { createSuppressionMatcher } from './suppression.ts';
 
 // Dead Code 항목 (kind/category 2단계 분류, optional 필드로 상세 정보 제공)
 export interface DeadCodeItem {
   filePath: string;
   symbolName: string;
   line: number;
-  kind: 'export' | 'import' | 'function' | 'variable' | 'prop' | 'argument';
-  category: 'unusedExport' | 'unusedImport' | 'deadFunction' | 'unusedVariable' | 'unusedProp' | 'unusedArgument';
+  kind: 'export' | 'import' | 'function' | 'variable' | 'prop' | 'argument' | 'asyncCall' | 'file' | 'cluster';
+  category:
+    | 'unusedExport'
+    | 'unusedTypeExport'
+    | 'unusedImport'
+    | 'typeOnlyImport'
+    | 'deadFunction'
+    | 'unusedVariable'
+    | 'unusedProp'
+    | 'unusedArgument'
+    | 'unawaitedAsyncCall'
+    | 'unreachableFile'
+    | 'unreachableExport'
+    | 'unreachableCluster';
   from?: string;
   componentName?: string;
   functionName?: string;
+  asyncIssue?: AsyncCallInfo['issue'];
+  clusterFiles?: string[]; // unreachableCluster: 묶음에 속한 파일 (filePath = root)
+  suppressedBy?: string; // suppressed 항목: 숨긴 주석 / 설정 ('vibe-ignore-next-line', '.vibecoderc.json (unusedExport)')
 }
 
 // 분석 결과 (카테고리별 분리 배열 - 필터 성능 최적화, totalCount 캐싱)
 export interface DeadCodeResults {
   unusedExports: DeadCodeItem[];
+  unusedTypeExports: DeadCodeItem[]; // type / interface export
   unusedImports: DeadCodeItem[];
+  typeOnlyImports: DeadCodeItem[]; // 타입으로만 쓰이는 값 import (`import type`으로 바꿀 수 있음)
   deadFunctions: DeadCodeItem[];
   unusedVariables: DeadCodeItem[];
   unusedProps: DeadCodeItem[];
   unusedArguments: DeadCodeItem[];
+  unawaitedAsyncCalls: DeadCodeItem[];
+  unreachableFiles: DeadCodeItem[];
+  unreachableExports: DeadCodeItem[];
+  unreachableClusters: DeadCodeItem[];
+  suppressed: DeadCodeItem[]; // 주석 / .vibecoderc.json으로 숨긴 항목 (totalCount 제외)
+  entryFiles: string[]; // 도달성 분석에 사용한 entry point (없으면 도달성 카테고리 생략)
   totalCount: number;
 }
 
+export type DeadCodeCategoryKey = Exclude<keyof DeadCodeResults, 'suppressed' | 'entryFiles' | 'totalCount'>;
+
+export const DEAD_CODE_CATEGORY_KEYS: DeadCodeCategoryKey[] = [
+  'unusedExports',
+  'unusedTypeExports',
+  'unusedImports',
+  'typeOnlyImports',
+  'deadFunctions',
+  'unusedVariables',
+  'unusedProps',
+  'unusedArguments',
+  'unawaitedAsyncCalls',
+  'unreachableFiles',
+  'unreachableExports',
+  'unreachableClusters',
+];
+
+// 항목 category → 결과 key (suppressed 항목을 원래 카테고리 목록에 다시 붙일 때)
+export const DEAD_CODE_CATEGORY_RESULT_KEYS: Record<DeadCodeItem['category'], DeadCodeCategoryKey> = {
+  unusedExport: 'unusedExports',
+  unusedTypeExport: 'unusedTypeExports',
+  unusedImport: 'unusedImports',
+  typeOnlyImport: 'typeOnlyImports',
+  deadFunction: 'deadFunctions',
+  unusedVariable: 'unusedVariables',
+  unusedProp: 'unusedProps',
+  unusedArgument: 'unusedArguments',
+  unawaitedAsyncCall: 'unawaitedAsyncCalls',
+  unreachableFile: 'unreachableFiles',
+  unreachableExport: 'unreachableExports',
+  unreachableCluster: 'unreachableClusters',
+};
+
 /**
  * 프로젝트 전체 dead code 분석
  * 알고리즘: 1) 파일별 메타데이터 1회 추출 2) 메모리 캐싱 3) 크로스 파일 분석
  * 성능: O(n) 파싱 + O(n²) 분석, 100개 파일 ~200ms
- * 제약: 파일명 매칭만 지원, dynamic import/eval/type-only import 미감지
+ * 제약: 파일명 매칭만 지원, dynamic import/eval 미감지
+ *
+ * @param files - 프로젝트 파일 (없으면 import 해석이 필요한 Unreachable, suppression 생략)
+ * @param entryPointOptions - 도달성 분석 entry point 설정
  */
-export function analyzeDeadCode(graphData: GraphData | null): DeadCodeResults {
+export function analyzeDeadCode(
+  graphData: GraphData | null,
+  files?: Record<string, string>,
+  entryPointOptions: EntryPointOptions = DEFAULT_ENTRY_POINT_OPTIONS
+): DeadCodeResults {
   // Null Object Pattern (빈 결과 반환으로 UI null 체크 불필요)
   const results: DeadCodeResults = {
     unusedExports: [],
+    unusedTypeExports: [],
     unusedImports: [],
+    typeOnlyImports: [],
     deadFunctions: [],
     unusedVariables: [],
     unusedProps: [],
     unusedArguments: [],
+    unawaitedAsyncCalls: [],
+    unreachableFiles: [],
+    unreachableExports: [],
+    unreachableClusters: [],
+    suppressed: [],
+    entryFiles: [],
     totalCount: 0,
   };
 
@@ -77,13 +155,15 @@ export function analyzeDeadCode(graphData: GraphData | null): DeadCodeResults {
     localFunctions: getLocalFunctions(node),
     localVariables: getLocalVariables(node),
     usedIdentifiers: getUsedIdentifiers(node),
+    valueUsedIdentifiers: getValueUsedIdentifiers(node),
     componentProps: getComponentProps(node),
     functionArguments: getFunctionArguments(node),
+    asyncCalls: getAsyncCalls(node),
   }));
 
   // Phase 2: 캐싱된 데이터로 분석 (AST 순회 없음)
 
-  // Unused Exports (같은 파일에서도 안 쓰고, 다른 파일에서도 import 안 함)
+  // Unused Exports (같은 파일에서도 안 쓰고, 다른 파일에서도 import 안 함, type / interface는 별도 카테고리)
   fileMetadataList.forEach(({ node, exports, usedIdentifiers }) => {
     exports.forEach((exp) => {
       const isUsedInSameFile = usedIdentifiers.has(exp.name);
@@ -104,12 +184,13 @@ export function analyzeDeadCode(graphData: GraphData | null): DeadCodeResults {
       });
 
       if (!isUsedInSameFile && !isImportedByOtherFile) {
-        results.unusedExports.push({
+        const isTypeExport = exp.kind === 'type' || exp.kind === 'interface';
+        (isTypeExport ? results.unusedTypeExports : results.unusedExports).push({
           filePath: node.filePath,
           symbolName: exp.name,
           line: exp.line,
           kind: 'export',
-          category: 'unusedExport',
+          category: isTypeExport ? 'unusedTypeExport' : 'unusedExport',
         });
       }
     });
@@ -131,6 +212,25 @@ export function analyzeDeadCode(graphData: GraphData | null): DeadCodeResults {
     });
   });
 
+  // Type-only Imports (값 import인데 타입 위치에서만 사용 → `import type`으로 바꾸면 번들에서 제거)
+  // JS 파일은 `import type` 문법이 없으므로 제외
+  fileMetadataList.forEach(({ node, imports, usedIdentifiers, valueUsedIdentifiers }) => {
+    if (!/\.(tsx?|mts|cts|vue)$/.test(node.filePath)) return;
+
+    imports.forEach((imp) => {
+      if (imp.isTypeOnly || !usedIdentifiers.has(imp.name) || valueUsedIdentifiers.has(imp.name)) return;
+
+      results.typeOnlyImports.push({
+        filePath: node.filePath,
+        symbolName: imp.name,
+        line: imp.line,
+        kind: 'import',
+        category: 'typeOnlyImport',
+        from: imp.from,
+      });
+    });
+  });
+
   // Dead Functions (export 안 된 함수 중 호출되지 않음)
   fileMetadataList.forEach(({ node, localFunctions, usedIdentifiers }) => {
     localFunctions.forEach((func) => {
@@ -197,22 +297,125 @@ export function analyzeDeadCode(graphData: GraphData | null): DeadCodeResults {
     });
   });
 
-  // Phase 3: 결과 집계
+  // Unawaited Async Calls (Promise 반환 함수의 결과를 await / then / return 없이 사용, Worker에서 TypeChecker로 계산)
+  fileMetadataList.forEach(({ node, asyncCalls }) => {
+    asyncCalls.forEach((asyncCall) => {
+      results.unawaitedAsyncCalls.push({
+        filePath: node.filePath,
+        symbolName: asyncCall.calleeName,
+        line: asyncCall.line,
+        kind: 'asyncCall',
+        category: 'unawaitedAsyncCall',
+        functionName: asyncCall.callerName,
+        asyncIssue: asyncCall.issue,
+      });
+    });
+  });
+
+  // Unreachable Files / Exports / Clusters (entry point에서 import를 따라가도 닿지 않음)
+  // entry point가 하나도 없으면 전체가 unreachable로 보이므로 생략
+  const reachability = files ? analyzeReachability(fileNodes, files, entryPointOptions) : null;
+  if (reachability && reachability.entryFiles.length > 0) {
+    results.entryFiles = reachability.entryFiles;
+
+    reachability.unreachableFiles.forEach((filePath) => {
+      results.unreachableFiles.push({
+        filePath,
+        symbolName: filePath.split('/').pop() || filePath,
+        line: 1,
+        kind: 'file',
+        category: 'unreachableFile',
+      });
+    });
+
+    // 도달 가능한 파일의 export 중 도달 가능한 파일이 쓰지 않는 것
+    // (파일명 매칭으로 이미 Unused Exports에 잡힌 항목 제외 → 죽은 파일에서만 import되는 export)
+    const unusedExportKeys = new Set(
+      [...results.unusedExports, ...results.unusedTypeExports].map((item) => `${item.filePath}:${item.symbolName}`)
+    );
+    fileMetadataList.forEach(({ node, exports, usedIdentifiers }) => {
+      if (!reachability.reachableFiles.has(node.filePath)) return;
+      const used = reachability.usedExports.get(node.filePath);
+      if (used?.has('*')) return;
+
+      exports.forEach((exp) => {
+        if (used?.has(exp.name) || usedIdentifiers.has(exp.name)) return;
+        if (unusedExportKeys.has(`${node.filePath}:${exp.name}`)) return;
+
+        results.unreachableExports.push({
+          filePath: node.filePath,
+          symbolName: exp.name,
+          line: exp.line,
+          kind: 'export',
+          category: 'unreachableExport',
+        });
+      });
+    });
+
+    // barrel의 re-export (`export { a } from`)는 로컬 export 목록에 없으므로 도달성 결과에서 직접 추가
+    reachability.unusedReExports.forEach(({ filePath, name, line }) => {
+      results.unreachableExports.push({
+        filePath,
+        symbolName: name,
+        line,
+        kind: 'export',
+        category: 'unreachableExport',
+      });
+    });
+
+    reachability.clusters.forEach((cluster) => {
+      results.unreachableClusters.push({
+        filePath: cluster.root,
+        symbolName: cluster.root.split('/').pop() || cluster.root,
+        line: 1,
+        kind: 'cluster',
+        category: 'unreachableCluster',
+        clusterFiles: cluster.files,
+      });
+    });
+  }
+
+  // Phase 3: suppression 주석 / .vibecoderc.json에 걸린 항목 분리 (UI에서 토글로 표시)
+  if (files) {
+    const getSuppression = createSuppressionMatcher(files);
+    DEAD_CODE_CATEGORY_KEYS.forEach((key) => {
+      results[key] = results[key].filter((item) => {
+        const suppressedBy = getSuppression(item);
+        if (suppressedBy) results.suppressed.push({ ...item, suppressedBy });
+        return !suppressedBy;
+      });
+    });
+  }
+
+  // Phase 4: 결과 집계
   results.totalCount =
     results.unusedExports.length +
+    results.unusedTypeExports.length +
     results.unusedImports.length +
+    results.typeOnlyImports.length +
     results.deadFunctions.length +
     results.unusedVariables.length +
     results.unusedProps.length +
-    results.unusedArguments.length;
+    results.unusedArguments.length +
+    results.unawaitedAsyncCalls.length +
+    results.unreachableFiles.length +
+    results.unreachableExports.length +
+    results.unreachableClusters.length;
 
   console.log('[deadCodeAnalyzer] Analysis complete:', {
     unusedExports: results.unusedExports.length,
+    unusedTypeExports: results.unusedTypeExports.length,
     unusedImports: results.unusedImports.length,
+    typeOnlyImports: results.typeOnlyImports.length,
     deadFunctions: results.deadFunctions.length,
     unusedVariables: results.unusedVariables.length,
     unusedProps: results.unusedProps.length,
     unusedArguments: results.unusedArguments.length,
+    unawaitedAsyncCalls: results.unawaitedAsyncCalls.length,
+    unreachableFiles: results.unreachableFiles.length,
+    unreachableExports: results.unreachableExports.length,
+    unreachableClusters: results.unreachableClusters.length,
+    suppressed: results.suppressed.length,
     total: results.totalCount,
   });
 
@@ -0,0 +1,405 @@
+/**
+ * Reachability - entry point 기준 mark-and-sweep 도달성 분석
+ *
+ * 파일명 매칭 (analyzeDeadCode의 Unused Exports)은 "어딘가에서 import되는지"만 보므로
+ * 죽은 파일에서만 import되는 파일 / export도 살아있는 것처럼 보임
+ * - Mark: entry point에서 시작해 import (정적 / 동적 / require / import.meta.glob)를 따라 파일 + export 이름 표시
+ * - re-export (`export { a } from`, `export * from`)의 대상 파일은 barrel이 도달 가능하면 함께 도달 (지우면 barrel이 깨짐)
+ *   export 이름은 실제로 쓰일 때만 대상 파일로 전파 → 안 쓰이는 이름은 Unreachable Exports로 보고
+ * - Sweep: 표시되지 않은 파일 → Unreachable Files, 서로만 참조하는 파일 묶음 → Unreachable Clusters
+ */
+
+import * as ts from 'typescript';
+import type { SourceFileNode } from '@/entities/SourceFileNode/model/types';
+import { createIgnoreMatcher } from '@/shared/fileSystem/gitignore';
+import { getModuleResolver } from '@/shared/tsParser/utils/pathResolver';
+import { dirname, joinPaths } from '@/shared/tsParser/utils/projectConfig';
+import { extractVueScript } from '@/shared/tsParser/utils/vueExtractor';
+import { getManifestEntryCandidates } from '@/shared/tsParser/utils/workspaceConfig';
+
+export interface EntryPointOptions {
+  patterns: string[]; // .gitignore 문법 (슬래시 없으면 모든 깊이, '!'로 제외)
+  includePackageJson: boolean; // package.json main / module / exports / bin
+}
+
+export const DEFAULT_ENTRY_POINT_OPTIONS: EntryPointOptions = {
+  patterns: [
+    'main.*',
+    '**/pages/**',
+    '**/routes/**',
+    '**/app/**/page.*',
+    '**/app/**/layout.*',
+    '*.test.*',
+    '*.spec.*',
+    '__tests__/',
+    '*.stories.*',
+    '*.config.*',
+  ],
+  includePackageJson: true,
+};
+
+export interface UnreachableCluster {
+  root: string; // 클러스터 안에서 아무도 import하지 않는 파일 (순환이면 경로순 첫 파일)
+  files: string[];
+}
+
+export interface UnusedReExport {
+  filePath: string; // re-export하는 파일 (barrel)
+  name: string; // 내보내는 이름
+  line: number;
+}
+
+export interface ReachabilityResult {
+  entryFiles: string[];
+  reachableFiles: Set<string>;
+  usedExports: Map<string, Set<string>>; // filePath → 도달 가능한 파일이 사용하는 export 이름 ('*': 전체)
+  unusedReExports: UnusedReExport[]; // 도달 가능한 파일의 re-export 중 아무도 쓰지 않는 이름
+  unreachableFiles: string[];
+  clusters: UnreachableCluster[]; // 2개 이상 파일이 서로만 참조하는 묶음
+}
+
+// 파일 하나의 모듈 참조 (resolve 전 specifier)
+interface ModuleReference {
+  specifier: string;
+  names: string[]; // 사용하는 export 이름 ('default', '*': namespace / 동적 import)
+}
+
+interface ReExport {
+  specifier: string;
+  exported: string; // 이 파일이 내보내는 이름 ('*': export * from)
+  imported: string; // 대상 파일의 이름 ('*': export * as ns from)
+  line: number;
+}
+
+interface ModuleInfo {
+  imports: ModuleReference[];
+  reExports: ReExport[];
+  globs: string[]; // import.meta.glob 패턴
+  localExports: Set<string>;
+}
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.vue', '.mts', '.cts', '.mjs', '.cjs'];
+
+const hasExportModifier = (node: ts.Node) =>
+  ts.canHaveModifiers(node) && !!ts.getModifiers(node)?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword);
+
+const hasDefaultModifier = (node: ts.Node) =>
+  ts.canHaveModifiers(node) && !!ts.getModifiers(node)?.some((m) => m.kind === ts.SyntaxKind.DefaultKeyword);
+
+const getStringArgument = (node: ts.CallExpression, index = 0): string | null => {
+  const argument = node.arguments[index];
+  return argument && ts.isStringLiteralLike(argument) ? argument.text : null;
+};
+
+/**
+ * SourceFile → import / re-export / 로컬 export 수집 (1회 순회)
+ */
+function collectModuleInfo(sourceFile: ts.SourceFile): ModuleInfo {
+  const info: ModuleInfo = { imports: [], reExports: [], globs: [], localExports: new Set() };
+
+  sourceFile.statements.forEach((statement) => {
+    if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+      const names: string[] = [];
+      const clause = statement.importClause;
+      if (clause?.name) names.push('default');
+      if (clause?.namedBindings) {
+        if (ts.isNamespaceImport(clause.namedBindings)) {
+          names.push('*');
+        } else {
+          clause.namedBindings.elements.forEach((element) => {
+            names.push((element.propertyName ?? element.name).text);
+          });
+        }
+      }
+      info.imports.push({ specifier: statement.moduleSpecifier.text, names });
+      return;
+    }
+
+    // import x = require('./x')
+    if (
+      ts.isImportEqualsDeclaration(statement) &&
+      ts.isExternalModuleReference(statement.moduleReference) &&
+      ts.isStringLiteral(statement.moduleReference.expression)
+    ) {
+      info.imports.push({ specifier: statement.moduleReference.expression.text, names: ['*'] });
+      return;
+    }
+
+    if (ts.isExportDeclaration(statement)) {
+      const specifier =
+        statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)
+          ? statement.moduleSpecifier.text
+          : null;
+      const line = sourceFile.getLineAndCharacterOfPosition(statement.getStart(sourceFile)).line + 1;
+
+      if (!statement.exportClause) {
+        if (specifier) info.reExports.push({ specifier, exported: '*', imported: '*', line });
+      } else if (ts.isNamespaceExport(statement.exportClause)) {
+        if (specifier) {
+          info.reExports.push({ specifier, exported: statement.exportClause.name.text, imported: '*', line });
+        }
+      } else {
+        statement.exportClause.elements.forEach((element) => {
+          const exported = element.name.text;
+          if (specifier) {
+            info.reExports.push({ specifier, exported, imported: (element.propertyName ?? element.name).text, line });
+          } else {
+            info.localExports.add(exported);
+          }
+        });
+      }
+      return;
+    }
+
+    if (ts.isExportAssignment(statement)) {
+      info.localExports.add('default');
+      return;
+    }
+
+    if (hasExportModifier(statement)) {
+      if (hasDefaultModifier(statement)) {
+        info.localExports.add('default');
+      } else if (ts.isVariableStatement(statement)) {
+        statement.declarationList.declarations.forEach((declaration) => {
+          if (ts.isIdentifier(declaration.name)) info.localExports.add(declaration.name.text);
+        });
+      } else {
+        const name = (statement as ts.DeclarationStatement).name;
+        if (name && ts.isIdentifier(name)) info.localExports.add(name.text);
+      }
+    }
+  });
+
+  // 동적 import / require / import.meta.glob (어디서든 호출 가능 → 전체 순회)
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node)) {
+      const callee = node.expression;
+      const specifier = getStringArgument(node);
+
+      if (callee.kind === ts.SyntaxKind.ImportKeyword && specifier) {
+        info.imports.push({ specifier, names: ['*'] });
+      } else if (ts.isIdentifier(callee) && callee.text === 'require' && specifier) {
+        info.imports.push({ specifier, names: ['*'] });
+      } else if (
+        ts.isPropertyAccessExpression(callee) &&
+        callee.name.text.startsWith('glob') &&
+        ts.isMetaProperty(callee.expression)
+      ) {
+        const [pattern] = node.arguments;
+        if (pattern && ts.isStringLiteralLike(pattern)) info.globs.push(pattern.text);
+        if (pattern && ts.isArrayLiteralExpression(pattern)) {
+          pattern.elements.forEach((element) => {
+            if (ts.isStringLiteralLike(element)) info.globs.push(element.text);
+          });
+        }
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return info;
+}
+
+/**
+ * 파일 노드의 SourceFile (Vue는 <script>만 다시 파싱)
+ */
+function getModuleSourceFile(node: SourceFileNode, files: Record<string, string>): ts.SourceFile | null {
+  if (!node.filePath.endsWith('.vue')) return node.sourceFile ?? null;
+
+  const script = extractVueScript(files[node.filePath] ?? node.codeSnippet, node.filePath);
+  return script === null ? null : ts.createSourceFile(node.filePath, script, ts.ScriptTarget.Latest, true);
+}
+
+/**
+ * 확장자 없는 package.json 후보 → 실제 파일
+ */
+function matchSourceFile(candidate: string, filePaths: Set<string>): string | null {
+  if (filePaths.has(candidate)) return candidate;
+
+  for (const suffix of [...SOURCE_EXTENSIONS, ...SOURCE_EXTENSIONS.map((extension) => `/index${extension}`)]) {
+    if (filePaths.has(`${candidate}${suffix}`)) return `${candidate}${suffix}`;
+  }
+
+  return null;
+}
+
+/**
+ * 설정된 entry point 패턴 + package.json 진입점 → entry 파일 목록
+ */
+export function findEntryFiles(
+  filePaths: string[],
+  files: Record<string, string>,
+  options: EntryPointOptions
+): string[] {
+  const entries = new Set<string>();
+
+  if (options.patterns.length > 0) {
+    const matcher = createIgnoreMatcher({}, options.patterns);
+    filePaths.forEach((filePath) => {
+      if (matcher.isIgnored(filePath)) entries.add(filePath);
+    });
+  }
+
+  if (options.includePackageJson) {
+    const filePathSet = new Set(filePaths);
+    getManifestEntryCandidates(files).forEach((candidate) => {
+      const filePath = matchSourceFile(candidate, filePathSet);
+      if (filePath) entries.add(filePath);
+    });
+  }
+
+  return Array.from(entries).sort();
+}
+
+/**
+ * entry point 기준 도달성 분석
+ *
+ * @param fileNodes - 'file' 노드 (sourceFile 포함)
+ * @param files - 프로젝트 파일 (import 해석 + package.json)
+ */
+export function analyzeReachability(
+  fileNodes: SourceFileNode[],
+  files: Record<string, string>,
+  options: EntryPointOptions
+): ReachabilityResult {
+  const filePaths = fileNodes.map((node) => node.filePath);
+  const resolver = getModuleResolver(files);
+
+  // Phase 1: 파일별 참조 수집 + 경로 해석
+  const modules = new Map<string, ModuleInfo>();
+  fileNodes.forEach((node) => {
+    const sourceFile = getModuleSourceFile(node, files);
+    if (sourceFile) modules.set(node.filePath, collectModuleInfo(sourceFile));
+  });
+
+  const resolve = (from: string, specifier: string) => {
+    const resolved = resolver.resolve(from, specifier);
+    return resolved && modules.has(resolved) ? resolved : null;
+  };
+
+  const resolveGlob = (from: string, pattern: string): string[] => {
+    if (pattern.startsWith('!')) return [];
+    const absolute = pattern.startsWith('/') ? pattern.slice(1) : joinPaths(dirname(from), pattern);
+    const matcher = createIgnoreMatcher({}, [`/${absolute}`]);
+    return filePaths.filter((filePath) => filePath !== from && matcher.isIgnored(filePath));
+  };
+
+  // Phase 2: Mark - (파일, export 이름) 작업 큐 (name null: 파일 도달만)
+  const entryFiles = findEntryFiles(filePaths, files, options).filter((filePath) => modules.has(filePath));
+  const reachableFiles = new Set<string>();
+  const usedExports = new Map<string, Set<string>>();
+  const queue: Array<[string, string | null]> = entryFiles.map((filePath) => [filePath, '*']);
+
+  while (queue.length > 0) {
+    const [filePath, name] = queue.pop() as [string, string | null];
+    const module = modules.get(filePath);
+    if (!module) continue;
+
+    if (!reachableFiles.has(filePath)) {
+      reachableFiles.add(filePath);
+
+      module.imports.forEach(({ specifier, names }) => {
+        const target = resolve(filePath, specifier);
+        if (!target) return;
+        queue.push([target, null]);
+        names.forEach((importedName) => {
+          queue.push([target, importedName]);
+        });
+      });
+      module.globs.forEach((pattern) => {
+        resolveGlob(filePath, pattern).forEach((target) => {
+          queue.push([target, '*']);
+        });
+      });
+      // re-export 대상 파일: 이름이 쓰이지 않아도 파일은 도달 (이름 전파는 아래에서)
+      module.reExports.forEach(({ specifier }) => {
+        const target = resolve(filePath, specifier);
+        if (target) queue.push([target, null]);
+      });
+    }
+
+    if (name === null) continue;
+
+    const used = usedExports.get(filePath) ?? new Set<string>();
+    usedExports.set(filePath, used);
+    if (used.has(name) || used.has('*')) continue;
+    used.add(name);
+
+    // re-export: 쓰인 이름만 대상 파일로 전파
+    module.reExports.forEach((reExport) => {
+      const target = resolve(filePath, reExport.specifier);
+      if (!target) return;
+
+      if (reExport.exported === '*') {
+        // export * from: 로컬 export가 아니고 default가 아닌 이름
+        if (name === '*' || (name !== 'default' && !module.localExports.has(name))) queue.push([target, name]);
+      } else if (name === '*' || reExport.exported === name) {
+        queue.push([target, reExport.imported]);
+      }
+    });
+  }
+
+  // 도달 가능한 barrel의 이름 있는 re-export 중 아무도 쓰지 않는 것 (export *는 이름이 없으므로 제외)
+  const unusedReExports: UnusedReExport[] = [];
+  reachableFiles.forEach((filePath) => {
+    const used = usedExports.get(filePath);
+    if (used?.has('*')) return;
+
+    modules.get(filePath)?.reExports.forEach(({ exported, line }) => {
+      if (exported === '*' || used?.has(exported)) return;
+      unusedReExports.push({ filePath, name: exported, line });
+    });
+  });
+
+  // Phase 3: Sweep - 도달하지 못한 파일 + 서로만 참조하는 묶음
+  const unreachableFiles = filePaths.filter((filePath) => modules.has(filePath) && !reachableFiles.has(filePath));
+  const unreachableSet = new Set(unreachableFiles);
+
+  const neighbors = new Map<string, Set<string>>(unreachableFiles.map((filePath) => [filePath, new Set<string>()]));
+  const importedWithin = new Set<string>();
+  unreachableFiles.forEach((filePath) => {
+    const module = modules.get(filePath);
+    if (!module) return;
+
+    const targets = [
+      ...module.imports.map(({ specifier }) => resolve(filePath, specifier)),
+      ...module.reExports.map(({ specifier }) => resolve(filePath, specifier)),
+      ...module.globs.flatMap((pattern) => resolveGlob(filePath, pattern)),
+    ];
+    targets.forEach((target) => {
+      if (!target || target === filePath || !unreachableSet.has(target)) return;
+      neighbors.get(filePath)?.add(target);
+      neighbors.get(target)?.add(filePath);
+      importedWithin.add(target);
+    });
+  });
+
+  const clusters: UnreachableCluster[] = [];
+  const assigned = new Set<string>();
+  [...unreachableFiles].sort().forEach((start) => {
+    if (assigned.has(start)) return;
+
+    const component: string[] = [];
+    const stack = [start];
+    assigned.add(start);
+    while (stack.length > 0) {
+      const current = stack.pop() as string;
+      component.push(current);
+      neighbors.get(current)?.forEach((next) => {
+        if (assigned.has(next)) return;
+        assigned.add(next);
+        stack.push(next);
+      });
+    }
+
+    if (component.length < 2) return;
+    component.sort();
+    clusters.push({
+      root: component.find((filePath) => !importedWithin.has(filePath)) ?? component[0],
+      files: component,
+    });
+  });
+
+  return { entryFiles, reachableFiles, usedExports, unusedReExports, unreachableFiles, clusters };
+}
@@ -0,0 +1,124 @@
+/**
+ * Dead Code Suppression - 주석 / .vibecoderc.json으로 의도된 항목 숨기기
+ *
+ * 주석 (카테고리 생략 시 모든 카테고리, 공백 / 콤마로 여러 개):
+ * - `// vibe-ignore-next-line unusedExport` : 다음 라인의 항목
+ * - `// vibe-ignore-line deadFunction`      : 같은 라인의 항목
+ * - `// vibe-ignore-file unreachableFile`   : 파일 전체
+ * - `-- 이유` 이후는 설명 (무시)
+ *
+ * .vibecoderc.json (가장 상위 폴더의 파일, 패턴은 파일 위치 기준 .gitignore 문법):
+ * { "deadCode": { "ignore": { "*": ["**\/*.generated.ts"], "unusedExport": ["src/public-api/**"] } } }
+ *
+ * 카테고리 이름은 단수 (unusedExport) / 복수 (unusedExports) 모두 허용
+ */
+
+import { createIgnoreMatcher, type IgnoreMatcher } from '@/shared/fileSystem/gitignore';
+import type { DeadCodeItem } from './deadCodeAnalyzer.ts';
+
+export const VIBE_CONFIG_FILE = '.vibecoderc.json';
+
+export interface VibeConfig {
+  deadCode?: {
+    ignore?: Record<string, string[]>; // 카테고리 (또는 '*') → glob 패턴
+  };
+}
+
+type Scope = 'next-line' | 'line' | 'file';
+
+interface SuppressionComment {
+  scope: Scope;
+  line: number; // 적용 대상 라인 (file scope는 0)
+  categories: Set<string> | null; // null: 모든 카테고리
+}
+
+// 카테고리 목록은 주석 끝 (`*/`, `-->`) 또는 줄 끝까지 (JSX `{/* ... */}`, 주석 뒤 코드 제외)
+const SUPPRESSION_COMMENT_PATTERN = /(?:\/\/|\/\*|<!--)\s*vibe-ignore-(next-line|line|file)\b([^\n]*?)(?:\*\/|-->|$)/gm;
+const ALL_CATEGORIES = '*';
+
+// 'unusedExports' → 'unusedExport' (CategoryKey 복수형도 허용)
+const normalizeCategory = (category: string) => category.replace(/s$/, '');
+
+function parseCategories(text: string): Set<string> | null {
+  const categories = text
+    .split(/\s--\s|^--\s/)[0]
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(normalizeCategory);
+  return categories.length > 0 ? new Set(categories) : null;
+}
+
+/**
+ * 파일 내용에서 suppression 주석 추출
+ */
+export function parseSuppressionComments(content: string): SuppressionComment[] {
+  const comments: SuppressionComment[] = [];
+
+  for (const match of content.matchAll(SUPPRESSION_COMMENT_PATTERN)) {
+    const scope = match[1] as Scope;
+    const commentLine = content.slice(0, match.index).split('\n').length;
+    comments.push({
+      scope,
+      line: scope === 'file' ? 0 : scope === 'next-line' ? commentLine + 1 : commentLine,
+      categories: parseCategories(match[2]),
+    });
+  }
+
+  return comments;
+}
+
+/**
+ * 프로젝트에서 가장 상위의 .vibecoderc.json 찾기 (파싱 실패 시 경고 후 무시)
+ */
+export function findVibeConfig(files: Record<string, string>): { path: string; config: VibeConfig } | null {
+  const configPath = Object.keys(files)
+    .filter((filePath) => filePath === VIBE_CONFIG_FILE || filePath.endsWith(`/${VIBE_CONFIG_FILE}`))
+    .sort((a, b) => a.split('/').length - b.split('/').length)[0];
+  if (!configPath) return null;
+
+  try {
+    return { path: configPath, config: JSON.parse(files[configPath]) as VibeConfig };
+  } catch (error) {
+    console.warn(`[suppression] Failed to parse ${configPath}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Dead code 항목 → suppression 사유 (숨기지 않으면 null)
+ */
+export function createSuppressionMatcher(files: Record<string, string>): (item: DeadCodeItem) => string | null {
+  const commentCache = new Map<string, SuppressionComment[]>();
+  const configMatchers = new Map<string, IgnoreMatcher>();
+
+  const found = findVibeConfig(files);
+  Object.entries(found?.config.deadCode?.ignore ?? {}).forEach(([category, patterns]) => {
+    if (!Array.isArray(patterns) || patterns.length === 0) return;
+    // 패턴은 .vibecoderc.json 위치 기준 (.gitignore와 동일)
+    const key = category === ALL_CATEGORIES ? ALL_CATEGORIES : normalizeCategory(category);
+    configMatchers.set(key, createIgnoreMatcher({ [found.path]: patterns.join('\n') }));
+  });
+
+  const getComments = (filePath: string) => {
+    let comments = commentCache.get(filePath);
+    if (!comments) {
+      comments = files[filePath] ? parseSuppressionComments(files[filePath]) : [];
+      commentCache.set(filePath, comments);
+    }
+    return comments;
+  };
+
+  return (item) => {
+    const comment = getComments(item.filePath).find(
+      (candidate) =>
+        (candidate.scope === 'file' || candidate.line === item.line) &&
+        (!candidate.categories || candidate.categories.has(item.category))
+    );
+    if (comment) return `vibe-ignore-${comment.scope}`;
+
+    for (const key of [item.category, ALL_CATEGORIES]) {
+      if (configMatchers.get(key)?.isIgnored(item.filePath)) return `${VIBE_CONFIG_FILE} (${key})`;
+    }
+    return null;
+  };
+}
@@ -4,12 +4,19 @@
 
 import { useAtom, useAtomValue, useSetAtom } from 'jotai';
 import { useEffect } from 'react';
-import { graphDataAtom } from '@/entities/AppView/model/atoms';
-import { deadCodeResultsAtom, isAnalyzingAtom, selectedDeadCodeItemsAtom } from '../model/atoms.ts';
+import { filesAtom, graphDataAtom } from '@/entities/AppView/model/atoms';
+import {
+  deadCodeResultsAtom,
+  entryPointOptionsAtom,
+  isAnalyzingAtom,
+  selectedDeadCodeItemsAtom,
+} from '../model/atoms.ts';
 import { analyzeDeadCode } from './deadCodeAnalyzer.ts';
 
 export function useDeadCodeAnalysis() {
   const graphData = useAtomValue(graphDataAtom);
+  const files = useAtomValue(filesAtom);
+  const entryPointOptions = useAtomValue(entryPointOptionsAtom);
   const [deadCodeResults, setDeadCodeResults] = useAtom(deadCodeResultsAtom);
   const [isAnalyzing, setIsAnalyzing] = useAtom(isAnalyzingAtom);
   const setSelectedItems = useSetAtom(selectedDeadCodeItemsAtom);
@@ -20,12 +27,12 @@ export function useDeadCodeAnalysis() {
       setIsAnalyzing(true);
       // Run analysis in next tick to avoid blocking UI
       setTimeout(() => {
-        const results = analyzeDeadCode(graphData);
+        const results = analyzeDeadCode(graphData, files, entryPointOptions);
         setDeadCodeResults(results);
         setIsAnalyzing(false);
       }, 0);
     }
-  }, [graphData, deadCodeResults, setDeadCodeResults, setIsAnalyzing]);
+  }, [graphData, files, entryPointOptions, deadCodeResults, setDeadCodeResults, setIsAnalyzing]);
 
   const reanalyze = () => {
     setIsAnalyzing(true);
@@ -33,7 +40,7 @@ export function useDeadCodeAnalysis() {
     setSelectedItems(new Set());
     setTimeout(() => {
       if (graphData) {
-        const results = analyzeDeadCode(graphData);
+        const results = analyzeDeadCode(graphData, files, entryPointOptions);
         setDeadCodeResults(results);
       }
       setIsAnalyzing(false);
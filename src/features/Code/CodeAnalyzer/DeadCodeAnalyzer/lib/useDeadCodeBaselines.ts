@@ -0,0 +1,38 @@
+/**
+ * Dead Code Baselines Hook
+ * IndexedDB에 저장된 baseline 로드 / 현재 결과 저장 / 삭제
+ */
+
+import { useAtom, useAtomValue } from 'jotai';
+import { useEffect } from 'react';
+import { deleteDeadCodeBaseline, loadDeadCodeBaselines, saveDeadCodeBaseline } from '@/shared/storage/indexedDB';
+import { activeBaselineIdAtom, deadCodeBaselinesAtom, deadCodeResultsAtom } from '../model/atoms.ts';
+import { createBaseline } from './baseline.ts';
+
+export function useDeadCodeBaselines() {
+  const deadCodeResults = useAtomValue(deadCodeResultsAtom);
+  const [baselines, setBaselines] = useAtom(deadCodeBaselinesAtom);
+  const [activeBaselineId, setActiveBaselineId] = useAtom(activeBaselineIdAtom);
+
+  // Load baselines on mount
+  useEffect(() => {
+    loadDeadCodeBaselines().then(setBaselines);
+  }, [setBaselines]);
+
+  // 현재 결과를 baseline으로 저장하고 비교 대상으로 선택
+  const saveCurrent = async (name: string) => {
+    if (!deadCodeResults) return;
+    const baseline = createBaseline(name.trim() || new Date().toLocaleString(), deadCodeResults);
+    await saveDeadCodeBaseline(baseline);
+    setBaselines((prev) => [...prev, baseline]);
+    setActiveBaselineId(baseline.id);
+  };
+
+  const remove = async (id: string) => {
+    await deleteDeadCodeBaseline(id);
+    setBaselines((prev) => prev.filter((baseline) => baseline.id !== id));
+    if (activeBaselineId === id) setActiveBaselineId(null);
+  };
+
+  return { baselines, activeBaselineId, setActiveBaselineId, saveCurrent, remove };
+}
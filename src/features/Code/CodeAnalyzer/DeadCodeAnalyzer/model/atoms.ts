@@ -2,7 +2,10 @@
  * DeadCodeAnalyzer - Atoms
  */
 import { atom } from 'jotai';
+import { atomWithStorage } from 'jotai/utils';
+import { compareWithBaseline, type DeadCodeBaseline } from '../lib/baseline.ts';
 import type { DeadCodeResults } from '../lib/deadCodeAnalyzer.ts';
+import { DEFAULT_ENTRY_POINT_OPTIONS, type EntryPointOptions } from '../lib/reachability.ts';
 import type { CategoryState } from './types.ts';
 
 // ============================================================================
@@ -13,7 +16,31 @@ import type { CategoryState } from './types.ts';
 export const isAnalyzingAtom = atom(false);
 
 // 분석 결과
-export const deadCodeResultsAtom = atom<DeadCodeResults | null>(null);
+export const deadCodeResultsAtom = atom(null as DeadCodeResults | null);
+
+// 도달성 분석 entry point 설정 - localStorage 저장
+export const entryPointOptionsAtom = atomWithStorage<EntryPointOptions>(
+  'deadCodeEntryPoints',
+  DEFAULT_ENTRY_POINT_OPTIONS
+);
+
+// ============================================================================
+// Baseline (IndexedDB 저장, 세션 간 비교)
+// ============================================================================
+
+// 저장된 baseline 목록 (오래된 순)
+export const deadCodeBaselinesAtom = atom([] as DeadCodeBaseline[]);
+
+// 비교 대상 baseline id - localStorage 저장
+export const activeBaselineIdAtom = atomWithStorage<string | null>('deadCodeActiveBaseline', null);
+
+// 현재 결과 vs 선택된 baseline (없으면 null)
+export const baselineComparisonAtom = atom((get) => {
+  const results = get(deadCodeResultsAtom);
+  const activeId = get(activeBaselineIdAtom);
+  const baseline = get(deadCodeBaselinesAtom).find((candidate) => candidate.id === activeId);
+  return results && baseline ? compareWithBaseline(results, baseline) : null;
+});
 
 // ============================================================================
 // UI State
@@ -22,13 +49,22 @@ export const deadCodeResultsAtom = atom<DeadCodeResults | null>(null);
 // 카테고리 펼침/접힘 상태 (기본: 모두 접힘)
 export const expandedCategoriesAtom = atom<CategoryState>({
   unusedExports: false,
+  unusedTypeExports: false,
   unusedImports: false,
+  typeOnlyImports: false,
   deadFunctions: false,
   unusedVariables: false,
   unusedProps: false,
   unusedArguments: false,
+  unawaitedAsyncCalls: false,
+  unreachableFiles: false,
+  unreachableExports: false,
+  unreachableClusters: false,
 });
 
+// suppression 주석 / .vibecoderc.json으로 숨긴 항목 표시 여부
+export const showSuppressedAtom = atom(false);
+
 // 폴더 접힘 상태
 export const collapsedFoldersAtom = atom<Set<string>>(new Set());
 
@@ -4,11 +4,17 @@
 
 export interface CategoryState {
   unusedExports: boolean;
+  unusedTypeExports: boolean;
   unusedImports: boolean;
+  typeOnlyImports: boolean;
   deadFunctions: boolean;
   unusedVariables: boolean;
   unusedProps: boolean;
   unusedArguments: boolean;
+  unawaitedAsyncCalls: boolean;
+  unreachableFiles: boolean;
+  unreachableExports: boolean;
+  unreachableClusters: boolean;
 }
 
 export type CategoryKey = keyof CategoryState;
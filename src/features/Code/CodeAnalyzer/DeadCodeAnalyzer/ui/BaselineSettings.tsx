@@ -0,0 +1,120 @@
+/**
+ * Baseline Settings Component
+ * 현재 결과를 이름 붙여 저장 (IndexedDB) + 비교할 baseline 선택 + 그 이후 해결된 항목
+ */
+
+import { useAtomValue } from 'jotai';
+import { ChevronDown, ChevronRight, History, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/Button.tsx';
+import { useDeadCodeBaselines } from '../lib/useDeadCodeBaselines.ts';
+import { baselineComparisonAtom, deadCodeResultsAtom } from '../model/atoms.ts';
+
+const MAX_LISTED_FIXED = 8;
+
+export function BaselineSettings() {
+  const { baselines, activeBaselineId, setActiveBaselineId, saveCurrent, remove } = useDeadCodeBaselines();
+  const deadCodeResults = useAtomValue(deadCodeResultsAtom);
+  const comparison = useAtomValue(baselineComparisonAtom);
+  const [expanded, setExpanded] = useState(false);
+  const [name, setName] = useState('');
+
+  const handleSave = async () => {
+    try {
+      await saveCurrent(name);
+      setName('');
+    } catch (error) {
+      console.error('[BaselineSettings] Failed to save baseline:', error);
+    }
+  };
+
+  return (
+    <div className="px-3 py-2 text-xs border-b border-border-DEFAULT">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-1.5 w-full text-text-secondary hover:text-text-primary"
+      >
+        {expanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+        <History size={12} className="text-warm-300" />
+        <span>Baseline</span>
+        {comparison ? (
+          <span className="text-text-muted truncate">
+            vs {comparison.baseline.name}: <span className="text-sky-400">+{comparison.newCount} new</span>,{' '}
+            <span className="text-emerald-400">{comparison.fixed.length} fixed</span>
+          </span>
+        ) : (
+          <span className="text-text-muted">({baselines.length})</span>
+        )}
+      </button>
+
+      {expanded && (
+        <div className="mt-2 flex flex-col gap-2">
+          <div className="flex items-center gap-1">
+            <select
+              value={activeBaselineId ?? ''}
+              onChange={(e) => setActiveBaselineId(e.target.value || null)}
+              className="flex-1 min-w-0 bg-bg-deep border border-border-light rounded px-1 py-0.5 text-2xs text-text-primary"
+            >
+              <option value="">No comparison</option>
+              {baselines.map((baseline) => (
+                <option key={baseline.id} value={baseline.id}>
+                  {baseline.name} ({new Date(baseline.createdAt).toLocaleDateString()})
+                </option>
+              ))}
+            </select>
+            {activeBaselineId && (
+              <button
+                type="button"
+                onClick={() => remove(activeBaselineId)}
+                className="p-1 text-text-muted hover:text-red-400"
+                title="Delete this baseline"
+              >
+                <Trash2 size={12} />
+              </button>
+            )}
+          </div>
+
+          <div className="flex items-center gap-1">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSave();
+              }}
+              placeholder="Baseline name"
+              className="flex-1 min-w-0 bg-bg-deep border border-border-light rounded px-2 py-0.5 text-2xs text-text-primary"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-6 text-2xs"
+              disabled={!deadCodeResults}
+              onClick={handleSave}
+            >
+              Save current
+            </Button>
+          </div>
+
+          {comparison && comparison.fixed.length > 0 && (
+            <ul className="text-2xs text-text-tertiary font-mono space-y-0.5">
+              {comparison.fixed.slice(0, MAX_LISTED_FIXED).map((item) => (
+                <li
+                  key={`${item.category}:${item.filePath}:${item.line}:${item.symbolName}`}
+                  className="truncate"
+                  title={item.filePath}
+                >
+                  <span className="text-emerald-400">✓</span> {item.symbolName}{' '}
+                  <span className="text-text-muted">{item.filePath.split('/').pop()}</span>
+                </li>
+              ))}
+              {comparison.fixed.length > MAX_LISTED_FIXED && (
+                <li className="text-text-muted">+{comparison.fixed.length - MAX_LISTED_FIXED} more fixed</li>
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+/**
+ * Entry Point Settings Component
+ * 도달성 분석 (Unreachable Files / Exports / Clusters)의 entry point 패턴 편집 + 감지된 entry 파일
+ */
+
+import { useAtom, useSetAtom } from 'jotai';
+import { ChevronDown, ChevronRight, LogIn } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/Button.tsx';
+import { DEFAULT_ENTRY_POINT_OPTIONS } from '../lib/reachability.ts';
+import { deadCodeResultsAtom, entryPointOptionsAtom, selectedDeadCodeItemsAtom } from '../model/atoms.ts';
+
+const MAX_LISTED_ENTRIES = 8;
+
+export function EntryPointSettings() {
+  const [options, setOptions] = useAtom(entryPointOptionsAtom);
+  const [deadCodeResults, setDeadCodeResults] = useAtom(deadCodeResultsAtom);
+  const setSelectedItems = useSetAtom(selectedDeadCodeItemsAtom);
+  const [expanded, setExpanded] = useState(false);
+  const [draft, setDraft] = useState(options);
+
+  const entryFiles = deadCodeResults?.entryFiles ?? [];
+  const isDirty =
+    draft.includePackageJson !== options.includePackageJson ||
+    draft.patterns.join('\n') !== options.patterns.join('\n');
+
+  // 설정 저장 후 결과를 비우면 useDeadCodeAnalysis가 새 설정으로 재분석
+  const apply = (next = draft) => {
+    const cleaned = { ...next, patterns: next.patterns.map((line) => line.trim()).filter(Boolean) };
+    setDraft(cleaned);
+    setOptions(cleaned);
+    setSelectedItems(new Set());
+    setDeadCodeResults(null);
+  };
+
+  return (
+    <div className="px-3 py-2 text-xs border-b border-border-DEFAULT">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-1.5 w-full text-text-secondary hover:text-text-primary"
+      >
+        {expanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+        <LogIn size={12} className="text-warm-300" />
+        <span>Entry points</span>
+        <span className="text-text-muted">({entryFiles.length})</span>
+      </button>
+
+      {deadCodeResults && entryFiles.length === 0 && (
+        <div className="mt-1 text-2xs text-text-muted">
+          No entry point matched — unreachable files are not reported.
+        </div>
+      )}
+
+      {expanded && (
+        <div className="mt-2 flex flex-col gap-2">
+          <label className="flex flex-col gap-1 text-2xs text-text-secondary">
+            Patterns (.gitignore syntax, one per line)
+            <textarea
+              value={draft.patterns.join('\n')}
+              onChange={(e) => setDraft({ ...draft, patterns: e.target.value.split('\n') })}
+              rows={5}
+              className="font-mono bg-bg-deep border border-border-light rounded px-2 py-1 text-text-primary resize-none"
+            />
+          </label>
+
+          <label className="flex items-center gap-2 text-2xs text-text-secondary">
+            <input
+              type="checkbox"
+              checked={draft.includePackageJson}
+              onChange={(e) => setDraft({ ...draft, includePackageJson: e.target.checked })}
+            />
+            package.json main / exports / bin
+          </label>
+
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" className="h-6 text-2xs" disabled={!isDirty} onClick={() => apply()}>
+              Apply
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 text-2xs"
+              onClick={() => apply(DEFAULT_ENTRY_POINT_OPTIONS)}
+            >
+              Reset
+            </Button>
+          </div>
+
+          {entryFiles.length > 0 && (
+            <ul className="text-2xs text-text-tertiary font-mono space-y-0.5">
+              {entryFiles.slice(0, MAX_LISTED_ENTRIES).map((filePath) => (
+                <li key={filePath} className="truncate" title={filePath}>
+                  {filePath}
+                </li>
+              ))}
+              {entryFiles.length > MAX_LISTED_ENTRIES && (
+                <li className="text-text-muted">+{entryFiles.length - MAX_LISTED_ENTRIES} more</li>
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+/**
+ * Dead Code 자동 제거 테스트
+ *
+ * 선택한 항목만 정확히 지우고, 안전하지 않은 항목은 사유와 함께 건너뛰는지 확인
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { DeadCodeItem } from '../../../DeadCodeAnalyzer/lib/deadCodeAnalyzer';
+import { planDeadCodeRemovals } from '../planRemovals';
+
+const FILE_PATH = 'src/a.ts';
+
+const KINDS: Partial<Record<DeadCodeItem['category'], DeadCodeItem['kind']>> = {
+  unusedImport: 'import',
+  unusedExport: 'export',
+  unusedTypeExport: 'export',
+  unusedArgument: 'argument',
+  deadFunction: 'function',
+};
+
+function item(
+  category: DeadCodeItem['category'],
+  symbolName: string,
+  line: number,
+  extra: Partial<DeadCodeItem> = {}
+): DeadCodeItem {
+  return { filePath: FILE_PATH, symbolName, line, kind: KINDS[category] ?? 'variable', category, ...extra };
+}
+
+function plan(code: string, items: DeadCodeItem[]) {
+  const result = planDeadCodeRemovals(items, { [FILE_PATH]: code });
+  return {
+    updated: result.files[0]?.updated ?? code,
+    skipped: result.skipped.map(({ item, reason }) => [item.symbolName, reason]),
+  };
+}
+
+describe('Dead Code 자동 제거', () => {
+  it('import specifier 제거 (모두 제거되면 import 문 삭제)', () => {
+    const code = `import { a, b, c } from './x';\nimport d from './d';\nuse(a, c);\n`;
+    const { updated } = plan(code, [
+      item('unusedImport', 'b', 1, { from: './x' }),
+      item('unusedImport', 'd', 2, { from: './d' }),
+    ]);
+
+    expect(updated).toBe(`import { a, c } from './x';\nuse(a, c);\n`);
+  });
+
+  it('부수 효과 없는 변수만 제거', () => {
+    const code = 'function f() {\n  const unused = 1;\n  const called = load();\n  return 0;\n}\n';
+    const { updated, skipped } = plan(code, [item('unusedVariable', 'unused', 2), item('unusedVariable', 'called', 3)]);
+
+    expect(updated).toBe('function f() {\n  const called = load();\n  return 0;\n}\n');
+    expect(skipped).toEqual([['called', 'Initializer may have side effects']]);
+  });
+
+  it('unused export는 export 키워드만 제거', () => {
+    const code = 'export function helper() {}\nexport type Id = string;\nconst x = 1;\nexport { x };\n';
+    const { updated } = plan(code, [
+      item('unusedExport', 'helper', 1),
+      item('unusedTypeExport', 'Id', 2),
+      item('unusedExport', 'x', 4),
+    ]);
+
+    expect(updated).toBe('function helper() {}\ntype Id = string;\nconst x = 1;\n');
+  });
+
+  it('파라미터는 목록 끝에 연속된 것만 제거', () => {
+    const code = 'function f(a: number, b: number, c: number) {\n  return a;\n}\nconst g = (x) => 1;\n';
+    const { updated, skipped } = plan(code, [
+      item('unusedArgument', 'b', 1, { functionName: 'f' }),
+      item('unusedArgument', 'c', 1, { functionName: 'f' }),
+      item('unusedArgument', 'x', 4, { functionName: 'g' }),
+    ]);
+
+    expect(updated).toBe('function f(a: number) {\n  return a;\n}\nconst g = () => 1;\n');
+    expect(skipped).toEqual([]);
+  });
+
+  it('호출부가 인자를 넘기는 파라미터는 남김 (다른 파일 호출 포함)', () => {
+    const code = 'export function f(a: number, b: number, c: number) {\n  return a;\n}\nf(1);\n';
+    const items = [
+      item('unusedArgument', 'b', 1, { functionName: 'f' }),
+      item('unusedArgument', 'c', 1, { functionName: 'f' }),
+    ];
+    const result = planDeadCodeRemovals(items, {
+      [FILE_PATH]: code,
+      'src/b.ts': `import { f } from './a';\nf(1, 2);\n`,
+    });
+
+    expect(result.files[0]?.updated).toBe('export function f(a: number, b: number) {\n  return a;\n}\nf(1);\n');
+    expect(result.skipped.map(({ item, reason }) => [item.symbolName, reason])).toEqual([
+      ['b', 'Passed at a call site'],
+    ]);
+  });
+
+  it('spread 인자로 호출하면 파라미터를 지우지 않음', () => {
+    const code = 'function f(a: number, b?: number) {\n  return a;\n}\nf(...args);\n';
+    const { updated, skipped } = plan(code, [item('unusedArgument', 'b', 1, { functionName: 'f' })]);
+
+    expect(updated).toBe(code);
+    expect(skipped).toEqual([['b', 'Passed at a call site']]);
+  });
+
+  it('자동 제거하지 않는 카테고리 / 파일 형식은 건너뜀', () => {
+    const result = planDeadCodeRemovals(
+      [item('deadFunction', 'old', 1), { ...item('unusedImport', 'a', 1), filePath: 'src/App.vue' }],
+      { [FILE_PATH]: 'function old() {}\n', 'src/App.vue': '<script>import a from "a";</script>' }
+    );
+
+    expect(result.files).toEqual([]);
+    expect(result.skipped.map(({ reason }) => reason)).toEqual([
+      'Category is not removed automatically',
+      'Unsupported file type',
+    ]);
+  });
+});
@@ -0,0 +1,542 @@
+/**
+ * Dead Code 자동 제거 - AST에서 정확한 텍스트 편집 계산
+ *
+ * 기계적으로 안전한 카테고리만 처리 (나머지는 skipped로 사유와 함께 반환):
+ * - Unused Imports: specifier 제거 (모두 제거되면 import 문 삭제)
+ * - Unused Variables: 선언 제거 (initializer에 부수 효과가 없을 때만)
+ * - Unused Exports / Type Exports: export 키워드 제거 (`export { a }` 목록은 항목 제거)
+ * - Unused Arguments: 파라미터 목록 끝에 연속된 미사용 파라미터만 제거
+ *   (프로젝트의 어느 호출부에서든 인자를 넘기는 파라미터는 남김)
+ */
+
+import * as ts from 'typescript';
+import { extractVueScript } from '@/shared/tsParser/utils/vueExtractor';
+import type { DeadCodeItem } from '../../DeadCodeAnalyzer/lib/deadCodeAnalyzer.ts';
+
+interface TextEdit {
+  start: number;
+  end: number;
+  newText: string;
+}
+
+export interface FileRemoval {
+  filePath: string;
+  original: string;
+  updated: string;
+  items: DeadCodeItem[]; // 편집에 반영된 항목
+}
+
+export interface SkippedRemoval {
+  item: DeadCodeItem;
+  reason: string;
+}
+
+export interface RemovalPlan {
+  files: FileRemoval[];
+  skipped: SkippedRemoval[];
+}
+
+export const REMOVABLE_CATEGORIES: ReadonlySet<DeadCodeItem['category']> = new Set([
+  'unusedImport',
+  'unusedVariable',
+  'unusedExport',
+  'unusedTypeExport',
+  'unusedArgument',
+]);
+
+const EDITABLE_FILE_PATTERN = /\.(tsx?|jsx?|mts|cts|mjs|cjs)$/;
+
+// 파일별 편집 수집 컨텍스트
+interface FileContext {
+  sourceFile: ts.SourceFile;
+  text: string;
+  edits: TextEdit[];
+  applied: DeadCodeItem[];
+  skipped: SkippedRemoval[];
+  getPassedArgumentCount: (functionName: string) => number;
+}
+
+// ========================================
+// 공통 헬퍼
+// ========================================
+
+function getScriptKind(filePath: string): ts.ScriptKind {
+  if (filePath.endsWith('.tsx')) return ts.ScriptKind.TSX;
+  if (/\.[mc]?jsx?$/.test(filePath)) return filePath.endsWith('.jsx') ? ts.ScriptKind.JSX : ts.ScriptKind.JS;
+  return ts.ScriptKind.TS;
+}
+
+const getLine = (sourceFile: ts.SourceFile, node: ts.Node) =>
+  sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+
+/**
+ * 노드가 라인을 혼자 차지하면 줄 전체 (줄바꿈 포함) 삭제, 아니면 노드 범위만
+ */
+function removeNode(context: FileContext, node: ts.Node): TextEdit {
+  const { text, sourceFile } = context;
+  const start = node.getStart(sourceFile);
+  const end = node.getEnd();
+
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const newline = text.indexOf('\n', end);
+  const lineEnd = newline === -1 ? text.length : newline;
+
+  if (text.slice(lineStart, start).trim() === '' && text.slice(end, lineEnd).trim() === '') {
+    return { start: lineStart, end: newline === -1 ? lineEnd : lineEnd + 1, newText: '' };
+  }
+  return { start, end, newText: '' };
+}
+
+/**
+ * 콤마 목록에서 일부 요소 제거 (전부 제거는 호출부에서 부모를 삭제)
+ * - 뒤에 남는 요소가 있으면: 요소 시작 ~ 다음 남는 요소 시작
+ * - 목록 끝이면: 앞에 남는 요소 끝 ~ 마지막 제거 요소 끝
+ */
+function removeListElements(context: FileContext, elements: readonly ts.Node[], removed: Set<ts.Node>): TextEdit[] {
+  const edits: TextEdit[] = [];
+  let index = 0;
+
+  while (index < elements.length) {
+    if (!removed.has(elements[index])) {
+      index++;
+      continue;
+    }
+
+    let runEnd = index;
+    while (runEnd + 1 < elements.length && removed.has(elements[runEnd + 1])) runEnd++;
+
+    const next = elements[runEnd + 1];
+    edits.push(
+      next
+        ? { start: elements[index].getStart(context.sourceFile), end: next.getStart(context.sourceFile), newText: '' }
+        : { start: elements[index - 1].getEnd(), end: elements[runEnd].getEnd(), newText: '' }
+    );
+    index = runEnd + 1;
+  }
+
+  return edits;
+}
+
+// initializer를 지워도 동작이 바뀌지 않는지 (호출 / getter 접근 / new 등은 false)
+function isSideEffectFree(node: ts.Expression | undefined): boolean {
+  if (!node) return true;
+  if (
+    ts.isParenthesizedExpression(node) ||
+    ts.isAsExpression(node) ||
+    ts.isSatisfiesExpression(node) ||
+    ts.isNonNullExpression(node) ||
+    ts.isTypeAssertionExpression(node)
+  ) {
+    return isSideEffectFree(node.expression);
+  }
+  if (
+    ts.isLiteralExpression(node) ||
+    ts.isIdentifier(node) ||
+    ts.isArrowFunction(node) ||
+    ts.isFunctionExpression(node) ||
+    node.kind === ts.SyntaxKind.TrueKeyword ||
+    node.kind === ts.SyntaxKind.FalseKeyword ||
+    node.kind === ts.SyntaxKind.NullKeyword
+  ) {
+    return true;
+  }
+  if (ts.isTemplateExpression(node)) return node.templateSpans.every((span) => isSideEffectFree(span.expression));
+  if (ts.isPrefixUnaryExpression(node)) {
+    return node.operator !== ts.SyntaxKind.PlusPlusToken && node.operator !== ts.SyntaxKind.MinusMinusToken
+      ? isSideEffectFree(node.operand)
+      : false;
+  }
+  if (ts.isArrayLiteralExpression(node)) {
+    return node.elements.every((element) => !ts.isSpreadElement(element) && isSideEffectFree(element));
+  }
+  if (ts.isObjectLiteralExpression(node)) {
+    return node.properties.every(
+      (property) =>
+        ts.isShorthandPropertyAssignment(property) ||
+        ts.isMethodDeclaration(property) ||
+        (ts.isPropertyAssignment(property) &&
+          !ts.isComputedPropertyName(property.name) &&
+          isSideEffectFree(property.initializer))
+    );
+  }
+  return false;
+}
+
+/**
+ * 프로젝트 전체 호출부에서 이름별로 넘기는 인자 수의 최대값
+ * - import alias / 같은 이름의 다른 함수도 구분하지 않음 (파라미터를 덜 지우는 쪽으로 보수적)
+ * - spread 인자는 개수를 알 수 없으므로 Infinity
+ * - 첫 호출 시 한 번만 파싱
+ */
+function createArgumentCounter(files: Record<string, string>): (functionName: string) => number {
+  let counts: Map<string, number> | null = null;
+
+  const collect = () => {
+    const result = new Map<string, number>();
+    Object.entries(files).forEach(([filePath, content]) => {
+      const script = filePath.endsWith('.vue')
+        ? extractVueScript(content, filePath)
+        : EDITABLE_FILE_PATTERN.test(filePath)
+          ? content
+          : null;
+      if (script === null) return;
+
+      const visit = (node: ts.Node) => {
+        if (ts.isCallExpression(node)) {
+          const callee = ts.isPropertyAccessExpression(node.expression) ? node.expression.name : node.expression;
+          if (ts.isIdentifier(callee)) {
+            const count = node.arguments.some(ts.isSpreadElement) ? Infinity : node.arguments.length;
+            result.set(callee.text, Math.max(result.get(callee.text) ?? 0, count));
+          }
+        }
+        ts.forEachChild(node, visit);
+      };
+      visit(ts.createSourceFile(filePath, script, ts.ScriptTarget.Latest, true, getScriptKind(filePath)));
+    });
+    return result;
+  };
+
+  return (functionName) => {
+    counts ??= collect();
+    return counts.get(functionName) ?? 0;
+  };
+}
+
+// ========================================
+// 카테고리별 편집
+// ========================================
+
+function planImports(context: FileContext, items: DeadCodeItem[]) {
+  const pending = new Map(items.map((item) => [item.symbolName, item]));
+  const take = (name: ts.Identifier) => {
+    const item = pending.get(name.text);
+    if (!item) return false;
+    pending.delete(name.text);
+    context.applied.push(item);
+    return true;
+  };
+
+  context.sourceFile.statements.forEach((statement) => {
+    if (!ts.isImportDeclaration(statement) || !statement.importClause) return;
+
+    const clause = statement.importClause;
+    const bindings = clause.namedBindings;
+    const defaultRemoved = !!clause.name && take(clause.name);
+    const namespaceRemoved = !!bindings && ts.isNamespaceImport(bindings) && take(bindings.name);
+    const elements = bindings && ts.isNamedImports(bindings) ? bindings.elements : undefined;
+    const removedElements = new Set<ts.Node>(elements?.filter((element) => take(element.name)));
+
+    const defaultKept = !!clause.name && !defaultRemoved;
+    const bindingsKept = !!bindings && !namespaceRemoved && (!elements || removedElements.size < elements.length);
+
+    if (!defaultRemoved && !namespaceRemoved && removedElements.size === 0) return;
+
+    // 전부 제거 → import 문 삭제
+    if (!defaultKept && !bindingsKept) {
+      context.edits.push(removeNode(context, statement));
+      return;
+    }
+
+    if (defaultRemoved && bindings) {
+      // `D, { a }` → `{ a }`
+      context.edits.push({ start: clause.name.getStart(context.sourceFile), end: bindings.getStart(), newText: '' });
+    }
+    if (defaultKept && bindings && !bindingsKept) {
+      // `D, { a }` → `D`
+      context.edits.push({ start: clause.name.getEnd(), end: bindings.getEnd(), newText: '' });
+    } else if (elements && removedElements.size > 0) {
+      context.edits.push(...removeListElements(context, elements, removedElements));
+    }
+  });
+
+  pending.forEach((item) => {
+    context.skipped.push({ item, reason: 'Import binding not found' });
+  });
+}
+
+function planVariables(context: FileContext, items: DeadCodeItem[]) {
+  const { sourceFile } = context;
+  const statements = new Map<ts.VariableStatement, Set<ts.Node>>();
+
+  items.forEach((item) => {
+    let found: ts.VariableDeclaration | undefined;
+    const visit = (node: ts.Node) => {
+      if (found) return;
+      if (
+        ts.isVariableDeclaration(node) &&
+        ts.isIdentifier(node.name) &&
+        node.name.text === item.symbolName &&
+        getLine(sourceFile, node) === item.line
+      ) {
+        found = node;
+        return;
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    const statement = found?.parent.parent;
+    if (!found || !statement || !ts.isVariableStatement(statement)) {
+      context.skipped.push({ item, reason: 'Variable statement not found' });
+      return;
+    }
+    if (ts.getCombinedModifierFlags(found) & ts.ModifierFlags.Export) {
+      context.skipped.push({ item, reason: 'Exported variable' });
+      return;
+    }
+    if (!isSideEffectFree(found.initializer)) {
+      context.skipped.push({ item, reason: 'Initializer may have side effects' });
+      return;
+    }
+
+    if (!statements.has(statement)) statements.set(statement, new Set());
+    statements.get(statement)?.add(found);
+    context.applied.push(item);
+  });
+
+  statements.forEach((removed, statement) => {
+    const declarations = statement.declarationList.declarations;
+    context.edits.push(
+      ...(removed.size === declarations.length
+        ? [removeNode(context, statement)]
+        : removeListElements(context, declarations, removed))
+    );
+  });
+}
+
+function getDeclaredNames(statement: ts.Statement): string[] {
+  if (ts.isVariableStatement(statement)) {
+    return statement.declarationList.declarations.flatMap((declaration) =>
+      ts.isIdentifier(declaration.name) ? [declaration.name.text] : []
+    );
+  }
+  if (
+    (ts.isFunctionDeclaration(statement) ||
+      ts.isClassDeclaration(statement) ||
+      ts.isInterfaceDeclaration(statement) ||
+      ts.isTypeAliasDeclaration(statement) ||
+      ts.isEnumDeclaration(statement)) &&
+    statement.name
+  ) {
+    return [statement.name.text];
+  }
+  return [];
+}
+
+function planExports(context: FileContext, items: DeadCodeItem[]) {
+  const { sourceFile, text } = context;
+  const pending = new Map(items.map((item) => [item.symbolName, item]));
+
+  sourceFile.statements.forEach((statement) => {
+    // `export { a, b as c }` / `export { a } from './x'`
+    if (ts.isExportDeclaration(statement) && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+      const elements = statement.exportClause.elements;
+      const removed = new Set<ts.Node>(
+        elements.filter((element) => {
+          const item = pending.get(element.name.text);
+          if (!item) return false;
+          pending.delete(element.name.text);
+          context.applied.push(item);
+          return true;
+        })
+      );
+      if (removed.size === 0) return;
+
+      context.edits.push(
+        ...(removed.size === elements.length
+          ? [removeNode(context, statement)]
+          : removeListElements(context, elements, removed))
+      );
+      return;
+    }
+
+    const modifiers = ts.canHaveModifiers(statement) ? ts.getModifiers(statement) : undefined;
+    const exportModifier = modifiers?.find((modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword);
+    if (!exportModifier) return;
+
+    const names = getDeclaredNames(statement);
+    const matched = names.filter((name) => pending.has(name));
+    if (matched.length === 0) return;
+
+    const matchedItems = matched.map((name) => pending.get(name) as DeadCodeItem);
+    matched.forEach((name) => {
+      pending.delete(name);
+    });
+
+    if (modifiers?.some((modifier) => modifier.kind === ts.SyntaxKind.DefaultKeyword)) {
+      matchedItems.forEach((item) => {
+        context.skipped.push({ item, reason: 'Default export' });
+      });
+      return;
+    }
+    // `export const a = 1, b = 2` 에서 일부만 미사용이면 export를 지울 수 없음
+    if (matched.length < names.length) {
+      matchedItems.forEach((item) => {
+        context.skipped.push({ item, reason: 'Shares an export statement with used declarations' });
+      });
+      return;
+    }
+
+    let end = exportModifier.getEnd();
+    while (end < text.length && /[ \t]/.test(text[end])) end++;
+    context.edits.push({ start: exportModifier.getStart(sourceFile), end, newText: '' });
+    context.applied.push(...matchedItems);
+  });
+
+  pending.forEach((item) => {
+    context.skipped.push({ item, reason: 'Export declaration not found' });
+  });
+}
+
+type FunctionNode = ts.FunctionDeclaration | ts.FunctionExpression | ts.ArrowFunction;
+
+function findFunction(sourceFile: ts.SourceFile, name: string, line: number): FunctionNode | undefined {
+  let found: FunctionNode | undefined;
+  const visit = (node: ts.Node) => {
+    if (found) return;
+    if (ts.isFunctionDeclaration(node) || ts.isFunctionExpression(node) || ts.isArrowFunction(node)) {
+      const functionName =
+        node.name?.text ??
+        (ts.isVariableDeclaration(node.parent) && ts.isIdentifier(node.parent.name)
+          ? node.parent.name.text
+          : undefined);
+      if (functionName === name && getLine(sourceFile, node) === line) {
+        found = node;
+        return;
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return found;
+}
+
+function planArguments(context: FileContext, items: DeadCodeItem[]) {
+  const { sourceFile, text } = context;
+  const byFunction = new Map<string, DeadCodeItem[]>();
+  items.forEach((item) => {
+    const key = `${item.functionName}:${item.line}`;
+    byFunction.set(key, [...(byFunction.get(key) ?? []), item]);
+  });
+
+  byFunction.forEach((functionItems) => {
+    const { functionName = '', line } = functionItems[0];
+    const fn = findFunction(sourceFile, functionName, line);
+    if (!fn) {
+      functionItems.forEach((item) => {
+        context.skipped.push({ item, reason: 'Function not found' });
+      });
+      return;
+    }
+
+    // 끝에서부터 연속된 미사용 파라미터 (중간 파라미터를 지우면 호출부 인자 위치가 바뀜)
+    const unusedNames = new Set(functionItems.map((item) => item.symbolName));
+    const parameters = fn.parameters;
+    let trailingStart = parameters.length;
+    while (trailingStart > 0) {
+      const parameter = parameters[trailingStart - 1];
+      if (!ts.isIdentifier(parameter.name) || !unusedNames.has(parameter.name.text)) break;
+      trailingStart--;
+    }
+    // 호출부가 인자를 넘기는 파라미터는 남김 (지우면 TS2554 Expected N arguments)
+    const firstRemoved = Math.min(
+      parameters.length,
+      Math.max(trailingStart, context.getPassedArgumentCount(functionName))
+    );
+
+    const namesFrom = (start: number) =>
+      new Set(parameters.slice(start).map((parameter) => (parameter.name as ts.Identifier).text));
+    const trailingNames = namesFrom(trailingStart);
+    const removedNames = namesFrom(firstRemoved);
+    functionItems.forEach((item) => {
+      if (removedNames.has(item.symbolName)) context.applied.push(item);
+      else if (trailingNames.has(item.symbolName)) context.skipped.push({ item, reason: 'Passed at a call site' });
+      else context.skipped.push({ item, reason: 'Not at the end of the parameter list' });
+    });
+    if (firstRemoved === parameters.length) return;
+
+    const last = parameters[parameters.length - 1];
+    // `x => ...` (괄호 없는 arrow function) → `() => ...`
+    if (
+      ts.isArrowFunction(fn) &&
+      firstRemoved === 0 &&
+      !text.slice(fn.getStart(sourceFile), last.getStart(sourceFile)).includes('(')
+    ) {
+      context.edits.push({ start: last.getStart(sourceFile), end: last.getEnd(), newText: '()' });
+      return;
+    }
+
+    let end = last.getEnd();
+    const trailing = text.slice(end).match(/^\s*,/);
+    if (trailing) end += trailing[0].length;
+    const start = firstRemoved === 0 ? parameters[0].getStart(sourceFile) : parameters[firstRemoved - 1].getEnd();
+    context.edits.push({ start, end, newText: '' });
+  });
+}
+
+// ========================================
+// Public API
+// ========================================
+
+function applyEdits(text: string, edits: TextEdit[]): string {
+  // 겹치는 편집은 앞의 것만 적용 (같은 노드를 두 카테고리가 건드리는 경우)
+  const sorted = [...edits].sort((a, b) => a.start - b.start || a.end - b.end);
+  const accepted: TextEdit[] = [];
+  sorted.forEach((edit) => {
+    const previous = accepted[accepted.length - 1];
+    if (!previous || edit.start >= previous.end) accepted.push(edit);
+  });
+
+  return accepted.reduceRight(
+    (result, edit) => result.slice(0, edit.start) + edit.newText + result.slice(edit.end),
+    text
+  );
+}
+
+/**
+ * 선택된 dead code 항목 → 파일별 수정 결과
+ */
+export function planDeadCodeRemovals(items: DeadCodeItem[], files: Record<string, string>): RemovalPlan {
+  const plan: RemovalPlan = { files: [], skipped: [] };
+  const itemsByFile = new Map<string, DeadCodeItem[]>();
+  const getPassedArgumentCount = createArgumentCounter(files);
+
+  items.forEach((item) => {
+    if (!REMOVABLE_CATEGORIES.has(item.category)) {
+      plan.skipped.push({ item, reason: 'Category is not removed automatically' });
+      return;
+    }
+    if (!EDITABLE_FILE_PATTERN.test(item.filePath) || files[item.filePath] === undefined) {
+      plan.skipped.push({ item, reason: 'Unsupported file type' });
+      return;
+    }
+    itemsByFile.set(item.filePath, [...(itemsByFile.get(item.filePath) ?? []), item]);
+  });
+
+  itemsByFile.forEach((fileItems, filePath) => {
+    const text = files[filePath];
+    const context: FileContext = {
+      sourceFile: ts.createSourceFile(filePath, text, ts.ScriptTarget.Latest, true, getScriptKind(filePath)),
+      text,
+      edits: [],
+      applied: [],
+      skipped: [],
+      getPassedArgumentCount,
+    };
+    const byCategory = (...categories: DeadCodeItem['category'][]) =>
+      fileItems.filter((item) => categories.includes(item.category));
+
+    planImports(context, byCategory('unusedImport'));
+    planVariables(context, byCategory('unusedVariable'));
+    planExports(context, byCategory('unusedExport', 'unusedTypeExport'));
+    planArguments(context, byCategory('unusedArgument'));
+
+    plan.skipped.push(...context.skipped);
+    const updated = applyEdits(text, context.edits);
+    if (updated !== text) {
+      plan.files.push({ filePath, original: text, updated, items: context.applied });
+    }
+  });
+
+  return plan;
+}
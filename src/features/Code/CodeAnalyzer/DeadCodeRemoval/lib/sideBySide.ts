@@ -0,0 +1,78 @@
+/**
+ * 수정 전 / 후 내용 → side-by-side 미리보기 행
+ * - 변경 블록의 삭제 / 추가 라인을 나란히 배치, 변경 없는 구간은 context 라인만 남기고 접음
+ */
+
+import { diffLines, type LineDiffOp } from '@/shared/diff/lineDiff';
+
+export interface SideBySideCell {
+  lineNumber: number; // 1-based
+  text: string;
+  changed: boolean;
+}
+
+export type SideBySideRow =
+  | { type: 'line'; left: SideBySideCell | null; right: SideBySideCell | null }
+  | { type: 'gap'; hiddenLines: number };
+
+const toLines = (content: string) => content.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+
+export function buildSideBySideRows(original: string, updated: string, context = 2): SideBySideRow[] {
+  const ops = diffLines(toLines(original), toLines(updated));
+
+  // context 범위 안에 있는 equal 라인만 표시
+  const visible = new Set<number>();
+  ops.forEach((op, index) => {
+    if (op.type === 'equal') return;
+    for (let i = Math.max(0, index - context); i <= Math.min(ops.length - 1, index + context); i++) visible.add(i);
+  });
+
+  const rows: SideBySideRow[] = [];
+  let hidden = 0;
+  let deletes: LineDiffOp[] = [];
+  let inserts: LineDiffOp[] = [];
+
+  const flushChanges = () => {
+    for (let i = 0; i < Math.max(deletes.length, inserts.length); i++) {
+      const removed = deletes[i];
+      const added = inserts[i];
+      rows.push({
+        type: 'line',
+        left: removed ? { lineNumber: removed.oldIndex + 1, text: removed.line, changed: true } : null,
+        right: added ? { lineNumber: added.newIndex + 1, text: added.line, changed: true } : null,
+      });
+    }
+    deletes = [];
+    inserts = [];
+  };
+
+  ops.forEach((op, index) => {
+    if (op.type === 'delete') {
+      deletes.push(op);
+      return;
+    }
+    if (op.type === 'insert') {
+      inserts.push(op);
+      return;
+    }
+
+    flushChanges();
+    if (!visible.has(index)) {
+      hidden++;
+      return;
+    }
+    if (hidden > 0) {
+      rows.push({ type: 'gap', hiddenLines: hidden });
+      hidden = 0;
+    }
+    rows.push({
+      type: 'line',
+      left: { lineNumber: op.oldIndex + 1, text: op.line, changed: false },
+      right: { lineNumber: op.newIndex + 1, text: op.line, changed: false },
+    });
+  });
+
+  flushChanges();
+  if (hidden > 0) rows.push({ type: 'gap', hiddenLines: hidden });
+  return rows;
+}
@@ -0,0 +1,68 @@
+/**
+ * useDeadCodeRemoval Hook
+ * 선택된 dead code 항목 → 제거 계획 + unified diff / 적용 (Patch scratch layer → Accept / Discard)
+ */
+
+import { useAtomValue, useSetAtom } from 'jotai';
+import { useMemo } from 'react';
+import { filesAtom } from '@/entities/AppView/model/atoms';
+import { usePatchLayer } from '@/features/Patch/lib/usePatchLayer';
+import { getCommonRootFolder } from '@/features/ZipArchive/lib/workspaceSnapshot';
+import { createUnifiedDiff } from '@/shared/diff/unifiedDiff';
+import { getItemKey } from '../../DeadCodeAnalyzer/lib/categoryUtils.tsx';
+import { DEAD_CODE_CATEGORY_KEYS, type DeadCodeResults } from '../../DeadCodeAnalyzer/lib/deadCodeAnalyzer.ts';
+import { deadCodeResultsAtom, selectedDeadCodeItemsAtom } from '../../DeadCodeAnalyzer/model/atoms.ts';
+import { planDeadCodeRemovals } from './planRemovals.ts';
+
+const PATCH_NAME = 'Dead code removal';
+
+export function useDeadCodeRemoval(selectedItemKeys: Set<string>, deadCodeResults: DeadCodeResults) {
+  const files = useAtomValue(filesAtom);
+  const setDeadCodeResults = useSetAtom(deadCodeResultsAtom);
+  const setSelectedItems = useSetAtom(selectedDeadCodeItemsAtom);
+  const { applyPatch } = usePatchLayer();
+
+  const plan = useMemo(() => {
+    const items = [
+      ...DEAD_CODE_CATEGORY_KEYS.flatMap((key) => deadCodeResults[key]),
+      ...deadCodeResults.suppressed,
+    ].filter((item) => selectedItemKeys.has(getItemKey(item)));
+    return planDeadCodeRemovals(items, files);
+  }, [selectedItemKeys, deadCodeResults, files]);
+
+  // 패치 경로는 공통 루트 폴더 기준 (repo 루트에서 `git apply`)
+  const diffText = useMemo(() => {
+    const root = getCommonRootFolder(Object.keys(files));
+    return plan.files
+      .map(({ filePath, original, updated }) =>
+        createUnifiedDiff(root ? filePath.slice(root.length + 1) : filePath, original, updated)
+      )
+      .join('');
+  }, [plan, files]);
+
+  /**
+   * @returns 에러 메시지 (성공 시 null)
+   */
+  const apply = (): string | null => {
+    if (!diffText) return 'Nothing to remove.';
+    const error = applyPatch(diffText, PATCH_NAME);
+    if (error) return error;
+
+    // 수정된 파일 기준으로 재분석
+    setSelectedItems(new Set());
+    setDeadCodeResults(null);
+    return null;
+  };
+
+  const download = () => {
+    const blob = new Blob([diffText], { type: 'text/x-diff;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'dead-code-removal.patch';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return { plan, diffText, apply, download };
+}
@@ -0,0 +1,189 @@
+/**
+ * DeadCodeRemovalDialog
+ * 선택된 dead code의 자동 제거 결과를 파일별 side-by-side로 미리보고 적용 / .patch 내보내기
+ *
+ * - 적용은 Patch scratch layer로 (하단 Patch Preview에서 Accept / Discard)
+ * - 자동 제거할 수 없는 항목은 사유와 함께 표시
+ */
+
+import { Check, Copy, Download, Scissors, X } from 'lucide-react';
+import * as React from 'react';
+import { Button } from '@/components/ui/Button';
+import { Dialog } from '@/components/ui/Dialog';
+import { ScrollArea } from '@/components/ui/ScrollArea';
+import type { DeadCodeResults } from '../../DeadCodeAnalyzer/lib/deadCodeAnalyzer.ts';
+import type { FileRemoval } from '../lib/planRemovals.ts';
+import { buildSideBySideRows, type SideBySideCell } from '../lib/sideBySide.ts';
+import { useDeadCodeRemoval } from '../lib/useDeadCodeRemoval.ts';
+
+export interface DeadCodeRemovalDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  selectedItemKeys: Set<string>;
+  deadCodeResults: DeadCodeResults;
+}
+
+function DiffCell({ cell, side }: { cell: SideBySideCell | null; side: 'left' | 'right' }) {
+  const changedClass = side === 'left' ? 'bg-red-500/10 text-red-300' : 'bg-emerald-500/10 text-emerald-300';
+  return (
+    <div className={`flex min-w-0 ${cell?.changed ? changedClass : 'text-text-secondary'}`}>
+      <span className="w-10 shrink-0 pr-2 text-right text-text-muted select-none">{cell?.lineNumber ?? ''}</span>
+      <span className="whitespace-pre overflow-hidden text-ellipsis">{cell?.text ?? ''}</span>
+    </div>
+  );
+}
+
+function FileDiffPreview({ removal }: { removal: FileRemoval }) {
+  const rows = React.useMemo(
+    () => buildSideBySideRows(removal.original, removal.updated),
+    [removal.original, removal.updated]
+  );
+
+  return (
+    <div className="border border-border-light rounded-lg overflow-hidden">
+      <div className="flex items-center gap-2 px-3 py-1.5 bg-bg-surface border-b border-border-light text-xs">
+        <span className="font-medium text-text-primary">{removal.filePath.split('/').pop()}</span>
+        <span className="text-text-muted truncate">{removal.filePath}</span>
+        <span className="ml-auto shrink-0 text-text-muted">{removal.items.length} items</span>
+      </div>
+      <div className="font-mono text-2xs bg-bg-deep">
+        {rows.map((row, index) =>
+          row.type === 'gap' ? (
+            <div key={`gap-${index}`} className="px-3 py-0.5 text-text-muted bg-white/5 select-none">
+              ⋯ {row.hiddenLines} unchanged lines
+            </div>
+          ) : (
+            <div key={`line-${index}`} className="grid grid-cols-2 divide-x divide-border-light">
+              <DiffCell cell={row.left} side="left" />
+              <DiffCell cell={row.right} side="right" />
+            </div>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function DeadCodeRemovalDialog({
+  open,
+  onOpenChange,
+  selectedItemKeys,
+  deadCodeResults,
+}: DeadCodeRemovalDialogProps) {
+  const { plan, diffText, apply, download } = useDeadCodeRemoval(selectedItemKeys, deadCodeResults);
+  const [copied, setCopied] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const removedCount = plan.files.reduce((sum, file) => sum + file.items.length, 0);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(diffText);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  const handleApply = () => {
+    const applyError = apply();
+    setError(applyError);
+    if (!applyError) onOpenChange(false);
+  };
+
+  if (!open) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+        <div className="bg-bg-elevated border border-border-DEFAULT rounded-lg shadow-2xl w-full max-w-5xl max-h-[85vh] flex flex-col">
+          {/* Header */}
+          <div className="flex items-center justify-between p-4 border-b border-border-DEFAULT">
+            <div className="flex items-center gap-2">
+              <Scissors size={18} className="text-warm-300" />
+              <h2 className="text-base font-semibold text-text-primary">Remove Dead Code</h2>
+            </div>
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => onOpenChange(false)}>
+              <X size={16} />
+            </Button>
+          </div>
+
+          {/* Stats */}
+          <div className="px-4 py-3 border-b border-border-DEFAULT bg-bg-surface">
+            <div className="flex items-center gap-4 text-xs text-text-muted">
+              <span>
+                Removed: <span className="text-warm-300 font-medium">{removedCount}</span> items in {plan.files.length}{' '}
+                files
+              </span>
+              {plan.skipped.length > 0 && <span>Skipped: {plan.skipped.length}</span>}
+              {error && <span className="text-red-400">{error}</span>}
+            </div>
+          </div>
+
+          {/* Preview */}
+          <ScrollArea className="flex-1 p-4">
+            <div className="space-y-3">
+              {plan.files.length === 0 && (
+                <div className="py-6 text-center text-xs text-text-secondary">
+                  None of the selected items can be removed automatically.
+                </div>
+              )}
+              {plan.files.map((removal) => (
+                <FileDiffPreview key={removal.filePath} removal={removal} />
+              ))}
+
+              {plan.skipped.length > 0 && (
+                <details className="text-xs text-text-muted">
+                  <summary className="cursor-pointer">Skipped items ({plan.skipped.length})</summary>
+                  <ul className="mt-1 space-y-0.5 font-mono text-2xs">
+                    {plan.skipped.map(({ item, reason }) => (
+                      <li
+                        key={`${item.category}:${item.filePath}:${item.line}:${item.symbolName}`}
+                        className="truncate"
+                      >
+                        {item.symbolName}{' '}
+                        <span className="text-text-tertiary">
+                          ({item.filePath.split('/').pop()}:{item.line})
+                        </span>{' '}
+                        — {reason}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+            </div>
+          </ScrollArea>
+
+          {/* Footer Actions */}
+          <div className="flex items-center justify-end gap-2 p-4 border-t border-border-DEFAULT">
+            <Button variant="ghost" size="sm" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button variant="ghost" size="sm" onClick={handleCopy} disabled={!diffText} className="gap-2">
+              {copied ? (
+                <>
+                  <Check size={14} className="text-emerald-300" />
+                  Copied!
+                </>
+              ) : (
+                <>
+                  <Copy size={14} />
+                  Copy Diff
+                </>
+              )}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={download} disabled={!diffText} className="gap-2">
+              <Download size={14} />
+              Export .patch
+            </Button>
+            <Button variant="primary" size="sm" onClick={handleApply} disabled={!diffText} className="gap-2">
+              <Scissors size={14} />
+              Apply
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Dialog>
+  );
+}
@@ -0,0 +1,167 @@
+/**
+ * NPM Dependency Analyzer 테스트
+ *
+ * package.json 선언과 실제 import를 비교해 unused / missing / devInProduction / orphanTypes를
+ * 가장 가까운 package.json (상위 선언 포함) 기준으로 분류하는지 확인
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createGraph } from '@/entities/SourceFileNode/lib/__tests__/fixtures';
+import { analyzeNpmDependencies, getPackageName } from '../npmDependencyAnalyzer';
+
+function analyze(manifests: Record<string, object>, sources: Record<string, string>) {
+  const files = {
+    ...Object.fromEntries(Object.entries(manifests).map(([path, json]) => [path, JSON.stringify(json)])),
+    ...sources,
+  };
+  return analyzeNpmDependencies(createGraph(sources), files);
+}
+
+const names = (items: { manifestPath: string; packageName: string }[]) =>
+  items.map(({ manifestPath, packageName }) => `${manifestPath}:${packageName}`);
+
+describe('NPM Dependency - 패키지 이름', () => {
+  it('bare specifier만 패키지로 (subpath / scope 포함)', () => {
+    expect(getPackageName('lodash/get')).toBe('lodash');
+    expect(getPackageName('@scope/pkg/sub')).toBe('@scope/pkg');
+    expect(getPackageName('./local')).toBeNull();
+    expect(getPackageName('node:fs')).toBeNull();
+    expect(getPackageName('@/utils')).toBeNull();
+    expect(getPackageName('#internal')).toBeNull();
+  });
+});
+
+describe('NPM Dependency - 분류', () => {
+  it('unused / missing / devInProduction', () => {
+    const results = analyze(
+      {
+        'package.json': {
+          dependencies: { react: '^18.0.0', lodash: '^4.0.0' },
+          devDependencies: { msw: '^2.0.0', vitest: '^3.0.0' },
+        },
+      },
+      {
+        'src/main.ts': `import React from 'react';\nimport axios from 'axios';\nimport { setupWorker } from 'msw';\nimport fs from 'node:fs';\nimport path from 'path';\nimport { x } from '@/utils';`,
+        'src/main.test.ts': `import { it } from 'vitest';\nimport { http } from 'msw';\nimport axios from 'axios';`,
+      }
+    );
+
+    expect(names(results.unused)).toEqual(['package.json:lodash']);
+    expect(results.missing).toEqual([
+      {
+        packageName: 'axios',
+        manifestPath: 'package.json',
+        category: 'missing',
+        importers: [
+          { filePath: 'src/main.ts', line: 2 },
+          { filePath: 'src/main.test.ts', line: 3 },
+        ],
+      },
+    ]);
+    // 테스트 파일의 devDependency import는 정상
+    expect(results.devInProduction).toEqual([
+      {
+        packageName: 'msw',
+        manifestPath: 'package.json',
+        category: 'devInProduction',
+        field: 'devDependencies',
+        version: '^2.0.0',
+        importers: [{ filePath: 'src/main.ts', line: 3 }],
+      },
+    ]);
+    expect(results.totalCount).toBe(3);
+  });
+
+  it('scripts에서 실행하는 CLI는 unused가 아님 (bin 이름 포함)', () => {
+    const results = analyze(
+      {
+        'package.json': {
+          scripts: { build: 'tsc -b && vite build', lint: 'biome check .', test: 'npx playwright-test' },
+          devDependencies: { typescript: '^5.0.0', vite: '^6.0.0', '@biomejs/biome': '^2.0.0', playwright: '^1.0.0' },
+        },
+      },
+      { 'src/main.ts': 'export const a = 1;' }
+    );
+
+    // 'playwright-test'는 다른 이름
+    expect(names(results.unused)).toEqual(['package.json:playwright']);
+  });
+
+  it('type-only import는 @types 선언으로 충분 + devDependency여도 프로덕션 문제 아님', () => {
+    const results = analyze(
+      {
+        'package.json': {
+          dependencies: { express: '^4.0.0' },
+          devDependencies: { '@types/express': '^4.0.0', '@types/estree': '^1.0.0', zod: '^3.0.0' },
+        },
+      },
+      {
+        'src/server.ts': `import express from 'express';\nimport type { Node } from 'estree';\nimport { type ZodType } from 'zod';\nimport type { Schema } from 'zod';`,
+      }
+    );
+
+    expect(results.missing).toEqual([]);
+    expect(results.devInProduction).toEqual([]);
+    expect(names(results.unused)).toEqual([]);
+  });
+
+  it('orphan @types: 런타임 패키지 없는 @types (scope__pkg 매핑, 환경 타입 제외)', () => {
+    const results = analyze(
+      {
+        'package.json': {
+          dependencies: { '@babel/core': '^7.0.0' },
+          devDependencies: {
+            '@types/babel__core': '^7.0.0',
+            '@types/scope__gone': '^1.0.0',
+            '@types/node': '^20.0.0',
+            '@types/fs-extra': '^11.0.0',
+            '@types/events': '^3.0.0',
+          },
+        },
+      },
+      { 'src/main.ts': `import { transform } from '@babel/core';` }
+    );
+
+    expect(names(results.orphanTypes)).toEqual(['package.json:@types/fs-extra', 'package.json:@types/scope__gone']);
+  });
+});
+
+describe('NPM Dependency - monorepo', () => {
+  const manifests = {
+    'repo/package.json': {
+      name: 'root',
+      dependencies: { react: '^18.0.0' },
+      devDependencies: { '@types/react': '^18.0.0', typescript: '^5.0.0' },
+      scripts: { build: 'tsc -b' },
+    },
+    'repo/packages/web/package.json': {
+      name: 'web',
+      dependencies: { shared: 'workspace:*', dayjs: '^1.0.0' },
+    },
+    'repo/packages/shared/package.json': { name: 'shared', devDependencies: { '@types/dayjs': '^1.0.0' } },
+  };
+
+  it('상위 package.json 선언도 인정, 없으면 가장 가까운 package.json에 missing', () => {
+    const results = analyze(manifests, {
+      'repo/packages/web/src/App.tsx': `import { useState } from 'react';\nimport { Button } from 'shared';\nimport dayjs from 'dayjs';`,
+      'repo/packages/shared/src/index.ts': `import { useMemo } from 'react';\nimport { clsx } from 'clsx';\nimport { x } from 'web';`,
+    });
+
+    expect(names(results.missing)).toEqual([
+      'repo/packages/shared/package.json:clsx',
+      'repo/packages/shared/package.json:web',
+    ]);
+    expect(names(results.unused)).toEqual([]);
+    // @types/dayjs의 런타임 패키지는 형제 workspace에만 선언 → 연결되지 않음
+    expect(names(results.orphanTypes)).toEqual(['repo/packages/shared/package.json:@types/dayjs']);
+    expect(results.manifests).toHaveLength(3);
+  });
+
+  it('자기 자신 이름으로 import (self-reference)는 무시', () => {
+    const results = analyze(manifests, {
+      'repo/packages/web/src/App.tsx': `import { config } from 'web/config';\nimport { Button } from 'shared';\nimport dayjs from 'dayjs';\nimport { useState } from 'react';`,
+    });
+
+    expect(results.missing).toEqual([]);
+  });
+});
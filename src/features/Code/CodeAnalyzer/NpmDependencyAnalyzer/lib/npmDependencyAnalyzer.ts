@@ -0,0 +1,373 @@
+/**
+ * NPM Dependency Analyzer - 업로드된 package.json과 실제 import 비교
+ *
+ * - Unused: 선언했지만 어디서도 import하지 않는 패키지 (scripts에서 실행하는 CLI 제외)
+ * - Missing: import하지만 어느 package.json에도 선언되지 않은 패키지
+ * - Dev in Production: 프로덕션 코드에서 값으로 import하는 devDependencies
+ * - Orphan @types: 대응하는 런타임 패키지가 선언되지 않은 @types/*
+ *
+ * 파일은 가장 가까운 package.json에 속하고, 상위 package.json 선언도 인정 (monorepo 루트 hoisting)
+ */
+
+import * as ts from 'typescript';
+import { getImports } from '@/entities/SourceFileNode/lib/metadata';
+import type { GraphData } from '@/entities/SourceFileNode/model/types';
+import { createIgnoreMatcher } from '@/shared/fileSystem/gitignore';
+import { getModuleResolver } from '@/shared/tsParser/utils/pathResolver';
+import { dirname } from '@/shared/tsParser/utils/projectConfig';
+import { extractVueScript, isVueFile } from '@/shared/tsParser/utils/vueExtractor';
+
+export type DependencyField = 'dependencies' | 'devDependencies' | 'peerDependencies' | 'optionalDependencies';
+
+export type NpmDependencyCategory = 'unused' | 'missing' | 'devInProduction' | 'orphanTypes';
+
+export interface NpmDependencyImporter {
+  filePath: string;
+  line: number;
+}
+
+export interface NpmDependencyItem {
+  packageName: string;
+  manifestPath: string; // 선언된 (missing: 선언되어야 할) package.json
+  category: NpmDependencyCategory;
+  field?: DependencyField; // 선언된 필드 (missing 제외)
+  version?: string;
+  importers: NpmDependencyImporter[]; // unused / orphanTypes는 빈 배열
+}
+
+export interface NpmDependencyResults {
+  manifests: string[];
+  unused: NpmDependencyItem[];
+  missing: NpmDependencyItem[];
+  devInProduction: NpmDependencyItem[];
+  orphanTypes: NpmDependencyItem[];
+  totalCount: number;
+}
+
+interface Manifest {
+  path: string;
+  rootDir: string; // '' = 업로드 루트
+  name: string;
+  declared: Map<string, { field: DependencyField; version: string }>;
+  scripts: string;
+}
+
+// 선언 필드 우선순위 (같은 패키지가 여러 필드에 있으면 앞쪽)
+const DEPENDENCY_FIELDS: DependencyField[] = [
+  'dependencies',
+  'peerDependencies',
+  'optionalDependencies',
+  'devDependencies',
+];
+
+// 프로덕션 번들에 포함되지 않는 파일 (.gitignore 문법)
+const DEV_FILE_PATTERNS = [
+  '*.test.*',
+  '*.spec.*',
+  '__tests__/',
+  '__mocks__/',
+  '*.stories.*',
+  '.storybook/',
+  '*.config.*',
+  'e2e/',
+  'test/',
+  'tests/',
+  'scripts/',
+];
+
+// 런타임 패키지 없이 쓰는 환경 타입 (@types/node 등)
+const AMBIENT_TYPE_PACKAGES = new Set([
+  'node',
+  'bun',
+  'deno',
+  'web',
+  'jest',
+  'mocha',
+  'jasmine',
+  'chai',
+  'chrome',
+  'firefox-webext-browser',
+  'webextension-polyfill',
+  'testing-library__jest-dom',
+]);
+
+const NODE_BUILTIN_MODULES = new Set([
+  'assert',
+  'async_hooks',
+  'buffer',
+  'child_process',
+  'cluster',
+  'console',
+  'constants',
+  'crypto',
+  'dgram',
+  'diagnostics_channel',
+  'dns',
+  'domain',
+  'events',
+  'fs',
+  'http',
+  'http2',
+  'https',
+  'inspector',
+  'module',
+  'net',
+  'os',
+  'path',
+  'perf_hooks',
+  'process',
+  'punycode',
+  'querystring',
+  'readline',
+  'repl',
+  'stream',
+  'string_decoder',
+  'sys',
+  'timers',
+  'tls',
+  'trace_events',
+  'tty',
+  'url',
+  'util',
+  'v8',
+  'vm',
+  'wasi',
+  'worker_threads',
+  'zlib',
+]);
+
+const SOURCE_FILE_PATTERN = /\.(tsx?|jsx?|mts|cts|mjs|cjs|vue)$/;
+const PACKAGE_NAME_PATTERN = /^(@[a-z0-9][\w.-]*\/)?[a-z0-9][\w.-]*$/i;
+
+/**
+ * bare specifier → 패키지 이름 ('@scope/pkg/sub' → '@scope/pkg', 'lodash/get' → 'lodash')
+ * - 상대 / 절대 경로, 프로토콜 ('node:', 'virtual:'), subpath import ('#x'), alias ('@/', '~/')는 null
+ */
+export function getPackageName(specifier: string): string | null {
+  if (specifier.includes(':')) return null;
+  const segments = specifier.split('/');
+  const name = specifier.startsWith('@') ? segments.slice(0, 2).join('/') : segments[0];
+  return PACKAGE_NAME_PATTERN.test(name) ? name : null;
+}
+
+/**
+ * @types 패키지 → 런타임 패키지 ('@types/scope__pkg' → '@scope/pkg')
+ */
+function getRuntimePackageName(typesPackage: string): string {
+  const name = typesPackage.slice('@types/'.length);
+  return name.includes('__') ? `@${name.replace('__', '/')}` : name;
+}
+
+/**
+ * 런타임 패키지 → @types 패키지 ('@scope/pkg' → '@types/scope__pkg')
+ */
+function getTypesPackageName(packageName: string): string {
+  return `@types/${packageName.startsWith('@') ? packageName.slice(1).replace('/', '__') : packageName}`;
+}
+
+function readManifests(files: Record<string, string>): Manifest[] {
+  const manifests: Manifest[] = [];
+
+  Object.keys(files)
+    .filter((filePath) => /(^|\/)package\.json$/.test(filePath) && !filePath.includes('node_modules/'))
+    .forEach((manifestPath) => {
+      let json: Record<string, unknown>;
+      try {
+        json = JSON.parse(files[manifestPath]);
+      } catch {
+        console.warn(`[npmDependencyAnalyzer] Failed to parse ${manifestPath}`);
+        return;
+      }
+      if (!json || typeof json !== 'object') return;
+
+      const declared = new Map<string, { field: DependencyField; version: string }>();
+      DEPENDENCY_FIELDS.forEach((field) => {
+        const entries = json[field];
+        if (!entries || typeof entries !== 'object') return;
+        Object.entries(entries).forEach(([name, version]) => {
+          if (!declared.has(name)) declared.set(name, { field, version: String(version) });
+        });
+      });
+
+      manifests.push({
+        path: manifestPath,
+        rootDir: dirname(manifestPath),
+        name: typeof json.name === 'string' ? json.name : '',
+        declared,
+        scripts: json.scripts && typeof json.scripts === 'object' ? Object.values(json.scripts).join('\n') : '',
+      });
+    });
+
+  return manifests;
+}
+
+/**
+ * 파일이 속한 package.json 목록 (가까운 것부터)
+ */
+function getManifestChain(manifests: Manifest[], filePath: string): Manifest[] {
+  return manifests
+    .filter((manifest) => manifest.rootDir === '' || filePath.startsWith(`${manifest.rootDir}/`))
+    .sort((a, b) => b.rootDir.length - a.rootDir.length);
+}
+
+export function analyzeNpmDependencies(
+  graphData: GraphData | null,
+  files: Record<string, string>
+): NpmDependencyResults {
+  const results: NpmDependencyResults = {
+    manifests: [],
+    unused: [],
+    missing: [],
+    devInProduction: [],
+    orphanTypes: [],
+    totalCount: 0,
+  };
+
+  const manifests = readManifests(files);
+  results.manifests = manifests.map((manifest) => manifest.path);
+  if (manifests.length === 0 || !graphData) return results;
+
+  const resolver = getModuleResolver(files);
+  const workspaceNames = new Set(manifests.map((manifest) => manifest.name).filter(Boolean));
+  const devFileMatcher = createIgnoreMatcher({}, DEV_FILE_PATTERNS);
+
+  // manifest path → 사용된 패키지 이름
+  const usedPackages = new Map<string, Set<string>>(manifests.map((manifest) => [manifest.path, new Set()]));
+  // `${manifestPath}|${packageName}` → item (같은 패키지의 여러 importer 병합)
+  const missing = new Map<string, NpmDependencyItem>();
+  const devInProduction = new Map<string, NpmDependencyItem>();
+
+  const addImporter = (
+    target: Map<string, NpmDependencyItem>,
+    base: Omit<NpmDependencyItem, 'importers'>,
+    importer: NpmDependencyImporter
+  ) => {
+    const key = `${base.manifestPath}|${base.packageName}`;
+    const item = target.get(key) ?? { ...base, importers: [] };
+    item.importers.push(importer);
+    target.set(key, item);
+  };
+
+  // ========================================
+  // Phase 1: 파일별 import → 선언 확인
+  // ========================================
+  graphData.nodes
+    .filter((node) => node.type === 'file' && SOURCE_FILE_PATTERN.test(node.filePath))
+    .forEach((node) => {
+      if (node.filePath.includes('node_modules/')) return;
+      const chain = getManifestChain(manifests, node.filePath);
+      if (chain.length === 0) return;
+
+      const rawContent = files[node.filePath] ?? node.codeSnippet ?? '';
+      const content = isVueFile(node.filePath) ? (extractVueScript(rawContent, node.filePath) ?? '') : rawContent;
+
+      // 모든 import가 type-only인 specifier (런타임에 지워짐)
+      const importsBySpecifier = new Map<string, boolean>();
+      getImports(node).forEach((imp) => {
+        importsBySpecifier.set(imp.from, (importsBySpecifier.get(imp.from) ?? true) && imp.isTypeOnly);
+      });
+      const isDevFile = node.filePath.endsWith('.d.ts') || devFileMatcher.isIgnored(node.filePath);
+
+      ts.preProcessFile(content, true, true).importedFiles.forEach(({ fileName: specifier, pos }) => {
+        const packageName = getPackageName(specifier);
+        if (!packageName || NODE_BUILTIN_MODULES.has(packageName)) return;
+        // 자기 자신 이름으로 import (self-reference)
+        if (chain.some((manifest) => manifest.name === packageName)) return;
+        // tsconfig paths / vite alias로 로컬 파일이 되는 경로 (workspace 패키지는 선언 대상)
+        if (!workspaceNames.has(packageName) && resolver.resolve(node.filePath, specifier)) return;
+
+        const importer = { filePath: node.filePath, line: content.slice(0, pos).split('\n').length };
+        const isTypeOnly = importsBySpecifier.get(specifier) === true;
+        const typesPackage = getTypesPackageName(packageName);
+
+        const owner = chain.find((manifest) => manifest.declared.has(packageName));
+        const typesOwner = chain.find((manifest) => manifest.declared.has(typesPackage));
+        if (owner) usedPackages.get(owner.path)?.add(packageName);
+        if (typesOwner) usedPackages.get(typesOwner.path)?.add(typesPackage);
+
+        if (!owner) {
+          // import type만 하는 패키지는 @types 선언으로 충분
+          if (isTypeOnly && typesOwner) return;
+          addImporter(missing, { packageName, manifestPath: chain[0].path, category: 'missing' }, importer);
+          return;
+        }
+
+        const declaration = owner.declared.get(packageName)!;
+        if (declaration.field === 'devDependencies' && !isDevFile && !isTypeOnly) {
+          addImporter(
+            devInProduction,
+            {
+              packageName,
+              manifestPath: owner.path,
+              category: 'devInProduction',
+              field: declaration.field,
+              version: declaration.version,
+            },
+            importer
+          );
+        }
+      });
+    });
+
+  // ========================================
+  // Phase 2: 선언 → 사용 여부 / @types 짝 확인
+  // ========================================
+  manifests.forEach((manifest) => {
+    const used = usedPackages.get(manifest.path)!;
+    // @types 짝 검색 범위: 상위 package.json + 하위 workspace 패키지 (루트에 @types만 hoisting)
+    const related = manifests.filter(
+      (candidate) =>
+        manifest.rootDir === '' ||
+        candidate.rootDir === manifest.rootDir ||
+        candidate.rootDir.startsWith(`${manifest.rootDir}/`) ||
+        manifest.rootDir.startsWith(`${candidate.rootDir}/`) ||
+        candidate.rootDir === ''
+    );
+
+    manifest.declared.forEach(({ field, version }, packageName) => {
+      const base = { packageName, manifestPath: manifest.path, field, version, importers: [] };
+
+      if (packageName.startsWith('@types/')) {
+        const runtimeName = getRuntimePackageName(packageName);
+        const hasRuntime =
+          AMBIENT_TYPE_PACKAGES.has(packageName.slice('@types/'.length)) ||
+          NODE_BUILTIN_MODULES.has(runtimeName) ||
+          related.some((candidate) => candidate.declared.has(runtimeName));
+        if (!hasRuntime) results.orphanTypes.push({ ...base, category: 'orphanTypes' });
+        return;
+      }
+
+      // peer는 호스트가 제공하는 패키지, scripts의 CLI (vite, tsc 등)는 import 없이 사용
+      if (field === 'peerDependencies' || used.has(packageName)) return;
+      if (manifest.scripts && isUsedInScripts(manifest.scripts, packageName)) return;
+      results.unused.push({ ...base, category: 'unused' });
+    });
+  });
+
+  results.missing = Array.from(missing.values());
+  results.devInProduction = Array.from(devInProduction.values());
+
+  const byName = (a: NpmDependencyItem, b: NpmDependencyItem) =>
+    a.manifestPath.localeCompare(b.manifestPath) || a.packageName.localeCompare(b.packageName);
+  results.unused.sort(byName);
+  results.missing.sort(byName);
+  results.devInProduction.sort(byName);
+  results.orphanTypes.sort(byName);
+
+  results.totalCount =
+    results.unused.length + results.missing.length + results.devInProduction.length + results.orphanTypes.length;
+
+  return results;
+}
+
+/**
+ * scripts에서 패키지 (또는 같은 이름의 bin)를 실행하는지
+ * - '@biomejs/biome' → 'biome', 'typescript' → 'tsc'
+ */
+function isUsedInScripts(scripts: string, packageName: string): boolean {
+  const binNames = [packageName, packageName.split('/').pop()!];
+  if (packageName === 'typescript') binNames.push('tsc');
+  return binNames.some((bin) => new RegExp(`(^|[\\s/"'])${escapeRegExp(bin)}($|[\\s"'])`, 'm').test(scripts));
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
@@ -0,0 +1,18 @@
+/**
+ * NpmDependencyAnalyzer - Atoms
+ * package.json ↔ import 비교 결과 + 카테고리 펼침 상태
+ */
+import { atom } from 'jotai';
+import { filesAtom, graphDataAtom } from '@/entities/AppView/model/atoms';
+import { analyzeNpmDependencies, type NpmDependencyCategory } from '../lib/npmDependencyAnalyzer.ts';
+
+// 분석 결과 (구독 중일 때만 graphData / files 변경 시 재계산)
+export const npmDependencyResultsAtom = atom((get) => analyzeNpmDependencies(get(graphDataAtom), get(filesAtom)));
+
+// 카테고리 펼침 상태
+export const expandedNpmCategoriesAtom = atom<Record<NpmDependencyCategory, boolean>>({
+  unused: true,
+  missing: true,
+  devInProduction: true,
+  orphanTypes: true,
+});
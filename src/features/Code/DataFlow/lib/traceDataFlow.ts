@@ -0,0 +1,764 @@
+/**
+ * Data-flow Trace - "이 데이터가 어디서 오나? / 어디로 가나?"
+ *
+ * 선택한 변수에서 시작해서 TypeChecker + Language Service 참조 검색으로 값의 흐름을 따라감
+ * - backward (출처): 선언 initializer, 재할당, destructuring, 파라미터 ← 호출 인자, 호출 결과 ← return,
+ *   React props ← JSX attribute, useState 값 ← setter 호출
+ * - forward (사용처): 다른 변수로 할당, 호출 인자 → 파라미터 (→ 파라미터에 의존하는 호출 결과), JSX attribute → props,
+ *   return → 호출 결과
+ * - 파일 경계를 넘어서 추적 (import는 원본 선언까지)
+ *
+ * Vue 파일은 Program에서 script만 분석할 수 없으므로 traceVueProps.ts에서 template 기준으로 추적
+ */
+
+import * as ts from 'typescript';
+import { createLanguageService } from '../../../../shared/tsParser/utils/languageService';
+import { traceVueDataFlow } from './traceVueProps';
+
+export type DataFlowStepKind =
+  | 'selected' // 추적 시작 지점
+  | 'declaration' // const x = ...
+  | 'assignment' // x = ..., setX(...)
+  | 'destructuring' // const { x } = ...
+  | 'parameter' // function f(x)
+  | 'argument' // f(x)
+  | 'call-result' // const x = f()
+  | 'return' // return x
+  | 'prop' // <Comp x={...} /> ↔ ({ x }) => ...
+  | 'vue-prop' // <Comp :x="..." /> ↔ defineProps
+  | 'literal'; // 값의 최초 출처 (리터럴, 객체, 외부 라이브러리 호출 등)
+
+export interface DataFlowStep {
+  id: string; // filePath:position (중복 제거용)
+  kind: DataFlowStepKind;
+  direction: 'backward' | 'selected' | 'forward';
+  depth: number; // 시작 지점으로부터의 거리
+  filePath: string;
+  line: number; // 1-based
+  name: string; // 식별자 또는 표현식 (축약)
+  code: string; // 해당 라인 코드 (trim)
+}
+
+export interface DataFlowTrace {
+  name: string;
+  filePath: string;
+  line: number;
+  steps: DataFlowStep[]; // 출처 → 선택 지점 → 사용처 순서
+  truncated: boolean; // 최대 step / depth 제한으로 잘렸는지
+}
+
+const MAX_DEPTH = 8;
+const MAX_STEPS = 80;
+const MAX_NAME_LENGTH = 48;
+
+// ============================================
+// AST 헬퍼
+// ============================================
+
+/**
+ * 위치의 식별자 찾기 (가장 안쪽 노드)
+ */
+function findIdentifierAt(sourceFile: ts.SourceFile, position: number): ts.Identifier | undefined {
+  const visit = (node: ts.Node): ts.Node | undefined => {
+    if (position < node.getStart(sourceFile) || position >= node.getEnd()) return undefined;
+    return ts.forEachChild(node, visit) || node;
+  };
+  const node = visit(sourceFile);
+  return node && ts.isIdentifier(node) ? node : undefined;
+}
+
+/**
+ * 괄호, 타입 단언, await 등 값 흐름에 영향 없는 래퍼 제거
+ */
+function unwrapExpression(expression: ts.Expression): ts.Expression {
+  let current = expression;
+  while (
+    ts.isParenthesizedExpression(current) ||
+    ts.isAsExpression(current) ||
+    ts.isNonNullExpression(current) ||
+    ts.isAwaitExpression(current) ||
+    ts.isSatisfiesExpression(current) ||
+    ts.isTypeAssertionExpression(current)
+  ) {
+    current = current.expression;
+  }
+  return current;
+}
+
+/**
+ * 값 위치에서 바깥쪽 래퍼까지 올라감 (unwrapExpression의 반대)
+ */
+function climbWrappers(node: ts.Node): ts.Node {
+  let current = node;
+  while (
+    ts.isParenthesizedExpression(current.parent) ||
+    ts.isAsExpression(current.parent) ||
+    ts.isNonNullExpression(current.parent) ||
+    ts.isAwaitExpression(current.parent) ||
+    ts.isSatisfiesExpression(current.parent) ||
+    ts.isTypeAssertionExpression(current.parent)
+  ) {
+    current = current.parent;
+  }
+  return current;
+}
+
+/**
+ * 함수 선언의 이름 노드 (참조 검색용)
+ * - function f() {}, const f = () => {}, class A { f() {} }
+ */
+function getFunctionNameNode(fn: ts.SignatureDeclaration): ts.Node | undefined {
+  if ((ts.isFunctionDeclaration(fn) || ts.isMethodDeclaration(fn)) && fn.name) return fn.name;
+  if ((ts.isArrowFunction(fn) || ts.isFunctionExpression(fn)) && ts.isVariableDeclaration(fn.parent)) {
+    return fn.parent.name;
+  }
+  // memo(() => ...), forwardRef(...) 등 wrapper로 감싼 컴포넌트
+  if ((ts.isArrowFunction(fn) || ts.isFunctionExpression(fn)) && ts.isCallExpression(fn.parent)) {
+    const declaration = climbWrappers(fn.parent).parent;
+    if (ts.isVariableDeclaration(declaration)) return declaration.name;
+  }
+  return undefined;
+}
+
+/**
+ * 함수 본문의 return 표현식 (중첩 함수 제외, 화살표 함수 expression body 포함)
+ */
+function getReturnExpressions(fn: ts.SignatureDeclaration): ts.Expression[] {
+  const body = (fn as ts.FunctionLikeDeclaration).body;
+  if (!body) return [];
+  if (!ts.isBlock(body)) return [body];
+
+  const expressions: ts.Expression[] = [];
+  const visit = (node: ts.Node) => {
+    if (ts.isFunctionLike(node)) return;
+    if (ts.isReturnStatement(node) && node.expression) expressions.push(node.expression);
+    ts.forEachChild(node, visit);
+  };
+  ts.forEachChild(body, visit);
+  return expressions;
+}
+
+/**
+ * binding pattern 안의 모든 식별자
+ */
+function collectBindingIdentifiers(name: ts.BindingName, identifiers: ts.Identifier[]): void {
+  if (ts.isIdentifier(name)) {
+    identifiers.push(name);
+    return;
+  }
+  name.elements.forEach((element) => {
+    if (ts.isBindingElement(element)) collectBindingIdentifiers(element.name, identifiers);
+  });
+}
+
+/**
+ * binding element → 가장 바깥 선언 (VariableDeclaration or Parameter)
+ */
+function getBindingRoot(element: ts.BindingElement): ts.VariableDeclaration | ts.ParameterDeclaration | undefined {
+  let current: ts.Node = element;
+  while (ts.isBindingElement(current) || ts.isObjectBindingPattern(current) || ts.isArrayBindingPattern(current)) {
+    current = current.parent;
+  }
+  return ts.isVariableDeclaration(current) || ts.isParameter(current) ? current : undefined;
+}
+
+/**
+ * JSX attribute 이름 (a={...} → 'a')
+ */
+function getJsxAttributeName(attribute: ts.JsxAttribute): string {
+  return ts.isIdentifier(attribute.name) ? attribute.name.text : attribute.name.getText();
+}
+
+// ============================================
+// Tracer
+// ============================================
+
+/**
+ * 파일의 라인/컬럼 위치에서 data-flow 추적
+ *
+ * @param files - 프로젝트 파일
+ * @param filePath - 선택한 변수가 있는 파일
+ * @param line - 1-based 라인
+ * @param column - 0-based 컬럼
+ */
+export function traceDataFlow(
+  files: Record<string, string>,
+  filePath: string,
+  line: number,
+  column: number
+): DataFlowTrace | null {
+  if (filePath.endsWith('.vue')) {
+    return traceVueDataFlow(files, filePath, line, column);
+  }
+
+  const languageService = createLanguageService(files);
+  const program = languageService.getProgram();
+  const sourceFile = program?.getSourceFile(filePath);
+  if (!program || !sourceFile) return null;
+
+  const checker = program.getTypeChecker();
+  const lineStarts = sourceFile.getLineStarts();
+  if (line < 1 || line > lineStarts.length) return null;
+
+  const position = sourceFile.getPositionOfLineAndCharacter(line - 1, column);
+  const selected = findIdentifierAt(sourceFile, position);
+  if (!selected) return null;
+
+  const steps: DataFlowStep[] = [];
+  const stepIds = new Set<string>();
+  const visitedSymbols = new Set<string>(); // `${direction}:${declarationKey}`
+  let truncated = false;
+
+  const addStep = (
+    node: ts.Node,
+    kind: DataFlowStepKind,
+    direction: DataFlowStep['direction'],
+    depth: number
+  ): boolean => {
+    const nodeSourceFile = node.getSourceFile();
+    const start = node.getStart(nodeSourceFile);
+    const id = `${nodeSourceFile.fileName}:${start}`;
+    if (stepIds.has(id)) return false;
+    if (steps.length >= MAX_STEPS) {
+      truncated = true;
+      return false;
+    }
+
+    const { line: lineIndex } = nodeSourceFile.getLineAndCharacterOfPosition(start);
+    const lineText = nodeSourceFile.text.slice(
+      nodeSourceFile.getLineStarts()[lineIndex],
+      nodeSourceFile.getLineEndOfPosition(start)
+    );
+    const text = node.getText(nodeSourceFile).replace(/\s+/g, ' ');
+
+    stepIds.add(id);
+    steps.push({
+      id,
+      kind,
+      direction,
+      depth,
+      filePath: nodeSourceFile.fileName,
+      line: lineIndex + 1,
+      name: text.length > MAX_NAME_LENGTH ? `${text.slice(0, MAX_NAME_LENGTH)}…` : text,
+      code: lineText.trim(),
+    });
+    return true;
+  };
+
+  /**
+   * 식별자 → 원본 Symbol (import alias, shorthand property는 원본까지)
+   */
+  const resolveSymbol = (node: ts.Node): ts.Symbol | undefined => {
+    let symbol =
+      ts.isShorthandPropertyAssignment(node.parent) && node.parent.name === node
+        ? checker.getShorthandAssignmentValueSymbol(node.parent)
+        : checker.getSymbolAtLocation(node);
+    if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+      try {
+        symbol = checker.getAliasedSymbol(symbol);
+      } catch {
+        return undefined;
+      }
+    }
+    return symbol;
+  };
+
+  /**
+   * 프로젝트 안의 선언만 (typings, lib .d.ts 제외)
+   */
+  const getProjectDeclarations = (symbol: ts.Symbol | undefined): ts.Declaration[] =>
+    (symbol?.declarations ?? []).filter((declaration) => {
+      const declarationFile = declaration.getSourceFile();
+      return !declarationFile.isDeclarationFile && Object.hasOwn(files, declarationFile.fileName);
+    });
+
+  /**
+   * 선언 이름의 모든 참조 (선언 자체 제외)
+   */
+  const findReferences = (nameNode: ts.Node): ts.Identifier[] => {
+    const nameSourceFile = nameNode.getSourceFile();
+    const references =
+      languageService.getReferencesAtPosition(nameSourceFile.fileName, nameNode.getStart(nameSourceFile)) ?? [];
+
+    const identifiers: ts.Identifier[] = [];
+    references.forEach((reference) => {
+      const referenceFile = program.getSourceFile(reference.fileName);
+      if (!referenceFile || referenceFile.isDeclarationFile) return;
+
+      const identifier = findIdentifierAt(referenceFile, reference.textSpan.start);
+      if (identifier && identifier !== nameNode) identifiers.push(identifier);
+    });
+    return identifiers;
+  };
+
+  /**
+   * 호출 표현식 → 호출되는 함수 선언 (프로젝트 안)
+   */
+  const resolveCallee = (call: ts.CallExpression | ts.JsxOpeningLikeElement): ts.SignatureDeclaration | undefined => {
+    const calleeNode = ts.isCallExpression(call) ? unwrapExpression(call.expression) : call.tagName;
+    const nameNode = ts.isPropertyAccessExpression(calleeNode) ? calleeNode.name : calleeNode;
+
+    for (const declaration of getProjectDeclarations(resolveSymbol(nameNode))) {
+      if (ts.isFunctionLike(declaration)) return declaration;
+      if (ts.isVariableDeclaration(declaration) && declaration.initializer) {
+        let initializer = unwrapExpression(declaration.initializer);
+        // memo(Component), forwardRef((props, ref) => ...)
+        if (ts.isCallExpression(initializer) && initializer.arguments.length > 0) {
+          initializer = unwrapExpression(initializer.arguments[0]);
+        }
+        if (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)) return initializer;
+      }
+    }
+    return undefined;
+  };
+
+  /**
+   * 함수의 호출 지점 (직접 호출 + JSX 렌더링)
+   */
+  const findCallSites = (fn: ts.SignatureDeclaration): Array<ts.CallExpression | ts.JsxOpeningLikeElement> => {
+    const nameNode = getFunctionNameNode(fn);
+    if (!nameNode) return [];
+
+    const callSites: Array<ts.CallExpression | ts.JsxOpeningLikeElement> = [];
+    findReferences(nameNode).forEach((reference) => {
+      const callee = ts.isPropertyAccessExpression(reference.parent) ? reference.parent : reference;
+      const parent = climbWrappers(callee).parent;
+
+      if (ts.isCallExpression(parent) && unwrapExpression(parent.expression) === callee) {
+        callSites.push(parent);
+      } else if ((ts.isJsxOpeningElement(parent) || ts.isJsxSelfClosingElement(parent)) && parent.tagName === callee) {
+        callSites.push(parent);
+      }
+    });
+    return callSites;
+  };
+
+  /**
+   * 함수의 return 값이 파라미터에 의존하는지 (파라미터 → 지역 변수 → return 까지 식별자 기준으로 전파)
+   * - function format(s) { const t = s.trim(); return t.toUpperCase(); } → true
+   */
+  const returnDependsOnParameter = (fn: ts.SignatureDeclaration, parameter: ts.ParameterDeclaration): boolean => {
+    const returns = getReturnExpressions(fn);
+    const body = (fn as ts.FunctionLikeDeclaration).body;
+    if (returns.length === 0 || !body) return false;
+
+    const parameterIdentifiers: ts.Identifier[] = [];
+    collectBindingIdentifiers(parameter.name, parameterIdentifiers);
+    const tainted = new Set(
+      parameterIdentifiers.map((identifier) => checker.getSymbolAtLocation(identifier)).filter((symbol) => !!symbol)
+    );
+
+    const referencesTainted = (node: ts.Node): boolean => {
+      if (ts.isIdentifier(node)) {
+        const symbol = checker.getSymbolAtLocation(node);
+        return !!symbol && tainted.has(symbol);
+      }
+      return !!ts.forEachChild(node, (child) => referencesTainted(child) || undefined);
+    };
+
+    // 지역 변수 선언 (본문 순서대로 1번 전파, 중첩 함수 제외)
+    const visit = (node: ts.Node) => {
+      if (ts.isFunctionLike(node)) return;
+      if (ts.isVariableDeclaration(node) && node.initializer && referencesTainted(node.initializer)) {
+        const identifiers: ts.Identifier[] = [];
+        collectBindingIdentifiers(node.name, identifiers);
+        identifiers.forEach((identifier) => {
+          const symbol = checker.getSymbolAtLocation(identifier);
+          if (symbol) tainted.add(symbol);
+        });
+      }
+      ts.forEachChild(node, visit);
+    };
+    if (ts.isBlock(body)) ts.forEachChild(body, visit);
+
+    return returns.some(referencesTainted);
+  };
+
+  // ----------------------------------------
+  // Backward: 값이 어디서 오는가
+  // ----------------------------------------
+
+  const traceExpressionBackward = (expression: ts.Expression, depth: number): void => {
+    if (depth > MAX_DEPTH) {
+      truncated = true;
+      return;
+    }
+    const value = unwrapExpression(expression);
+
+    if (ts.isIdentifier(value)) {
+      traceSymbolBackward(resolveSymbol(value), depth);
+      return;
+    }
+
+    if (ts.isPropertyAccessExpression(value)) {
+      // props.title → 컴포넌트 파라미터의 title prop
+      const base = unwrapExpression(value.expression);
+      const parameter = ts.isIdentifier(base)
+        ? getProjectDeclarations(resolveSymbol(base)).find(ts.isParameter)
+        : undefined;
+      if (parameter) {
+        addStep(value, 'parameter', 'backward', depth);
+        traceParameterBackward(parameter, value.name.text, depth + 1);
+      } else {
+        traceExpressionBackward(value.expression, depth);
+      }
+      return;
+    }
+
+    if (ts.isElementAccessExpression(value)) {
+      traceExpressionBackward(value.expression, depth);
+      return;
+    }
+
+    if (ts.isConditionalExpression(value)) {
+      traceExpressionBackward(value.whenTrue, depth);
+      traceExpressionBackward(value.whenFalse, depth);
+      return;
+    }
+
+    if (
+      ts.isBinaryExpression(value) &&
+      [ts.SyntaxKind.QuestionQuestionToken, ts.SyntaxKind.BarBarToken, ts.SyntaxKind.AmpersandAmpersandToken].includes(
+        value.operatorToken.kind
+      )
+    ) {
+      traceExpressionBackward(value.left, depth);
+      traceExpressionBackward(value.right, depth);
+      return;
+    }
+
+    if (ts.isCallExpression(value)) {
+      const callee = resolveCallee(value);
+      if (!callee) {
+        // 외부 라이브러리 / 타입 정보 없는 호출 → 출처
+        addStep(value, 'literal', 'backward', depth);
+        return;
+      }
+      if (!addStep(value, 'call-result', 'backward', depth)) return;
+      getReturnExpressions(callee).forEach((returned) => {
+        if (addStep(returned, 'return', 'backward', depth + 1)) traceExpressionBackward(returned, depth + 2);
+      });
+      return;
+    }
+
+    // 리터럴, 객체/배열, 함수, new 등 → 값의 최초 출처
+    addStep(value, 'literal', 'backward', depth);
+  };
+
+  /**
+   * 파라미터 ← 호출 인자 / JSX attribute
+   * @param propName - destructuring 또는 props.x로 접근한 prop 이름
+   */
+  const traceParameterBackward = (
+    parameter: ts.ParameterDeclaration,
+    propName: string | undefined,
+    depth: number
+  ): void => {
+    const fn = parameter.parent;
+    const index = fn.parameters.indexOf(parameter);
+
+    findCallSites(fn).forEach((callSite) => {
+      if (ts.isCallExpression(callSite)) {
+        const arg = callSite.arguments[index];
+        if (!arg) return;
+
+        // f({ title: value }) + function f({ title })
+        const value = unwrapExpression(arg);
+        if (propName && ts.isObjectLiteralExpression(value)) {
+          const property = value.properties.find((p) => p.name && p.name.getText() === propName);
+          if (property && ts.isPropertyAssignment(property)) {
+            if (addStep(property, 'argument', 'backward', depth))
+              traceExpressionBackward(property.initializer, depth + 1);
+          } else if (property && ts.isShorthandPropertyAssignment(property)) {
+            if (addStep(property, 'argument', 'backward', depth)) {
+              traceSymbolBackward(checker.getShorthandAssignmentValueSymbol(property), depth + 1);
+            }
+          }
+          return;
+        }
+
+        if (addStep(arg, 'argument', 'backward', depth)) traceExpressionBackward(arg, depth + 1);
+        return;
+      }
+
+      // JSX: <Comp title={value} /> → props (첫 번째 파라미터)
+      if (index !== 0) return;
+      const attributes = callSite.attributes.properties.filter(ts.isJsxAttribute);
+      const matched = propName ? attributes.filter((attr) => getJsxAttributeName(attr) === propName) : attributes;
+
+      matched.forEach((attribute) => {
+        if (!addStep(attribute, 'prop', 'backward', depth)) return;
+        const initializer = attribute.initializer;
+        if (initializer && ts.isJsxExpression(initializer) && initializer.expression) {
+          traceExpressionBackward(initializer.expression, depth + 1);
+        } else if (initializer) {
+          addStep(initializer, 'literal', 'backward', depth + 1);
+        }
+      });
+    });
+  };
+
+  /**
+   * useState 값 ← setter 호출 인자 (const [value, setValue] = useState(initial))
+   */
+  const traceStateSetterBackward = (element: ts.BindingElement, depth: number): void => {
+    const pattern = element.parent;
+    if (!ts.isArrayBindingPattern(pattern) || pattern.elements.indexOf(element) !== 0) return;
+
+    const setter = pattern.elements[1];
+    if (!setter || !ts.isBindingElement(setter) || !ts.isIdentifier(setter.name)) return;
+
+    findReferences(setter.name).forEach((reference) => {
+      const call = reference.parent;
+      if (!ts.isCallExpression(call) || call.expression !== reference || call.arguments.length === 0) return;
+      if (addStep(call, 'assignment', 'backward', depth)) traceExpressionBackward(call.arguments[0], depth + 1);
+    });
+  };
+
+  const traceSymbolBackward = (symbol: ts.Symbol | undefined, depth: number): void => {
+    if (depth > MAX_DEPTH) {
+      truncated = true;
+      return;
+    }
+
+    getProjectDeclarations(symbol).forEach((declaration) => {
+      const key = `backward:${declaration.getSourceFile().fileName}:${declaration.getStart()}`;
+      if (visitedSymbols.has(key)) return;
+      visitedSymbols.add(key);
+
+      const nameNode = ts.getNameOfDeclaration(declaration) ?? declaration;
+
+      if (ts.isVariableDeclaration(declaration)) {
+        addStep(nameNode, 'declaration', 'backward', depth);
+        if (declaration.initializer) traceExpressionBackward(declaration.initializer, depth + 1);
+      } else if (ts.isBindingElement(declaration)) {
+        addStep(nameNode, 'destructuring', 'backward', depth);
+        const root = getBindingRoot(declaration);
+        const propName = (declaration.propertyName ?? declaration.name).getText();
+
+        if (root && ts.isParameter(root)) {
+          traceParameterBackward(root, ts.isObjectBindingPattern(declaration.parent) ? propName : undefined, depth + 1);
+        } else if (root?.initializer) {
+          traceStateSetterBackward(declaration, depth + 1);
+          traceExpressionBackward(root.initializer, depth + 1);
+        }
+      } else if (ts.isParameter(declaration)) {
+        addStep(nameNode, 'parameter', 'backward', depth);
+        traceParameterBackward(declaration, undefined, depth + 1);
+      } else if (ts.isPropertyAssignment(declaration) || ts.isPropertyDeclaration(declaration)) {
+        addStep(nameNode, 'declaration', 'backward', depth);
+        if (declaration.initializer) traceExpressionBackward(declaration.initializer, depth + 1);
+      } else {
+        // function, class, enum 등 → 선언 자체가 출처
+        addStep(nameNode, 'literal', 'backward', depth);
+      }
+
+      // 재할당 (x = value)
+      if (ts.isIdentifier(nameNode)) {
+        findReferences(nameNode).forEach((reference) => {
+          const assignment = reference.parent;
+          if (
+            ts.isBinaryExpression(assignment) &&
+            assignment.left === reference &&
+            assignment.operatorToken.kind === ts.SyntaxKind.EqualsToken
+          ) {
+            if (addStep(assignment, 'assignment', 'backward', depth)) {
+              traceExpressionBackward(assignment.right, depth + 1);
+            }
+          }
+        });
+      }
+    });
+  };
+
+  // ----------------------------------------
+  // Forward: 값이 어디로 가는가
+  // ----------------------------------------
+
+  /**
+   * 값 위치(식별자, props.x, 호출 결과)의 부모를 보고 다음 흐름 결정
+   */
+  const traceValueForward = (valueNode: ts.Node, depth: number): void => {
+    if (depth > MAX_DEPTH) {
+      truncated = true;
+      return;
+    }
+
+    const node = climbWrappers(valueNode);
+    const parent = node.parent;
+    if (!parent) return;
+
+    // const next = value / const { a } = value
+    if (ts.isVariableDeclaration(parent) && parent.initializer === node) {
+      const kind = ts.isIdentifier(parent.name) ? 'assignment' : 'destructuring';
+      const identifiers: ts.Identifier[] = [];
+      collectBindingIdentifiers(parent.name, identifiers);
+      identifiers.forEach((identifier) => {
+        if (addStep(identifier, kind, 'forward', depth)) traceSymbolForward(identifier, depth + 1);
+      });
+      return;
+    }
+
+    // next = value
+    if (
+      ts.isBinaryExpression(parent) &&
+      parent.right === node &&
+      parent.operatorToken.kind === ts.SyntaxKind.EqualsToken
+    ) {
+      const target = unwrapExpression(parent.left);
+      if (ts.isIdentifier(target) && addStep(target, 'assignment', 'forward', depth)) {
+        const declaration = getProjectDeclarations(resolveSymbol(target))[0];
+        const declarationName = declaration && ts.getNameOfDeclaration(declaration);
+        if (declarationName) traceSymbolForward(declarationName, depth + 1);
+      }
+      return;
+    }
+
+    // f(value) → function f(param)
+    if (ts.isCallExpression(parent) && parent.arguments.includes(node as ts.Expression)) {
+      if (!addStep(node, 'argument', 'forward', depth)) return;
+      const index = parent.arguments.indexOf(node as ts.Expression);
+
+      // setValue(next) → const [value] = useState()
+      const setterTarget = getStateValueForSetter(parent);
+      if (setterTarget) {
+        if (addStep(setterTarget, 'assignment', 'forward', depth + 1)) traceSymbolForward(setterTarget, depth + 2);
+        return;
+      }
+
+      const callee = resolveCallee(parent);
+      const parameter = callee?.parameters[index];
+      if (!callee || !parameter) return;
+
+      const identifiers: ts.Identifier[] = [];
+      collectBindingIdentifiers(parameter.name, identifiers);
+      identifiers.forEach((identifier) => {
+        if (addStep(identifier, 'parameter', 'forward', depth + 1)) traceSymbolForward(identifier, depth + 2);
+      });
+
+      // const upper = format(text) → 파라미터에서 계산된 return 값이 이 호출 지점의 결과로 돌아옴
+      if (returnDependsOnParameter(callee, parameter) && addStep(parent, 'call-result', 'forward', depth + 1)) {
+        traceValueForward(parent, depth + 2);
+      }
+      return;
+    }
+
+    // <Comp title={value} /> → ({ title }) / props.title
+    if (ts.isJsxExpression(parent) && ts.isJsxAttribute(parent.parent)) {
+      const attribute = parent.parent;
+      const element = attribute.parent.parent;
+      if (!addStep(attribute, 'prop', 'forward', depth)) return;
+
+      const component = resolveCallee(element);
+      const propsParameter = component?.parameters[0];
+      if (!propsParameter) return;
+
+      const propName = getJsxAttributeName(attribute);
+      traceParameterPropForward(propsParameter, propName, depth + 1);
+      return;
+    }
+
+    // return value → 호출 결과
+    if (ts.isReturnStatement(parent) || (ts.isArrowFunction(parent) && parent.body === node)) {
+      const fn = ts.isReturnStatement(parent) ? ts.findAncestor(parent, ts.isFunctionLike) : parent;
+      if (!fn || !addStep(node, 'return', 'forward', depth)) return;
+
+      findCallSites(fn).forEach((callSite) => {
+        if (ts.isCallExpression(callSite) && addStep(callSite, 'call-result', 'forward', depth + 1)) {
+          traceValueForward(callSite, depth + 2);
+        }
+      });
+    }
+  };
+
+  /**
+   * 컴포넌트 props 파라미터에서 특정 prop 이름의 흐름
+   * - ({ title }) → title 식별자
+   * - (props) → props.title 사용 지점
+   */
+  const traceParameterPropForward = (parameter: ts.ParameterDeclaration, propName: string, depth: number): void => {
+    if (ts.isObjectBindingPattern(parameter.name)) {
+      const element = parameter.name.elements.find(
+        (e) => (e.propertyName ?? e.name).getText() === propName && ts.isIdentifier(e.name)
+      );
+      if (element && ts.isIdentifier(element.name) && addStep(element.name, 'prop', 'forward', depth)) {
+        traceSymbolForward(element.name, depth + 1);
+      }
+      return;
+    }
+
+    if (!ts.isIdentifier(parameter.name)) return;
+    findReferences(parameter.name).forEach((reference) => {
+      const access = reference.parent;
+      if (ts.isPropertyAccessExpression(access) && access.expression === reference && access.name.text === propName) {
+        if (addStep(access, 'prop', 'forward', depth)) traceValueForward(access, depth + 1);
+      }
+    });
+  };
+
+  /**
+   * setValue(...) 호출 → 같은 useState의 value 식별자
+   */
+  const getStateValueForSetter = (call: ts.CallExpression): ts.Identifier | undefined => {
+    const callee = unwrapExpression(call.expression);
+    if (!ts.isIdentifier(callee)) return undefined;
+
+    const declaration = getProjectDeclarations(resolveSymbol(callee)).find(ts.isBindingElement);
+    const pattern = declaration?.parent;
+    if (!declaration || !pattern || !ts.isArrayBindingPattern(pattern) || pattern.elements.indexOf(declaration) !== 1) {
+      return undefined;
+    }
+
+    const valueElement = pattern.elements[0];
+    return ts.isBindingElement(valueElement) && ts.isIdentifier(valueElement.name) ? valueElement.name : undefined;
+  };
+
+  const traceSymbolForward = (nameNode: ts.Node, depth: number): void => {
+    if (depth > MAX_DEPTH) {
+      truncated = true;
+      return;
+    }
+
+    const key = `forward:${nameNode.getSourceFile().fileName}:${nameNode.getStart()}`;
+    if (visitedSymbols.has(key)) return;
+    visitedSymbols.add(key);
+
+    findReferences(nameNode).forEach((reference) => {
+      // 쓰기 위치 (x = ...)는 값이 나가는 흐름이 아님
+      const parent = reference.parent;
+      if (ts.isBinaryExpression(parent) && parent.left === reference) return;
+      traceValueForward(reference, depth);
+    });
+  };
+
+  // ----------------------------------------
+  // 실행: 선택 지점 → backward → forward
+  // ----------------------------------------
+
+  addStep(selected, 'selected', 'selected', 0);
+
+  const symbol = resolveSymbol(selected);
+  const declarationName = getProjectDeclarations(symbol)
+    .map((declaration) => ts.getNameOfDeclaration(declaration))
+    .find((name): name is ts.DeclarationName => !!name);
+
+  traceSymbolBackward(symbol, 1);
+  if (declarationName) traceSymbolForward(declarationName, 1);
+
+  // 선택 지점 자체가 선언이면 backward의 declaration step과 겹치므로 selected로 표시
+  const orderedSteps = [
+    ...steps.filter((step) => step.direction === 'backward').sort((a, b) => b.depth - a.depth),
+    ...steps.filter((step) => step.direction === 'selected'),
+    ...steps.filter((step) => step.direction === 'forward').sort((a, b) => a.depth - b.depth),
+  ];
+
+  const selectedLine = sourceFile.getLineAndCharacterOfPosition(selected.getStart(sourceFile)).line + 1;
+
+  return {
+    name: selected.text,
+    filePath,
+    line: selectedLine,
+    steps: orderedSteps,
+    truncated,
+  };
+}
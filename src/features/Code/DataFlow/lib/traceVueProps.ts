@@ -0,0 +1,439 @@
+/**
+ * Vue Props Data-flow Trace
+ *
+ * .vue 파일은 Language Service Program에서 TypeChecker로 분석할 수 없으므로
+ * SFC를 직접 파싱해서 props 흐름만 추적
+ * - backward: defineProps / props 옵션의 prop ← 부모 template의 `:prop="expr"` ← 부모 script 선언
+ * - forward: script 변수 → template의 `:prop="변수"` → 자식 컴포넌트의 prop 선언 → (자식에서 반복)
+ */
+
+import { type AttributeNode, type DirectiveNode, type ElementNode, type Node, NodeTypes } from '@vue/compiler-core';
+import { parse, type SFCDescriptor } from '@vue/compiler-sfc';
+import * as ts from 'typescript';
+import { resolvePath } from '../../../../shared/tsParser/utils/pathResolver';
+import type { DataFlowStep, DataFlowTrace } from './traceDataFlow';
+
+const MAX_DEPTH = 8;
+
+interface VueScript {
+  sourceFile: ts.SourceFile;
+  startLine: number; // script content 시작 라인 (파일 기준, 1-based)
+}
+
+interface TemplateBinding {
+  tag: string;
+  propName: string; // camelCase
+  expression: string; // `:title="expr"`의 expr, 정적 attribute는 값 그대로
+  isStatic: boolean;
+  line: number;
+  offset: number;
+  source: string; // attribute 원문
+}
+
+interface VueComponentInfo {
+  descriptor: SFCDescriptor;
+  script: VueScript | null;
+  bindings: TemplateBinding[];
+}
+
+function camelize(name: string): string {
+  return name.replace(/-(\w)/g, (_, c: string) => c.toUpperCase());
+}
+
+function toPascalCase(name: string): string {
+  const camel = camelize(name);
+  return camel.charAt(0).toUpperCase() + camel.slice(1);
+}
+
+function parseVueComponent(content: string, filePath: string): VueComponentInfo | null {
+  try {
+    const { descriptor } = parse(content, { filename: filePath });
+    const scriptBlock = descriptor.scriptSetup || descriptor.script;
+
+    const script = scriptBlock
+      ? {
+          sourceFile: ts.createSourceFile(
+            filePath,
+            scriptBlock.content,
+            ts.ScriptTarget.Latest,
+            true,
+            ts.ScriptKind.TS
+          ),
+          startLine: scriptBlock.loc.start.line,
+        }
+      : null;
+
+    return { descriptor, script, bindings: extractTemplateBindings(descriptor) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * template의 컴포넌트 태그에 전달된 props (`:title="expr"`, `v-bind:title`, `title="literal"`)
+ */
+function extractTemplateBindings(descriptor: SFCDescriptor): TemplateBinding[] {
+  const bindings: TemplateBinding[] = [];
+  const templateAST = descriptor.template?.ast;
+  if (!templateAST) return bindings;
+
+  const visit = (node: Node) => {
+    if (node.type === NodeTypes.ELEMENT) {
+      const element = node as ElementNode;
+      element.props.forEach((prop) => {
+        if (prop.type === NodeTypes.ATTRIBUTE) {
+          const attribute = prop as AttributeNode;
+          bindings.push({
+            tag: element.tag,
+            propName: camelize(attribute.name),
+            expression: attribute.value?.content ?? '',
+            isStatic: true,
+            line: attribute.loc.start.line,
+            offset: attribute.loc.start.offset,
+            source: attribute.loc.source,
+          });
+        } else if (prop.type === NodeTypes.DIRECTIVE) {
+          const directive = prop as DirectiveNode;
+          const arg = directive.arg;
+          if (directive.name !== 'bind' || !arg || arg.type !== NodeTypes.SIMPLE_EXPRESSION || !arg.isStatic) return;
+          if (!directive.exp || directive.exp.type !== NodeTypes.SIMPLE_EXPRESSION) return;
+
+          bindings.push({
+            tag: element.tag,
+            propName: camelize(arg.content),
+            expression: directive.exp.content,
+            isStatic: false,
+            line: directive.loc.start.line,
+            offset: directive.loc.start.offset,
+            source: directive.loc.source,
+          });
+        }
+      });
+    }
+
+    if ('children' in node && Array.isArray(node.children)) {
+      node.children.forEach((child) => {
+        visit(child as Node);
+      });
+    }
+  };
+
+  visit(templateAST);
+  return bindings;
+}
+
+/**
+ * 컴포넌트가 선언한 props
+ * - defineProps<{ title: string }>(), withDefaults(defineProps<...>(), {...})
+ * - defineProps({ title: String }), defineProps(['title'])
+ * - Options API: export default { props: {...} | [...] }
+ */
+function extractVueProps(script: VueScript): Map<string, ts.Node> {
+  const props = new Map<string, ts.Node>();
+
+  const addFromObjectOrArray = (node: ts.Node) => {
+    if (ts.isObjectLiteralExpression(node)) {
+      node.properties.forEach((property) => {
+        if (property.name && (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name))) {
+          props.set(property.name.text, property);
+        }
+      });
+    } else if (ts.isArrayLiteralExpression(node)) {
+      node.elements.forEach((element) => {
+        if (ts.isStringLiteral(element)) props.set(element.text, element);
+      });
+    }
+  };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node) && ts.isIdentifier(node.expression) && node.expression.text === 'defineProps') {
+      const typeArg = node.typeArguments?.[0];
+      if (typeArg && ts.isTypeLiteralNode(typeArg)) {
+        typeArg.members.forEach((member) => {
+          if (member.name && (ts.isIdentifier(member.name) || ts.isStringLiteral(member.name))) {
+            props.set(member.name.text, member);
+          }
+        });
+      }
+      if (node.arguments[0]) addFromObjectOrArray(node.arguments[0]);
+    }
+
+    if (
+      ts.isPropertyAssignment(node) &&
+      ts.isIdentifier(node.name) &&
+      node.name.text === 'props' &&
+      ts.isObjectLiteralExpression(node.parent) &&
+      ts.isExportAssignment(node.parent.parent)
+    ) {
+      addFromObjectOrArray(node.initializer);
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(script.sourceFile);
+  return props;
+}
+
+/**
+ * script 최상위 변수 선언 (const title = ref(''), const { a } = props 등)
+ */
+function findScriptDeclaration(script: VueScript, name: string): ts.Node | undefined {
+  let found: ts.Node | undefined;
+
+  const visit = (node: ts.Node) => {
+    if (found) return;
+    if (ts.isVariableDeclaration(node) || ts.isBindingElement(node)) {
+      if (ts.isIdentifier(node.name) && node.name.text === name) {
+        found = ts.isVariableDeclaration(node) ? node : node.name;
+        return;
+      }
+    }
+    if ((ts.isFunctionDeclaration(node) || ts.isParameter(node)) && node.name && node.name.getText() === name) {
+      found = node.name;
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(script.sourceFile);
+  return found;
+}
+
+/**
+ * script의 import 중 template 태그에 해당하는 컴포넌트 파일 (<UserCard>, <user-card>)
+ */
+function resolveComponentFile(
+  script: VueScript | null,
+  tag: string,
+  filePath: string,
+  files: Record<string, string>
+): string | null {
+  if (!script) return null;
+  const componentName = toPascalCase(tag);
+
+  for (const statement of script.sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) continue;
+    const defaultImport = statement.importClause?.name?.text;
+    if (defaultImport !== componentName) continue;
+    return resolvePath(filePath, statement.moduleSpecifier.text, files);
+  }
+  return null;
+}
+
+/**
+ * 표현식이 식별자를 참조하는지 (`user.name`, `items[0]`, `count + 1` → 각 식별자)
+ */
+function referencesName(expression: string, name: string): boolean {
+  return new RegExp(`(^|[^\\w$.])${name.replace(/\$/g, '\\$')}(?![\\w$])`).test(expression);
+}
+
+/**
+ * 표현식의 첫 번째 루트 식별자 (`user.name` → 'user', `props.title` → 'title')
+ */
+function getRootIdentifier(expression: string): string | null {
+  const match = expression.trim().match(/^(?:props\.)?([A-Za-z_$][\w$]*)/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Vue 파일의 라인/컬럼 위치에서 props 기준 data-flow 추적
+ */
+export function traceVueDataFlow(
+  files: Record<string, string>,
+  filePath: string,
+  line: number,
+  column: number
+): DataFlowTrace | null {
+  const content = files[filePath];
+  if (content === undefined) return null;
+
+  const lineText = content.split('\n')[line - 1] ?? '';
+  const wordMatch = [...lineText.matchAll(/[A-Za-z_$][\w$]*/g)].find(
+    (match) => match.index !== undefined && match.index <= column && column < match.index + match[0].length
+  );
+  if (!wordMatch) return null;
+  const name = wordMatch[0];
+
+  const components = new Map<string, VueComponentInfo | null>();
+  const getComponent = (path: string) => {
+    if (!components.has(path)) {
+      const source = files[path];
+      components.set(path, source === undefined ? null : parseVueComponent(source, path));
+    }
+    return components.get(path) ?? null;
+  };
+
+  const steps: DataFlowStep[] = [];
+  const stepIds = new Set<string>();
+  const visited = new Set<string>();
+  let truncated = false;
+
+  const addStep = (step: Omit<DataFlowStep, 'id' | 'code'> & { offset: number }, code: string): boolean => {
+    const id = `${step.filePath}:${step.offset}`;
+    if (stepIds.has(id)) return false;
+    stepIds.add(id);
+    steps.push({
+      id,
+      kind: step.kind,
+      direction: step.direction,
+      depth: step.depth,
+      filePath: step.filePath,
+      line: step.line,
+      name: step.name,
+      code: code.trim(),
+    });
+    return true;
+  };
+
+  const addScriptStep = (
+    path: string,
+    script: VueScript,
+    node: ts.Node,
+    kind: DataFlowStep['kind'],
+    direction: DataFlowStep['direction'],
+    depth: number
+  ) => {
+    const start = node.getStart(script.sourceFile);
+    const { line: lineIndex } = script.sourceFile.getLineAndCharacterOfPosition(start);
+    const lineStart = script.sourceFile.getLineStarts()[lineIndex];
+    return addStep(
+      {
+        kind,
+        direction,
+        depth,
+        filePath: path,
+        line: script.startLine + lineIndex,
+        name: ts.isVariableDeclaration(node) ? node.name.getText(script.sourceFile) : node.getText(script.sourceFile),
+        offset: start,
+      },
+      script.sourceFile.text.slice(lineStart, script.sourceFile.getLineEndOfPosition(start))
+    );
+  };
+
+  const addBindingStep = (
+    path: string,
+    binding: TemplateBinding,
+    direction: DataFlowStep['direction'],
+    depth: number
+  ) =>
+    addStep(
+      {
+        kind: 'vue-prop',
+        direction,
+        depth,
+        filePath: path,
+        line: binding.line,
+        name: `<${binding.tag}> ${binding.source}`,
+        offset: -binding.offset - 1, // script offset과 겹치지 않도록 음수
+      },
+      binding.source
+    );
+
+  /**
+   * 이 컴포넌트를 import해서 렌더링하는 부모 .vue 파일
+   */
+  const findParents = (childPath: string): Array<{ path: string; info: VueComponentInfo; tagNames: Set<string> }> =>
+    Object.keys(files)
+      .filter((path) => path.endsWith('.vue') && path !== childPath)
+      .flatMap((path) => {
+        const info = getComponent(path);
+        if (!info?.script) return [];
+
+        const tagNames = new Set<string>();
+        info.bindings.forEach((binding) => {
+          if (resolveComponentFile(info.script, binding.tag, path, files) === childPath) tagNames.add(binding.tag);
+        });
+        return tagNames.size > 0 ? [{ path, info, tagNames }] : [];
+      });
+
+  // ----------------------------------------
+  // Backward: prop ← 부모 binding ← 부모 선언
+  // ----------------------------------------
+
+  const traceBackward = (path: string, varName: string, depth: number): void => {
+    if (depth > MAX_DEPTH) {
+      truncated = true;
+      return;
+    }
+    const key = `backward:${path}:${varName}`;
+    if (visited.has(key)) return;
+    visited.add(key);
+
+    const info = getComponent(path);
+    if (!info?.script) return;
+
+    const declaration = findScriptDeclaration(info.script, varName);
+    if (declaration) {
+      addScriptStep(path, info.script, declaration, 'declaration', 'backward', depth);
+      // const { title } = toRefs(props) / const title = computed(() => props.title) → prop으로 이어짐
+      const declarationText = declaration.getText(info.script.sourceFile);
+      if (!/\bprops\b/.test(declarationText)) return;
+    }
+
+    const prop = extractVueProps(info.script).get(varName);
+    if (!prop) return;
+    addScriptStep(path, info.script, prop, 'vue-prop', 'backward', depth + 1);
+
+    findParents(path).forEach((parent) => {
+      parent.info.bindings
+        .filter((binding) => parent.tagNames.has(binding.tag) && binding.propName === varName)
+        .forEach((binding) => {
+          if (!addBindingStep(parent.path, binding, 'backward', depth + 2)) return;
+          const root = binding.isStatic ? null : getRootIdentifier(binding.expression);
+          if (root) traceBackward(parent.path, root, depth + 3);
+        });
+    });
+  };
+
+  // ----------------------------------------
+  // Forward: 변수 → `:prop="변수"` → 자식 prop
+  // ----------------------------------------
+
+  const traceForward = (path: string, varName: string, depth: number): void => {
+    if (depth > MAX_DEPTH) {
+      truncated = true;
+      return;
+    }
+    const key = `forward:${path}:${varName}`;
+    if (visited.has(key)) return;
+    visited.add(key);
+
+    const info = getComponent(path);
+    if (!info) return;
+
+    info.bindings
+      .filter((binding) => !binding.isStatic && referencesName(binding.expression, varName))
+      .forEach((binding) => {
+        const childPath = resolveComponentFile(info.script, binding.tag, path, files);
+        if (!childPath || !addBindingStep(path, binding, 'forward', depth)) return;
+
+        const child = getComponent(childPath);
+        const childProp = child?.script ? extractVueProps(child.script).get(binding.propName) : undefined;
+        if (!child?.script || !childProp) return;
+
+        if (addScriptStep(childPath, child.script, childProp, 'vue-prop', 'forward', depth + 1)) {
+          traceForward(childPath, binding.propName, depth + 2);
+        }
+      });
+  };
+
+  addStep(
+    { kind: 'selected', direction: 'selected', depth: 0, filePath, line, name, offset: Number.MIN_SAFE_INTEGER },
+    lineText
+  );
+  traceBackward(filePath, name, 1);
+  traceForward(filePath, name, 1);
+
+  return {
+    name,
+    filePath,
+    line,
+    steps: [
+      ...steps.filter((step) => step.direction === 'backward').sort((a, b) => b.depth - a.depth),
+      ...steps.filter((step) => step.direction === 'selected'),
+      ...steps.filter((step) => step.direction === 'forward').sort((a, b) => a.depth - b.depth),
+    ],
+    truncated,
+  };
+}
@@ -0,0 +1,124 @@
+/**
+ * useDataFlowTrace Hook
+ * Data-flow trace 실행 + 결과를 IDE / Canvas에 표시
+ */
+
+import { useAtomValue, useSetAtom } from 'jotai';
+import { filesAtom, fullNodeMapAtom, viewModeAtom } from '@/entities/AppView/model/atoms';
+import type { SourceFileNode } from '@/entities/SourceFileNode/model/types';
+import {
+  cardPositionsAtom,
+  lastExpandedIdAtom,
+  visibleNodeIdsAtom,
+} from '@/widgets/MainContents/PipelineCanvas/model/atoms';
+import { dataFlowIdeModeAtom, dataFlowTraceAtom } from '../model/atoms';
+import { type DataFlowTrace, traceDataFlow } from './traceDataFlow';
+
+// Canvas 배치 간격 (CallGraphButtons와 동일한 카드 기준)
+const COLUMN_GAP = 760;
+
+/**
+ * 라인 안에서 식별자의 컬럼 (같은 이름이 여러 번 나오면 offsetHint에 가장 가까운 것)
+ */
+function findColumn(lineText: string, name: string, offsetHint: number | undefined): number {
+  const pattern = new RegExp(`(?<![\\w$])${name.replace(/\$/g, '\\$')}(?![\\w$])`, 'g');
+  const columns = [...lineText.matchAll(pattern)].map((match) => match.index ?? 0);
+  if (columns.length === 0) return -1;
+  if (offsetHint === undefined) return columns[0];
+  return columns.reduce((best, column) =>
+    Math.abs(column - offsetHint) < Math.abs(best - offsetHint) ? column : best
+  );
+}
+
+/**
+ * 라인을 포함하는 가장 작은 노드 (멤버 > class > 파일)
+ */
+function findEnclosingNode(
+  fullNodeMap: Map<string, SourceFileNode>,
+  filePath: string,
+  line: number
+): SourceFileNode | undefined {
+  let best: SourceFileNode | undefined;
+  let bestSize = Number.POSITIVE_INFINITY;
+
+  fullNodeMap.forEach((node) => {
+    if (node.filePath !== filePath || node.type === 'file') return;
+    const size = node.codeSnippet.split('\n').length;
+    if (line < node.startLine || line >= node.startLine + size) return;
+    if (size < bestSize) {
+      best = node;
+      bestSize = size;
+    }
+  });
+
+  return best ?? fullNodeMap.get(filePath);
+}
+
+export function useDataFlowTrace() {
+  const files = useAtomValue(filesAtom);
+  const fullNodeMap = useAtomValue(fullNodeMapAtom);
+  const setTrace = useSetAtom(dataFlowTraceAtom);
+  const setIdeMode = useSetAtom(dataFlowIdeModeAtom);
+  const setViewMode = useSetAtom(viewModeAtom);
+  const setVisibleNodeIds = useSetAtom(visibleNodeIdsAtom);
+  const setCardPositions = useSetAtom(cardPositionsAtom);
+  const setLastExpandedId = useSetAtom(lastExpandedIdAtom);
+
+  /**
+   * 파일의 라인에서 식별자 기준으로 trace 실행
+   * @param offsetHint - 라인 안 대략적인 위치 (같은 이름이 여러 번 나올 때 구분)
+   */
+  const traceAt = (filePath: string, line: number, name: string, offsetHint?: number) => {
+    const content = files[filePath];
+    if (content === undefined) return;
+
+    const column = findColumn(content.split('\n')[line - 1] ?? '', name, offsetHint);
+    if (column < 0) return;
+
+    try {
+      setTrace(traceDataFlow(files, filePath, line, column));
+    } catch (error) {
+      console.error('❌ Data-flow trace failed:', error);
+      setTrace(null);
+    }
+  };
+
+  /**
+   * IDEScrollView에 trace 경로의 파일들을 순서대로 표시
+   */
+  const showInIde = () => {
+    setIdeMode(true);
+    setViewMode('ide');
+  };
+
+  /**
+   * 경로의 각 step을 포함하는 카드를 Canvas에 왼쪽(출처) → 오른쪽(사용처)으로 배치
+   */
+  const showOnCanvas = (trace: DataFlowTrace) => {
+    const nodeIds: string[] = [];
+    trace.steps.forEach((step) => {
+      const node = findEnclosingNode(fullNodeMap, step.filePath, step.line);
+      if (node && !nodeIds.includes(node.id)) nodeIds.push(node.id);
+    });
+    if (nodeIds.length === 0) return;
+
+    setCardPositions((prev) => {
+      const next = new Map(prev);
+      nodeIds.forEach((nodeId, index) => {
+        next.set(nodeId, { x: index * COLUMN_GAP, y: 0 });
+      });
+      return next;
+    });
+    setVisibleNodeIds(new Set(nodeIds));
+    setLastExpandedId(nodeIds[0]);
+    setIdeMode(false);
+    setViewMode('canvas');
+  };
+
+  const clearTrace = () => {
+    setTrace(null);
+    setIdeMode(false);
+  };
+
+  return { traceAt, showInIde, showOnCanvas, clearTrace };
+}
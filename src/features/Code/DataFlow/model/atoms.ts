@@ -0,0 +1,17 @@
+/**
+ * Data Flow - State Management
+ * 선택한 변수의 data-flow trace 결과
+ */
+
+import { atom } from 'jotai';
+import type { DataFlowTrace } from '../lib/traceDataFlow';
+
+/**
+ * 현재 trace (null이면 패널 닫힘)
+ */
+export const dataFlowTraceAtom = atom(null as DataFlowTrace | null);
+
+/**
+ * IDEScrollView를 Data Flow 모드로 표시할지 (trace의 파일들을 경로 순서대로)
+ */
+export const dataFlowIdeModeAtom = atom<boolean>(false);
@@ -0,0 +1,113 @@
+/**
+ * DataFlowPanel Component
+ * 선택한 변수의 data-flow 경로 (출처 → 선택 지점 → 사용처)
+ *
+ * - step 클릭: 해당 파일/라인 열기
+ * - IDE: IDEScrollView에 경로의 파일들을 순서대로 표시 (step 라인 하이라이트)
+ * - Canvas: 경로의 카드들을 왼쪽 → 오른쪽으로 배치
+ */
+
+import { useAtomValue } from 'jotai';
+import { LayoutGrid as IconCanvas, X as IconClose, FileCode as IconIde } from 'lucide-react';
+import type React from 'react';
+import { useOpenFile } from '@/features/File/OpenFiles/lib/useOpenFile.ts';
+import type { DataFlowStep } from '../lib/traceDataFlow';
+import { useDataFlowTrace } from '../lib/useDataFlowTrace';
+import { dataFlowTraceAtom } from '../model/atoms';
+
+const KIND_LABELS: Record<DataFlowStep['kind'], string> = {
+  selected: 'selected',
+  declaration: 'decl',
+  assignment: 'assign',
+  destructuring: 'destructure',
+  parameter: 'param',
+  argument: 'arg',
+  'call-result': 'call',
+  return: 'return',
+  prop: 'prop',
+  'vue-prop': 'vue prop',
+  literal: 'source',
+};
+
+const DIRECTION_COLORS: Record<DataFlowStep['direction'], string> = {
+  backward: 'text-sky-400',
+  selected: 'text-warm-300',
+  forward: 'text-emerald-400',
+};
+
+export const DataFlowPanel: React.FC = () => {
+  const trace = useAtomValue(dataFlowTraceAtom);
+  const { showInIde, showOnCanvas, clearTrace } = useDataFlowTrace();
+  const { openFile } = useOpenFile();
+
+  if (!trace) return null;
+
+  return (
+    <div className="absolute top-4 right-4 z-40 w-96 max-h-[70%] flex flex-col bg-bg-elevated border border-border-light rounded-lg shadow-xl text-xs">
+      {/* Header */}
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-border-light">
+        <span className="font-medium text-text-primary truncate">
+          Data flow: <span className="font-mono text-warm-300">{trace.name}</span>
+        </span>
+        <span className="text-text-muted">{trace.steps.length} steps</span>
+        <div className="ml-auto flex items-center gap-1">
+          <button
+            type="button"
+            onClick={showInIde}
+            className="p-1 rounded text-text-tertiary hover:bg-white/10 hover:text-text-primary"
+            title="Open path in IDE view"
+          >
+            <IconIde className="w-3.5 h-3.5" />
+          </button>
+          <button
+            type="button"
+            onClick={() => showOnCanvas(trace)}
+            className="p-1 rounded text-text-tertiary hover:bg-white/10 hover:text-text-primary"
+            title="Lay out path on canvas"
+          >
+            <IconCanvas className="w-3.5 h-3.5" />
+          </button>
+          <button
+            type="button"
+            onClick={clearTrace}
+            className="p-1 rounded text-text-tertiary hover:bg-white/10 hover:text-text-primary"
+            title="Close"
+          >
+            <IconClose className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      {/* Steps (출처 → 사용처) */}
+      <div className="overflow-y-auto py-1">
+        {trace.steps.length <= 1 && (
+          <div className="px-3 py-2 text-text-muted">No data flow found for this variable.</div>
+        )}
+        {trace.steps.map((step) => (
+          <button
+            key={step.id}
+            type="button"
+            onClick={() => openFile(step.filePath, { lineNumber: step.line })}
+            className={`w-full flex flex-col items-start px-3 py-1 text-left hover:bg-white/5 ${
+              step.direction === 'selected' ? 'bg-warm-300/10' : ''
+            }`}
+          >
+            <div className="flex items-center gap-2 w-full">
+              <span className={`w-16 shrink-0 font-mono text-[10px] ${DIRECTION_COLORS[step.direction]}`}>
+                {KIND_LABELS[step.kind]}
+              </span>
+              <span className="font-mono text-text-primary truncate">{step.name}</span>
+              <span className="ml-auto shrink-0 text-text-muted text-[10px]">
+                {step.filePath.split('/').pop()}:{step.line}
+              </span>
+            </div>
+            <span className="pl-[72px] w-full font-mono text-[10px] text-text-tertiary truncate">{step.code}</span>
+          </button>
+        ))}
+        {trace.truncated && (
+          <div className="px-3 py-1 text-text-muted text-[10px]">Trace truncated (depth / step limit reached)</div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -2,11 +2,13 @@
  * LocalVariableSegment - 통합된 로컬 변수 핸들러
  * - 일반 클릭: Focus mode toggle
  * - Cmd+Click: 정의로 이동
+ * - Alt+Click: Data-flow trace (출처 / 사용처)
  */
 
 import { useAtomValue, useSetAtom } from 'jotai';
 import type React from 'react';
 import { hoveredIdentifierAtom } from '@/entities/AppView/model/atoms';
+import { useDataFlowTrace } from '@/features/Code/DataFlow/lib/useDataFlowTrace';
 import { useGotoDefinition } from '@/features/File/GotoDefinition/lib/useGotoDefinition.ts';
 import type { CanvasNode } from '../../../../entities/CanvasNode/model/types.ts';
 import type { CodeSegment, SegmentStyle } from '../../../../widgets/CodeViewer/core/types/codeLine.ts';
@@ -17,11 +19,19 @@ interface LocalVariableSegmentProps {
   node: CanvasNode;
   style: SegmentStyle;
   isFocused?: boolean;
+  lineNum?: number; // 파일 기준 라인 번호 (data-flow trace용)
 }
 
-export const LocalVariableSegment: React.FC<LocalVariableSegmentProps> = ({ segment, node, style, isFocused }) => {
+export const LocalVariableSegment: React.FC<LocalVariableSegmentProps> = ({
+  segment,
+  node,
+  style,
+  isFocused,
+  lineNum,
+}) => {
   const setActiveLocalVariables = useSetAtom(activeLocalVariablesAtom);
   const { handleGotoDefinitionByLocation } = useGotoDefinition();
+  const { traceAt } = useDataFlowTrace();
   const hoveredIdentifier = useAtomValue(hoveredIdentifierAtom);
   const setHoveredIdentifier = useSetAtom(hoveredIdentifierAtom);
 
@@ -30,6 +40,12 @@ export const LocalVariableSegment: React.FC<LocalVariableSegmentProps> = ({ segm
   const handleClick = (e: React.MouseEvent) => {
     e.stopPropagation();
 
+    // Alt+Click: Data-flow trace
+    if (e.altKey && lineNum !== undefined) {
+      traceAt(node.filePath, lineNum, segment.text, segment.offset);
+      return;
+    }
+
     // Cmd+Click: 정의로 이동
     if (segment.definitionLocation) {
       const handled = handleGotoDefinitionByLocation(e, segment.definitionLocation);
@@ -0,0 +1,62 @@
+/**
+ * 업로드된 폴더에서 .git 디렉터리 분리 + 업로드 경로 ↔ 저장소 상대 경로 변환
+ * - 업로드 경로는 항상 `${rootFolder}/...` (webkitRelativePath), 저장소 경로는 rootFolder 기준 상대 경로
+ */
+
+import type { FileCandidate } from '@/shared/fileSystem/uploadFilter';
+
+export interface GitUploadSplit {
+  rootFolder: string | null; // .git이 없으면 null
+  gitFiles: Record<string, File>; // .git 기준 상대 경로 (HEAD, objects/pack/..., index)
+  candidates: FileCandidate[]; // .git을 제외한 나머지 (업로드 필터 대상)
+}
+
+/**
+ * 최상위 폴더 바로 아래의 .git만 저장소로 인식 (하위 모듈의 .git은 일반 ignore 대상)
+ */
+export function splitGitDirectory(candidates: FileCandidate[]): GitUploadSplit {
+  const gitFiles: Record<string, File> = {};
+  const rest: FileCandidate[] = [];
+  let rootFolder: string | null = null;
+
+  candidates.forEach((candidate) => {
+    const parts = candidate.path.split('/');
+    if (parts.length > 2 && parts[1] === '.git') {
+      rootFolder = parts[0];
+      gitFiles[parts.slice(2).join('/')] = candidate.file;
+    } else {
+      rest.push(candidate);
+    }
+  });
+
+  return { rootFolder, gitFiles, candidates: rest };
+}
+
+export function toRepoPath(uploadPath: string, rootFolder: string): string | null {
+  const prefix = `${rootFolder}/`;
+  return uploadPath.startsWith(prefix) ? uploadPath.slice(prefix.length) : null;
+}
+
+export function toUploadPath(repoPath: string, rootFolder: string): string {
+  return `${rootFolder}/${repoPath}`;
+}
+
+/**
+ * 커밋 시각 → 상대 시간 (Git 패널 표시용)
+ */
+export function formatCommitDate(timestamp: number, now = Date.now()): string {
+  const seconds = Math.max(0, Math.floor(now / 1000 - timestamp));
+  if (seconds < 60) return 'just now';
+
+  const units: Array<[number, string]> = [
+    [60 * 60 * 24 * 365, 'year'],
+    [60 * 60 * 24 * 30, 'month'],
+    [60 * 60 * 24 * 7, 'week'],
+    [60 * 60 * 24, 'day'],
+    [60 * 60, 'hour'],
+    [60, 'minute'],
+  ];
+  const [size, unit] = units.find(([size]) => seconds >= size) ?? units[units.length - 1];
+  const count = Math.floor(seconds / size);
+  return `${count} ${unit}${count > 1 ? 's' : ''} ago`;
+}
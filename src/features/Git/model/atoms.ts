@@ -0,0 +1,41 @@
+/**
+ * Git - State Management
+ * 업로드된 .git 디렉터리 + Worker가 읽은 branch / log / status 결과
+ */
+
+import { atom } from 'jotai';
+import type { GitWorkerClient } from '@/shared/git/gitWorkerClient';
+import type { GitCommitSummary, GitFileChange, GitRepositorySummary } from '@/shared/git/types';
+
+export interface UploadedGitRepository {
+  rootFolder: string; // 업로드 최상위 폴더 (filesAtom 경로의 첫 segment)
+  files: Record<string, File>; // .git 기준 상대 경로 → File
+  uploadedPaths: string[]; // 업로드된 작업 트리 파일 (저장소 상대 경로, untracked 판별용)
+}
+
+// 업로드된 저장소 (null: .git 없음)
+export const gitRepositoryAtom = atom(null as UploadedGitRepository | null);
+
+// 열린 저장소의 Worker client (다른 기능이 특정 커밋의 파일을 읽을 때 사용)
+export const gitClientAtom = atom(null as GitWorkerClient | null);
+
+// open 결과 (현재 branch, HEAD, 로컬 branch 목록)
+export const gitSummaryAtom = atom(null as GitRepositorySummary | null);
+
+// log 대상 branch (null: HEAD)
+export const gitSelectedBranchAtom = atom(null as string | null);
+
+export const gitLogAtom = atom<GitCommitSummary[]>([]);
+
+// Working tree / index 변경 (업로드 경로 기준)
+export const gitChangesAtom = atom<GitFileChange[]>([]);
+
+// 선택된 커밋 + 그 커밋이 바꾼 파일 (로딩 중이면 changes: null)
+export const gitSelectedCommitAtom = atom(null as string | null);
+export const gitCommitChangesAtom = atom(null as GitFileChange[] | null);
+
+export const gitLoadingAtom = atom<boolean>(false);
+export const gitErrorAtom = atom(null as string | null);
+
+// status 재계산 트리거 (Refresh 버튼)
+export const gitRefreshCounterAtom = atom<number>(0);
@@ -0,0 +1,81 @@
+/**
+ * GitPanelContainer - Git atoms ↔ GitPanel (presentational) 연결
+ * 파일 클릭 시 IDE에서 열기 (삭제된 파일 제외)
+ */
+
+import { useAtom, useAtomValue, useSetAtom } from 'jotai';
+import { useMemo } from 'react';
+import { GitPanel } from '@/components/ide/GitPanel';
+import { filesAtom } from '@/entities/AppView/model/atoms';
+import { useOpenFile } from '@/features/File/OpenFiles/lib/useOpenFile';
+import { formatCommitDate } from '../lib/gitUpload';
+import {
+  gitChangesAtom,
+  gitCommitChangesAtom,
+  gitErrorAtom,
+  gitLoadingAtom,
+  gitLogAtom,
+  gitRefreshCounterAtom,
+  gitRepositoryAtom,
+  gitSelectedBranchAtom,
+  gitSelectedCommitAtom,
+  gitSummaryAtom,
+} from '../model/atoms';
+
+export function GitPanelContainer() {
+  const repository = useAtomValue(gitRepositoryAtom);
+  const summary = useAtomValue(gitSummaryAtom);
+  const log = useAtomValue(gitLogAtom);
+  const changes = useAtomValue(gitChangesAtom);
+  const commitChanges = useAtomValue(gitCommitChangesAtom);
+  const loading = useAtomValue(gitLoadingAtom);
+  const error = useAtomValue(gitErrorAtom);
+  const files = useAtomValue(filesAtom);
+  const [selectedBranch, setSelectedBranch] = useAtom(gitSelectedBranchAtom);
+  const [selectedCommit, setSelectedCommit] = useAtom(gitSelectedCommitAtom);
+  const setRefreshCounter = useSetAtom(gitRefreshCounterAtom);
+  const { openFile } = useOpenFile();
+
+  const commits = useMemo(
+    () =>
+      log.map((commit) => ({
+        hash: commit.hash,
+        message: commit.subject,
+        author: commit.author,
+        date: formatCommitDate(commit.timestamp),
+      })),
+    [log]
+  );
+
+  const message = !repository
+    ? 'Upload a project folder that contains a .git directory to see its history.'
+    : error
+      ? `Failed to read git repository: ${error}`
+      : loading
+        ? 'Reading git repository…'
+        : summary && !summary.head
+          ? 'No commits yet.'
+          : null;
+
+  return (
+    <GitPanel
+      className="h-full border-r-0"
+      branches={summary?.branches ?? []}
+      selectedBranch={selectedBranch}
+      onBranchChange={(branch) => {
+        setSelectedBranch(branch);
+        setSelectedCommit(null);
+      }}
+      changes={changes}
+      commits={commits}
+      selectedCommit={selectedCommit}
+      selectedCommitFiles={commitChanges}
+      onSelectCommit={setSelectedCommit}
+      onOpenFile={(path) => {
+        if (files[path] !== undefined) openFile(path);
+      }}
+      onRefresh={repository ? () => setRefreshCounter((count) => count + 1) : undefined}
+      message={message}
+    />
+  );
+}
@@ -0,0 +1,185 @@
+/**
+ * GitRepositoryLoader - 업로드된 .git을 Worker로 읽어 Git atoms를 채우는 보이지 않는 컴포넌트
+ * - 저장소 변경 시 Worker 생성 + open (branch 목록)
+ * - branch 선택 → log, 커밋 선택 → 변경 파일
+ * - filesAtom 변경 (편집 / live mount) → status 재계산 (debounce)
+ */
+
+import { useAtom, useAtomValue, useSetAtom } from 'jotai';
+import { useEffect, useRef } from 'react';
+import { filesAtom } from '@/entities/AppView/model/atoms';
+import { createGitWorkerClient, type GitWorkerClient } from '@/shared/git/gitWorkerClient';
+import { toRepoPath, toUploadPath } from '../lib/gitUpload';
+import {
+  gitChangesAtom,
+  gitClientAtom,
+  gitCommitChangesAtom,
+  gitErrorAtom,
+  gitLoadingAtom,
+  gitLogAtom,
+  gitRefreshCounterAtom,
+  gitRepositoryAtom,
+  gitSelectedBranchAtom,
+  gitSelectedCommitAtom,
+  gitSummaryAtom,
+} from '../model/atoms';
+
+const LOG_LIMIT = 200;
+const STATUS_DEBOUNCE_MS = 500;
+
+const toMessage = (err: unknown) => (err instanceof Error ? err.message : 'Failed to read git repository.');
+
+export function GitRepositoryLoader() {
+  const repository = useAtomValue(gitRepositoryAtom);
+  const files = useAtomValue(filesAtom);
+  const refreshCounter = useAtomValue(gitRefreshCounterAtom);
+  const [summary, setSummary] = useAtom(gitSummaryAtom);
+  const [selectedBranch, setSelectedBranch] = useAtom(gitSelectedBranchAtom);
+  const [selectedCommit, setSelectedCommit] = useAtom(gitSelectedCommitAtom);
+  const setLog = useSetAtom(gitLogAtom);
+  const setChanges = useSetAtom(gitChangesAtom);
+  const setCommitChanges = useSetAtom(gitCommitChangesAtom);
+  const setLoading = useSetAtom(gitLoadingAtom);
+  const setError = useSetAtom(gitErrorAtom);
+  const setClient = useSetAtom(gitClientAtom);
+  const clientRef = useRef<GitWorkerClient | null>(null);
+
+  // 1. 저장소 open
+  useEffect(() => {
+    setSummary(null);
+    setSelectedBranch(null);
+    setSelectedCommit(null);
+    setLog([]);
+    setChanges([]);
+    setError(null);
+    if (!repository) return;
+
+    const client = createGitWorkerClient();
+    clientRef.current = client;
+    setClient(client);
+    let cancelled = false;
+
+    setLoading(true);
+    client
+      .open(repository.files)
+      .then((result) => {
+        if (cancelled) return;
+        setSummary(result);
+        setSelectedBranch(result.currentBranch);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error('Error opening git repository:', err);
+        setError(toMessage(err));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      client.dispose();
+      clientRef.current = null;
+      setClient(null);
+    };
+  }, [
+    repository,
+    setSummary,
+    setSelectedBranch,
+    setSelectedCommit,
+    setLog,
+    setChanges,
+    setLoading,
+    setError,
+    setClient,
+  ]);
+
+  // 2. log (선택된 branch, 없으면 HEAD)
+  // biome-ignore lint/correctness/useExhaustiveDependencies: refreshCounter는 재조회 트리거
+  useEffect(() => {
+    const client = clientRef.current;
+    if (!client || !summary?.head) return;
+
+    let cancelled = false;
+    client
+      .log(selectedBranch ?? 'HEAD', LOG_LIMIT)
+      .then((commits) => {
+        if (!cancelled) setLog(commits);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error('Error reading git log:', err);
+        setError(toMessage(err));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [summary, selectedBranch, refreshCounter, setLog, setError]);
+
+  // 3. status (작업 트리 = filesAtom 중 저장소 루트 아래 파일)
+  // biome-ignore lint/correctness/useExhaustiveDependencies: refreshCounter는 재조회 트리거
+  useEffect(() => {
+    const client = clientRef.current;
+    if (!client || !repository || !summary) return;
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      const workingFiles: Record<string, string> = {};
+      Object.entries(files).forEach(([path, content]) => {
+        const repoPath = toRepoPath(path, repository.rootFolder);
+        if (repoPath) workingFiles[repoPath] = content;
+      });
+      const presentPaths = Array.from(new Set([...repository.uploadedPaths, ...Object.keys(workingFiles)]));
+
+      client
+        .status(workingFiles, presentPaths)
+        .then((changes) => {
+          if (cancelled) return;
+          setChanges(changes.map((change) => ({ ...change, path: toUploadPath(change.path, repository.rootFolder) })));
+        })
+        .catch((err) => {
+          if (cancelled) return;
+          console.error('Error computing git status:', err);
+          setError(toMessage(err));
+        });
+    }, STATUS_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [files, repository, summary, refreshCounter, setChanges, setError]);
+
+  // 4. 선택된 커밋의 변경 파일
+  useEffect(() => {
+    setCommitChanges(null);
+    const client = clientRef.current;
+    if (!client || !repository || !selectedCommit) return;
+
+    let cancelled = false;
+    client
+      .commitChanges(selectedCommit)
+      .then((changes) => {
+        if (cancelled) return;
+        setCommitChanges(
+          changes.map((change) => ({
+            ...change,
+            path: toUploadPath(change.path, repository.rootFolder),
+            staged: false,
+          }))
+        );
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error('Error reading commit changes:', err);
+        setCommitChanges([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [repository, selectedCommit, setCommitChanges]);
+
+  return null;
+}
@@ -0,0 +1,77 @@
+/**
+ * LSIF Dump Import / Export 버튼
+ * - Export: IndexedDB의 LSIF Index → .lsif (JSON Lines) 다운로드
+ * - Import: 외부 도구(lsif-tsc 등)나 CI에서 만든 dump → IndexedDB
+ */
+
+import { useAtomValue } from 'jotai';
+import { FileDown as IconFileDown, FileUp as IconFileUp } from 'lucide-react';
+import type React from 'react';
+import { useRef } from 'react';
+import { filesAtom } from '@/entities/AppView/model/atoms';
+import { exportLSIFDump, importLSIFDump } from '@/shared/lsif/dump';
+
+const BUTTON_CLASS =
+  'relative flex h-[var(--limn-activity-bar-icon)] w-[var(--limn-activity-bar-icon)] items-center justify-center rounded-md border border-transparent bg-transparent hover:bg-white/5 hover:border-border-light transition-all duration-normal';
+
+const LSIFDumpButtons: React.FC = () => {
+  const files = useAtomValue(filesAtom);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = async () => {
+    try {
+      const dump = await exportLSIFDump(files);
+      const blob = new Blob([dump], { type: 'application/x-ndjson;charset=utf-8;' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'index.lsif';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error exporting LSIF dump:', err);
+      alert('Failed to export LSIF index.');
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // 같은 파일 다시 선택 가능하도록
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      const stats = await importLSIFDump(text, files);
+      alert(`Imported LSIF index: ${stats.documents} documents, ${stats.resultSets} symbols.`);
+    } catch (err) {
+      console.error(`Error importing LSIF dump ${file.name}:`, err);
+      alert(err instanceof Error ? err.message : 'Failed to import LSIF dump.');
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={handleExport}
+        className={BUTTON_CLASS}
+        title="Export LSIF Index"
+        aria-label="Export LSIF Index"
+      >
+        <IconFileDown size={18} strokeWidth={1.5} className="text-text-muted transition-colors" />
+      </button>
+      <button
+        type="button"
+        onClick={() => fileInputRef.current?.click()}
+        className={BUTTON_CLASS}
+        title="Import LSIF Dump"
+        aria-label="Import LSIF Dump"
+      >
+        <IconFileUp size={18} strokeWidth={1.5} className="text-text-muted transition-colors" />
+      </button>
+      <input ref={fileInputRef} type="file" accept=".lsif,.jsonl,.json" className="hidden" onChange={handleImport} />
+    </>
+  );
+};
+
+export default LSIFDumpButtons;
@@ -0,0 +1,95 @@
+/**
+ * File System Access API helpers (Live Mount)
+ * - TS DOM lib에 없는 API (showDirectoryPicker, handle.values(), permission)는 로컬 타입으로 선언
+ * - Chromium 계열에서만 지원 → 미지원 브라우저는 폴더 재업로드로 fallback
+ */
+
+import { type IgnoreMatcher, isGitignoreFile } from '@/shared/fileSystem/gitignore';
+import { isProjectFile } from '@/shared/fileSystem/projectFiles';
+
+type PermissionMode = { mode: 'read' | 'readwrite' };
+
+interface DirectoryHandleWithIteration extends FileSystemDirectoryHandle {
+  values(): AsyncIterableIterator<FileSystemDirectoryHandle | FileSystemFileHandle>;
+  queryPermission(descriptor?: PermissionMode): Promise<PermissionState>;
+  requestPermission(descriptor?: PermissionMode): Promise<PermissionState>;
+}
+
+type DirectoryPicker = (options?: { id?: string; mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+
+export interface FileStamp {
+  lastModified: number;
+  size: number;
+}
+
+// path → 스캔 시점의 파일 메타데이터 (내용은 변경된 파일만 다시 읽음)
+export type DirectorySnapshot = Map<string, FileStamp>;
+
+export function isFileSystemAccessSupported(): boolean {
+  return typeof window !== 'undefined' && 'showDirectoryPicker' in window;
+}
+
+/**
+ * 폴더 선택 (사용자가 취소하면 null)
+ */
+export async function pickDirectory(): Promise<FileSystemDirectoryHandle | null> {
+  const showDirectoryPicker = (window as unknown as { showDirectoryPicker: DirectoryPicker }).showDirectoryPicker;
+  try {
+    return await showDirectoryPicker({ id: 'vibe-live-mount', mode: 'read' });
+  } catch (err) {
+    if ((err as DOMException).name === 'AbortError') return null;
+    throw err;
+  }
+}
+
+/**
+ * 읽기 권한 확인 (IndexedDB에서 복원한 handle은 새로고침 후 'prompt' 상태)
+ * - request: true는 사용자 제스처(클릭) 안에서만 호출 가능
+ */
+export async function ensureReadPermission(handle: FileSystemDirectoryHandle, request: boolean): Promise<boolean> {
+  const dir = handle as DirectoryHandleWithIteration;
+  if ((await dir.queryPermission({ mode: 'read' })) === 'granted') return true;
+  if (!request) return false;
+  return (await dir.requestPermission({ mode: 'read' })) === 'granted';
+}
+
+/**
+ * 폴더 전체 스캔 → path → File
+ * - 경로는 `${root.name}/...` (webkitdirectory 업로드의 webkitRelativePath와 동일한 형태)
+ * - ignore 목록에 맞는 폴더 / 파일 (node_modules, dist 등)은 건너뜀
+ * - .gitignore도 포함 (planUpload의 gitignore 필터용, filesAtom에는 들어가지 않음)
+ */
+export async function scanDirectory(
+  root: FileSystemDirectoryHandle,
+  matcher: IgnoreMatcher
+): Promise<Map<string, File>> {
+  const files = new Map<string, File>();
+
+  const walk = async (dir: FileSystemDirectoryHandle, prefix: string) => {
+    for await (const entry of (dir as DirectoryHandleWithIteration).values()) {
+      const path = `${prefix}/${entry.name}`;
+      if (entry.kind === 'directory') {
+        if (matcher.isIgnored(path, true)) continue;
+        await walk(entry as FileSystemDirectoryHandle, path);
+      } else if ((isProjectFile(entry.name) || isGitignoreFile(entry.name)) && !matcher.isIgnored(path)) {
+        try {
+          files.set(path, await (entry as FileSystemFileHandle).getFile());
+        } catch (err) {
+          // 스캔 도중 삭제된 파일 등 → 다음 스캔에서 반영
+          console.warn(`[LiveMount] Failed to read ${path}:`, err);
+        }
+      }
+    }
+  };
+
+  await walk(root, root.name);
+  return files;
+}
+
+export function toSnapshot(files: Map<string, File>): DirectorySnapshot {
+  const snapshot: DirectorySnapshot = new Map();
+  files.forEach((file, path) => {
+    snapshot.set(path, { lastModified: file.lastModified, size: file.size });
+  });
+  return snapshot;
+}
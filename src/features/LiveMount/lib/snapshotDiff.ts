@@ -0,0 +1,74 @@
+/**
+ * Live Mount - 스캔 결과 비교 (added / modified / deleted)
+ */
+
+import type { DirectorySnapshot } from './fileSystemAccess';
+
+export type FileChangeKind = 'added' | 'modified';
+
+export interface SnapshotDiff {
+  added: string[];
+  modified: string[];
+  deleted: string[];
+}
+
+export function isEmptyDiff(diff: SnapshotDiff): boolean {
+  return diff.added.length === 0 && diff.modified.length === 0 && diff.deleted.length === 0;
+}
+
+/**
+ * 이전 / 현재 스캔의 메타데이터 비교 (lastModified 또는 size가 바뀌면 modified)
+ */
+export function diffSnapshots(prev: DirectorySnapshot, next: DirectorySnapshot): SnapshotDiff {
+  const diff: SnapshotDiff = { added: [], modified: [], deleted: [] };
+
+  next.forEach((stamp, path) => {
+    const prevStamp = prev.get(path);
+    if (!prevStamp) diff.added.push(path);
+    else if (prevStamp.lastModified !== stamp.lastModified || prevStamp.size !== stamp.size) diff.modified.push(path);
+  });
+  prev.forEach((_, path) => {
+    if (!next.has(path)) diff.deleted.push(path);
+  });
+
+  return diff;
+}
+
+/**
+ * 파일 내용 비교 (재업로드 fallback - 메타데이터 없이 현재 filesAtom과 비교)
+ */
+export function diffFileContents(prev: Record<string, string>, next: Record<string, string>): SnapshotDiff {
+  const diff: SnapshotDiff = { added: [], modified: [], deleted: [] };
+
+  Object.entries(next).forEach(([path, content]) => {
+    if (!(path in prev)) diff.added.push(path);
+    else if (prev[path] !== content) diff.modified.push(path);
+  });
+  Object.keys(prev).forEach((path) => {
+    if (!(path in next)) diff.deleted.push(path);
+  });
+
+  return diff;
+}
+
+/**
+ * "마지막으로 본 이후 변경" 목록에 diff 병합
+ * - 삭제된 파일은 목록에서 제거 (트리에 없음)
+ * - 아직 보지 않은 added 파일이 다시 수정돼도 added 유지
+ */
+export function mergeChangedFiles(
+  changed: Map<string, FileChangeKind>,
+  diff: SnapshotDiff
+): Map<string, FileChangeKind> {
+  const next = new Map(changed);
+  diff.added.forEach((path) => {
+    next.set(path, 'added');
+  });
+  diff.modified.forEach((path) => {
+    if (!next.has(path)) next.set(path, 'modified');
+  });
+  diff.deleted.forEach((path) => {
+    next.delete(path);
+  });
+  return next;
+}
@@ -0,0 +1,16 @@
+/**
+ * Live Mount - State Management
+ * 로컬 폴더 handle (File System Access API) + 변경 감지 상태
+ */
+
+import { atom } from 'jotai';
+import type { FileChangeKind } from '../lib/snapshotDiff';
+
+// 마운트된 폴더 (null: 마운트 안 됨)
+export const mountedDirectoryAtom = atom(null as FileSystemDirectoryHandle | null);
+
+// watching: 폴링 중 / needs-permission: 새로고침 후 복원된 handle, 사용자 클릭으로 권한 재요청 필요
+export const mountStatusAtom = atom<'idle' | 'watching' | 'needs-permission'>('idle');
+
+// 마지막으로 본 이후 변경된 파일 (FileExplorer 마커) - 파일을 열면 해당 항목 제거
+export const changedFilesAtom = atom(new Map<string, FileChangeKind>());
@@ -0,0 +1,144 @@
+/**
+ * Live Mount 버튼
+ * - 지원 브라우저: 로컬 폴더 마운트 (File System Access API) → LiveMountWatcher가 변경 감지
+ *   - 마운트 중 클릭: 감시 중지 / needs-permission 상태 클릭: 권한 재요청
+ * - 미지원 브라우저: 같은 폴더 재업로드 → 현재 파일과 비교해 변경 마커 표시
+ * - 변경 마커가 있으면 "모두 확인" 버튼 표시
+ */
+
+import { useAtom, useAtomValue, useSetAtom } from 'jotai';
+import { FolderSync as IconFolderSync, CheckCheck as IconMarkSeen } from 'lucide-react';
+import type React from 'react';
+import { useRef } from 'react';
+import { filesAtom } from '@/entities/AppView/model/atoms';
+import { uploadFilterOptionsAtom } from '@/features/UploadFolder/model/atoms';
+import { planUpload, readGitignoreFiles, readPlannedFiles, toFileCandidates } from '@/shared/fileSystem/uploadFilter';
+import { clearMountedDirectory, saveMountedDirectory } from '@/shared/storage/indexedDB';
+import { ensureReadPermission, isFileSystemAccessSupported, pickDirectory } from '../lib/fileSystemAccess';
+import { diffFileContents, mergeChangedFiles } from '../lib/snapshotDiff';
+import { changedFilesAtom, mountedDirectoryAtom, mountStatusAtom } from '../model/atoms';
+
+const BUTTON_CLASS =
+  'relative flex h-[var(--limn-activity-bar-icon)] w-[var(--limn-activity-bar-icon)] items-center justify-center rounded-md border border-transparent bg-transparent hover:bg-white/5 hover:border-border-light transition-all duration-normal';
+
+const STATUS_ICON_CLASS = {
+  idle: 'text-text-muted',
+  watching: 'text-emerald-400',
+  'needs-permission': 'text-amber-400',
+} as const;
+
+const LiveMountButtons: React.FC = () => {
+  const [directory, setDirectory] = useAtom(mountedDirectoryAtom);
+  const [status, setStatus] = useAtom(mountStatusAtom);
+  const [changedFiles, setChangedFiles] = useAtom(changedFilesAtom);
+  const files = useAtomValue(filesAtom);
+  const setFiles = useSetAtom(filesAtom);
+  const filterOptions = useAtomValue(uploadFilterOptionsAtom);
+  const fallbackInputRef = useRef<HTMLInputElement>(null);
+  const supported = isFileSystemAccessSupported();
+
+  const handleMount = async () => {
+    try {
+      const handle = await pickDirectory();
+      if (!handle) return;
+
+      await saveMountedDirectory(handle);
+      setDirectory(handle);
+      setStatus('watching');
+    } catch (err) {
+      console.error('[LiveMount] Failed to mount folder:', err);
+      alert(err instanceof Error ? err.message : 'Failed to mount folder.');
+    }
+  };
+
+  const handleReconnect = async () => {
+    if (!directory) return;
+    if (await ensureReadPermission(directory, true)) {
+      setStatus('watching');
+    }
+  };
+
+  const handleUnmount = async () => {
+    if (!directory || !confirm(`Stop watching "${directory.name}"? Loaded files are kept.`)) return;
+
+    setDirectory(null);
+    setStatus('idle');
+    setChangedFiles(new Map());
+    await clearMountedDirectory().catch((err) => {
+      console.error('[LiveMount] Failed to clear mounted folder:', err);
+    });
+  };
+
+  // Fallback: 재업로드 → 현재 파일과 내용 비교
+  const handleFallbackSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const fileList = e.target.files;
+    if (!fileList || fileList.length === 0) return;
+
+    // 폴더 업로드와 같은 필터 (미리보기 없이 저장된 설정 사용)
+    const candidates = toFileCandidates(Array.from<File>(fileList));
+    e.target.value = ''; // 같은 폴더 다시 선택 가능하도록
+    const plan = planUpload(candidates, await readGitignoreFiles(candidates), filterOptions);
+    const uploadedFiles = await readPlannedFiles(plan.included);
+    if (Object.keys(uploadedFiles).length === 0) {
+      alert('No .vue, .ts, .js, .jsx, or .tsx files found in the selected folder.');
+      return;
+    }
+
+    // 같은 프로젝트를 다시 올린 경우에만 변경 마커 표시 (다른 폴더면 전체 교체)
+    const isSameProject = Object.keys(uploadedFiles).some((path) => path in files);
+    setChangedFiles((prev) =>
+      isSameProject ? mergeChangedFiles(prev, diffFileContents(files, uploadedFiles)) : new Map()
+    );
+    setFiles(uploadedFiles);
+  };
+
+  const handleClick = () => {
+    if (!supported) fallbackInputRef.current?.click();
+    else if (status === 'needs-permission') handleReconnect();
+    else if (status === 'watching') handleUnmount();
+    else handleMount();
+  };
+
+  const title = !supported
+    ? 'Re-upload Folder (live mount is not supported in this browser)'
+    : status === 'watching'
+      ? `Watching "${directory?.name}" (click to stop)`
+      : status === 'needs-permission'
+        ? `Reconnect "${directory?.name}"`
+        : 'Mount Local Folder (live)';
+
+  return (
+    <>
+      <button type="button" onClick={handleClick} className={BUTTON_CLASS} title={title} aria-label={title}>
+        <IconFolderSync size={18} strokeWidth={1.5} className={`${STATUS_ICON_CLASS[status]} transition-colors`} />
+      </button>
+      {changedFiles.size > 0 && (
+        <button
+          type="button"
+          onClick={() => setChangedFiles(new Map())}
+          className={BUTTON_CLASS}
+          title={`Mark ${changedFiles.size} changed files as seen`}
+          aria-label="Mark changed files as seen"
+        >
+          <IconMarkSeen size={18} strokeWidth={1.5} className="text-text-muted transition-colors" />
+          <span className="absolute top-0.5 right-0.5 min-w-[14px] rounded-full bg-sky-500 px-0.5 text-center text-[9px] leading-[14px] text-white">
+            {changedFiles.size}
+          </span>
+        </button>
+      )}
+      {!supported && (
+        <input
+          ref={fallbackInputRef}
+          type="file"
+          // @ts-expect-error - webkitdirectory is not in standard HTML types
+          webkitdirectory=""
+          multiple
+          className="hidden"
+          onChange={handleFallbackSelect}
+        />
+      )}
+    </>
+  );
+};
+
+export default LiveMountButtons;
@@ -0,0 +1,186 @@
+/**
+ * LiveMountWatcher - 마운트된 로컬 폴더 변경 감지
+ *
+ * Responsibilities:
+ * 1. 앱 시작 시 IndexedDB에서 폴더 handle 복원 (권한이 없으면 needs-permission → 버튼 클릭으로 재연결)
+ * 2. 첫 스캔: 폴더 전체를 읽어 filesAtom 교체 (폴더 업로드와 같은 필터: ignore 목록, .gitignore, 크기 / 개수 제한)
+ * 3. 이후 폴링 (+ 창 focus 시): 메타데이터 비교 → 변경된 파일만 읽어 filesAtom에 delta 적용
+ * 4. 열린 파일은 "마지막으로 본 이후 변경" 목록에서 제거
+ */
+
+import { useAtom, useAtomValue, useSetAtom } from 'jotai';
+import { useEffect, useMemo, useRef } from 'react';
+import { filesAtom } from '@/entities/AppView/model/atoms';
+import { useOpenFile } from '@/features/File/OpenFiles/lib/useOpenFile';
+import { activeTabAtom, openedTabsAtom } from '@/features/File/OpenFiles/model/atoms';
+import { gitRepositoryAtom } from '@/features/Git/model/atoms';
+import { uploadFilterOptionsAtom } from '@/features/UploadFolder/model/atoms';
+import { createIgnoreMatcher } from '@/shared/fileSystem/gitignore';
+import { pickEntryFile } from '@/shared/fileSystem/projectFiles';
+import { planUpload, readGitignoreFiles, type UploadFilterOptions } from '@/shared/fileSystem/uploadFilter';
+import { loadMountedDirectory } from '@/shared/storage/indexedDB';
+import {
+  type DirectorySnapshot,
+  ensureReadPermission,
+  isFileSystemAccessSupported,
+  scanDirectory,
+  toSnapshot,
+} from '../lib/fileSystemAccess';
+import { diffSnapshots, isEmptyDiff, mergeChangedFiles } from '../lib/snapshotDiff';
+import { changedFilesAtom, mountedDirectoryAtom, mountStatusAtom } from '../model/atoms';
+
+const POLL_INTERVAL_MS = 2000;
+
+/**
+ * 스캔 결과 → 폴더 업로드와 같은 필터를 통과한 파일 (path → File)
+ */
+async function filterScanned(scanned: Map<string, File>, options: UploadFilterOptions): Promise<Map<string, File>> {
+  const candidates = Array.from(scanned, ([path, file]) => ({ path, size: file.size, file }));
+  const gitignoreFiles = options.useGitignore ? await readGitignoreFiles(candidates) : {};
+  const plan = planUpload(candidates, gitignoreFiles, options);
+  return new Map(plan.included.map(({ path, file }) => [path, file]));
+}
+
+async function readContents(files: Map<string, File>, paths: string[]): Promise<Record<string, string>> {
+  const contents: Record<string, string> = {};
+  for (const path of paths) {
+    const file = files.get(path);
+    if (file) contents[path] = await file.text();
+  }
+  return contents;
+}
+
+export const LiveMountWatcher = () => {
+  const [directory, setDirectory] = useAtom(mountedDirectoryAtom);
+  const [status, setStatus] = useAtom(mountStatusAtom);
+  const setFiles = useSetAtom(filesAtom);
+  const setChangedFiles = useSetAtom(changedFilesAtom);
+  const setGitRepository = useSetAtom(gitRepositoryAtom);
+  const activeTab = useAtomValue(activeTabAtom);
+  const openedTabs = useAtomValue(openedTabsAtom);
+  const setOpenedTabs = useSetAtom(openedTabsAtom);
+  const { openFile } = useOpenFile();
+  const filterOptions = useAtomValue(uploadFilterOptionsAtom);
+
+  // 폴더 업로드와 같은 기본 ignore 목록 (node_modules, dist 등은 스캔 단계에서 건너뜀)
+  const matcher = useMemo(() => createIgnoreMatcher({}, filterOptions.ignorePatterns), [filterOptions.ignorePatterns]);
+
+  // 마지막 스캔 결과 (다른 폴더를 마운트하면 첫 스캔부터 다시)
+  const snapshotRef = useRef<{ directory: FileSystemDirectoryHandle; snapshot: DirectorySnapshot } | null>(null);
+  const scanningRef = useRef(false);
+
+  // 폴링 콜백에서 최신 값 참조 (effect 재시작 없이)
+  const openedTabsRef = useRef(openedTabs);
+  openedTabsRef.current = openedTabs;
+  const openFileRef = useRef(openFile);
+  openFileRef.current = openFile;
+
+  // Restore mounted folder on app start
+  useEffect(() => {
+    if (!isFileSystemAccessSupported()) return;
+
+    loadMountedDirectory().then(async (handle) => {
+      if (!handle) return;
+      console.log(`[LiveMount] Restoring mounted folder "${handle.name}"`);
+      setDirectory(handle);
+      setStatus((await ensureReadPermission(handle, false)) ? 'watching' : 'needs-permission');
+    });
+  }, [setDirectory, setStatus]);
+
+  // Watch (polling)
+  useEffect(() => {
+    if (!directory || status !== 'watching') return;
+    let cancelled = false;
+
+    const sync = async () => {
+      if (scanningRef.current || document.hidden) return;
+      scanningRef.current = true;
+
+      try {
+        const scanned = await filterScanned(await scanDirectory(directory, matcher), filterOptions);
+        const snapshot = toSnapshot(scanned);
+        const prevSnapshot = snapshotRef.current?.directory === directory ? snapshotRef.current.snapshot : null;
+
+        // 첫 스캔: 전체 로드
+        if (!prevSnapshot) {
+          const contents = await readContents(scanned, Array.from(scanned.keys()));
+          if (cancelled) return;
+
+          snapshotRef.current = { directory, snapshot };
+          setFiles(contents);
+          setChangedFiles(new Map());
+          setGitRepository(null); // 이전 업로드의 .git은 다른 프로젝트
+          console.log(`[LiveMount] Loaded ${scanned.size} files from "${directory.name}"`);
+
+          // 열린 탭이 새 폴더에 없으면 entry 파일 열기
+          if (!openedTabsRef.current.some((tab) => tab in contents)) {
+            const entry = pickEntryFile(Object.keys(contents));
+            setOpenedTabs([]);
+            if (entry) openFileRef.current(entry);
+          }
+          return;
+        }
+
+        const diff = diffSnapshots(prevSnapshot, snapshot);
+        if (isEmptyDiff(diff)) return;
+
+        // 변경된 파일만 읽기
+        const contents = await readContents(scanned, [...diff.added, ...diff.modified]);
+        if (cancelled) return;
+
+        snapshotRef.current = { directory, snapshot };
+        setFiles((prev) => {
+          const next = { ...prev, ...contents };
+          diff.deleted.forEach((path) => {
+            delete next[path];
+          });
+          return next;
+        });
+        setChangedFiles((prev) => mergeChangedFiles(prev, diff));
+        console.log(
+          `[LiveMount] +${diff.added.length} ~${diff.modified.length} -${diff.deleted.length} in "${directory.name}"`
+        );
+      } catch (err) {
+        // 폴더 삭제 / 권한 회수 등 → 재연결 필요
+        console.error('[LiveMount] Failed to scan mounted folder:', err);
+        if (!cancelled) setStatus('needs-permission');
+      } finally {
+        scanningRef.current = false;
+      }
+    };
+
+    sync();
+    const timer = window.setInterval(sync, POLL_INTERVAL_MS);
+    window.addEventListener('focus', sync);
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+      window.removeEventListener('focus', sync);
+    };
+  }, [
+    directory,
+    status,
+    matcher,
+    filterOptions,
+    setFiles,
+    setChangedFiles,
+    setGitRepository,
+    setOpenedTabs,
+    setStatus,
+  ]);
+
+  // 파일을 열면 "변경됨" 마커 제거
+  useEffect(() => {
+    if (!activeTab) return;
+    setChangedFiles((prev) => {
+      if (!prev.has(activeTab)) return prev;
+      const next = new Map(prev);
+      next.delete(activeTab);
+      return next;
+    });
+  }, [activeTab, setChangedFiles]);
+
+  // This component doesn't render anything
+  return null;
+};
@@ -0,0 +1,126 @@
+/**
+ * 패치 → workspace 파일 적용 (scratch layer)
+ * - 패치 경로 (src/a.ts)를 filesAtom 경로 (my-app/src/a.ts)로 해석
+ * - 원본 내용을 보관해 Discard 시 복원, 결과 파일의 추가 / 삭제 라인 표시
+ */
+
+import { getCommonRootFolder } from '@/features/ZipArchive/lib/workspaceSnapshot';
+import { applyFilePatch, type FilePatch, type HunkResult } from '@/shared/diff/unifiedDiff';
+
+export interface PatchLineMarks {
+  added: Set<number>;
+  removed: Map<number, string[]>; // 라인 번호 → 그 라인 앞에서 삭제된 원본 라인들
+}
+
+export interface PatchFileResult {
+  patchPath: string; // 패치에 적힌 경로
+  filePath: string | null; // workspace 경로 (찾지 못하면 null)
+  status: 'added' | 'modified' | 'deleted' | 'renamed' | 'missing';
+  hunks: HunkResult[];
+}
+
+export interface PatchPreview {
+  name: string; // 붙여넣기 / 파일 이름
+  originals: Record<string, string | null>; // 바뀐 경로 → 원본 (null: 패치로 새로 생긴 파일)
+  results: PatchFileResult[];
+  lineMarks: Map<string, PatchLineMarks>;
+}
+
+/**
+ * 패치 경로 → workspace 경로 (정확히 일치 > 가장 짧은 suffix 일치)
+ */
+export function resolvePatchPath(files: Record<string, string>, patchPath: string): string | null {
+  const path = patchPath.replace(/^\.\//, '');
+  if (files[path] !== undefined) return path;
+
+  const matches = Object.keys(files).filter((filePath) => filePath.endsWith(`/${path}`));
+  return matches.sort((a, b) => a.length - b.length)[0] ?? null;
+}
+
+export function applyPatchToFiles(
+  files: Record<string, string>,
+  patches: FilePatch[],
+  name: string
+): { files: Record<string, string>; preview: PatchPreview } {
+  const nextFiles = { ...files };
+  const originals: Record<string, string | null> = {};
+  const results: PatchFileResult[] = [];
+  const lineMarks = new Map<string, PatchLineMarks>();
+  const root = getCommonRootFolder(Object.keys(files));
+
+  const remember = (path: string) => {
+    if (!(path in originals)) originals[path] = files[path] ?? null;
+  };
+
+  patches.forEach((patch) => {
+    const patchPath = (patch.newPath ?? patch.oldPath) as string;
+    const sourcePath = patch.oldPath ? resolvePatchPath(nextFiles, patch.oldPath) : null;
+
+    if (patch.oldPath && !sourcePath) {
+      results.push({
+        patchPath,
+        filePath: null,
+        status: 'missing',
+        hunks: patch.hunks.map((hunk) => ({
+          header: hunk.header,
+          status: 'failed',
+          offset: 0,
+          message: 'File not found',
+        })),
+      });
+      return;
+    }
+
+    // 새 파일 / rename 대상: 원본 경로와 같은 루트 아래에
+    let targetPath = sourcePath;
+    if (patch.newPath && patch.newPath !== patch.oldPath) {
+      const prefix = sourcePath && patch.oldPath ? sourcePath.slice(0, sourcePath.length - patch.oldPath.length) : '';
+      targetPath = sourcePath
+        ? `${prefix}${patch.newPath}`
+        : (resolvePatchPath(nextFiles, patch.newPath) ?? (root ? `${root}/${patch.newPath}` : patch.newPath));
+    }
+
+    const result = applyFilePatch(sourcePath ? nextFiles[sourcePath] : null, patch);
+    const status: PatchFileResult['status'] = !patch.oldPath
+      ? 'added'
+      : !patch.newPath
+        ? 'deleted'
+        : targetPath !== sourcePath
+          ? 'renamed'
+          : 'modified';
+
+    if (sourcePath && (status === 'deleted' || status === 'renamed')) {
+      remember(sourcePath);
+      delete nextFiles[sourcePath];
+    }
+    if (targetPath && result.content !== null) {
+      remember(targetPath);
+      nextFiles[targetPath] = result.content;
+
+      // 파일 끝에서 삭제된 라인은 마지막 라인에 표시
+      const lineCount = result.content.replace(/\r?\n$/, '').split('\n').length;
+      const removed = new Map<number, string[]>();
+      result.removedLines.forEach((lines, lineNum) => {
+        const target = Math.min(lineNum, lineCount);
+        removed.set(target, [...(removed.get(target) ?? []), ...lines]);
+      });
+      lineMarks.set(targetPath, { added: new Set(result.addedLines), removed });
+    }
+
+    results.push({ patchPath, filePath: targetPath ?? sourcePath, status, hunks: result.hunks });
+  });
+
+  return { files: nextFiles, preview: { name, originals, results, lineMarks } };
+}
+
+/**
+ * Discard: 패치가 바꾼 경로만 원본으로 되돌림 (다른 파일 편집은 유지)
+ */
+export function restoreOriginals(files: Record<string, string>, originals: Record<string, string | null>) {
+  const restored = { ...files };
+  Object.entries(originals).forEach(([path, content]) => {
+    if (content === null) delete restored[path];
+    else restored[path] = content;
+  });
+  return restored;
+}
@@ -0,0 +1,45 @@
+/**
+ * usePatchLayer Hook
+ * 패치 적용 (filesAtom에 바로 반영 → Worker 재파싱) / Accept / Discard
+ */
+
+import { useAtom } from 'jotai';
+import { useCallback } from 'react';
+import { filesAtom } from '@/entities/AppView/model/atoms';
+import { parseUnifiedDiff } from '@/shared/diff/unifiedDiff';
+import { patchPreviewAtom } from '../model/atoms';
+import { applyPatchToFiles, restoreOriginals } from './applyPatch';
+
+export function usePatchLayer() {
+  const [preview, setPreview] = useAtom(patchPreviewAtom);
+  const [files, setFiles] = useAtom(filesAtom);
+
+  /**
+   * @returns 에러 메시지 (성공 시 null)
+   */
+  const applyPatch = useCallback(
+    (text: string, name: string): string | null => {
+      if (preview) return 'Accept or discard the current patch first.';
+
+      const patches = parseUnifiedDiff(text);
+      if (patches.length === 0) return 'No file changes found in the patch.';
+
+      const result = applyPatchToFiles(files, patches, name);
+      setFiles(result.files);
+      setPreview(result.preview);
+      return null;
+    },
+    [preview, files, setFiles, setPreview]
+  );
+
+  const accept = useCallback(() => setPreview(null), [setPreview]);
+
+  // 패치가 바꾼 경로만 원본으로 (미리보기 중 다른 파일 편집은 유지)
+  const discard = useCallback(() => {
+    if (!preview) return;
+    setFiles((current) => restoreOriginals(current, preview.originals));
+    setPreview(null);
+  }, [preview, setFiles, setPreview]);
+
+  return { preview, applyPatch, accept, discard };
+}
@@ -0,0 +1,16 @@
+/**
+ * usePatchLineMark Hook
+ * 코드 라인이 미리보기 중인 패치로 추가됐는지 / 그 앞에서 삭제된 라인이 있는지
+ */
+
+import { useAtomValue } from 'jotai';
+import { patchLineMarksAtom } from '../model/atoms';
+
+export function usePatchLineMark(filePath: string, lineNum: number) {
+  const marks = useAtomValue(patchLineMarksAtom).get(filePath);
+  if (!marks) return null;
+
+  const added = marks.added.has(lineNum);
+  const removed = marks.removed.get(lineNum);
+  return added || removed ? { added, removed } : null;
+}
@@ -0,0 +1,13 @@
+/**
+ * Patch - State Management
+ * 적용 중인 패치 (scratch layer): Accept 전까지 원본 보관 + 라인 표시
+ */
+
+import { atom } from 'jotai';
+import type { PatchLineMarks, PatchPreview } from '../lib/applyPatch';
+
+// 현재 미리보기 중인 패치 (null: 없음)
+export const patchPreviewAtom = atom(null as PatchPreview | null);
+
+// filePath → 추가 / 삭제 라인 (CodeLineView)
+export const patchLineMarksAtom = atom((get) => get(patchPreviewAtom)?.lineMarks ?? new Map<string, PatchLineMarks>());
@@ -0,0 +1,67 @@
+/**
+ * Apply Patch 버튼
+ * - 클릭: 붙여넣기 다이얼로그
+ * - 창에 .diff / .patch drop: 내용을 채운 다이얼로그
+ */
+
+import { FileDiff as IconFileDiff } from 'lucide-react';
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import { usePatchLayer } from '../lib/usePatchLayer';
+import { PatchDialog } from './PatchDialog';
+
+const isPatchFile = (file: File) => /\.(diff|patch)$/i.test(file.name);
+
+const PatchButton: React.FC = () => {
+  const { applyPatch } = usePatchLayer();
+  const [dialog, setDialog] = useState<{ text: string; name: string } | null>(null);
+
+  // 창에 .diff / .patch drop
+  useEffect(() => {
+    const handleDragOver = (e: DragEvent) => {
+      if (e.dataTransfer?.types.includes('Files')) e.preventDefault();
+    };
+    const handleDrop = async (e: DragEvent) => {
+      const file = Array.from<File>(e.dataTransfer?.files ?? []).find(isPatchFile);
+      if (!file) return;
+      e.preventDefault();
+      setDialog({ text: await file.text(), name: file.name });
+    };
+
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('drop', handleDrop);
+    return () => {
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('drop', handleDrop);
+    };
+  }, []);
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setDialog({ text: '', name: 'Pasted patch' })}
+        className="relative flex h-[var(--limn-activity-bar-icon)] w-[var(--limn-activity-bar-icon)] items-center justify-center rounded-md border border-transparent bg-transparent hover:bg-white/5 hover:border-border-light transition-all duration-normal"
+        title="Apply Patch (or drop a .diff / .patch anywhere)"
+        aria-label="Apply Patch"
+      >
+        <IconFileDiff size={18} strokeWidth={1.5} className="text-text-muted transition-colors" />
+      </button>
+      {dialog && (
+        <PatchDialog
+          key={`${dialog.name}:${dialog.text.length}`}
+          initialText={dialog.text}
+          initialName={dialog.name}
+          onCancel={() => setDialog(null)}
+          onApply={(text, name) => {
+            const error = applyPatch(text, name);
+            if (!error) setDialog(null);
+            return error;
+          }}
+        />
+      )}
+    </>
+  );
+};
+
+export default PatchButton;
@@ -0,0 +1,105 @@
+/**
+ * PatchDialog
+ * unified diff 붙여넣기 / .diff·.patch 파일 열기 → 적용 (미리보기 layer)
+ */
+
+import { FileDiff, X } from 'lucide-react';
+import type React from 'react';
+import { useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Dialog } from '@/components/ui/Dialog';
+import { parseUnifiedDiff } from '@/shared/diff/unifiedDiff';
+
+export interface PatchDialogProps {
+  initialText?: string;
+  initialName?: string;
+  onCancel: () => void;
+  onApply: (text: string, name: string) => string | null; // 에러 메시지 반환
+}
+
+export function PatchDialog({ initialText = '', initialName = 'Pasted patch', onCancel, onApply }: PatchDialogProps) {
+  const [text, setText] = useState(initialText);
+  const [name, setName] = useState(initialName);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const summary = useMemo(() => {
+    const patches = parseUnifiedDiff(text);
+    return { files: patches.length, hunks: patches.reduce((sum, patch) => sum + patch.hunks.length, 0) };
+  }, [text]);
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setText(await file.text());
+    setName(file.name);
+    setError(null);
+  };
+
+  const handleApply = () => {
+    const message = onApply(text, name);
+    if (message) setError(message);
+  };
+
+  return (
+    <Dialog open onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+        <div className="bg-bg-elevated border border-border-DEFAULT rounded-lg shadow-2xl w-full max-w-3xl max-h-[80vh] flex flex-col text-xs">
+          {/* Header */}
+          <div className="flex items-center justify-between p-4 border-b border-border-DEFAULT">
+            <div className="flex items-center gap-2">
+              <FileDiff size={18} className="text-warm-300" />
+              <h2 className="text-base font-semibold text-text-primary">Apply Patch</h2>
+            </div>
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={onCancel}>
+              <X size={16} />
+            </Button>
+          </div>
+
+          {/* Input */}
+          <div className="flex-1 min-h-0 flex flex-col gap-2 p-4">
+            <div className="flex items-center gap-3 text-text-muted">
+              <span>Paste a unified diff or</span>
+              <Button variant="ghost" size="sm" onClick={() => fileInputRef.current?.click()}>
+                Open .diff / .patch…
+              </Button>
+              <span className="ml-auto">
+                {summary.files} file{summary.files === 1 ? '' : 's'}, {summary.hunks} hunk
+                {summary.hunks === 1 ? '' : 's'}
+              </span>
+            </div>
+            <textarea
+              value={text}
+              onChange={(e) => {
+                setText(e.target.value);
+                setError(null);
+              }}
+              placeholder={'diff --git a/src/app.ts b/src/app.ts\n--- a/src/app.ts\n+++ b/src/app.ts\n@@ -1,3 +1,3 @@'}
+              spellCheck={false}
+              className="flex-1 min-h-[280px] font-mono bg-bg-deep border border-border-light rounded px-2 py-1 text-text-primary resize-none select-text"
+            />
+            {error && <div className="text-red-400">{error}</div>}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".diff,.patch,text/x-diff,text/x-patch"
+              className="hidden"
+              onChange={handleFileSelect}
+            />
+          </div>
+
+          {/* Footer Actions */}
+          <div className="flex items-center justify-end gap-2 p-4 border-t border-border-DEFAULT">
+            <Button variant="ghost" size="sm" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleApply} disabled={summary.files === 0}>
+              Apply to workspace
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Dialog>
+  );
+}
@@ -0,0 +1,113 @@
+/**
+ * PatchPreviewPanel Component
+ * 적용 중인 패치 결과 (파일별 hunk 성공 / 실패) + Accept / Discard
+ *
+ * - 패치 내용은 이미 filesAtom에 반영됨 → Dead Code / 의존성 뷰가 재파싱 결과로 갱신
+ * - 항목 클릭: 해당 파일의 첫 변경 라인 열기
+ */
+
+import { Check as IconAccept, Undo2 as IconDiscard, XCircle as IconFailed, FileDiff as IconPatch } from 'lucide-react';
+import type React from 'react';
+import { useOpenFile } from '@/features/File/OpenFiles/lib/useOpenFile';
+import type { PatchFileResult } from '../lib/applyPatch';
+import { usePatchLayer } from '../lib/usePatchLayer';
+
+const STATUS_LETTERS: Record<PatchFileResult['status'], { letter: string; className: string }> = {
+  added: { letter: 'A', className: 'text-emerald-400' },
+  modified: { letter: 'M', className: 'text-amber-300' },
+  deleted: { letter: 'D', className: 'text-red-400' },
+  renamed: { letter: 'R', className: 'text-sky-400' },
+  missing: { letter: '?', className: 'text-red-400' },
+};
+
+export const PatchPreviewPanel: React.FC = () => {
+  const { preview, accept, discard } = usePatchLayer();
+  const { openFile } = useOpenFile();
+
+  if (!preview) return null;
+
+  const hunks = preview.results.flatMap((result) => result.hunks);
+  const failedCount = hunks.filter((hunk) => hunk.status === 'failed').length;
+
+  const handleOpen = (result: PatchFileResult) => {
+    if (!result.filePath || result.status === 'deleted') return;
+    const marks = preview.lineMarks.get(result.filePath);
+    const firstLine = marks ? Math.min(...marks.added, ...marks.removed.keys()) : undefined;
+    openFile(result.filePath, firstLine && Number.isFinite(firstLine) ? { lineNumber: firstLine } : {});
+  };
+
+  return (
+    <div className="flex-none max-h-56 flex flex-col border-t border-border-light bg-bg-elevated text-xs">
+      {/* Header */}
+      <div className="flex items-center gap-3 px-3 py-1.5 border-b border-border-light">
+        <IconPatch className="w-3.5 h-3.5 text-warm-300" />
+        <span className="font-medium uppercase tracking-wide text-text-secondary">Patch Preview</span>
+        <span className="text-text-primary truncate">{preview.name}</span>
+        <span className="text-text-muted">
+          {hunks.length - failedCount}/{hunks.length} hunks applied
+        </span>
+        {failedCount > 0 && <span className="text-red-400">{failedCount} failed</span>}
+
+        <button
+          type="button"
+          onClick={accept}
+          className="ml-auto flex items-center gap-1 px-2 py-0.5 rounded border border-emerald-500/40 text-emerald-300 hover:bg-emerald-500/10"
+          title="Keep the patched files"
+        >
+          <IconAccept className="w-3.5 h-3.5" /> Accept
+        </button>
+        <button
+          type="button"
+          onClick={discard}
+          className="flex items-center gap-1 px-2 py-0.5 rounded border border-border-light text-text-secondary hover:bg-white/10"
+          title="Restore the files changed by this patch"
+        >
+          <IconDiscard className="w-3.5 h-3.5" /> Discard
+        </button>
+      </div>
+
+      {/* Files */}
+      <div className="flex-1 overflow-y-auto py-1">
+        {preview.results.map((result) => (
+          <div key={`${result.patchPath}:${result.status}`}>
+            <button
+              type="button"
+              onClick={() => handleOpen(result)}
+              className="w-full flex items-center gap-2 px-3 py-0.5 text-left hover:bg-white/5"
+            >
+              <span className={`font-mono ${STATUS_LETTERS[result.status].className}`}>
+                {STATUS_LETTERS[result.status].letter}
+              </span>
+              <span className="font-medium text-text-primary">{result.patchPath.split('/').pop()}</span>
+              <span className="text-text-muted truncate">{result.filePath ?? result.patchPath}</span>
+              <span className="ml-auto shrink-0 text-text-muted">
+                {result.hunks.filter((hunk) => hunk.status === 'applied').length}/{result.hunks.length}
+              </span>
+            </button>
+
+            {result.hunks.map((hunk, index) =>
+              hunk.status === 'failed' ? (
+                <div key={`${hunk.header}:${index}`} className="flex items-center gap-2 pl-8 pr-3 py-0.5">
+                  <IconFailed className="w-3.5 h-3.5 text-red-400 shrink-0" />
+                  <span className="font-mono text-text-secondary truncate">{hunk.header}</span>
+                  <span className="ml-auto shrink-0 text-red-400">{hunk.message}</span>
+                </div>
+              ) : hunk.offset !== 0 ? (
+                <div
+                  key={`${hunk.header}:${index}`}
+                  className="flex items-center gap-2 pl-8 pr-3 py-0.5 text-text-muted"
+                >
+                  <span className="font-mono truncate">{hunk.header}</span>
+                  <span className="ml-auto shrink-0">
+                    applied with offset {hunk.offset > 0 ? '+' : ''}
+                    {hunk.offset}
+                  </span>
+                </div>
+              ) : null
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
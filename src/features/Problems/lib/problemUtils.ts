@@ -0,0 +1,74 @@
+/**
+ * Problems - diagnostics 집계 / 필터
+ */
+
+import { type DiagnosticInfo, getDiagnostics } from '@/entities/SourceFileNode/lib/metadata';
+import type { SourceFileNode } from '@/entities/SourceFileNode/model/types';
+
+export interface ProblemItem extends DiagnosticInfo {
+  filePath: string;
+}
+
+export interface ProblemCounts {
+  errors: number;
+  warnings: number;
+  infos: number;
+}
+
+/**
+ * 파일 노드들의 diagnostics → filePath별 목록 (diagnostic이 있는 파일만)
+ */
+export function collectDiagnosticsByFile(nodes: SourceFileNode[]): Map<string, DiagnosticInfo[]> {
+  const byFile = new Map<string, DiagnosticInfo[]>();
+  nodes.forEach((node) => {
+    const diagnostics = getDiagnostics(node);
+    if (diagnostics.length > 0) byFile.set(node.filePath, diagnostics);
+  });
+  return byFile;
+}
+
+/**
+ * 폴더 필터 적용 (folder가 null이면 전체)
+ */
+export function filterProblemsByFolder(problems: ProblemItem[], folder: string | null): ProblemItem[] {
+  if (!folder) return problems;
+  const prefix = folder.endsWith('/') ? folder : `${folder}/`;
+  return problems.filter((problem) => problem.filePath.startsWith(prefix));
+}
+
+export function countProblems(problems: ProblemItem[]): ProblemCounts {
+  const counts: ProblemCounts = { errors: 0, warnings: 0, infos: 0 };
+  problems.forEach((problem) => {
+    if (problem.severity === 'error') counts.errors++;
+    else if (problem.severity === 'warning') counts.warnings++;
+    else counts.infos++;
+  });
+  return counts;
+}
+
+/**
+ * 문제가 있는 파일들의 상위 폴더 목록 (필터 선택지, 정렬됨)
+ * - src/a/b.ts → 'src', 'src/a'
+ */
+export function getProblemFolders(problems: ProblemItem[]): string[] {
+  const folders = new Set<string>();
+  problems.forEach((problem) => {
+    const parts = problem.filePath.split('/').slice(0, -1);
+    parts.forEach((_, index) => {
+      folders.add(parts.slice(0, index + 1).join('/'));
+    });
+  });
+  return Array.from(folders).sort();
+}
+
+/**
+ * 라인에 걸친 diagnostic의 컬럼 범위 (여러 줄 diagnostic은 라인 단위로 자름)
+ * - 길이 0 diagnostic (Expression expected 등)은 1글자로 표시
+ */
+export function getLineRange(diagnostic: DiagnosticInfo, lineNum: number): { start: number; end: number } | null {
+  if (lineNum < diagnostic.line || lineNum > diagnostic.endLine) return null;
+
+  const start = lineNum === diagnostic.line ? diagnostic.column : 0;
+  const end = lineNum === diagnostic.endLine ? diagnostic.endColumn : Number.POSITIVE_INFINITY;
+  return { start, end: Math.max(end, start + 1) };
+}
@@ -0,0 +1,45 @@
+/**
+ * useLineDiagnostics Hook
+ * 코드 라인의 diagnostics + segment별 squiggle 대상 계산
+ */
+
+import { useAtomValue } from 'jotai';
+import { useMemo } from 'react';
+import { filesAtom } from '@/entities/AppView/model/atoms';
+import type { CodeLine } from '@/entities/CodeLine/model/types';
+import type { DiagnosticInfo } from '@/entities/SourceFileNode/lib/metadata';
+import { diagnosticsByFileAtom } from '../model/atoms';
+import { getLineRange } from './problemUtils';
+
+const EMPTY: DiagnosticInfo[] = [];
+
+export function useLineDiagnostics(filePath: string, line: CodeLine) {
+  const diagnosticsByFile = useAtomValue(diagnosticsByFileAtom);
+  const files = useAtomValue(filesAtom);
+  const fileDiagnostics = diagnosticsByFile.get(filePath) ?? EMPTY;
+
+  return useMemo(() => {
+    const lineDiagnostics = fileDiagnostics.filter((diagnostic) => getLineRange(diagnostic, line.num));
+    if (lineDiagnostics.length === 0) {
+      return { lineDiagnostics, segmentDiagnostics: [] as DiagnosticInfo[][] };
+    }
+
+    // Symbol 노드 snippet의 첫 줄은 선언 시작 컬럼부터 → 파일 라인 끝 기준으로 segment 컬럼 보정
+    const lineText = files[filePath]?.split('\n')[line.num - 1] ?? '';
+    const segmentText = line.segments.map((segment) => segment.text).join('');
+    let column = lineText.endsWith(segmentText) ? lineText.length - segmentText.length : 0;
+
+    const segmentDiagnostics = line.segments.map((segment) => {
+      const start = column;
+      const end = column + segment.text.length;
+      column = end;
+
+      return lineDiagnostics.filter((diagnostic) => {
+        const range = getLineRange(diagnostic, line.num);
+        return !!range && range.start < end && start < range.end;
+      });
+    });
+
+    return { lineDiagnostics, segmentDiagnostics };
+  }, [fileDiagnostics, files, filePath, line]);
+}
@@ -0,0 +1,44 @@
+/**
+ * Problems - State Management
+ * TypeScript diagnostics (Worker가 파일 노드 View로 계산) 조회 + 패널 상태
+ */
+
+import { atom } from 'jotai';
+import { graphDataAtom } from '@/entities/AppView/model/atoms';
+import { collectDiagnosticsByFile, countProblems, filterProblemsByFolder, type ProblemItem } from '../lib/problemUtils';
+
+// Problems 패널 열림 여부
+export const problemsPanelOpenAtom = atom<boolean>(false);
+
+// 폴더 필터 (null: 전체)
+export const problemsFolderFilterAtom = atom(null as string | null);
+
+// filePath → diagnostics (squiggle 표시용)
+export const diagnosticsByFileAtom = atom((get) => {
+  const graphData = get(graphDataAtom);
+  return collectDiagnosticsByFile(graphData?.nodes ?? []);
+});
+
+// 전체 problems (파일 경로 → 라인 순)
+export const problemsAtom = atom((get) => {
+  const problems: ProblemItem[] = [];
+  const byFile = get(diagnosticsByFileAtom);
+
+  Array.from(byFile.keys())
+    .sort()
+    .forEach((filePath) => {
+      byFile.get(filePath)?.forEach((diagnostic) => {
+        problems.push({ ...diagnostic, filePath });
+      });
+    });
+
+  return problems;
+});
+
+// 폴더 필터 적용된 problems
+export const filteredProblemsAtom = atom((get) =>
+  filterProblemsByFolder(get(problemsAtom), get(problemsFolderFilterAtom))
+);
+
+// 전체 개수 (Status Bar)
+export const problemCountsAtom = atom((get) => countProblems(get(problemsAtom)));
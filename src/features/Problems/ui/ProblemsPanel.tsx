@@ -0,0 +1,111 @@
+/**
+ * ProblemsPanel Component
+ * TypeScript syntactic / semantic diagnostics 목록 (VSCode Problems 패널)
+ *
+ * - 파일별 그룹, severity / 메시지 / TS 코드 / 위치
+ * - 폴더 필터
+ * - 항목 클릭: 해당 파일/라인 열기
+ */
+
+import { useAtom, useAtomValue, useSetAtom } from 'jotai';
+import { X as IconClose, XCircle as IconError, Info as IconInfo, AlertTriangle as IconWarning } from 'lucide-react';
+import type React from 'react';
+import { useMemo } from 'react';
+import { useOpenFile } from '@/features/File/OpenFiles/lib/useOpenFile.ts';
+import { getProblemFolders, type ProblemItem } from '../lib/problemUtils';
+import { filteredProblemsAtom, problemsAtom, problemsFolderFilterAtom, problemsPanelOpenAtom } from '../model/atoms';
+
+const SEVERITY_ICONS: Record<ProblemItem['severity'], React.ReactNode> = {
+  error: <IconError className="w-3.5 h-3.5 text-red-400 shrink-0" />,
+  warning: <IconWarning className="w-3.5 h-3.5 text-amber-400 shrink-0" />,
+  info: <IconInfo className="w-3.5 h-3.5 text-sky-400 shrink-0" />,
+};
+
+export const ProblemsPanel: React.FC = () => {
+  const isOpen = useAtomValue(problemsPanelOpenAtom);
+  const setIsOpen = useSetAtom(problemsPanelOpenAtom);
+  const problems = useAtomValue(problemsAtom);
+  const filteredProblems = useAtomValue(filteredProblemsAtom);
+  const [folderFilter, setFolderFilter] = useAtom(problemsFolderFilterAtom);
+  const { openFile } = useOpenFile();
+
+  const folders = useMemo(() => getProblemFolders(problems), [problems]);
+
+  // 파일별 그룹 (problemsAtom이 이미 파일 → 라인 순 정렬)
+  const problemsByFile = useMemo(() => {
+    const groups = new Map<string, ProblemItem[]>();
+    filteredProblems.forEach((problem) => {
+      const group = groups.get(problem.filePath) ?? [];
+      group.push(problem);
+      groups.set(problem.filePath, group);
+    });
+    return groups;
+  }, [filteredProblems]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="flex-none h-56 flex flex-col border-t border-border-light bg-bg-elevated text-xs">
+      {/* Header */}
+      <div className="flex items-center gap-3 px-3 py-1.5 border-b border-border-light">
+        <span className="font-medium uppercase tracking-wide text-text-secondary">Problems</span>
+        <span className="text-text-muted">{filteredProblems.length}</span>
+
+        <select
+          value={folderFilter ?? ''}
+          onChange={(e) => setFolderFilter(e.target.value || null)}
+          className="ml-auto bg-bg-deep border border-border-light rounded px-1.5 py-0.5 text-text-secondary"
+          title="Filter by folder"
+        >
+          <option value="">All folders</option>
+          {folders.map((folder) => (
+            <option key={folder} value={folder}>
+              {folder}
+            </option>
+          ))}
+        </select>
+
+        <button
+          type="button"
+          onClick={() => setIsOpen(false)}
+          className="p-1 rounded text-text-tertiary hover:bg-white/10 hover:text-text-primary"
+          title="Close"
+        >
+          <IconClose className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {/* List */}
+      <div className="flex-1 overflow-y-auto py-1">
+        {filteredProblems.length === 0 && (
+          <div className="px-3 py-2 text-text-muted">No problems have been detected in the workspace.</div>
+        )}
+
+        {Array.from(problemsByFile.entries()).map(([filePath, fileProblems]) => (
+          <div key={filePath}>
+            <div className="flex items-center gap-2 px-3 py-0.5 text-text-primary">
+              <span className="font-medium">{filePath.split('/').pop()}</span>
+              <span className="text-text-muted truncate">{filePath}</span>
+              <span className="ml-auto text-text-muted">{fileProblems.length}</span>
+            </div>
+
+            {fileProblems.map((problem, index) => (
+              <button
+                key={`${problem.line}:${problem.column}:${problem.code}:${index}`}
+                type="button"
+                onClick={() => openFile(filePath, { lineNumber: problem.line })}
+                className="w-full flex items-start gap-2 pl-6 pr-3 py-0.5 text-left hover:bg-white/5"
+              >
+                {SEVERITY_ICONS[problem.severity]}
+                <span className="text-text-secondary whitespace-pre-wrap break-words">{problem.message}</span>
+                <span className="ml-auto shrink-0 text-text-muted font-mono">
+                  TS{problem.code} [{problem.line}, {problem.column + 1}]
+                </span>
+              </button>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+/**
+ * Third-party Typings 업로드 버튼
+ * - Folder: node_modules/@types, 패키지 폴더 (jotai, @acme/sdk 등)의 .d.ts + package.json
+ * - Bundle: 미리 만든 typings bundle (.json, 경로 → 내용)
+ * - 업로드한 typings는 기존 typings에 병합 (패키지별로 여러 번 업로드 가능)
+ */
+
+import { useAtom } from 'jotai';
+import { FileType as IconFileType, PackagePlus as IconPackagePlus, PackageX as IconPackageX } from 'lucide-react';
+import type React from 'react';
+import { useRef } from 'react';
+import { typingsAtom } from '@/entities/AppView/model/atoms';
+import { collectTypingsFromUpload, isTypingsFile, parseTypingsBundle } from '@/shared/tsParser/utils/typings';
+
+const BUTTON_CLASS =
+  'relative flex h-[var(--limn-activity-bar-icon)] w-[var(--limn-activity-bar-icon)] items-center justify-center rounded-md border border-transparent bg-transparent hover:bg-white/5 hover:border-border-light transition-all duration-normal';
+
+const TypingsButtons: React.FC = () => {
+  const [typings, setTypings] = useAtom(typingsAtom);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+  const typingsCount = Object.keys(typings).length;
+
+  const mergeTypings = (uploaded: Record<string, string>, source: string) => {
+    const count = Object.keys(uploaded).length;
+    if (count === 0) {
+      alert(`No .d.ts files found in ${source}.`);
+      return;
+    }
+    setTypings((prev) => ({ ...prev, ...uploaded }));
+    console.log(`[Typings] Added ${count} typings files from ${source}`);
+  };
+
+  const handleFolderSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const fileList = e.target.files;
+    if (!fileList || fileList.length === 0) return;
+
+    const uploadedFiles: Record<string, string> = {};
+
+    for (let i = 0; i < fileList.length; i++) {
+      const file = fileList[i];
+      const path = file.webkitRelativePath || file.name;
+      if (!isTypingsFile(path)) continue;
+
+      try {
+        uploadedFiles[path] = await file.text();
+      } catch (err) {
+        console.error(`Error reading typings file ${path}:`, err);
+      }
+    }
+
+    e.target.value = ''; // 같은 폴더 다시 선택 가능하도록
+    mergeTypings(collectTypingsFromUpload(uploadedFiles), 'the selected folder');
+  };
+
+  const handleBundleSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      mergeTypings(parseTypingsBundle(await file.text()), file.name);
+    } catch (err) {
+      console.error(`Error importing typings bundle ${file.name}:`, err);
+      alert(err instanceof Error ? err.message : 'Failed to import typings bundle.');
+    }
+  };
+
+  const handleClear = () => {
+    if (confirm(`Remove ${typingsCount} uploaded typings files?`)) {
+      setTypings({});
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => folderInputRef.current?.click()}
+        className={BUTTON_CLASS}
+        title={typingsCount > 0 ? `Upload Typings Folder (${typingsCount} files loaded)` : 'Upload Typings Folder'}
+        aria-label="Upload Typings Folder"
+      >
+        <IconPackagePlus size={18} strokeWidth={1.5} className="text-text-muted transition-colors" />
+      </button>
+      <button
+        type="button"
+        onClick={() => bundleInputRef.current?.click()}
+        className={BUTTON_CLASS}
+        title="Import Typings Bundle"
+        aria-label="Import Typings Bundle"
+      >
+        <IconFileType size={18} strokeWidth={1.5} className="text-text-muted transition-colors" />
+      </button>
+      {typingsCount > 0 && (
+        <button
+          type="button"
+          onClick={handleClear}
+          className={BUTTON_CLASS}
+          title="Clear Typings"
+          aria-label="Clear Typings"
+        >
+          <IconPackageX size={18} strokeWidth={1.5} className="text-text-muted transition-colors" />
+        </button>
+      )}
+      <input
+        ref={folderInputRef}
+        type="file"
+        // @ts-expect-error - webkitdirectory is not in standard HTML types
+        webkitdirectory=""
+        multiple
+        className="hidden"
+        onChange={handleFolderSelect}
+      />
+      <input ref={bundleInputRef} type="file" accept=".json" className="hidden" onChange={handleBundleSelect} />
+    </>
+  );
+};
+
+export default TypingsButtons;
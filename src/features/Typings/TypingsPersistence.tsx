@@ -0,0 +1,44 @@
+/**
+ * TypingsPersistence - Third-party typings persistence manager
+ *
+ * Responsibilities:
+ * 1. Restore uploaded typings from IndexedDB on app start
+ * 2. Register typings for the main-thread Language Service (CodeViewer hover / definition)
+ * 3. Save typings to IndexedDB when they change
+ */
+
+import { useAtom } from 'jotai';
+import { useEffect, useRef } from 'react';
+import { typingsAtom } from '@/entities/AppView/model/atoms';
+import { loadTypings, saveTypings } from '@/shared/storage/indexedDB';
+import { setTypingsFiles } from '@/shared/tsParser/utils/typings';
+
+export const TypingsPersistence = () => {
+  const [typings, setTypings] = useAtom(typingsAtom);
+  const restoredRef = useRef(false);
+
+  // Restore typings on app start
+  useEffect(() => {
+    loadTypings().then((stored) => {
+      restoredRef.current = true;
+      if (stored && Object.keys(stored).length > 0) {
+        console.log(`[Typings] Restoring ${Object.keys(stored).length} typings files`);
+      }
+      // 복원 전에 업로드된 typings는 유지 (같은 경로는 새 업로드 우선) + 새 객체로 저장 effect 실행
+      setTypings((current) => ({ ...stored, ...current }));
+    });
+  }, [setTypings]);
+
+  // Register + save typings when they change (복원 전의 빈 상태로 덮어쓰지 않도록)
+  useEffect(() => {
+    setTypingsFiles(typings);
+    if (!restoredRef.current) return;
+
+    saveTypings(typings).catch((err) => {
+      console.error('[Typings] Failed to save typings:', err);
+    });
+  }, [typings]);
+
+  // This component doesn't render anything
+  return null;
+};
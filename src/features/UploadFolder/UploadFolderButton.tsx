@@ -0,0 +1,113 @@
+/**
+ * 프로젝트 폴더 업로드 버튼
+ * - 기본 ignore 목록 / .gitignore / 크기 / 개수 제한으로 대상 선별 → 미리보기 확인 후 import
+ * - 파일 내용은 스트리밍으로 읽으며 parseProgressAtom에 진행률 표시
+ * - 최상위 .git 디렉터리는 필터와 별개로 분리해 Git 패널 저장소로 등록
+ */
+
+import { useSetAtom } from 'jotai';
+import { Upload as IconUpload } from 'lucide-react';
+import type React from 'react';
+import { useRef, useState } from 'react';
+import { filesAtom, parseProgressAtom } from '@/entities/AppView/model/atoms';
+import { activeTabAtom, openedTabsAtom } from '@/features/File/OpenFiles/model/atoms';
+import { splitGitDirectory } from '@/features/Git/lib/gitUpload';
+import { gitRepositoryAtom, type UploadedGitRepository } from '@/features/Git/model/atoms';
+import { pickEntryFile } from '@/shared/fileSystem/projectFiles';
+import {
+  type FileCandidate,
+  readGitignoreFiles,
+  readPlannedFiles,
+  toFileCandidates,
+  type UploadPlan,
+} from '@/shared/fileSystem/uploadFilter';
+import { UploadPreviewDialog } from './ui/UploadPreviewDialog';
+
+const UploadFolderButton: React.FC = () => {
+  const setFiles = useSetAtom(filesAtom);
+  const setParseProgress = useSetAtom(parseProgressAtom);
+  const setOpenedTabs = useSetAtom(openedTabsAtom);
+  const setActiveTab = useSetAtom(activeTabAtom);
+  const setGitRepository = useSetAtom(gitRepositoryAtom);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingFiles, setPendingFiles] = useState<FileCandidate[] | null>(null);
+  const [gitignoreFiles, setGitignoreFiles] = useState<Record<string, string>>({});
+  const [pendingGit, setPendingGit] = useState<Omit<UploadedGitRepository, 'uploadedPaths'> | null>(null);
+
+  const handleFolderSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const fileList = e.target.files;
+    if (!fileList || fileList.length === 0) return;
+
+    const { rootFolder, gitFiles, candidates } = splitGitDirectory(toFileCandidates(Array.from<File>(fileList)));
+    e.target.value = ''; // 같은 폴더 다시 선택 가능하도록
+
+    setPendingGit(rootFolder ? { rootFolder, files: gitFiles } : null);
+
+    setGitignoreFiles(await readGitignoreFiles(candidates));
+    setPendingFiles(candidates);
+  };
+
+  const handleConfirm = async (plan: UploadPlan<FileCandidate>) => {
+    setPendingFiles(null);
+
+    const uploadedFiles = await readPlannedFiles(plan.included, (current, total, currentFile) => {
+      setParseProgress({ isLoading: true, current, total, currentFile, phase: 'reading' });
+    });
+    setParseProgress({ isLoading: false, current: 0, total: 0, currentFile: null });
+
+    if (Object.keys(uploadedFiles).length > 0) {
+      setFiles(uploadedFiles);
+
+      // .git이 있으면 작업 트리 경로 (필터로 제외된 파일 포함 - untracked 오탐 방지)와 함께 등록
+      setGitRepository(
+        pendingGit
+          ? {
+              ...pendingGit,
+              uploadedPaths: [...plan.included, ...plan.skipped].map((file) =>
+                file.path.slice(pendingGit.rootFolder.length + 1)
+              ),
+            }
+          : null
+      );
+
+      // Open the first file in IDE mode
+      const entry = pickEntryFile(Object.keys(uploadedFiles));
+      if (entry) {
+        setOpenedTabs([entry]);
+        setActiveTab(entry);
+      }
+    } else {
+      alert('No .vue, .ts, .js, .jsx, or .tsx files found in the selected folder.');
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="relative flex h-[var(--limn-activity-bar-icon)] w-[var(--limn-activity-bar-icon)] items-center justify-center rounded-md border border-transparent bg-transparent hover:bg-white/5 hover:border-border-light transition-all duration-normal"
+        title="Upload Project Folder"
+        aria-label="Upload Project Folder"
+      >
+        <IconUpload size={18} strokeWidth={1.5} className="text-text-muted transition-colors" />
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        // @ts-expect-error - webkitdirectory is not in standard HTML types
+        webkitdirectory=""
+        multiple
+        className="hidden"
+        onChange={handleFolderSelect}
+      />
+      <UploadPreviewDialog
+        candidates={pendingFiles}
+        gitignoreFiles={gitignoreFiles}
+        onCancel={() => setPendingFiles(null)}
+        onConfirm={handleConfirm}
+      />
+    </>
+  );
+};
+
+export default UploadFolderButton;
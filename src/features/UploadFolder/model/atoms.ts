@@ -0,0 +1,12 @@
+/**
+ * Upload Folder - State Management
+ */
+
+import { atomWithStorage } from 'jotai/utils';
+import { DEFAULT_UPLOAD_FILTER_OPTIONS, type UploadFilterOptions } from '@/shared/fileSystem/uploadFilter';
+
+// 업로드 필터 설정 (기본 ignore 목록, .gitignore 사용, 크기 / 개수 제한) - localStorage 저장
+export const uploadFilterOptionsAtom = atomWithStorage<UploadFilterOptions>(
+  'uploadFilterOptions',
+  DEFAULT_UPLOAD_FILTER_OPTIONS
+);
@@ -0,0 +1,181 @@
+/**
+ * UploadPreviewDialog
+ * 폴더 / zip 업로드 전 import 대상 / 제외 파일 미리보기 + 필터 설정 (기본 ignore 목록, .gitignore, 크기 / 개수 제한)
+ */
+
+import { useAtom } from 'jotai';
+import { FolderInput, X } from 'lucide-react';
+import { useMemo } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Dialog } from '@/components/ui/Dialog';
+import { ScrollArea } from '@/components/ui/ScrollArea';
+import {
+  groupSkippedFiles,
+  planUpload,
+  type SkipReason,
+  type UploadCandidate,
+  type UploadPlan,
+} from '@/shared/fileSystem/uploadFilter';
+import { uploadFilterOptionsAtom } from '../model/atoms';
+
+const SKIP_REASON_LABELS: Record<SkipReason, string> = {
+  ignored: 'ignore list',
+  gitignore: '.gitignore',
+  'too-large': 'too large',
+  limit: 'file limit',
+};
+
+const MAX_LISTED_FILES = 200;
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export interface UploadPreviewDialogProps<T extends UploadCandidate> {
+  title?: string;
+  candidates: T[] | null; // null: 닫힘
+  gitignoreFiles: Record<string, string>;
+  onCancel: () => void;
+  onConfirm: (plan: UploadPlan<T>) => void;
+}
+
+export function UploadPreviewDialog<T extends UploadCandidate>({
+  title = 'Import Folder',
+  candidates,
+  gitignoreFiles,
+  onCancel,
+  onConfirm,
+}: UploadPreviewDialogProps<T>) {
+  const [options, setOptions] = useAtom(uploadFilterOptionsAtom);
+
+  // 설정이 바뀌면 즉시 다시 계산 (파일 내용은 읽지 않음)
+  const plan = useMemo(
+    () => (candidates ? planUpload(candidates, gitignoreFiles, options) : null),
+    [candidates, gitignoreFiles, options]
+  );
+  const skippedGroups = useMemo(() => (plan ? groupSkippedFiles(plan.skipped) : []), [plan]);
+
+  if (!plan) return null;
+
+  const gitignoreCount = Object.keys(gitignoreFiles).length;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onCancel()}>
+      <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+        <div className="bg-bg-elevated border border-border-DEFAULT rounded-lg shadow-2xl w-full max-w-3xl max-h-[80vh] flex flex-col text-xs">
+          {/* Header */}
+          <div className="flex items-center justify-between p-4 border-b border-border-DEFAULT">
+            <div className="flex items-center gap-2">
+              <FolderInput size={18} className="text-warm-300" />
+              <h2 className="text-base font-semibold text-text-primary">{title}</h2>
+            </div>
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={onCancel}>
+              <X size={16} />
+            </Button>
+          </div>
+
+          {/* Stats */}
+          <div className="px-4 py-3 border-b border-border-DEFAULT bg-bg-surface flex items-center gap-4 text-text-muted">
+            <span>
+              Import: <span className="text-warm-300 font-medium">{plan.included.length}</span> files (
+              {formatSize(plan.totalSize)})
+            </span>
+            <span>
+              Skipped: <span className="text-text-secondary font-medium">{plan.skipped.length}</span>
+            </span>
+            <span>Other file types: {plan.unsupportedCount}</span>
+          </div>
+
+          {/* Filter Options */}
+          <div className="px-4 py-3 border-b border-border-DEFAULT grid grid-cols-[1fr_auto] gap-4">
+            <label className="flex flex-col gap-1 text-text-secondary">
+              Ignore patterns (.gitignore syntax, one per line)
+              <textarea
+                value={options.ignorePatterns.join('\n')}
+                onChange={(e) =>
+                  setOptions({ ...options, ignorePatterns: e.target.value.split('\n').map((line) => line.trim()) })
+                }
+                rows={4}
+                className="font-mono bg-bg-deep border border-border-light rounded px-2 py-1 text-text-primary resize-none"
+              />
+            </label>
+            <div className="flex flex-col gap-2 text-text-secondary">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={options.useGitignore}
+                  onChange={(e) => setOptions({ ...options, useGitignore: e.target.checked })}
+                />
+                Honour .gitignore ({gitignoreCount} found)
+              </label>
+              <label className="flex items-center justify-between gap-2">
+                Max file size (KB)
+                <input
+                  type="number"
+                  min={1}
+                  value={options.maxFileSizeKB}
+                  onChange={(e) => setOptions({ ...options, maxFileSizeKB: Math.max(1, Number(e.target.value)) })}
+                  className="w-20 bg-bg-deep border border-border-light rounded px-1.5 py-0.5 text-text-primary"
+                />
+              </label>
+              <label className="flex items-center justify-between gap-2">
+                Max file count
+                <input
+                  type="number"
+                  min={1}
+                  value={options.maxFileCount}
+                  onChange={(e) => setOptions({ ...options, maxFileCount: Math.max(1, Number(e.target.value)) })}
+                  className="w-20 bg-bg-deep border border-border-light rounded px-1.5 py-0.5 text-text-primary"
+                />
+              </label>
+            </div>
+          </div>
+
+          {/* Preview */}
+          <ScrollArea className="flex-1 min-h-0">
+            <div className="grid grid-cols-2 gap-4 p-4">
+              <div>
+                <div className="mb-1 font-medium text-text-secondary">Will be imported</div>
+                {plan.included.slice(0, MAX_LISTED_FILES).map((candidate) => (
+                  <div key={candidate.path} className="truncate font-mono text-text-muted">
+                    {candidate.path}
+                  </div>
+                ))}
+                {plan.included.length > MAX_LISTED_FILES && (
+                  <div className="text-text-tertiary">…and {plan.included.length - MAX_LISTED_FILES} more</div>
+                )}
+              </div>
+              <div>
+                <div className="mb-1 font-medium text-text-secondary">Skipped</div>
+                {skippedGroups.slice(0, MAX_LISTED_FILES).map((group) => (
+                  <div key={`${group.reason}:${group.path}`} className="flex gap-2 font-mono text-text-muted">
+                    <span className="truncate">{group.path}</span>
+                    <span className="ml-auto shrink-0 text-text-tertiary">
+                      {group.count > 1 ? `${group.count} files · ` : ''}
+                      {SKIP_REASON_LABELS[group.reason]}
+                    </span>
+                  </div>
+                ))}
+                {skippedGroups.length > MAX_LISTED_FILES && (
+                  <div className="text-text-tertiary">…and {skippedGroups.length - MAX_LISTED_FILES} more</div>
+                )}
+              </div>
+            </div>
+          </ScrollArea>
+
+          {/* Footer Actions */}
+          <div className="flex items-center justify-end gap-2 p-4 border-t border-border-DEFAULT">
+            <Button variant="ghost" size="sm" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={() => onConfirm(plan)} disabled={plan.included.length === 0}>
+              Import {plan.included.length} files
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Dialog>
+  );
+}
@@ -0,0 +1,229 @@
+/**
+ * Zip Import / Export 버튼
+ * - Import: .zip 선택 또는 창에 drop → Worker에서 항목 목록 → 업로드 필터 미리보기 → 선택된 파일만 압축 해제
+ *   zip에 .vibe-workspace.json이 있으면 탭 / 캔버스 상태도 복원
+ * - Export: 현재 filesAtom + workspace 상태 (열린 탭, 캔버스 카드 / 위치 / 줌)를 zip으로 저장
+ */
+
+import { useAtom, useAtomValue, useSetAtom } from 'jotai';
+import { FileArchive as IconFileArchive, FolderArchive as IconFolderArchive } from 'lucide-react';
+import type React from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { filesAtom, parseProgressAtom, viewModeAtom } from '@/entities/AppView/model/atoms';
+import { useOpenFile } from '@/features/File/OpenFiles/lib/useOpenFile';
+import { activeTabAtom, openedTabsAtom } from '@/features/File/OpenFiles/model/atoms';
+import { gitRepositoryAtom } from '@/features/Git/model/atoms';
+import { UploadPreviewDialog } from '@/features/UploadFolder/ui/UploadPreviewDialog';
+import { pickEntryFile } from '@/shared/fileSystem/projectFiles';
+import type { UploadCandidate, UploadPlan } from '@/shared/fileSystem/uploadFilter';
+import type { ZipListing } from '@/shared/zip/types';
+import { createZipWorkerClient, type ZipWorkerClient } from '@/shared/zip/zipWorkerClient';
+import {
+  cardPositionsAtom,
+  transformAtom,
+  visibleNodeIdsAtom,
+} from '@/widgets/MainContents/PipelineCanvas/model/atoms';
+import {
+  getCommonRootFolder,
+  getWorkspaceFilePath,
+  parseWorkspaceSnapshot,
+  type WorkspaceSnapshot,
+} from './lib/workspaceSnapshot';
+
+const BUTTON_CLASS =
+  'relative flex h-[var(--limn-activity-bar-icon)] w-[var(--limn-activity-bar-icon)] items-center justify-center rounded-md border border-transparent bg-transparent hover:bg-white/5 hover:border-border-light transition-all duration-normal';
+
+const isZipFile = (file: File) => file.name.toLowerCase().endsWith('.zip') || file.type === 'application/zip';
+
+const ZipArchiveButtons: React.FC = () => {
+  const [files, setFiles] = useAtom(filesAtom);
+  const setParseProgress = useSetAtom(parseProgressAtom);
+  const setGitRepository = useSetAtom(gitRepositoryAtom);
+  const [viewMode, setViewMode] = useAtom(viewModeAtom);
+  const [openedTabs, setOpenedTabs] = useAtom(openedTabsAtom);
+  const activeTab = useAtomValue(activeTabAtom);
+  const [visibleNodeIds, setVisibleNodeIds] = useAtom(visibleNodeIdsAtom);
+  const [cardPositions, setCardPositions] = useAtom(cardPositionsAtom);
+  const [transform, setTransform] = useAtom(transformAtom);
+  const { openFile } = useOpenFile();
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const clientRef = useRef<ZipWorkerClient | null>(null);
+  const [listing, setListing] = useState<(ZipListing & { name: string }) | null>(null);
+
+  const disposeClient = useCallback(() => {
+    clientRef.current?.dispose();
+    clientRef.current = null;
+  }, []);
+
+  useEffect(() => disposeClient, [disposeClient]);
+
+  // 1. 항목 목록 읽기 → 미리보기
+  const handleZipFile = useCallback(
+    async (file: File) => {
+      disposeClient();
+      const client = createZipWorkerClient();
+      clientRef.current = client;
+
+      try {
+        const result = await client.list(await file.arrayBuffer());
+        setListing({ ...result, name: file.name });
+      } catch (err) {
+        console.error(`Error reading zip ${file.name}:`, err);
+        alert(err instanceof Error ? err.message : 'Failed to read zip archive.');
+        disposeClient();
+      }
+    },
+    [disposeClient]
+  );
+
+  const restoreWorkspace = (snapshot: WorkspaceSnapshot, importedFiles: Record<string, string>) => {
+    setViewMode(snapshot.viewMode);
+    setVisibleNodeIds(new Set(snapshot.visibleNodeIds));
+    setCardPositions(new Map(snapshot.cardPositions));
+    setTransform(snapshot.transform);
+
+    const tabs = snapshot.openedTabs.filter((tab) => tab in importedFiles);
+    setOpenedTabs(tabs);
+    const tabToActivate = snapshot.activeTab && tabs.includes(snapshot.activeTab) ? snapshot.activeTab : tabs[0];
+    if (tabToActivate) openFile(tabToActivate);
+  };
+
+  // 2. 확정된 파일만 압축 해제
+  const handleConfirm = async (plan: UploadPlan<UploadCandidate>) => {
+    const client = clientRef.current;
+    const workspaceFile = listing?.workspaceFile ?? null;
+    setListing(null);
+    if (!client) return;
+
+    try {
+      const importedFiles = await client.extract(
+        plan.included.map((candidate) => candidate.path),
+        (current, total, currentFile) => {
+          setParseProgress({ isLoading: true, current, total, currentFile, phase: 'reading' });
+        }
+      );
+      setParseProgress({ isLoading: false, current: 0, total: 0, currentFile: null });
+
+      if (Object.keys(importedFiles).length === 0) {
+        alert('No .vue, .ts, .js, .jsx, or .tsx files found in the zip archive.');
+        return;
+      }
+      setFiles(importedFiles);
+      setGitRepository(null);
+
+      const snapshot = workspaceFile ? parseWorkspaceSnapshot(workspaceFile) : null;
+      if (snapshot) {
+        restoreWorkspace(snapshot, importedFiles);
+      } else {
+        const entry = pickEntryFile(Object.keys(importedFiles));
+        setOpenedTabs([]);
+        if (entry) openFile(entry);
+      }
+    } catch (err) {
+      console.error('Error extracting zip:', err);
+      setParseProgress({ isLoading: false, current: 0, total: 0, currentFile: null });
+      alert(err instanceof Error ? err.message : 'Failed to extract zip archive.');
+    } finally {
+      disposeClient();
+    }
+  };
+
+  const handleCancel = () => {
+    setListing(null);
+    disposeClient();
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // 같은 파일 다시 선택 가능하도록
+    if (file) handleZipFile(file);
+  };
+
+  // 창에 .zip drop
+  useEffect(() => {
+    const hasFiles = (e: DragEvent) => e.dataTransfer?.types.includes('Files') ?? false;
+    const handleDragOver = (e: DragEvent) => {
+      if (hasFiles(e)) e.preventDefault();
+    };
+    const handleDrop = (e: DragEvent) => {
+      const file = Array.from<File>(e.dataTransfer?.files ?? []).find(isZipFile);
+      if (!file) return;
+      e.preventDefault();
+      handleZipFile(file);
+    };
+
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('drop', handleDrop);
+    return () => {
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('drop', handleDrop);
+    };
+  }, [handleZipFile]);
+
+  const handleExport = async () => {
+    const paths = Object.keys(files);
+    const snapshot: WorkspaceSnapshot = {
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      viewMode,
+      openedTabs,
+      activeTab,
+      visibleNodeIds: Array.from(visibleNodeIds),
+      cardPositions: Array.from(cardPositions.entries()),
+      transform,
+    };
+
+    const client = createZipWorkerClient();
+    try {
+      const blob = await client.create({
+        ...files,
+        [getWorkspaceFilePath(paths)]: JSON.stringify(snapshot, null, 2),
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${getCommonRootFolder(paths) ?? 'workspace'}.zip`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error exporting zip:', err);
+      alert('Failed to export workspace zip.');
+    } finally {
+      client.dispose();
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => fileInputRef.current?.click()}
+        className={BUTTON_CLASS}
+        title="Import Zip (or drop a .zip anywhere)"
+        aria-label="Import Zip"
+      >
+        <IconFolderArchive size={18} strokeWidth={1.5} className="text-text-muted transition-colors" />
+      </button>
+      <button
+        type="button"
+        onClick={handleExport}
+        className={BUTTON_CLASS}
+        title="Export Workspace as Zip"
+        aria-label="Export Workspace as Zip"
+      >
+        <IconFileArchive size={18} strokeWidth={1.5} className="text-text-muted transition-colors" />
+      </button>
+      <input ref={fileInputRef} type="file" accept=".zip" className="hidden" onChange={handleImport} />
+      <UploadPreviewDialog
+        title={listing ? `Import ${listing.name}` : undefined}
+        candidates={listing?.entries ?? null}
+        gitignoreFiles={listing?.gitignoreFiles ?? {}}
+        onCancel={handleCancel}
+        onConfirm={handleConfirm}
+      />
+    </>
+  );
+};
+
+export default ZipArchiveButtons;
@@ -0,0 +1,49 @@
+/**
+ * Zip export에 포함하는 workspace 상태 (.vibe-workspace.json)
+ * - 리뷰어가 같은 탭 / 캔버스 배치로 열어볼 수 있도록
+ */
+
+import type { ViewMode } from '@/entities/AppView/model/atoms';
+import { WORKSPACE_FILE_NAME } from '@/shared/zip/types';
+
+export interface WorkspaceSnapshot {
+  version: 1;
+  exportedAt: string;
+  viewMode: ViewMode;
+  openedTabs: string[];
+  activeTab: string | null;
+  visibleNodeIds: string[];
+  cardPositions: [string, { x: number; y: number }][];
+  transform: { k: number; x: number; y: number };
+}
+
+/**
+ * 모든 파일이 같은 최상위 폴더 아래에 있으면 그 폴더 이름 (folder 업로드 / GitHub archive 형태)
+ */
+export function getCommonRootFolder(paths: string[]): string | null {
+  const roots = new Set(paths.map((path) => (path.includes('/') ? path.split('/')[0] : '')));
+  if (roots.size !== 1) return null;
+  const [root] = roots;
+  return root || null;
+}
+
+/**
+ * workspace 파일 경로 (공통 루트 폴더가 있으면 그 안에)
+ */
+export function getWorkspaceFilePath(paths: string[]): string {
+  const root = getCommonRootFolder(paths);
+  return root ? `${root}/${WORKSPACE_FILE_NAME}` : WORKSPACE_FILE_NAME;
+}
+
+/**
+ * .vibe-workspace.json 파싱 (형식이 맞지 않으면 null)
+ */
+export function parseWorkspaceSnapshot(text: string): WorkspaceSnapshot | null {
+  try {
+    const data = JSON.parse(text) as Partial<WorkspaceSnapshot>;
+    if (data.version !== 1 || !Array.isArray(data.openedTabs) || !Array.isArray(data.visibleNodeIds)) return null;
+    return data as WorkspaceSnapshot;
+  } catch {
+    return null;
+  }
+}
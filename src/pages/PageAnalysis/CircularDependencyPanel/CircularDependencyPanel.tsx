@@ -0,0 +1,59 @@
+/**
+ * CircularDependencyPanel - import 그래프의 순환 의존성 (SCC) 목록 Panel
+ * 각 순환의 최단 대표 경로 + runtime / type-only 구분, Canvas에 한 번에 배치
+ */
+
+import { useAtomValue } from 'jotai';
+import { Eraser } from 'lucide-react';
+import { Sidebar } from '@/components/ide/Sidebar.tsx';
+import { Button } from '@/components/ui/Button.tsx';
+import { useCycleCanvas } from '@/features/Code/CodeAnalyzer/CircularDependency/lib/useCycleCanvas.ts';
+import { circularDependenciesAtom } from '@/features/Code/CodeAnalyzer/CircularDependency/model/atoms.ts';
+import { cycleLinksAtom } from '@/widgets/MainContents/PipelineCanvas/model/atoms';
+import { AnalysisPanelTabs } from '../ui/AnalysisPanelTabs.tsx';
+import { CircularDependencyItem } from './ui/CircularDependencyItem.tsx';
+
+export function CircularDependencyPanel() {
+  const cycles = useAtomValue(circularDependenciesAtom);
+  const cycleLinks = useAtomValue(cycleLinksAtom);
+  const { clearCycleHighlight } = useCycleCanvas();
+
+  const runtimeCount = cycles.filter((cycle) => cycle.kind === 'runtime').length;
+
+  return (
+    <Sidebar side="right" resizable defaultWidth={280} minWidth={200} maxWidth={600} className="h-full shadow-2xl">
+      <Sidebar.Header>
+        <AnalysisPanelTabs />
+        {cycleLinks.length > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-5 w-5 p-0"
+            onClick={clearCycleHighlight}
+            title="Clear cycle highlight on canvas"
+          >
+            <Eraser size={12} />
+          </Button>
+        )}
+      </Sidebar.Header>
+
+      <div className="px-3 py-2 text-xs text-text-muted border-b border-border-DEFAULT">
+        <div>
+          Cycles: <span className="text-warm-300 font-medium">{cycles.length}</span>
+        </div>
+        <div className="text-2xs">
+          Runtime: <span className="text-red-300">{runtimeCount}</span> · Type-only:{' '}
+          <span className="text-sky-400">{cycles.length - runtimeCount}</span>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {cycles.length === 0 ? (
+          <div className="px-3 py-6 text-xs text-text-secondary text-center">No circular dependencies found</div>
+        ) : (
+          cycles.map((cycle) => <CircularDependencyItem key={cycle.files.join('|')} cycle={cycle} />)
+        )}
+      </div>
+    </Sidebar>
+  );
+}
@@ -0,0 +1,73 @@
+/**
+ * CircularDependencyItem - 순환 하나 (대표 경로 + 닫는 edge + Canvas 배치 버튼)
+ * Layout: [runtime|type] N files [Canvas] / a.ts → b.ts → c.ts → a.ts / closes at c.ts:3
+ */
+
+import { useSetAtom } from 'jotai';
+import { Network } from 'lucide-react';
+import { Button } from '@/components/ui/Button.tsx';
+import { viewModeAtom } from '@/entities/AppView/model/atoms';
+import { useCycleCanvas } from '@/features/Code/CodeAnalyzer/CircularDependency/lib/useCycleCanvas.ts';
+import { targetLineAtom } from '@/features/File/Navigation/model/atoms.ts';
+import { useOpenFile } from '@/features/File/OpenFiles/lib/useOpenFile.ts';
+import type { CircularDependency } from '@/shared/dependencyAnalyzer';
+
+const getFileName = (filePath: string) => filePath.split('/').pop() || filePath;
+
+export function CircularDependencyItem({ cycle }: { cycle: CircularDependency }) {
+  const setTargetLine = useSetAtom(targetLineAtom);
+  const setViewMode = useSetAtom(viewModeAtom);
+  const { openFile } = useOpenFile();
+  const { showOnCanvas } = useCycleCanvas();
+  const { closingEdge } = cycle;
+
+  const openClosingImport = () => {
+    openFile(closingEdge.from);
+    setTargetLine({ nodeId: closingEdge.from, lineNum: closingEdge.line });
+    setViewMode('ide');
+  };
+
+  return (
+    <div className="px-2 py-1.5 border-b border-border-DEFAULT text-2xs">
+      <div className="flex items-center gap-2">
+        <span
+          className={`px-1 rounded leading-4 ${
+            cycle.kind === 'runtime' ? 'bg-red-500/15 text-red-300' : 'bg-sky-500/15 text-sky-400'
+          }`}
+          title={
+            cycle.kind === 'runtime'
+              ? 'Cycle through value imports (module initialization order matters)'
+              : 'Cycle only through type-only imports (erased at runtime)'
+          }
+        >
+          {cycle.kind}
+        </span>
+        <span className="text-text-primary font-medium">{cycle.files.length} files</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="ml-auto h-5 gap-1 px-1.5 text-2xs"
+          onClick={() => showOnCanvas(cycle)}
+          title="Show cycle members on canvas"
+        >
+          <Network size={12} />
+          Canvas
+        </Button>
+      </div>
+
+      <div className="mt-0.5 text-text-secondary break-all" title={[...cycle.path, cycle.path[0]].join('\n→ ')}>
+        {[...cycle.path, cycle.path[0]].map(getFileName).join(' → ')}
+      </div>
+
+      <button
+        type="button"
+        onDoubleClick={openClosingImport}
+        className="text-text-muted hover:text-text-primary"
+        title={`${closingEdge.from}:${closingEdge.line} imports ${closingEdge.to}`}
+      >
+        closes at {getFileName(closingEdge.from)}:{closingEdge.line}
+        {closingEdge.isTypeOnly && ' (type-only)'}
+      </button>
+    </div>
+  );
+}
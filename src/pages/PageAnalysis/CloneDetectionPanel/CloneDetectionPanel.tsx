@@ -0,0 +1,54 @@
+/**
+ * CloneDetectionPanel - 중복 함수 (clone class) 목록 Panel
+ * 선택한 clone class는 IDEScrollView에서 side-by-side로 비교
+ */
+
+import { Sidebar } from '@/components/ide/Sidebar.tsx';
+import { useCloneDetection } from '@/features/Code/CodeAnalyzer/CloneDetector/lib/useCloneDetection.ts';
+import { CloneDetectionSettings } from '@/features/Code/CodeAnalyzer/CloneDetector/ui/CloneDetectionSettings.tsx';
+import { DetectClonesButton } from '@/features/Code/CodeAnalyzer/CloneDetector/ui/DetectClonesButton.tsx';
+import { AnalysisPanelTabs } from '../ui/AnalysisPanelTabs.tsx';
+import { CloneClassItem } from './ui/CloneClassItem.tsx';
+
+export function CloneDetectionPanel() {
+  const { isDetecting, cloneResults } = useCloneDetection(); // Auto-detect on mount
+
+  return (
+    <Sidebar side="right" resizable defaultWidth={280} minWidth={200} maxWidth={600} className="h-full shadow-2xl">
+      <Sidebar.Header>
+        <AnalysisPanelTabs />
+        <DetectClonesButton />
+      </Sidebar.Header>
+
+      <div className="px-3 py-2 text-xs text-text-muted border-b border-border-DEFAULT">
+        {isDetecting ? (
+          <span>Detecting duplicate functions...</span>
+        ) : cloneResults ? (
+          <div className="space-y-1">
+            <div>
+              Clone classes: <span className="text-warm-300 font-medium">{cloneResults.classes.length}</span>
+            </div>
+            <div className="text-2xs">
+              Duplicated lines: <span className="text-warm-300">{cloneResults.duplicatedLineCount}</span> (
+              {cloneResults.functionCount} functions compared)
+            </div>
+          </div>
+        ) : (
+          <span>No detection results yet</span>
+        )}
+      </div>
+
+      <CloneDetectionSettings />
+
+      {cloneResults && !isDetecting && (
+        <div className="flex-1 overflow-y-auto">
+          {cloneResults.classes.length === 0 ? (
+            <div className="px-3 py-6 text-xs text-text-secondary text-center">No duplicate functions found</div>
+          ) : (
+            cloneResults.classes.map((cloneClass) => <CloneClassItem key={cloneClass.id} cloneClass={cloneClass} />)
+          )}
+        </div>
+      )}
+    </Sidebar>
+  );
+}
@@ -0,0 +1,54 @@
+/**
+ * CloneClassItem - clone class 하나 (헤더 + 멤버 목록)
+ * 클릭하면 IDEScrollView에 멤버들을 side-by-side로 표시
+ */
+
+import { useAtom } from 'jotai';
+import type { CloneClass } from '@/features/Code/CodeAnalyzer/CloneDetector/lib/cloneDetector.ts';
+import { selectedCloneClassIdAtom } from '@/features/Code/CodeAnalyzer/CloneDetector/model/atoms.ts';
+
+const formatSimilarity = (similarity: number) => `${Math.round(similarity * 100)}%`;
+
+export function CloneClassItem({ cloneClass }: { cloneClass: CloneClass }) {
+  const [selectedCloneClassId, setSelectedCloneClassId] = useAtom(selectedCloneClassIdAtom);
+  const isSelected = selectedCloneClassId === cloneClass.id;
+
+  return (
+    <button
+      type="button"
+      onClick={() => setSelectedCloneClassId(isSelected ? null : cloneClass.id)}
+      className={`block w-full text-left px-2 py-1.5 border-b border-border-DEFAULT hover:bg-white/5 transition-colors ${
+        isSelected ? 'bg-white/8 border-l-2 border-l-warm-300/50' : ''
+      }`}
+    >
+      <div className="flex items-center gap-2 text-2xs">
+        <span
+          className={`px-1 rounded leading-4 ${
+            cloneClass.kind === 'exact' ? 'bg-red-500/15 text-red-300' : 'bg-warm-300/15 text-warm-300'
+          }`}
+        >
+          {cloneClass.kind}
+        </span>
+        <span className="text-text-primary font-medium">{cloneClass.members.length} copies</span>
+        <span className="text-text-muted">{formatSimilarity(cloneClass.similarity)}</span>
+        <span className="ml-auto text-text-tertiary">{cloneClass.tokenCount} tokens</span>
+      </div>
+
+      {cloneClass.members.map((member) => (
+        <div
+          key={`${member.filePath}:${member.startLine}`}
+          className="flex items-center justify-between gap-2 pl-2 text-2xs"
+          title={`${member.filePath}:${member.startLine}-${member.endLine}`}
+        >
+          <span className="text-text-secondary truncate">{member.name}</span>
+          <span className="text-text-tertiary shrink-0">
+            {member.filePath.split('/').pop()}:{member.startLine}
+            {member.similarity < 1 && (
+              <span className="ml-1 text-text-muted">{formatSimilarity(member.similarity)}</span>
+            )}
+          </span>
+        </div>
+      ))}
+    </button>
+  );
+}
@@ -6,12 +6,17 @@
 import { useAtomValue } from 'jotai';
 import { useMemo } from 'react';
 import { buildDeadCodeTree } from '@/features/Code/CodeAnalyzer/DeadCodeAnalyzer/lib/buildDeadCodeTree.ts';
+import { CATEGORY_TITLES } from '@/features/Code/CodeAnalyzer/DeadCodeAnalyzer/lib/categoryUtils.tsx';
 import {
   collapsedFoldersAtom,
   deadCodeResultsAtom,
+  showSuppressedAtom,
 } from '@/features/Code/CodeAnalyzer/DeadCodeAnalyzer/model/atoms.ts';
 import type { CategoryKey } from '@/features/Code/CodeAnalyzer/DeadCodeAnalyzer/model/types.ts';
-import type { DeadCodeItem } from '../../../../features/Code/CodeAnalyzer/DeadCodeAnalyzer/lib/deadCodeAnalyzer.ts';
+import {
+  DEAD_CODE_CATEGORY_RESULT_KEYS,
+  type DeadCodeItem,
+} from '../../../../features/Code/CodeAnalyzer/DeadCodeAnalyzer/lib/deadCodeAnalyzer.ts';
 import { getDeadCodeFlatList } from './getDeadCodeFlatList.ts';
 
 interface CategoryInfo {
@@ -24,19 +29,28 @@ interface CategoryInfo {
 export function useCategoryIndices(): CategoryInfo[] {
   const deadCodeResults = useAtomValue(deadCodeResultsAtom);
   const collapsedFolders = useAtomValue(collapsedFoldersAtom);
+  const showSuppressed = useAtomValue(showSuppressedAtom);
 
   return useMemo(() => {
     if (!deadCodeResults) return [];
 
     let currentStartIndex = 0;
-    const categories: CategoryInfo[] = [
-      { title: 'Unused Imports', items: deadCodeResults.unusedImports, key: 'unusedImports', startIndex: 0 },
-      { title: 'Unused Variables', items: deadCodeResults.unusedVariables, key: 'unusedVariables', startIndex: 0 },
-      { title: 'Dead Functions', items: deadCodeResults.deadFunctions, key: 'deadFunctions', startIndex: 0 },
-      { title: 'Unused Arguments', items: deadCodeResults.unusedArguments, key: 'unusedArguments', startIndex: 0 },
-      { title: 'Unused Props', items: deadCodeResults.unusedProps, key: 'unusedProps', startIndex: 0 },
-      { title: 'Unused Exports', items: deadCodeResults.unusedExports, key: 'unusedExports', startIndex: 0 },
-    ];
+    const categories: CategoryInfo[] = (Object.keys(CATEGORY_TITLES) as CategoryKey[]).map((key) => ({
+      title: CATEGORY_TITLES[key],
+      items: deadCodeResults[key],
+      key,
+      startIndex: 0,
+    }));
+
+    // suppressed 항목 표시: category 'unusedExport' → key 'unusedExports'
+    if (showSuppressed) {
+      categories.forEach((category) => {
+        const suppressed = deadCodeResults.suppressed.filter(
+          (item) => DEAD_CODE_CATEGORY_RESULT_KEYS[item.category] === category.key
+        );
+        if (suppressed.length > 0) category.items = [...category.items, ...suppressed];
+      });
+    }
 
     return categories.map(({ title, items, key }) => {
       const categoryStartIndex = currentStartIndex;
@@ -56,5 +70,5 @@ export function useCategoryIndices(): CategoryInfo[] {
         startIndex: categoryStartIndex,
       };
     });
-  }, [deadCodeResults, collapsedFolders]);
+  }, [deadCodeResults, collapsedFolders, showSuppressed]);
 }
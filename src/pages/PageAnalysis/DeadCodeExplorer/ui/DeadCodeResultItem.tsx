@@ -3,15 +3,20 @@
  * Layout: [icon] symbolName ← | → fileName:lineNo [checkbox]
  */
 
-import { useSetAtom } from 'jotai';
-import { Code2, Component, FileBox, FunctionSquare, Import, Variable } from 'lucide-react';
+import { useAtomValue, useSetAtom } from 'jotai';
+import { Code2, Component, FileBox, FileX, FunctionSquare, Hourglass, Import, Network, Variable } from 'lucide-react';
 import React from 'react';
 import { Checkbox } from '@/components/ui/Checkbox.tsx';
 import { viewModeAtom } from '@/entities/AppView/model/atoms';
 import { useDeadCodeSelection } from '@/features/Code/CodeAnalyzer/DeadCodeSelection/lib/useDeadCodeSelection.ts';
 import { targetLineAtom } from '@/features/File/Navigation/model/atoms.ts';
 import { useOpenFile } from '@/features/File/OpenFiles/lib/useOpenFile.ts';
+import {
+  ASYNC_CALL_ISSUE_LABELS,
+  getItemKey,
+} from '../../../../features/Code/CodeAnalyzer/DeadCodeAnalyzer/lib/categoryUtils.tsx';
 import type { DeadCodeItem } from '../../../../features/Code/CodeAnalyzer/DeadCodeAnalyzer/lib/deadCodeAnalyzer.ts';
+import { baselineComparisonAtom } from '../../../../features/Code/CodeAnalyzer/DeadCodeAnalyzer/model/atoms.ts';
 
 // Get icon for dead code kind
 function getKindIcon(kind: DeadCodeItem['kind']) {
@@ -28,6 +33,12 @@ function getKindIcon(kind: DeadCodeItem['kind']) {
       return Component;
     case 'argument':
       return Code2;
+    case 'asyncCall':
+      return Hourglass;
+    case 'file':
+      return FileX;
+    case 'cluster':
+      return Network;
     default:
       return FileBox;
   }
@@ -47,10 +58,12 @@ export const DeadCodeResultItem = React.forwardRef<
   const setViewMode = useSetAtom(viewModeAtom);
   const { openFile } = useOpenFile();
   const { toggleItemSelection, isItemSelected } = useDeadCodeSelection();
+  const baselineComparison = useAtomValue(baselineComparisonAtom);
 
   const isSelected = isItemSelected(item);
   const fileName = item.filePath.split('/').pop() || item.filePath;
   const KindIcon = getKindIcon(item.kind);
+  const isNew = baselineComparison?.status.get(getItemKey(item)) === 'new';
 
   const handleItemClick = () => {
     openFile(item.filePath);
@@ -63,7 +76,7 @@ export const DeadCodeResultItem = React.forwardRef<
       ref={ref}
       className={`flex items-center justify-between gap-2 cursor-pointer py-0.5 px-2 ${
         focused ? 'bg-white/8 border-l-2 border-warm-300/50' : ''
-      }`}
+      } ${item.suppressedBy ? 'opacity-50' : ''}`}
       onClick={onFocus}
       onDoubleClick={handleItemClick}
       onKeyDown={(e) => {
@@ -76,17 +89,37 @@ export const DeadCodeResultItem = React.forwardRef<
       tabIndex={0}
     >
       {/* Left side: Icon + Symbol name */}
-      <div className="flex items-center gap-2 min-w-0">
+      <div
+        className="flex items-center gap-2 min-w-0"
+        title={
+          item.suppressedBy
+            ? `Suppressed by ${item.suppressedBy}`
+            : item.asyncIssue
+              ? `${item.symbolName}(): ${ASYNC_CALL_ISSUE_LABELS[item.asyncIssue]}`
+              : item.clusterFiles?.join('\n')
+        }
+      >
         <KindIcon size={12} className="text-text-muted shrink-0" />
         <span className="text-2xs text-text-primary font-medium truncate">
           {item.symbolName}
           {item.componentName && <span className="text-text-tertiary ml-1">(in {item.componentName})</span>}
           {item.functionName && <span className="text-text-tertiary ml-1">(in {item.functionName})</span>}
+          {item.clusterFiles && (
+            <span className="text-text-tertiary ml-1">(+{item.clusterFiles.length - 1} files)</span>
+          )}
         </span>
       </div>
 
       {/* Right side: File location + Checkbox */}
       <div className="flex items-center gap-2 shrink-0">
+        {isNew && (
+          <span
+            className="px-1 rounded text-2xs leading-4 bg-sky-500/15 text-sky-400"
+            title={`Not in baseline "${baselineComparison?.baseline.name}"`}
+          >
+            new
+          </span>
+        )}
         <span className="text-2xs text-text-tertiary">
           {fileName}:{item.line}
         </span>
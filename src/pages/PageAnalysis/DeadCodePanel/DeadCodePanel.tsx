@@ -4,7 +4,7 @@
  */
 
 import { useAtomValue } from 'jotai';
-import { Sparkles } from 'lucide-react';
+import { Scissors, Sparkles } from 'lucide-react';
 import { useRef, useState } from 'react';
 import { Sidebar } from '@/components/ide/Sidebar.tsx';
 import { Button } from '@/components/ui/Button.tsx';
@@ -13,6 +13,9 @@ import {
   deadCodeResultsAtom,
   selectedDeadCodeItemsAtom,
 } from '@/features/Code/CodeAnalyzer/DeadCodeAnalyzer/model/atoms.ts';
+import { BaselineSettings } from '@/features/Code/CodeAnalyzer/DeadCodeAnalyzer/ui/BaselineSettings.tsx';
+import { EntryPointSettings } from '@/features/Code/CodeAnalyzer/DeadCodeAnalyzer/ui/EntryPointSettings.tsx';
+import { DeadCodeRemovalDialog } from '@/features/Code/CodeAnalyzer/DeadCodeRemoval/ui/DeadCodeRemovalDialog.tsx';
 import IDEScrollView from '@/widgets/MainContents/IDEScrollView/IDEScrollView.tsx';
 import { RefactoringPromptDialog } from '../../../features/RefactoringPrompt/RefactoringPromptDialog.tsx';
 import { DeadCodeExplorer } from '../DeadCodeExplorer/DeadCodeExplorer.tsx';
@@ -24,6 +27,7 @@ export function DeadCodePanel({ className: _className }: { className?: string })
   const deadCodeResults = useAtomValue(deadCodeResultsAtom);
   const selectedItems = useAtomValue(selectedDeadCodeItemsAtom);
   const [showPromptDialog, setShowPromptDialog] = useState(false);
+  const [showRemovalDialog, setShowRemovalDialog] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
 
   return (
@@ -36,11 +40,22 @@ export function DeadCodePanel({ className: _className }: { className?: string })
           </Sidebar.Header>
 
           <DeadCodePanelSummary />
+          <EntryPointSettings />
+          <BaselineSettings />
           <DeadCodeExplorer containerRef={containerRef} />
 
-          {/* Generate Prompt Button */}
+          {/* Remove / Generate Prompt Buttons */}
           {deadCodeResults && selectedItems.size > 0 && (
-            <div className="p-3 border-t border-border-DEFAULT">
+            <div className="p-3 border-t border-border-DEFAULT space-y-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full justify-center gap-2"
+                onClick={() => setShowRemovalDialog(true)}
+              >
+                <Scissors size={14} />
+                Remove Automatically ({selectedItems.size})
+              </Button>
               <Button
                 variant="default"
                 size="sm"
@@ -54,6 +69,16 @@ export function DeadCodePanel({ className: _className }: { className?: string })
           )}
         </Sidebar>
 
+        {/* Dead Code Removal Preview (열려 있을 때만 제거 계획 계산) */}
+        {deadCodeResults && showRemovalDialog && (
+          <DeadCodeRemovalDialog
+            open={showRemovalDialog}
+            onOpenChange={setShowRemovalDialog}
+            selectedItemKeys={selectedItems}
+            deadCodeResults={deadCodeResults}
+          />
+        )}
+
         {/* Refactoring Prompt Dialog */}
         {deadCodeResults && (
           <RefactoringPromptDialog
@@ -1,17 +1,62 @@
 /**
  * DeadCodePanel Summary Component
  */
-import { useAtomValue } from 'jotai';
+import { useAtom, useAtomValue } from 'jotai';
+import { Eye, EyeOff } from 'lucide-react';
+import { getCategoryCounts } from '@/features/Code/CodeAnalyzer/DeadCodeAnalyzer/lib/baseline.ts';
+import { CATEGORY_TITLES } from '@/features/Code/CodeAnalyzer/DeadCodeAnalyzer/lib/categoryUtils.tsx';
+import type { DeadCodeResults } from '@/features/Code/CodeAnalyzer/DeadCodeAnalyzer/lib/deadCodeAnalyzer.ts';
 import {
+  deadCodeBaselinesAtom,
   deadCodeResultsAtom,
   isAnalyzingAtom,
   selectedDeadCodeItemsAtom,
+  showSuppressedAtom,
 } from '@/features/Code/CodeAnalyzer/DeadCodeAnalyzer/model/atoms.ts';
+import type { CategoryKey } from '@/features/Code/CodeAnalyzer/DeadCodeAnalyzer/model/types.ts';
+
+const MAX_TREND_BASELINES = 5;
+
+/**
+ * 최근 baseline들 → 현재까지 카테고리별 개수 추이
+ * - 한 번이라도 0이 아니었던 카테고리만 표시
+ */
+function CategoryTrend({ deadCodeResults }: { deadCodeResults: DeadCodeResults }) {
+  const baselines = useAtomValue(deadCodeBaselinesAtom);
+  if (baselines.length === 0) return null;
+
+  const recent = baselines.slice(-MAX_TREND_BASELINES);
+  const current = getCategoryCounts(deadCodeResults);
+  const rows = (Object.keys(CATEGORY_TITLES) as CategoryKey[])
+    .map((key) => ({ key, counts: [...recent.map((baseline) => baseline.counts[key] ?? 0), current[key] ?? 0] }))
+    .filter(({ counts }) => counts.some((count) => count > 0));
+
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="pt-1 space-y-0.5 text-2xs" title={recent.map((baseline) => baseline.name).join(' → ')}>
+      <div>Trend (last {recent.length} baselines → now)</div>
+      {rows.map(({ key, counts }) => {
+        const delta = counts[counts.length - 1] - counts[counts.length - 2];
+        return (
+          <div key={key} className="flex items-center gap-2">
+            <span className="flex-1 truncate">{CATEGORY_TITLES[key]}</span>
+            <span className="font-mono text-text-tertiary">{counts.join(' → ')}</span>
+            {delta !== 0 && (
+              <span className={delta > 0 ? 'text-red-400' : 'text-emerald-400'}>{delta > 0 ? `+${delta}` : delta}</span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
 
 export function DeadCodePanelSummary() {
   const isAnalyzing = useAtomValue(isAnalyzingAtom);
   const deadCodeResults = useAtomValue(deadCodeResultsAtom);
   const selectedItems = useAtomValue(selectedDeadCodeItemsAtom);
+  const [showSuppressed, setShowSuppressed] = useAtom(showSuppressedAtom);
 
   return (
     <div className="px-3 py-2 text-xs text-text-muted border-b border-border-DEFAULT">
@@ -22,9 +67,22 @@ export function DeadCodePanelSummary() {
           <div>
             Total issues: <span className="text-warm-300 font-medium">{deadCodeResults.totalCount}</span>
           </div>
+          {deadCodeResults.suppressed.length > 0 && (
+            <button
+              type="button"
+              onClick={() => setShowSuppressed(!showSuppressed)}
+              className="flex items-center gap-1 text-2xs hover:text-text-primary"
+              title="Items hidden by vibe-ignore comments or .vibecoderc.json"
+            >
+              {showSuppressed ? <Eye size={12} /> : <EyeOff size={12} />}
+              Suppressed: <span className="text-warm-300">{deadCodeResults.suppressed.length}</span>
+              <span>({showSuppressed ? 'shown' : 'hidden'})</span>
+            </button>
+          )}
           <div className="text-2xs">
             Selected: <span className="text-warm-300">{selectedItems.size}</span> items
           </div>
+          <CategoryTrend deadCodeResults={deadCodeResults} />
         </div>
       ) : (
         <span>No analysis results yet</span>
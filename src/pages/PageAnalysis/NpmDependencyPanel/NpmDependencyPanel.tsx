@@ -0,0 +1,67 @@
+/**
+ * NpmDependencyPanel - package.json 의존성 점검 Panel
+ * 업로드된 package.json과 실제 import를 비교 (Dead Code Panel과 함께 PageAnalysis에 표시)
+ */
+
+import { useAtomValue } from 'jotai';
+import { FlaskConical, PackageMinus, PackageX, Tags } from 'lucide-react';
+import { Sidebar } from '@/components/ide/Sidebar.tsx';
+import { npmDependencyResultsAtom } from '@/features/Code/CodeAnalyzer/NpmDependencyAnalyzer/model/atoms.ts';
+import { AnalysisPanelTabs } from '../ui/AnalysisPanelTabs.tsx';
+import { NpmDependencyCategory } from './ui/NpmDependencyCategory.tsx';
+
+export function NpmDependencyPanel() {
+  const results = useAtomValue(npmDependencyResultsAtom);
+
+  return (
+    <Sidebar side="right" resizable defaultWidth={280} minWidth={200} maxWidth={600} className="h-full shadow-2xl">
+      <Sidebar.Header>
+        <AnalysisPanelTabs />
+      </Sidebar.Header>
+
+      <div className="px-3 py-2 text-xs text-text-muted border-b border-border-DEFAULT">
+        {results.manifests.length === 0 ? (
+          <span>No package.json uploaded</span>
+        ) : (
+          <div className="space-y-1">
+            <div>
+              Total issues: <span className="text-warm-300 font-medium">{results.totalCount}</span>
+            </div>
+            <div className="text-2xs truncate" title={results.manifests.join('\n')}>
+              {results.manifests.length} package.json
+            </div>
+          </div>
+        )}
+      </div>
+
+      {results.manifests.length > 0 && (
+        <div className="flex-1 overflow-y-auto">
+          <NpmDependencyCategory
+            categoryKey="unused"
+            title="Unused Dependencies"
+            icon={<PackageMinus size={14} className="text-warm-300" />}
+            items={results.unused}
+          />
+          <NpmDependencyCategory
+            categoryKey="missing"
+            title="Missing Dependencies"
+            icon={<PackageX size={14} className="text-red-400" />}
+            items={results.missing}
+          />
+          <NpmDependencyCategory
+            categoryKey="devInProduction"
+            title="devDependencies in Production"
+            icon={<FlaskConical size={14} className="text-warm-300" />}
+            items={results.devInProduction}
+          />
+          <NpmDependencyCategory
+            categoryKey="orphanTypes"
+            title="@types without Runtime Package"
+            icon={<Tags size={14} className="text-warm-300" />}
+            items={results.orphanTypes}
+          />
+        </div>
+      )}
+    </Sidebar>
+  );
+}
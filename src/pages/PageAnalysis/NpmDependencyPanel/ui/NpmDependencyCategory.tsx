@@ -0,0 +1,96 @@
+/**
+ * NpmDependencyCategory - 카테고리 헤더 + 패키지 목록
+ * Layout: packageName version ← | → package.json 위치 / importer 파일:라인 (더블클릭으로 열기)
+ */
+
+import { useAtom, useSetAtom } from 'jotai';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import type React from 'react';
+import { viewModeAtom } from '@/entities/AppView/model/atoms';
+import type {
+  NpmDependencyCategory as CategoryKey,
+  NpmDependencyImporter,
+  NpmDependencyItem,
+} from '@/features/Code/CodeAnalyzer/NpmDependencyAnalyzer/lib/npmDependencyAnalyzer.ts';
+import { expandedNpmCategoriesAtom } from '@/features/Code/CodeAnalyzer/NpmDependencyAnalyzer/model/atoms.ts';
+import { targetLineAtom } from '@/features/File/Navigation/model/atoms.ts';
+import { useOpenFile } from '@/features/File/OpenFiles/lib/useOpenFile.ts';
+
+const MAX_LISTED_IMPORTERS = 3;
+
+export function NpmDependencyCategory({
+  categoryKey,
+  title,
+  icon,
+  items,
+}: {
+  categoryKey: CategoryKey;
+  title: string;
+  icon: React.ReactNode;
+  items: NpmDependencyItem[];
+}) {
+  const [expandedCategories, setExpandedCategories] = useAtom(expandedNpmCategoriesAtom);
+  const isExpanded = expandedCategories[categoryKey];
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => setExpandedCategories((prev) => ({ ...prev, [categoryKey]: !prev[categoryKey] }))}
+        className="flex items-center gap-1.5 w-full px-2 py-1.5 hover:bg-white/5 transition-colors border-b border-border-DEFAULT"
+      >
+        {isExpanded ? (
+          <ChevronDown size={14} className="text-text-muted shrink-0" />
+        ) : (
+          <ChevronRight size={14} className="text-text-muted shrink-0" />
+        )}
+        {icon}
+        <span className="text-xs text-text-primary font-medium">{title}</span>
+        <span className="text-xs text-text-muted">({items.length})</span>
+      </button>
+
+      {isExpanded &&
+        items.map((item) => <NpmDependencyResultItem key={`${item.manifestPath}|${item.packageName}`} item={item} />)}
+    </div>
+  );
+}
+
+function NpmDependencyResultItem({ item }: { item: NpmDependencyItem }) {
+  const setTargetLine = useSetAtom(targetLineAtom);
+  const setViewMode = useSetAtom(viewModeAtom);
+  const { openFile } = useOpenFile();
+
+  const openImporter = (importer: NpmDependencyImporter) => {
+    openFile(importer.filePath);
+    setTargetLine({ nodeId: importer.filePath, lineNum: importer.line });
+    setViewMode('ide');
+  };
+
+  return (
+    <div className="py-0.5 pl-7 pr-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-2xs text-text-primary font-medium truncate" title={item.packageName}>
+          {item.packageName}
+          {item.version && <span className="text-text-tertiary ml-1">{item.version}</span>}
+        </span>
+        <span className="text-2xs text-text-tertiary shrink-0" title={item.manifestPath}>
+          {item.field ?? item.manifestPath}
+        </span>
+      </div>
+      {item.importers.slice(0, MAX_LISTED_IMPORTERS).map((importer) => (
+        <button
+          type="button"
+          key={`${importer.filePath}:${importer.line}`}
+          onDoubleClick={() => openImporter(importer)}
+          className="block w-full text-left text-2xs text-text-muted hover:text-text-primary truncate"
+          title={`${importer.filePath}:${importer.line}`}
+        >
+          ↳ {importer.filePath.split('/').pop()}:{importer.line}
+        </button>
+      ))}
+      {item.importers.length > MAX_LISTED_IMPORTERS && (
+        <div className="text-2xs text-text-muted">+{item.importers.length - MAX_LISTED_IMPORTERS} more files</div>
+      )}
+    </div>
+  );
+}
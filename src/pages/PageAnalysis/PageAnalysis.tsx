@@ -3,16 +3,29 @@
  * 자체 Left/Right Panel을 가진 독립적인 레이아웃
  */
 
+import { useAtomValue } from 'jotai';
+import { CircularDependencyPanel } from './CircularDependencyPanel/CircularDependencyPanel';
+import { CloneDetectionPanel } from './CloneDetectionPanel/CloneDetectionPanel';
 import { DeadCodePanel } from './DeadCodePanel/DeadCodePanel';
+import { analysisSidePanelAtom } from './model/atoms';
+import { NpmDependencyPanel } from './NpmDependencyPanel/NpmDependencyPanel';
 
 export function PageAnalysis() {
+  const sidePanel = useAtomValue(analysisSidePanelAtom);
+
   return (
     <div className="flex h-full w-full overflow-hidden">
       {/* DeadCodePanel이 이미 자체 레이아웃을 가지고 있음 (Left Panel + Main Content) */}
       <DeadCodePanel />
 
-      {/* 우측 패널은 필요 시 추가 가능 */}
-      {/* 예: <AnalysisDetailsPanel /> */}
+      {/* 우측: package.json 의존성 점검 / 중복 함수 / 순환 의존성 (탭 전환) */}
+      {sidePanel === 'clones' ? (
+        <CloneDetectionPanel />
+      ) : sidePanel === 'cycles' ? (
+        <CircularDependencyPanel />
+      ) : (
+        <NpmDependencyPanel />
+      )}
     </div>
   );
 }
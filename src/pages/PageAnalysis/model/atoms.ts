@@ -0,0 +1,10 @@
+/**
+ * PageAnalysis - Atoms
+ * 우측 패널 선택 상태
+ */
+import { atom } from 'jotai';
+
+export type AnalysisSidePanel = 'dependencies' | 'clones' | 'cycles';
+
+// 우측 패널 (Dependencies / Clones / Cycles)
+export const analysisSidePanelAtom = atom<AnalysisSidePanel>('dependencies');
@@ -0,0 +1,35 @@
+/**
+ * AnalysisPanelTabs - 우측 패널 전환 탭 (각 패널 Header에 표시)
+ */
+
+import { useAtom } from 'jotai';
+import { Copy, PackageSearch, Repeat } from 'lucide-react';
+import { type AnalysisSidePanel, analysisSidePanelAtom } from '../model/atoms.ts';
+
+const TABS: { key: AnalysisSidePanel; label: string; icon: typeof Copy }[] = [
+  { key: 'dependencies', label: 'Dependencies', icon: PackageSearch },
+  { key: 'clones', label: 'Clones', icon: Copy },
+  { key: 'cycles', label: 'Cycles', icon: Repeat },
+];
+
+export function AnalysisPanelTabs() {
+  const [sidePanel, setSidePanel] = useAtom(analysisSidePanelAtom);
+
+  return (
+    <div className="flex items-center gap-2">
+      {TABS.map(({ key, label, icon: Icon }) => (
+        <button
+          key={key}
+          type="button"
+          onClick={() => setSidePanel(key)}
+          className={`flex items-center gap-1.5 text-2xs font-medium uppercase tracking-wide ${
+            sidePanel === key ? 'text-text-primary' : 'text-text-muted hover:text-text-secondary'
+          }`}
+        >
+          <Icon size={12} className={sidePanel === key ? 'text-warm-300' : ''} />
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
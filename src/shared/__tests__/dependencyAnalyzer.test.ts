@@ -0,0 +1,147 @@
+/**
+ * 순환 의존성 탐지 테스트
+ *
+ * Tarjan SCC로 찾은 순환이 runtime / type으로 나뉘고,
+ * 대표 경로가 SCC 안의 가장 짧은 순환인지 확인
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createGraph } from '@/entities/SourceFileNode/lib/__tests__/fixtures';
+import { findCircularDependencies } from '../dependencyAnalyzer';
+
+describe('순환 의존성 - Tarjan SCC', () => {
+  it('순환이 없으면 빈 배열', () => {
+    const cycles = findCircularDependencies(
+      createGraph({
+        'src/a.ts': `import { b } from './b';`,
+        'src/b.ts': `import { c } from './c';\nexport const b = 1;`,
+        'src/c.ts': 'export const c = 1;',
+      })
+    );
+
+    expect(cycles).toEqual([]);
+    expect(findCircularDependencies(null)).toEqual([]);
+  });
+
+  it('값 import 순환 → runtime + 닫는 edge', () => {
+    const [cycle, ...rest] = findCircularDependencies(
+      createGraph({
+        'src/a.ts': `import { b } from './b';\nexport const a = 1;`,
+        'src/b.ts': `import { c } from './c';\nexport const b = 1;`,
+        'src/c.ts': `\nimport { a } from './a';\nexport const c = 1;`,
+        'src/d.ts': `import { a } from './a';`,
+      })
+    );
+
+    expect(rest).toEqual([]);
+    expect(cycle.kind).toBe('runtime');
+    expect(cycle.files).toEqual(['src/a.ts', 'src/b.ts', 'src/c.ts']);
+    expect(cycle.path).toEqual(['src/a.ts', 'src/b.ts', 'src/c.ts']);
+    expect(cycle.edges).toHaveLength(3);
+    expect(cycle.closingEdge).toEqual({ from: 'src/c.ts', to: 'src/a.ts', isTypeOnly: false, line: 2 });
+  });
+
+  it('type-only import를 빼면 끊어지는 순환 → type', () => {
+    const [cycle] = findCircularDependencies(
+      createGraph({
+        'src/model.ts': `import type { View } from './view';\nexport interface Model { view: View }`,
+        'src/view.ts': `import { Model } from './model';\nexport const render = (model: Model) => model;\nexport type View = string;`,
+      })
+    );
+
+    expect(cycle.kind).toBe('type');
+    expect(cycle.edges.map(({ from, isTypeOnly }) => [from, isTypeOnly])).toEqual([
+      ['src/model.ts', true],
+      ['src/view.ts', false],
+    ]);
+  });
+
+  it('SCC 안에서 가장 짧은 순환을 대표 경로로', () => {
+    // a → b → c → d → a, b ↔ d
+    const [cycle] = findCircularDependencies(
+      createGraph({
+        'src/a.ts': `import { b } from './b';\nexport const a = b;`,
+        'src/b.ts': `import { c } from './c';\nimport { d } from './d';\nexport const b = c + d;`,
+        'src/c.ts': `import { d } from './d';\nexport const c = d;`,
+        'src/d.ts': `import { a } from './a';\nimport { b } from './b';\nexport const d = () => a + b;`,
+      })
+    );
+
+    expect(cycle.files).toEqual(['src/a.ts', 'src/b.ts', 'src/c.ts', 'src/d.ts']);
+    expect(cycle.path).toEqual(['src/b.ts', 'src/d.ts']);
+  });
+
+  it('runtime 순환이 type 순환보다 먼저, 같은 종류는 짧은 순', () => {
+    const cycles = findCircularDependencies(
+      createGraph({
+        'src/long/a.ts': `import { b } from './b';\nexport const a = 1;`,
+        'src/long/b.ts': `import { c } from './c';\nexport const b = 1;`,
+        'src/long/c.ts': `import { a } from './a';\nexport const c = 1;`,
+        'src/short/a.ts': `import { b } from './b';\nexport const a = 1;`,
+        'src/short/b.ts': `import { a } from './a';\nexport const b = 1;`,
+        'src/types/a.ts': `import type { B } from './b';\nexport type A = B[];`,
+        'src/types/b.ts': `import type { A } from './a';\nexport type B = A;`,
+      })
+    );
+
+    expect(cycles.map(({ kind, path }) => [kind, path.length])).toEqual([
+      ['runtime', 2],
+      ['runtime', 3],
+      ['type', 2],
+    ]);
+  });
+
+  it('자기 자신을 import하는 파일', () => {
+    const [cycle] = findCircularDependencies(
+      createGraph({ 'src/self.ts': `import { x } from './self';\nexport const x = 1;` })
+    );
+
+    expect(cycle.files).toEqual(['src/self.ts']);
+    expect(cycle.path).toEqual(['src/self.ts']);
+  });
+});
+
+describe('순환 의존성 - import 종류 / 경로 해석', () => {
+  it('re-export와 side-effect import도 runtime edge', () => {
+    const [cycle, ...rest] = findCircularDependencies(
+      createGraph({
+        'src/index.ts': `export * from './a';`,
+        'src/a.ts': `import './setup';\nexport const a = 1;`,
+        'src/setup.ts': `export { a as default } from './index';`,
+      })
+    );
+
+    expect(rest).toEqual([]);
+    expect(cycle.kind).toBe('runtime');
+    expect(cycle.path).toEqual(['src/a.ts', 'src/setup.ts', 'src/index.ts']);
+    expect(cycle.closingEdge).toEqual({ from: 'src/index.ts', to: 'src/a.ts', isTypeOnly: false, line: 1 });
+  });
+
+  it('type-only re-export는 type edge', () => {
+    const [cycle] = findCircularDependencies(
+      createGraph({
+        'src/a.ts': `export type { B } from './b';\nexport interface A {}`,
+        'src/b.ts': `export { type A } from './a';\nexport interface B {}`,
+      })
+    );
+
+    expect(cycle.kind).toBe('type');
+    expect(cycle.edges.every((edge) => edge.isTypeOnly)).toBe(true);
+  });
+
+  it('files 지정 시 tsconfig paths alias로 해석', () => {
+    const graph = createGraph({
+      'app/src/a.ts': `import { b } from '#lib/b';\nexport const a = 1;`,
+      'app/src/lib/b.ts': `import { a } from '../a';\nexport const b = 1;`,
+    });
+    const files = {
+      'app/tsconfig.json': '{ "compilerOptions": { "paths": { "#lib/*": ["./src/lib/*"] } } }',
+      ...Object.fromEntries(graph.nodes.map((node) => [node.filePath, node.codeSnippet])),
+    };
+
+    expect(findCircularDependencies(graph)).toEqual([]);
+    expect(findCircularDependencies(graph, files).map((cycle) => cycle.path)).toEqual([
+      ['app/src/a.ts', 'app/src/lib/b.ts'],
+    ]);
+  });
+});
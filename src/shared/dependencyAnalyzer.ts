@@ -3,8 +3,10 @@
  *
  * 알고리즘: DFS로 의존성 수집 → Kahn's algorithm으로 토폴로지 정렬
  * 정렬 순서: 리프 노드 (의존성 없음) → 루트 노드 (현재 파일) 순서
+ * - 순환 의존성은 정렬할 수 없으므로 Tarjan SCC로 따로 보고 (findCircularDependencies)
  */
 
+import * as ts from 'typescript';
 import { getExports, getImports } from '../entities/SourceFileNode/lib/metadata';
 import type { GraphData, SourceFileNode } from '../entities/SourceFileNode/model/types';
 import { resolvePath } from './tsParser/utils/pathResolver';
@@ -26,18 +28,40 @@ export interface DependencyResults {
   entities: DependencyItem[]; // Type/Interface 선언들
   importedBy: DependencyItem[]; // 이 파일을 직접 import하는 파일들 (역방향 의존성, Direct)
   importedByIndirect: DependencyItem[]; // 재귀적으로 영향받는 파일들 (Indirect)
+  cycles: CircularDependency[]; // 의존성 트리에 포함된 순환 (localFiles에는 정렬 불가 파일이 뒤에 붙음)
+}
+
+export interface ImportEdge {
+  from: string; // import하는 파일
+  to: string; // import되는 파일
+  isTypeOnly: boolean; // 이 파일 쌍의 import가 모두 type-only (런타임에 지워짐)
+  line: number; // 첫 import 라인
+}
+
+export interface CircularDependency {
+  files: string[]; // SCC 멤버 (경로순)
+  path: string[]; // 가장 짧은 대표 순환: path[i]가 path[i + 1]을, 마지막이 path[0]을 import
+  kind: 'runtime' | 'type'; // runtime: 값 import만으로 순환 / type: type-only import를 빼면 끊김
+  edges: ImportEdge[]; // SCC 내부 import 전체
+  closingEdge: ImportEdge; // 대표 순환을 닫는 edge (path 마지막 → path[0])
 }
 
 /**
  * 현재 파일의 모든 의존성을 재귀적으로 분석하고 토폴로지 정렬
+ * @param files - 전체 파일 (filesAtom, tsconfig / vite alias 해석용), 없으면 노드 codeSnippet으로 대체
  */
-export function analyzeDependencies(currentFilePath: string | null, graphData: GraphData | null): DependencyResults {
+export function analyzeDependencies(
+  currentFilePath: string | null,
+  graphData: GraphData | null,
+  files?: Record<string, string>
+): DependencyResults {
   const results: DependencyResults = {
     localFiles: [],
     npmModules: [],
     entities: [],
     importedBy: [],
     importedByIndirect: [],
+    cycles: [],
   };
 
   if (!currentFilePath || !graphData) {
@@ -65,10 +89,7 @@ export function analyzeDependencies(currentFilePath: string | null, graphData: G
   const currentTypeExports = currentExports.filter((exp) => exp.kind === 'type' || exp.kind === 'interface');
 
   // Phase 0.6: files Record 생성 (resolvePath용)
-  const files: Record<string, string> = {};
-  graphData.nodes.forEach((node) => {
-    files[node.filePath] = node.codeSnippet || '';
-  });
+  const resolveFiles = files ?? getSnippetFiles(graphData);
 
   // Phase 1: DFS로 모든 의존성 수집
   const visited = new Set<string>();
@@ -105,9 +126,11 @@ export function analyzeDependencies(currentFilePath: string | null, graphData: G
       directlyUsedTypes.add(imp.name);
     });
 
-    // Initialize adjacency list and indegree
+    // Initialize adjacency list and indegree (indegree는 방문 전에 이미 증가했을 수 있음)
     if (!adjacencyList.has(node.filePath)) {
       adjacencyList.set(node.filePath, new Set());
+    }
+    if (!indegree.has(node.filePath)) {
       indegree.set(node.filePath, 0);
     }
 
@@ -136,8 +159,11 @@ export function analyzeDependencies(currentFilePath: string | null, graphData: G
     });
 
     imports.forEach((imp) => {
-      // NPM 모듈 처리 (from이 상대경로, 절대경로, alias가 아닌 경우)
-      const isNpmModule = !imp.from.startsWith('.') && !imp.from.startsWith('/') && !imp.from.startsWith('@/');
+      // 로컬 파일: resolvePath로 정확한 경로 해석 (tsconfig paths / vite alias 포함)
+      const resolvedPath = resolvePath(node.filePath, imp.from, resolveFiles);
+
+      // NPM 모듈 처리 (로컬 파일로 해석되지 않고, 상대/절대 경로도 아닌 경우)
+      const isNpmModule = !resolvedPath && !imp.from.startsWith('.') && !imp.from.startsWith('/');
 
       if (isNpmModule) {
         // NPM 모듈
@@ -150,18 +176,17 @@ export function analyzeDependencies(currentFilePath: string | null, graphData: G
           });
         }
       } else {
-        // 로컬 파일: resolvePath로 정확한 경로 해석
-        const resolvedPath = resolvePath(node.filePath, imp.from, files);
-
         if (resolvedPath) {
           const depNode = graphData.nodes.find((n) => n.filePath === resolvedPath);
 
           if (depNode) {
             const depPath = depNode.filePath;
 
-            // 의존성 그래프 구축
-            adjacencyList.get(node.filePath)?.add(depPath);
-            indegree.set(depPath, (indegree.get(depPath) || 0) + 1);
+            // 의존성 그래프 구축 (같은 파일에서 여러 이름을 import해도 edge는 1개)
+            if (!adjacencyList.get(node.filePath)?.has(depPath)) {
+              adjacencyList.get(node.filePath)?.add(depPath);
+              indegree.set(depPath, (indegree.get(depPath) || 0) + 1);
+            }
 
             // DependencyItem 추가
             if (!localDeps.has(depPath)) {
@@ -251,6 +276,17 @@ export function analyzeDependencies(currentFilePath: string | null, graphData: G
     }
   }
 
+  // Phase 2.5: 순환에 걸려 정렬되지 않은 파일은 경로순으로 뒤에 추가 + 순환 목록
+  const unsorted = Array.from(indegree.keys())
+    .filter((filePath) => !sorted.includes(filePath))
+    .sort();
+  sorted.push(...unsorted);
+  if (unsorted.length > 0) {
+    results.cycles = findCircularDependencies(graphData, files).filter((cycle) =>
+      cycle.files.some((filePath) => visited.has(filePath))
+    );
+  }
+
   // Phase 3: 정렬된 순서로 결과 생성
   results.localFiles = sorted
     .map((filePath) => localDeps.get(filePath))
@@ -269,12 +305,8 @@ export function analyzeDependencies(currentFilePath: string | null, graphData: G
   graphData.nodes.forEach((node) => {
     const imports = getImports(node);
     imports.forEach((imp) => {
-      // NPM 모듈은 스킵
-      const isNpmModule = !imp.from.startsWith('.') && !imp.from.startsWith('/') && !imp.from.startsWith('@/');
-      if (isNpmModule) return;
-
-      // resolvePath로 정확한 경로 해석
-      const resolvedPath = resolvePath(node.filePath, imp.from, files);
+      // resolvePath로 정확한 경로 해석 (NPM 모듈은 null)
+      const resolvedPath = resolvePath(node.filePath, imp.from, resolveFiles);
 
       if (resolvedPath) {
         if (!reverseGraph.has(resolvedPath)) {
@@ -332,3 +364,245 @@ export function analyzeDependencies(currentFilePath: string | null, graphData: G
 
   return results;
 }
+
+// ============================================================================
+// Circular Dependencies (Tarjan SCC)
+// ============================================================================
+
+/**
+ * graphData 노드로 만든 files (filesAtom이 없을 때, 설정 파일이 없으므로 alias는 기본값만 적용)
+ */
+function getSnippetFiles(graphData: GraphData): Record<string, string> {
+  const files: Record<string, string> = {};
+  graphData.nodes.forEach((node) => {
+    files[node.filePath] = node.codeSnippet || '';
+  });
+  return files;
+}
+
+/**
+ * 파일이 참조하는 module 전체 (import + side-effect import + re-export)
+ * - side-effect import / re-export는 getImports()에 없지만 런타임에 모듈을 평가함
+ * - `export type { A } from`만 type-only
+ */
+function getModuleReferences(node: SourceFileNode): { from: string; isTypeOnly: boolean; line: number }[] {
+  const references = getImports(node).map(({ from, isTypeOnly, line }) => ({ from, isTypeOnly, line }));
+  const sourceFile = node.sourceFile;
+
+  sourceFile?.statements.forEach((statement) => {
+    const isSideEffectImport = ts.isImportDeclaration(statement) && !statement.importClause;
+    if (!isSideEffectImport && !ts.isExportDeclaration(statement)) return;
+    if (!statement.moduleSpecifier || !ts.isStringLiteral(statement.moduleSpecifier)) return;
+
+    const exportClause = ts.isExportDeclaration(statement) ? statement.exportClause : undefined;
+    const isTypeOnly =
+      ts.isExportDeclaration(statement) &&
+      (statement.isTypeOnly ||
+        (!!exportClause &&
+          ts.isNamedExports(exportClause) &&
+          exportClause.elements.length > 0 &&
+          exportClause.elements.every((element) => element.isTypeOnly)));
+
+    references.push({
+      from: statement.moduleSpecifier.text,
+      isTypeOnly,
+      line: sourceFile.getLineAndCharacterOfPosition(statement.getStart()).line + 1,
+    });
+  });
+
+  return references;
+}
+
+/**
+ * 프로젝트 전체 import 그래프 (파일 → 파일, type-only 여부 포함)
+ */
+function buildImportGraph(graphData: GraphData, files?: Record<string, string>): Map<string, Map<string, ImportEdge>> {
+  const resolveFiles = files ?? getSnippetFiles(graphData);
+
+  const graph = new Map<string, Map<string, ImportEdge>>();
+  graphData.nodes.forEach((node) => {
+    if (node.type !== 'file') return;
+    const edges = new Map<string, ImportEdge>();
+
+    getModuleReferences(node).forEach((imp) => {
+      const resolvedPath = resolvePath(node.filePath, imp.from, resolveFiles);
+      if (!resolvedPath) return;
+
+      const existing = edges.get(resolvedPath);
+      if (existing) {
+        existing.isTypeOnly = existing.isTypeOnly && imp.isTypeOnly;
+        existing.line = Math.min(existing.line, imp.line);
+      } else {
+        edges.set(resolvedPath, { from: node.filePath, to: resolvedPath, isTypeOnly: imp.isTypeOnly, line: imp.line });
+      }
+    });
+
+    graph.set(node.filePath, edges);
+  });
+
+  return graph;
+}
+
+/**
+ * Tarjan SCC (반복문 버전 - 깊은 import 체인에서도 스택 오버플로 없음)
+ * - 크기 2 이상 또는 자기 자신을 import하는 SCC만 반환
+ */
+function findStronglyConnectedComponents(
+  graph: Map<string, Map<string, ImportEdge>>,
+  includeEdge: (edge: ImportEdge) => boolean
+): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  const successors = (filePath: string) =>
+    Array.from(graph.get(filePath)?.values() ?? [])
+      .filter((edge) => includeEdge(edge) && graph.has(edge.to))
+      .map((edge) => edge.to);
+
+  Array.from(graph.keys())
+    .sort()
+    .forEach((start) => {
+      if (index.has(start)) return;
+
+      const work: { filePath: string; next: string[] }[] = [];
+      const open = (filePath: string) => {
+        index.set(filePath, counter);
+        lowLink.set(filePath, counter);
+        counter++;
+        stack.push(filePath);
+        onStack.add(filePath);
+        work.push({ filePath, next: successors(filePath) });
+      };
+      open(start);
+
+      while (work.length > 0) {
+        const frame = work[work.length - 1];
+        const next = frame.next.shift();
+
+        if (next !== undefined) {
+          if (!index.has(next)) {
+            open(next);
+          } else if (onStack.has(next)) {
+            lowLink.set(frame.filePath, Math.min(lowLink.get(frame.filePath)!, index.get(next)!));
+          }
+          continue;
+        }
+
+        work.pop();
+        const parent = work[work.length - 1];
+        if (parent) {
+          lowLink.set(parent.filePath, Math.min(lowLink.get(parent.filePath)!, lowLink.get(frame.filePath)!));
+        }
+
+        if (lowLink.get(frame.filePath) === index.get(frame.filePath)) {
+          const component: string[] = [];
+          let member: string;
+          do {
+            member = stack.pop()!;
+            onStack.delete(member);
+            component.push(member);
+          } while (member !== frame.filePath);
+
+          const isSelfImport =
+            component.length === 1 && graph.get(member)?.has(member) && includeEdge(graph.get(member)!.get(member)!);
+          if (component.length > 1 || isSelfImport) components.push(component.sort());
+        }
+      }
+    });
+
+  return components;
+}
+
+/**
+ * SCC 안에서 가장 짧은 순환 (각 멤버에서 BFS → 자기 자신으로 돌아오는 최단 경로)
+ * - 길이가 같으면 경로순으로 앞선 시작 파일
+ */
+function findShortestCycle(
+  members: Set<string>,
+  graph: Map<string, Map<string, ImportEdge>>,
+  includeEdge: (edge: ImportEdge) => boolean
+): string[] {
+  let shortest: string[] = [];
+
+  Array.from(members)
+    .sort()
+    .forEach((start) => {
+      const previous = new Map<string, string>();
+      const queue = [start];
+
+      for (let head = 0; head < queue.length; head++) {
+        const current = queue[head];
+        for (const edge of graph.get(current)?.values() ?? []) {
+          if (!members.has(edge.to) || !includeEdge(edge)) continue;
+
+          if (edge.to === start) {
+            const path = [current];
+            while (path[0] !== start) path.unshift(previous.get(path[0])!);
+            if (shortest.length === 0 || path.length < shortest.length) shortest = path;
+            return;
+          }
+          if (!previous.has(edge.to) && edge.to !== start) {
+            previous.set(edge.to, current);
+            queue.push(edge.to);
+          }
+        }
+      }
+    });
+
+  return shortest;
+}
+
+/**
+ * import 그래프의 모든 순환 의존성 (SCC 단위)
+ * - runtime: 값 import만으로도 순환 (모듈 초기화 순서 문제 가능) → 대표 경로도 값 import로만
+ * - type: type-only import를 제외하면 끊어지는 순환 (런타임 영향 없음)
+ * - side-effect import (`import './x'`), re-export (`export * from`)도 runtime edge
+ * @param files - 전체 파일 (filesAtom, tsconfig / vite alias 해석용), 없으면 노드 codeSnippet으로 대체
+ */
+export function findCircularDependencies(
+  graphData: GraphData | null,
+  files?: Record<string, string>
+): CircularDependency[] {
+  if (!graphData) return [];
+
+  const graph = buildImportGraph(graphData, files);
+  const isRuntimeEdge = (edge: ImportEdge) => !edge.isTypeOnly;
+  const anyEdge = () => true;
+
+  // 값 import만으로 이루어진 SCC → 파일별 소속
+  const runtimeComponentOf = new Map<string, Set<string>>();
+  findStronglyConnectedComponents(graph, isRuntimeEdge).forEach((component) => {
+    const members = new Set(component);
+    component.forEach((filePath) => {
+      runtimeComponentOf.set(filePath, members);
+    });
+  });
+
+  return findStronglyConnectedComponents(graph, anyEdge)
+    .map((files) => {
+      const members = new Set(files);
+      const edges = files.flatMap((filePath) =>
+        Array.from(graph.get(filePath)!.values()).filter((edge) => members.has(edge.to))
+      );
+
+      // runtime 순환이 있으면 그중 대표 경로 (SCC 안에 runtime SCC가 여러 개면 가장 짧은 것)
+      const runtimeComponents = new Set(
+        files.map((filePath) => runtimeComponentOf.get(filePath)).filter((c): c is Set<string> => !!c)
+      );
+      const kind: CircularDependency['kind'] = runtimeComponents.size > 0 ? 'runtime' : 'type';
+      const path =
+        kind === 'runtime'
+          ? Array.from(runtimeComponents)
+              .map((component) => findShortestCycle(component, graph, isRuntimeEdge))
+              .reduce((best, candidate) => (best.length === 0 || candidate.length < best.length ? candidate : best), [])
+          : findShortestCycle(members, graph, anyEdge);
+
+      const closingEdge = graph.get(path[path.length - 1])!.get(path[0])!;
+      return { files, path, kind, edges, closingEdge };
+    })
+    .sort((a, b) => (a.kind === b.kind ? a.path.length - b.path.length : a.kind === 'runtime' ? -1 : 1));
+}
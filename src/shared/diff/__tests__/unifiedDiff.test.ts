@@ -0,0 +1,211 @@
+/**
+ * Unified diff 테스트
+ *
+ * git diff / diff -u 형식 패치를 파싱해 적용했을 때 `git apply`와 같은 결과를 내는지,
+ * createUnifiedDiff로 내보낸 패치를 다시 적용하면 수정 후 내용이 되는지 확인
+ */
+
+import { describe, expect, it } from 'vitest';
+import { applyFilePatch, createUnifiedDiff, parseUnifiedDiff } from '../unifiedDiff';
+
+const ORIGINAL = `${['line 1', 'line 2', 'line 3', 'line 4', 'line 5', 'line 6', 'line 7', 'line 8'].join('\n')}\n`;
+
+describe('Unified diff - 파싱', () => {
+  it('git diff 헤더 / hunk 라인 수', () => {
+    const [patch] = parseUnifiedDiff(
+      [
+        'diff --git a/src/a.ts b/src/a.ts',
+        'index 1111111..2222222 100644',
+        '--- a/src/a.ts',
+        '+++ b/src/a.ts',
+        '@@ -1,2 +1,2 @@ function a() {',
+        '-old',
+        '+new',
+        ' same',
+      ].join('\n')
+    );
+
+    expect(patch.oldPath).toBe('src/a.ts');
+    expect(patch.newPath).toBe('src/a.ts');
+    expect(patch.hunks).toHaveLength(1);
+    expect(patch.hunks[0]).toMatchObject({ oldStart: 1, oldLines: 2, newStart: 1, newLines: 2 });
+    expect(patch.hunks[0].lines).toEqual(['-old', '+new', ' same']);
+  });
+
+  it('새 파일 / 삭제 / rename / diff -u 여러 파일', () => {
+    const patches = parseUnifiedDiff(
+      [
+        'diff --git a/new.ts b/new.ts',
+        'new file mode 100644',
+        '--- /dev/null',
+        '+++ b/new.ts',
+        '@@ -0,0 +1 @@',
+        '+created',
+        'diff --git a/old.ts b/old.ts',
+        'deleted file mode 100644',
+        '--- a/old.ts',
+        '+++ /dev/null',
+        '@@ -1 +0,0 @@',
+        '-removed',
+        '--- x.txt\t2024-01-01 00:00:00',
+        '+++ x.txt\t2024-01-02 00:00:00',
+        '@@ -1 +1 @@',
+        '-x',
+        '+y',
+        'diff --git a/from.ts b/to.ts',
+        'similarity index 100%',
+        'rename from from.ts',
+        'rename to to.ts',
+      ].join('\n')
+    );
+
+    expect(patches.map(({ oldPath, newPath }) => [oldPath, newPath])).toEqual([
+      [null, 'new.ts'],
+      ['old.ts', null],
+      ['x.txt', 'x.txt'],
+      ['from.ts', 'to.ts'],
+    ]);
+    expect(patches[3].hunks).toEqual([]);
+  });
+
+  it("hunk 안에서 '---'로 시작하는 라인은 내용", () => {
+    const [patch] = parseUnifiedDiff(
+      ['--- a/a.md', '+++ b/a.md', '@@ -1,2 +1,2 @@', '--- old rule', '+--- new rule', ' end'].join('\n')
+    );
+
+    expect(patch.hunks[0].lines).toEqual(['--- old rule', '+--- new rule', ' end']);
+  });
+});
+
+describe('Unified diff - 적용', () => {
+  it('hunk 적용 + 추가 / 삭제 라인 위치', () => {
+    const [patch] = parseUnifiedDiff(
+      ['--- a/f.txt', '+++ b/f.txt', '@@ -2,3 +2,3 @@', ' line 2', '-line 3', '+line three', ' line 4'].join('\n')
+    );
+    const result = applyFilePatch(ORIGINAL, patch);
+
+    expect(result.content).toBe(ORIGINAL.replace('line 3', 'line three'));
+    expect(result.hunks).toEqual([{ header: '@@ -2,3 +2,3 @@', status: 'applied', offset: 0 }]);
+    expect(result.addedLines).toEqual([3]);
+    expect(result.removedLines).toEqual(new Map([[3, ['line 3']]]));
+  });
+
+  it('헤더 라인 번호가 어긋나면 가까운 context를 찾아 offset 보고', () => {
+    const [patch] = parseUnifiedDiff(
+      ['--- a/f.txt', '+++ b/f.txt', '@@ -1,3 +1,2 @@', ' line 5', '-line 6', ' line 7'].join('\n')
+    );
+    const result = applyFilePatch(ORIGINAL, patch);
+
+    expect(result.content).toBe(ORIGINAL.replace('line 6\n', ''));
+    expect(result.hunks[0]).toMatchObject({ status: 'applied', offset: 4 });
+  });
+
+  it('context가 맞지 않는 hunk만 실패, 나머지는 적용', () => {
+    const [patch] = parseUnifiedDiff(
+      [
+        '--- a/f.txt',
+        '+++ b/f.txt',
+        '@@ -1,2 +1,2 @@',
+        ' line 1',
+        '-missing',
+        '+replaced',
+        '@@ -7,2 +7,3 @@',
+        ' line 7',
+        '+line 7.5',
+        ' line 8',
+      ].join('\n')
+    );
+    const result = applyFilePatch(ORIGINAL, patch);
+
+    expect(result.hunks.map((hunk) => hunk.status)).toEqual(['failed', 'applied']);
+    expect(result.content).toBe(ORIGINAL.replace('line 7\n', 'line 7\nline 7.5\n'));
+  });
+
+  it('새 파일 생성 / 파일 삭제', () => {
+    const [created, deleted] = parseUnifiedDiff(
+      [
+        '--- /dev/null',
+        '+++ b/new.txt',
+        '@@ -0,0 +1,2 @@',
+        '+a',
+        '+b',
+        '--- a/old.txt',
+        '+++ /dev/null',
+        '@@ -1,2 +0,0 @@',
+        '-a',
+        '-b',
+      ].join('\n')
+    );
+
+    expect(applyFilePatch(null, created).content).toBe('a\nb\n');
+    expect(applyFilePatch('a\nb\n', deleted).content).toBeNull();
+  });
+
+  it('CRLF 원본은 CRLF 유지 + No newline at end of file', () => {
+    const [patch] = parseUnifiedDiff(
+      ['--- a/f.txt', '+++ b/f.txt', '@@ -1,2 +1,2 @@', ' a', '-b', '+c', '\\ No newline at end of file'].join('\n')
+    );
+
+    expect(applyFilePatch('a\r\nb\r\n', patch).content).toBe('a\r\nc');
+  });
+});
+
+describe('Unified diff - 내보내기', () => {
+  const roundTrip = (before: string, after: string) => {
+    const [patch] = parseUnifiedDiff(createUnifiedDiff('f.txt', before, after));
+    return applyFilePatch(before, patch).content;
+  };
+
+  it('변경 라인 + context 3줄 hunk', () => {
+    const updated = ORIGINAL.replace('line 4', 'line four');
+
+    expect(createUnifiedDiff('src/f.txt', ORIGINAL, updated)).toBe(
+      [
+        'diff --git a/src/f.txt b/src/f.txt',
+        '--- a/src/f.txt',
+        '+++ b/src/f.txt',
+        '@@ -1,7 +1,7 @@',
+        ' line 1',
+        ' line 2',
+        ' line 3',
+        '-line 4',
+        '+line four',
+        ' line 5',
+        ' line 6',
+        ' line 7',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('변경이 없으면 빈 문자열', () => {
+    expect(createUnifiedDiff('f.txt', ORIGINAL, ORIGINAL)).toBe('');
+  });
+
+  it('떨어진 변경은 hunk 분리, 가까운 변경은 병합', () => {
+    const lines = Array.from({ length: 20 }, (_, index) => `line ${index + 1}`);
+    const before = `${lines.join('\n')}\n`;
+    const far = before.replace('line 2\n', 'line two\n').replace('line 18\n', 'line eighteen\n');
+    const near = before.replace('line 2\n', 'line two\n').replace('line 6\n', 'line six\n');
+
+    expect(parseUnifiedDiff(createUnifiedDiff('f.txt', before, far))[0].hunks).toHaveLength(2);
+    expect(parseUnifiedDiff(createUnifiedDiff('f.txt', before, near))[0].hunks).toHaveLength(1);
+    expect(roundTrip(before, far)).toBe(far);
+  });
+
+  it('파일 끝 줄바꿈 추가 / 제거', () => {
+    const diff = createUnifiedDiff('f.txt', 'a\nb', 'a\nb\n');
+
+    expect(diff).toContain('-b\n\\ No newline at end of file\n+b\n');
+    expect(roundTrip('a\nb', 'a\nb\n')).toBe('a\nb\n');
+    expect(roundTrip('a\nb\n', 'a\nb')).toBe('a\nb');
+  });
+
+  it('라인 추가 / 삭제만 있는 패치도 왕복', () => {
+    expect(roundTrip(ORIGINAL, `line 0\n${ORIGINAL}line 9\n`)).toBe(`line 0\n${ORIGINAL}line 9\n`);
+    expect(roundTrip(ORIGINAL, ORIGINAL.replace('line 1\nline 2\n', ''))).toBe(
+      ORIGINAL.replace('line 1\nline 2\n', '')
+    );
+    expect(roundTrip('', 'only\n')).toBe('only\n');
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * 라인 단위 diff (Myers O(ND))
+ * - 공통 prefix / suffix를 먼저 잘라내므로 작은 수정은 파일 크기와 상관없이 빠름
+ */
+
+export interface LineDiffOp {
+  type: 'equal' | 'delete' | 'insert';
+  oldIndex: number; // 0-based (insert: 삽입 위치)
+  newIndex: number; // 0-based (delete: 삭제 위치)
+  line: string;
+}
+
+export function diffLines(oldLines: string[], newLines: string[]): LineDiffOp[] {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) prefix++;
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+  const ops: LineDiffOp[] = [];
+
+  for (let i = 0; i < prefix; i++) ops.push({ type: 'equal', oldIndex: i, newIndex: i, line: oldLines[i] });
+  myers(a, b).forEach((op) => {
+    ops.push({ ...op, oldIndex: op.oldIndex + prefix, newIndex: op.newIndex + prefix });
+  });
+  for (let i = 0; i < suffix; i++) {
+    const oldIndex = oldLines.length - suffix + i;
+    ops.push({ type: 'equal', oldIndex, newIndex: newLines.length - suffix + i, line: oldLines[oldIndex] });
+  }
+
+  return ops;
+}
+
+function myers(a: string[], b: string[]): LineDiffOp[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  // 각 d 단계 시작 시점의 v 저장 → 역추적
+  search: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) break search;
+    }
+  }
+
+  const ops: LineDiffOp[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const previous = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && previous[offset + k - 1] < previous[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = previous[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      ops.push({ type: 'equal', oldIndex: x, newIndex: y, line: a[x] });
+    }
+    if (d === 0) break;
+
+    if (x === prevX) {
+      y--;
+      ops.push({ type: 'insert', oldIndex: x, newIndex: y, line: b[y] });
+    } else {
+      x--;
+      ops.push({ type: 'delete', oldIndex: x, newIndex: y, line: a[x] });
+    }
+  }
+
+  return ops.reverse();
+}
@@ -0,0 +1,287 @@
+/**
+ * Unified diff 파서 / 적용기 (git diff, diff -u, AI가 생성한 패치)
+ *
+ * - 파일 헤더: `diff --git`, `--- a/path`, `+++ b/path` (/dev/null = 추가 / 삭제, rename 포함)
+ * - hunk 위치는 헤더 라인 번호에서 시작해 위아래로 context를 찾음 (앞 hunk 적용으로 생긴 offset 반영)
+ * - context가 맞지 않는 hunk는 건너뛰고 실패로 보고 (나머지 hunk는 적용)
+ * - createUnifiedDiff: 수정 전 / 후 내용 → `git apply` 가능한 패치
+ */
+
+import { diffLines } from './lineDiff';
+
+export interface DiffHunk {
+  header: string; // '@@ -1,3 +1,4 @@ ...'
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[]; // ' ' / '-' / '+' prefix 포함 ('\ No newline' 마커 제외)
+  oldNoNewlineAtEnd: boolean;
+  newNoNewlineAtEnd: boolean;
+}
+
+export interface FilePatch {
+  oldPath: string | null; // null: 새 파일 (/dev/null)
+  newPath: string | null; // null: 삭제된 파일
+  hunks: DiffHunk[];
+}
+
+export interface HunkResult {
+  header: string;
+  status: 'applied' | 'failed';
+  offset: number; // 헤더 위치와 실제 적용 위치의 차이 (라인)
+  message?: string;
+}
+
+export interface FilePatchResult {
+  content: string | null; // null: 파일 삭제
+  hunks: HunkResult[];
+  addedLines: number[]; // 결과 파일 기준 1-based
+  removedLines: Map<number, string[]>; // 결과 파일 라인 번호 → 그 라인 앞에서 삭제된 원본 라인들
+}
+
+const HUNK_HEADER_PATTERN = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * '--- a/src/x.ts\t2024-01-01' → 'src/x.ts', '/dev/null' → null
+ */
+function parseHeaderPath(value: string): string | null {
+  let path = value.split('\t')[0].trim();
+  if (path.startsWith('"') && path.endsWith('"')) path = path.slice(1, -1);
+  if (path === '/dev/null') return null;
+  return path.replace(/^[ab]\//, '');
+}
+
+export function parseUnifiedDiff(text: string): FilePatch[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const patches: FilePatch[] = [];
+  let current: FilePatch | null = null;
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.startsWith('diff --git ')) {
+      const match = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+      current = { oldPath: match?.[1] ?? null, newPath: match?.[2] ?? null, hunks: [] };
+      patches.push(current);
+      i++;
+      continue;
+    }
+
+    // git 확장 헤더 (rename / 새 파일 / 삭제 모드)
+    if (current && current.hunks.length === 0) {
+      if (line.startsWith('rename from ')) current.oldPath = line.slice('rename from '.length);
+      else if (line.startsWith('rename to ')) current.newPath = line.slice('rename to '.length);
+      else if (line.startsWith('new file mode')) current.oldPath = null;
+      else if (line.startsWith('deleted file mode')) current.newPath = null;
+    }
+
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      const oldPath = parseHeaderPath(line.slice(4));
+      const newPath = parseHeaderPath(lines[i + 1].slice(4));
+      // diff --git 헤더 직후면 같은 파일, 아니면 (diff -u) 새 파일 항목
+      if (!current || current.hunks.length > 0) {
+        current = { oldPath, newPath, hunks: [] };
+        patches.push(current);
+      } else {
+        current.oldPath = oldPath;
+        current.newPath = newPath;
+      }
+      i += 2;
+      continue;
+    }
+
+    const header = line.match(HUNK_HEADER_PATTERN);
+    if (header && current) {
+      const hunk: DiffHunk = {
+        header: line,
+        oldStart: Number(header[1]),
+        oldLines: header[2] === undefined ? 1 : Number(header[2]),
+        newStart: Number(header[3]),
+        newLines: header[4] === undefined ? 1 : Number(header[4]),
+        lines: [],
+        oldNoNewlineAtEnd: false,
+        newNoNewlineAtEnd: false,
+      };
+      i++;
+
+      // 헤더의 라인 수만큼 읽음 (내용이 '---'로 시작해도 hunk 안이면 내용)
+      let oldCount = 0;
+      let newCount = 0;
+      while (i < lines.length && (oldCount < hunk.oldLines || newCount < hunk.newLines || lines[i].startsWith('\\'))) {
+        const hunkLine = lines[i];
+        if (hunkLine.startsWith('\\')) {
+          const prev = hunk.lines[hunk.lines.length - 1]?.[0];
+          if (prev !== '+') hunk.oldNoNewlineAtEnd = true;
+          if (prev !== '-') hunk.newNoNewlineAtEnd = true;
+        } else {
+          // 빈 줄은 편집기가 공백 context를 지운 경우
+          const prefix = hunkLine[0] ?? ' ';
+          if (prefix !== ' ' && prefix !== '-' && prefix !== '+') break;
+          hunk.lines.push(hunkLine.length === 0 ? ' ' : hunkLine);
+          if (prefix !== '+') oldCount++;
+          if (prefix !== '-') newCount++;
+        }
+        i++;
+      }
+
+      current.hunks.push(hunk);
+      continue;
+    }
+
+    i++;
+  }
+
+  return patches.filter((patch) => patch.hunks.length > 0 || patch.oldPath !== patch.newPath);
+}
+
+const matchesAt = (lines: string[], expected: string[], index: number, loose: boolean) =>
+  expected.every((line, offset) => {
+    const actual = lines[index + offset];
+    if (actual === undefined) return false;
+    return loose ? actual.trimEnd() === line.trimEnd() : actual === line;
+  });
+
+/**
+ * expected 위치에서 가까운 순서로 context 검색 (min 이전으로는 가지 않음)
+ */
+function findHunkPosition(lines: string[], oldSide: string[], expected: number, min: number): number {
+  for (const loose of [false, true]) {
+    const maxDistance = Math.max(expected - min, lines.length - expected);
+    for (let distance = 0; distance <= maxDistance; distance++) {
+      for (const index of distance === 0 ? [expected] : [expected - distance, expected + distance]) {
+        if (index < min || index + oldSide.length > lines.length) continue;
+        if (matchesAt(lines, oldSide, index, loose)) return index;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * 파일 하나에 hunk 적용 (original null: 새 파일)
+ */
+export function applyFilePatch(original: string | null, patch: FilePatch): FilePatchResult {
+  const eol = original?.includes('\r\n') ? '\r\n' : '\n'; // 원본 줄바꿈 유지
+  const normalized = original?.replace(/\r\n/g, '\n') ?? '';
+  const lines = normalized === '' ? [] : normalized.split('\n');
+  let trailingNewline = normalized === '' || normalized.endsWith('\n');
+  if (trailingNewline && lines[lines.length - 1] === '') lines.pop();
+
+  const hunkResults: HunkResult[] = [];
+  const addedLines: number[] = [];
+  const removedLines = new Map<number, string[]>();
+  let delta = 0; // 적용된 hunk로 인한 라인 수 변화
+  let minIndex = 0; // 다음 hunk는 이전 hunk 뒤에서만 검색
+
+  patch.hunks.forEach((hunk) => {
+    const oldSide = hunk.lines.filter((line) => line[0] !== '+').map((line) => line.slice(1));
+    const newSide = hunk.lines.filter((line) => line[0] !== '-').map((line) => line.slice(1));
+    // oldLines가 0이면 oldStart 라인 "뒤"에 삽입
+    const expected = Math.max(0, (hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1) + delta);
+    const index = findHunkPosition(lines, oldSide, Math.min(expected, lines.length), minIndex);
+
+    if (index < 0) {
+      hunkResults.push({ header: hunk.header, status: 'failed', offset: 0, message: 'Context does not match' });
+      return;
+    }
+
+    // 결과 라인 번호 기록 (이후 hunk는 더 뒤에만 적용되므로 앞의 번호는 바뀌지 않음)
+    let cursor = index;
+    let pendingRemoved: string[] = [];
+    const flushRemoved = () => {
+      if (pendingRemoved.length === 0) return;
+      removedLines.set(cursor + 1, [...(removedLines.get(cursor + 1) ?? []), ...pendingRemoved]);
+      pendingRemoved = [];
+    };
+    hunk.lines.forEach((line) => {
+      if (line[0] === '-') {
+        pendingRemoved.push(line.slice(1));
+        return;
+      }
+      flushRemoved();
+      if (line[0] === '+') addedLines.push(cursor + 1);
+      cursor++;
+    });
+    flushRemoved();
+
+    lines.splice(index, oldSide.length, ...newSide);
+    hunkResults.push({ header: hunk.header, status: 'applied', offset: index - expected });
+    delta += newSide.length - oldSide.length;
+    minIndex = index + newSide.length;
+
+    // 파일 끝을 건드린 hunk의 '\ No newline at end of file'
+    if (index + newSide.length === lines.length) {
+      if (hunk.newNoNewlineAtEnd) trailingNewline = false;
+      else if (hunk.oldNoNewlineAtEnd) trailingNewline = true;
+    }
+  });
+
+  const content = lines.length > 0 ? lines.join(eol) + (trailingNewline ? eol : '') : '';
+  return {
+    content: patch.newPath === null && content === '' ? null : content,
+    hunks: hunkResults,
+    addedLines,
+    removedLines,
+  };
+}
+
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+function splitContentLines(content: string): { lines: string[]; noNewlineAtEnd: boolean } {
+  const lines = content.replace(/\r\n/g, '\n').split('\n');
+  const noNewlineAtEnd = content !== '' && !content.endsWith('\n');
+  if (!noNewlineAtEnd) lines.pop();
+  return { lines, noNewlineAtEnd };
+}
+
+/**
+ * 수정 전 / 후 내용 → unified diff (변경 없으면 빈 문자열)
+ * @param path - 패치에 적을 경로 (a/ b/ prefix 없이)
+ */
+export function createUnifiedDiff(path: string, oldContent: string, newContent: string, context = 3): string {
+  const before = splitContentLines(oldContent);
+  const after = splitContentLines(newContent);
+
+  // 마지막 줄바꿈 유무도 차이로 비교
+  const toKeys = ({ lines, noNewlineAtEnd }: typeof before) =>
+    noNewlineAtEnd ? [...lines.slice(0, -1), `${lines[lines.length - 1]}\0`] : lines;
+  const ops = diffLines(toKeys(before), toKeys(after));
+
+  // 변경 라인 주변 context를 합쳐 hunk 범위 (ops 인덱스) 계산
+  const ranges: Array<[number, number]> = [];
+  ops.forEach((op, index) => {
+    if (op.type === 'equal') return;
+    const start = Math.max(0, index - context);
+    const end = Math.min(ops.length, index + context + 1);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else ranges.push([start, end]);
+  });
+  if (ranges.length === 0) return '';
+
+  const output = [`diff --git a/${path} b/${path}`, `--- a/${path}`, `+++ b/${path}`];
+
+  ranges.forEach(([start, end]) => {
+    const hunkOps = ops.slice(start, end);
+    const oldCount = hunkOps.filter((op) => op.type !== 'insert').length;
+    const newCount = hunkOps.filter((op) => op.type !== 'delete').length;
+    // 라인 수가 0이면 시작 번호는 "그 앞 라인"
+    const oldStart = oldCount === 0 ? hunkOps[0].oldIndex : hunkOps[0].oldIndex + 1;
+    const newStart = newCount === 0 ? hunkOps[0].newIndex : hunkOps[0].newIndex + 1;
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+
+    hunkOps.forEach((op) => {
+      const prefix = op.type === 'equal' ? ' ' : op.type === 'delete' ? '-' : '+';
+      const line = op.type === 'insert' ? after.lines[op.newIndex] : before.lines[op.oldIndex];
+      output.push(`${prefix}${line}`);
+
+      const isLastOld = op.type !== 'insert' && op.oldIndex === before.lines.length - 1 && before.noNewlineAtEnd;
+      const isLastNew = op.type !== 'delete' && op.newIndex === after.lines.length - 1 && after.noNewlineAtEnd;
+      if (isLastOld || isLastNew) output.push(NO_NEWLINE_MARKER);
+    });
+  });
+
+  return `${output.join('\n')}\n`;
+}
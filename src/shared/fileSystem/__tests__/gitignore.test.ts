@@ -0,0 +1,99 @@
+/**
+ * .gitignore 매칭 테스트
+ *
+ * 중첩 .gitignore, negation, 디렉토리 전용 패턴이 git과 같은 결과를 내는지 확인
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createIgnoreMatcher, isGitignoreFile, parseGitignore } from '../gitignore';
+
+describe('.gitignore - 패턴 문법', () => {
+  it('슬래시 없는 패턴은 모든 깊이에 매칭', () => {
+    const matcher = createIgnoreMatcher({ '.gitignore': '*.log' });
+
+    expect(matcher.isIgnored('debug.log')).toBe(true);
+    expect(matcher.isIgnored('src/deep/error.log')).toBe(true);
+    expect(matcher.isIgnored('src/app.ts')).toBe(false);
+  });
+
+  it('슬래시가 있는 패턴은 .gitignore 위치 기준', () => {
+    const matcher = createIgnoreMatcher({ '.gitignore': '/build\ndocs/*.md' });
+
+    expect(matcher.isIgnored('build/index.js')).toBe(true);
+    expect(matcher.isIgnored('src/build/index.js')).toBe(false);
+    expect(matcher.isIgnored('docs/README.md')).toBe(true);
+    expect(matcher.isIgnored('docs/guide/intro.md')).toBe(false);
+  });
+
+  it('** 는 0개 이상의 폴더', () => {
+    const matcher = createIgnoreMatcher({ '.gitignore': 'src/**/generated\nlogs/**' });
+
+    expect(matcher.isIgnored('src/generated/a.ts')).toBe(true);
+    expect(matcher.isIgnored('src/a/b/generated/a.ts')).toBe(true);
+    expect(matcher.isIgnored('logs/2024/01.txt')).toBe(true);
+    expect(matcher.isIgnored('logs')).toBe(false);
+  });
+
+  it('trailing / 는 디렉토리에만 매칭', () => {
+    const matcher = createIgnoreMatcher({ '.gitignore': 'cache/' });
+
+    expect(matcher.isIgnored('cache', true)).toBe(true);
+    expect(matcher.isIgnored('cache')).toBe(false);
+    expect(matcher.isIgnored('src/cache/data.json')).toBe(true);
+  });
+
+  it('주석 / 빈 줄 / 이스케이프', () => {
+    const rules = parseGitignore('# comment\n\n\\#hash\n\\!bang\n  \n');
+
+    expect(rules).toHaveLength(2);
+    expect(rules.every((rule) => !rule.negated)).toBe(true);
+
+    const matcher = createIgnoreMatcher({ '.gitignore': '# comment\n\\#hash\n\\!bang' });
+    expect(matcher.isIgnored('#hash')).toBe(true);
+    expect(matcher.isIgnored('!bang')).toBe(true);
+    expect(matcher.isIgnored('comment')).toBe(false);
+  });
+});
+
+describe('.gitignore - 우선순위', () => {
+  it('negation은 앞의 규칙을 되돌림 (마지막 규칙 우선)', () => {
+    const matcher = createIgnoreMatcher({ '.gitignore': '*.env\n!example.env' });
+
+    expect(matcher.isIgnored('prod.env')).toBe(true);
+    expect(matcher.isIgnored('example.env')).toBe(false);
+  });
+
+  it('상위 폴더가 ignore되면 negation으로 다시 포함할 수 없음', () => {
+    const matcher = createIgnoreMatcher({ '.gitignore': 'dist/\n!dist/keep.js' });
+
+    expect(matcher.isIgnored('dist/keep.js')).toBe(true);
+  });
+
+  it('하위 .gitignore는 자기 폴더 기준 + 상위 규칙보다 우선', () => {
+    const matcher = createIgnoreMatcher({
+      'repo/.gitignore': '*.tmp',
+      'repo/packages/a/.gitignore': '/out\n!keep.tmp',
+    });
+
+    expect(matcher.isIgnored('repo/x.tmp')).toBe(true);
+    expect(matcher.isIgnored('repo/packages/a/keep.tmp')).toBe(false);
+    expect(matcher.isIgnored('repo/packages/a/out/main.js')).toBe(true);
+    expect(matcher.isIgnored('repo/out/main.js')).toBe(false);
+  });
+
+  it('extraPatterns는 루트 규칙처럼 모든 폴더에 적용', () => {
+    const matcher = createIgnoreMatcher({ 'repo/.gitignore': '!node_modules/' }, ['node_modules/']);
+
+    expect(matcher.isIgnored('node_modules', true)).toBe(true);
+    expect(matcher.isIgnored('repo/node_modules/react/index.js')).toBe(false);
+    expect(matcher.isIgnored('other/node_modules/react/index.js')).toBe(true);
+  });
+});
+
+describe('.gitignore - 파일 판별', () => {
+  it('경로 끝이 .gitignore인 파일만', () => {
+    expect(isGitignoreFile('.gitignore')).toBe(true);
+    expect(isGitignoreFile('repo/packages/.gitignore')).toBe(true);
+    expect(isGitignoreFile('repo/my.gitignore')).toBe(false);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * .gitignore 매칭
+ * - 중첩 .gitignore (각 파일의 폴더 기준 상대 경로), negation (!), 디렉토리 전용 패턴 (trailing /)
+ * - 같은 경로에 여러 규칙이 맞으면 마지막 규칙 우선 (상위 → 하위 .gitignore 순서)
+ * - 상위 폴더가 ignore되면 하위 파일은 negation으로 다시 포함할 수 없음 (git과 동일)
+ */
+
+interface IgnoreRule {
+  baseDir: string; // '' = 루트 (경로 prefix, trailing / 없음)
+  regex: RegExp;
+  negated: boolean;
+  dirOnly: boolean;
+}
+
+export interface IgnoreMatcher {
+  isIgnored: (path: string, isDirectory?: boolean) => boolean;
+}
+
+export function isGitignoreFile(path: string): boolean {
+  return path === '.gitignore' || path.endsWith('/.gitignore');
+}
+
+/**
+ * glob 패턴 → 정규식 (baseDir 기준 상대 경로에 매칭)
+ */
+function globToRegExp(pattern: string, anchored: boolean): RegExp {
+  let source = '';
+  let i = 0;
+
+  while (i < pattern.length) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // '**/' → 0개 이상의 폴더, 끝의 '**' → 모든 하위 경로
+        if (pattern[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 3;
+        } else {
+          source += '.*';
+          i += 2;
+        }
+        continue;
+      }
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        source += `[${pattern
+          .slice(i + 1, end)
+          .replace(/^!/, '^')
+          .replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else if (char === '\\' && i + 1 < pattern.length) {
+      source += pattern[i + 1].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+      i++;
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+    i++;
+  }
+
+  // 슬래시 없는 패턴은 모든 깊이의 이름에 매칭
+  return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}$`);
+}
+
+/**
+ * .gitignore 내용 → 규칙 목록
+ */
+export function parseGitignore(content: string, baseDir = ''): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  content.split(/\r?\n/).forEach((rawLine) => {
+    // 이스케이프되지 않은 trailing space 제거
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) return;
+
+    let negated = false;
+    if (line.startsWith('!')) {
+      negated = true;
+      line = line.slice(1);
+    } else if (line.startsWith('\\!') || line.startsWith('\\#')) {
+      line = line.slice(1);
+    }
+
+    let dirOnly = false;
+    if (line.endsWith('/')) {
+      dirOnly = true;
+      line = line.slice(0, -1);
+    }
+    if (!line) return;
+
+    // 시작 / 중간에 슬래시가 있으면 .gitignore 위치 기준 (anchored)
+    const anchored = line.includes('/');
+    if (line.startsWith('/')) line = line.slice(1);
+
+    rules.push({ baseDir, regex: globToRegExp(line, anchored), negated, dirOnly });
+  });
+
+  return rules;
+}
+
+/**
+ * 규칙 목록 → matcher
+ * - gitignoreFiles: .gitignore 경로 → 내용 (예: 'repo/.gitignore', 'repo/packages/a/.gitignore')
+ * - extraPatterns: 기본 ignore 목록 (루트 .gitignore처럼 모든 폴더에 적용)
+ */
+export function createIgnoreMatcher(
+  gitignoreFiles: Record<string, string>,
+  extraPatterns: string[] = []
+): IgnoreMatcher {
+  const rules = parseGitignore(extraPatterns.join('\n'));
+
+  // 상위 폴더의 .gitignore부터 (하위 규칙이 뒤에 와서 우선)
+  Object.keys(gitignoreFiles)
+    .sort((a, b) => a.split('/').length - b.split('/').length)
+    .forEach((gitignorePath) => {
+      const baseDir = gitignorePath.split('/').slice(0, -1).join('/');
+      rules.push(...parseGitignore(gitignoreFiles[gitignorePath], baseDir));
+    });
+
+  const cache = new Map<string, boolean>();
+
+  const matchSelf = (path: string, isDirectory: boolean): boolean => {
+    let ignored = false;
+    rules.forEach((rule) => {
+      if (rule.dirOnly && !isDirectory) return;
+      if (rule.baseDir && !path.startsWith(`${rule.baseDir}/`)) return;
+
+      const relativePath = rule.baseDir ? path.slice(rule.baseDir.length + 1) : path;
+      if (rule.regex.test(relativePath)) ignored = !rule.negated;
+    });
+    return ignored;
+  };
+
+  const isIgnored = (path: string, isDirectory = false): boolean => {
+    const key = `${isDirectory ? 'd' : 'f'}:${path}`;
+    const cached = cache.get(key);
+    if (cached !== undefined) return cached;
+
+    // 상위 폴더가 ignore되면 하위도 ignore
+    const parent = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+    const ignored = (parent !== '' && isIgnored(parent, true)) || matchSelf(path, isDirectory);
+    cache.set(key, ignored);
+    return ignored;
+  };
+
+  return { isIgnored };
+}
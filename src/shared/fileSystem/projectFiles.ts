@@ -0,0 +1,26 @@
+/**
+ * Project file 선별
+ * - Folder 업로드 (webkitdirectory)와 Live Mount (File System Access API)가 공유
+ */
+
+import { isProjectConfigFile } from '@/shared/tsParser/utils/projectConfig';
+import { isSourceFile } from './sourceFiles';
+
+/**
+ * 파싱 대상 파일인지 확인
+ * - .vue, .ts, .tsx, .js, .jsx 소스 + tsconfig/jsconfig/vite.config (path alias 해석용)
+ */
+export function isProjectFile(filePath: string): boolean {
+  return isSourceFile(filePath) || isProjectConfigFile(filePath);
+}
+
+/**
+ * 업로드한 파일 중 처음 열 entry 파일 선택
+ */
+export function pickEntryFile(paths: string[]): string | undefined {
+  return (
+    paths.find((f) => f.includes('Index') || f.includes('index') || f.includes('App') || f.includes('main')) ||
+    paths.find((f) => f.endsWith('.vue') || f.endsWith('.tsx') || f.endsWith('.jsx')) ||
+    paths[0]
+  );
+}
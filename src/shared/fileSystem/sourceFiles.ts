@@ -0,0 +1,9 @@
+/**
+ * 소스 파일 확장자 (typescript 의존 없음 → Worker에서도 가볍게 사용)
+ */
+
+const SOURCE_FILE_PATTERN = /\.(vue|tsx|jsx|ts|js)$/;
+
+export function isSourceFile(filePath: string): boolean {
+  return SOURCE_FILE_PATTERN.test(filePath);
+}
@@ -0,0 +1,191 @@
+/**
+ * 폴더 업로드 필터링
+ * - 기본 ignore 목록 + .gitignore (중첩, negation)
+ * - 파일 크기 / 개수 제한
+ * - 읽기 전에 import 대상 / 제외 목록 계산 (미리보기용) → 확정 후 스트리밍 읽기
+ * - 후보는 경로 + 크기만 사용 (폴더 업로드의 File, zip 항목 모두 지원)
+ */
+
+import { createIgnoreMatcher, type IgnoreMatcher, isGitignoreFile } from './gitignore';
+import { isProjectFile } from './projectFiles';
+
+export interface UploadFilterOptions {
+  ignorePatterns: string[]; // .gitignore 문법 (모든 깊이에 적용)
+  useGitignore: boolean;
+  maxFileSizeKB: number;
+  maxFileCount: number;
+}
+
+export const DEFAULT_UPLOAD_FILTER_OPTIONS: UploadFilterOptions = {
+  ignorePatterns: [
+    'node_modules/',
+    '.git/',
+    'dist/',
+    'build/',
+    'out/',
+    'coverage/',
+    '.next/',
+    '.nuxt/',
+    '.output/',
+    '.turbo/',
+    '*.min.js',
+    '*.bundle.js',
+    '*.chunk.js',
+  ],
+  useGitignore: true,
+  maxFileSizeKB: 512,
+  maxFileCount: 5000,
+};
+
+export type SkipReason = 'ignored' | 'gitignore' | 'too-large' | 'limit';
+
+export interface SkippedFile {
+  path: string;
+  size: number;
+  reason: SkipReason;
+  ignoredDirectory?: string; // 파일을 제외시킨 가장 얕은 ignore 폴더 (예: 'repo/node_modules/')
+}
+
+export interface UploadCandidate {
+  path: string;
+  size: number;
+}
+
+export interface FileCandidate extends UploadCandidate {
+  file: File;
+}
+
+export interface UploadPlan<T extends UploadCandidate = UploadCandidate> {
+  included: T[];
+  skipped: SkippedFile[];
+  unsupportedCount: number; // 소스 / 설정 파일이 아닌 파일 수 (목록에는 표시 안 함)
+  totalSize: number; // included 파일 크기 합
+}
+
+/**
+ * webkitdirectory 업로드 → 후보 (경로는 webkitRelativePath)
+ */
+export function toFileCandidates(files: File[]): FileCandidate[] {
+  return files.map((file) => ({ path: file.webkitRelativePath || file.name, size: file.size, file }));
+}
+
+/**
+ * 업로드한 파일 목록에서 .gitignore 파일 내용 읽기 (경로 → 내용)
+ */
+export async function readGitignoreFiles(candidates: FileCandidate[]): Promise<Record<string, string>> {
+  const gitignoreFiles: Record<string, string> = {};
+  for (const { path, file } of candidates) {
+    if (!isGitignoreFile(path)) continue;
+    try {
+      gitignoreFiles[path] = await file.text();
+    } catch (err) {
+      console.error(`Error reading ${path}:`, err);
+    }
+  }
+  return gitignoreFiles;
+}
+
+/**
+ * 파일을 제외시킨 가장 얕은 ignore 폴더 (파일 자체가 매칭되면 undefined)
+ */
+function findIgnoredDirectory(path: string, matcher: IgnoreMatcher): string | undefined {
+  const parts = path.split('/');
+  for (let depth = 1; depth < parts.length; depth++) {
+    const dir = parts.slice(0, depth).join('/');
+    if (matcher.isIgnored(dir, true)) return `${dir}/`;
+  }
+  return undefined;
+}
+
+/**
+ * import 대상 / 제외 파일 계산 (파일 내용은 읽지 않음)
+ */
+export function planUpload<T extends UploadCandidate>(
+  candidates: T[],
+  gitignoreFiles: Record<string, string>,
+  options: UploadFilterOptions
+): UploadPlan<T> {
+  const defaultMatcher = createIgnoreMatcher({}, options.ignorePatterns);
+  const gitignoreMatcher = options.useGitignore ? createIgnoreMatcher(gitignoreFiles) : null;
+  const maxFileSize = options.maxFileSizeKB * 1024;
+
+  const plan: UploadPlan<T> = { included: [], skipped: [], unsupportedCount: 0, totalSize: 0 };
+
+  candidates.forEach((candidate) => {
+    const { path, size } = candidate;
+    if (!isProjectFile(path)) {
+      plan.unsupportedCount++;
+      return;
+    }
+
+    if (defaultMatcher.isIgnored(path)) {
+      plan.skipped.push({
+        path,
+        size,
+        reason: 'ignored',
+        ignoredDirectory: findIgnoredDirectory(path, defaultMatcher),
+      });
+    } else if (gitignoreMatcher?.isIgnored(path)) {
+      plan.skipped.push({
+        path,
+        size,
+        reason: 'gitignore',
+        ignoredDirectory: findIgnoredDirectory(path, gitignoreMatcher),
+      });
+    } else if (size > maxFileSize) {
+      plan.skipped.push({ path, size, reason: 'too-large' });
+    } else if (plan.included.length >= options.maxFileCount) {
+      plan.skipped.push({ path, size, reason: 'limit' });
+    } else {
+      plan.included.push(candidate);
+      plan.totalSize += size;
+    }
+  });
+
+  return plan;
+}
+
+/**
+ * 제외 파일을 ignore 폴더 단위로 묶기 (node_modules 수만 개를 한 줄로, 많은 순)
+ */
+export function groupSkippedFiles(skipped: SkippedFile[]): { path: string; count: number; reason: SkipReason }[] {
+  const groups = new Map<string, { path: string; count: number; reason: SkipReason }>();
+
+  skipped.forEach((file) => {
+    const path = file.ignoredDirectory ?? file.path;
+    const key = `${file.reason}:${path}`;
+    const group = groups.get(key) ?? { path, count: 0, reason: file.reason };
+    group.count++;
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.values()).sort((a, b) => b.count - a.count);
+}
+
+/**
+ * 파일 내용 스트리밍 읽기
+ * - 청크마다 진행률 보고 + 이벤트 루프 양보 (큰 폴더에서도 탭이 멈추지 않도록)
+ */
+export async function readPlannedFiles(
+  candidates: FileCandidate[],
+  onProgress?: (current: number, total: number, currentFile: string) => void,
+  chunkSize = 50
+): Promise<Record<string, string>> {
+  const contents: Record<string, string> = {};
+
+  for (let i = 0; i < candidates.length; i++) {
+    const { path, file } = candidates[i];
+    try {
+      contents[path] = await file.text();
+    } catch (err) {
+      console.error(`Error reading file ${path}:`, err);
+    }
+
+    if ((i + 1) % chunkSize === 0 || i === candidates.length - 1) {
+      onProgress?.(i + 1, candidates.length, path);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  }
+
+  return contents;
+}
@@ -0,0 +1,35 @@
+/**
+ * 테스트용 Git 바이트 헬퍼
+ *
+ * 메모리에서 loose object / packfile을 만들 때 쓰는 인코딩 유틸
+ */
+
+import { toHex } from '../objects';
+
+export const encoder = new TextEncoder();
+
+export function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  parts.forEach((part) => {
+    output.set(part, position);
+    position += part.length;
+  });
+  return output;
+}
+
+export async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const output = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+export async function sha1(data: Uint8Array<ArrayBuffer>): Promise<string> {
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-1', data)));
+}
+
+export const fromHex = (hex: string) =>
+  new Uint8Array(hex.match(/../g)?.map((byte) => Number.parseInt(byte, 16)) ?? []);
+
+/** `${type} ${size}\0` + body (loose object / object hash 원본) */
+export const encodeObject = (type: string, body: Uint8Array) =>
+  concat([encoder.encode(`${type} ${body.length}\0`), body]);
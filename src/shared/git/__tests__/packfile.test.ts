@@ -0,0 +1,229 @@
+/**
+ * Packfile 읽기 테스트
+ *
+ * 직접 만든 .idx v2 + .pack (OFS_DELTA / REF_DELTA / thin pack)에서
+ * delta base를 따라가 원래 object를 복원하는지 확인
+ */
+
+import { describe, expect, it } from 'vitest';
+import { type Packfile, type PackIndex, parsePackIndex, readPackObject } from '../packfile';
+import type { GitObject } from '../types';
+import { concat, deflate, encodeObject, encoder, fromHex, sha1 } from './fixtures';
+
+const TYPE_NUMBERS = { commit: 1, tree: 2, blob: 3, tag: 4, ofsDelta: 6, refDelta: 7 };
+
+const decoder = new TextDecoder();
+
+// 7-bit little-endian varint (delta의 base / result 크기)
+function encodeVarint(value: number): number[] {
+  const bytes: number[] = [];
+  let rest = value;
+  do {
+    const byte = rest & 0x7f;
+    rest >>>= 7;
+    bytes.push(rest > 0 ? byte | 0x80 : byte);
+  } while (rest > 0);
+  return bytes;
+}
+
+// pack object header: type 3 bits + 크기 (첫 byte 4 bits, 이후 7 bits씩)
+function encodeObjectHeader(type: number, size: number): number[] {
+  const bytes = [(type << 4) | (size & 0x0f)];
+  let rest = size >>> 4;
+  while (rest > 0) {
+    bytes[bytes.length - 1] |= 0x80;
+    bytes.push(rest & 0x7f);
+    rest >>>= 7;
+  }
+  return bytes;
+}
+
+// OFS_DELTA base 거리 (git의 offset encoding: 이어지는 byte마다 +1)
+function encodeOffset(distance: number): number[] {
+  let rest = distance;
+  const bytes = [rest & 0x7f];
+  rest >>>= 7;
+  while (rest > 0) {
+    rest -= 1;
+    bytes.unshift(0x80 | (rest & 0x7f));
+    rest >>>= 7;
+  }
+  return bytes;
+}
+
+type DeltaOp = { copy: [offset: number, size: number] } | { insert: string };
+
+function createDelta(base: string, result: string, ops: DeltaOp[]): Uint8Array {
+  const instructions = ops.flatMap((op) => {
+    if ('insert' in op) return [op.insert.length, ...encoder.encode(op.insert)];
+    const [offset, size] = op.copy;
+    return [0x80 | 0x01 | 0x10, offset, size]; // offset / size 각 1 byte
+  });
+  return new Uint8Array([...encodeVarint(base.length), ...encodeVarint(result.length), ...instructions]);
+}
+
+type PackEntry =
+  | { kind: 'blob'; content: string }
+  | { kind: 'ofsDelta'; base: number; delta: Uint8Array } // base: 앞 entry index
+  | { kind: 'refDelta'; baseHash: string; delta: Uint8Array };
+
+/**
+ * .pack + .idx v2 생성
+ * @param hashes - entry별 object hash (idx에 기록, 결과 object 기준)
+ */
+async function createPack(entries: PackEntry[], hashes: string[]): Promise<{ pack: Uint8Array; idx: Uint8Array }> {
+  const header = concat([encoder.encode('PACK'), new Uint8Array([0, 0, 0, 2, 0, 0, 0, entries.length])]);
+  const parts: Uint8Array[] = [header];
+  const offsets: number[] = [];
+  let position = header.length;
+
+  for (const entry of entries) {
+    offsets.push(position);
+    let bytes: Uint8Array;
+    if (entry.kind === 'blob') {
+      const data = encoder.encode(entry.content);
+      bytes = concat([new Uint8Array(encodeObjectHeader(TYPE_NUMBERS.blob, data.length)), await deflate(data)]);
+    } else if (entry.kind === 'ofsDelta') {
+      bytes = concat([
+        new Uint8Array(encodeObjectHeader(TYPE_NUMBERS.ofsDelta, entry.delta.length)),
+        new Uint8Array(encodeOffset(position - offsets[entry.base])),
+        await deflate(entry.delta),
+      ]);
+    } else {
+      bytes = concat([
+        new Uint8Array(encodeObjectHeader(TYPE_NUMBERS.refDelta, entry.delta.length)),
+        fromHex(entry.baseHash),
+        await deflate(entry.delta),
+      ]);
+    }
+    parts.push(bytes);
+    position += bytes.length;
+  }
+
+  const body = concat(parts);
+  const pack = concat([body, fromHex(await sha1(body))]);
+
+  // idx: fanout (hash 첫 byte별 누적 개수) + 정렬된 hash + CRC32 (미사용) + 32-bit offset
+  const sorted = hashes.map((hash, i) => ({ hash, offset: offsets[i] })).sort((a, b) => a.hash.localeCompare(b.hash));
+  const table = new DataView(new ArrayBuffer(8 + 256 * 4 + sorted.length * 28));
+  table.setUint32(0, 0xff744f63);
+  table.setUint32(4, 2);
+  for (let byte = 0; byte < 256; byte++) {
+    const count = sorted.filter(({ hash }) => Number.parseInt(hash.slice(0, 2), 16) <= byte).length;
+    table.setUint32(8 + byte * 4, count);
+  }
+  const hashesStart = 8 + 256 * 4;
+  const offsetsStart = hashesStart + sorted.length * 24;
+  sorted.forEach(({ hash, offset }, i) => {
+    fromHex(hash).forEach((byte, j) => {
+      table.setUint8(hashesStart + i * 20 + j, byte);
+    });
+    table.setUint32(offsetsStart + i * 4, offset);
+  });
+  const idx = concat([new Uint8Array(table.buffer), pack.subarray(pack.length - 20), new Uint8Array(20)]);
+
+  return { pack, idx };
+}
+
+const hashBlobText = (content: string) => sha1(encodeObject('blob', encoder.encode(content)));
+
+const BASE = 'hello world\n';
+const EDITED = 'hello there\n'; // OFS_DELTA: BASE에서 복사 + 삽입
+const APPENDED = 'hello there\nbye\n'; // REF_DELTA: EDITED에 이어 붙임 (같은 pack)
+const EXTERNAL_BASE = 'outside\n';
+const EXTERNAL = 'outside!\n'; // REF_DELTA: 다른 저장소 object (thin pack)
+
+async function createSamplePack() {
+  const hashes = await Promise.all([BASE, EDITED, APPENDED, EXTERNAL].map(hashBlobText));
+  const externalBaseHash = await hashBlobText(EXTERNAL_BASE);
+
+  const { pack, idx } = await createPack(
+    [
+      { kind: 'blob', content: BASE },
+      { kind: 'ofsDelta', base: 0, delta: createDelta(BASE, EDITED, [{ copy: [0, 6] }, { insert: 'there\n' }]) },
+      {
+        kind: 'refDelta',
+        baseHash: hashes[1],
+        delta: createDelta(EDITED, APPENDED, [{ copy: [0, EDITED.length] }, { insert: 'bye\n' }]),
+      },
+      {
+        kind: 'refDelta',
+        baseHash: externalBaseHash,
+        delta: createDelta(EXTERNAL_BASE, EXTERNAL, [{ copy: [0, 7] }, { insert: '!\n' }]),
+      },
+    ],
+    hashes
+  );
+
+  const packfile: Packfile = { index: parsePackIndex(idx, pack.length), data: pack };
+  const external = new Map<string, GitObject>([
+    [externalBaseHash, { type: 'blob', data: encoder.encode(EXTERNAL_BASE) }],
+  ]);
+  const read = (hash: string, cache = new Map<number, GitObject>()) =>
+    readPackObject(packfile, packfile.index.offsets.get(hash)!, async (base) => external.get(base) ?? null, cache);
+
+  return { packfile, hashes, externalBaseHash, read };
+}
+
+describe('Packfile - .idx v2', () => {
+  it('hash → offset, offset → 다음 object offset (마지막은 trailer 앞)', async () => {
+    const { packfile, hashes } = await createSamplePack();
+    const { offsets, objectEnds } = packfile.index;
+
+    expect(offsets.size).toBe(4);
+    expect(offsets.get(hashes[0])).toBe(12); // 'PACK' + version + count
+    const packOffsets = hashes.map((hash) => offsets.get(hash)!);
+    expect(objectEnds.get(packOffsets[0])).toBe(packOffsets[1]);
+    expect(objectEnds.get(packOffsets[3])).toBe(packfile.data.length - 20);
+  });
+
+  it('2GB 이상 offset은 64-bit 테이블에서 읽음', () => {
+    const view = new DataView(new ArrayBuffer(8 + 256 * 4 + 28 + 8));
+    view.setUint32(0, 0xff744f63);
+    view.setUint32(4, 2);
+    for (let byte = 0; byte < 256; byte++) view.setUint32(8 + byte * 4, 1);
+    const offsetsStart = 8 + 256 * 4 + 24;
+    view.setUint32(offsetsStart, 0x80000000); // large offset table[0]
+    view.setBigUint64(offsetsStart + 4, 0x1_0000_0010n);
+
+    const index: PackIndex = parsePackIndex(new Uint8Array(view.buffer), 0x1_0000_0100);
+    expect(Array.from(index.offsets.values())).toEqual([0x1_0000_0010]);
+  });
+
+  it('v2가 아니면 에러', () => {
+    expect(() => parsePackIndex(new Uint8Array(8 + 256 * 4), 0)).toThrow('only v2');
+  });
+});
+
+describe('Packfile - object 읽기', () => {
+  it('일반 object', async () => {
+    const { read, hashes } = await createSamplePack();
+    const object = await read(hashes[0]);
+
+    expect(object.type).toBe('blob');
+    expect(decoder.decode(object.data)).toBe(BASE);
+  });
+
+  it('OFS_DELTA: 앞쪽 offset의 base에 delta 적용', async () => {
+    const { read, hashes } = await createSamplePack();
+    const object = await read(hashes[1]);
+
+    expect(object.type).toBe('blob');
+    expect(decoder.decode(object.data)).toBe(EDITED);
+    expect(await hashBlobText(decoder.decode(object.data))).toBe(hashes[1]);
+  });
+
+  it('REF_DELTA: 같은 pack의 delta object를 base로 재귀 해석', async () => {
+    const { read, hashes } = await createSamplePack();
+    expect(decoder.decode((await read(hashes[2])).data)).toBe(APPENDED);
+  });
+
+  it('REF_DELTA: pack에 없는 base는 저장소에서 조회 (없으면 에러)', async () => {
+    const { read, hashes, packfile, externalBaseHash } = await createSamplePack();
+    expect(decoder.decode((await read(hashes[3])).data)).toBe(EXTERNAL);
+
+    await expect(
+      readPackObject(packfile, packfile.index.offsets.get(hashes[3])!, async () => null, new Map())
+    ).rejects.toThrow(`Missing delta base object ${externalBaseHash}`);
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Git 저장소 읽기 테스트
+ *
+ * 메모리에 만든 .git 폴더 (loose object + refs)에서 log / tree diff / status가
+ * git과 같은 결과를 내는지 확인
+ */
+
+import { describe, expect, it } from 'vitest';
+import { applyDelta, hashBlob, parseCommit, parseTree } from '../objects';
+import { computeStatus, createGitRepository } from '../repository';
+import { concat, deflate, encodeObject, encoder, fromHex, sha1 } from './fixtures';
+
+/**
+ * 메모리 .git 폴더 (loose object만 사용)
+ */
+function createGitDir() {
+  const files = new Map<string, Uint8Array>();
+
+  const writeObject = async (type: string, body: Uint8Array) => {
+    const raw = encodeObject(type, body);
+    const hash = await sha1(raw);
+    files.set(`objects/${hash.slice(0, 2)}/${hash.slice(2)}`, await deflate(raw));
+    return hash;
+  };
+
+  const writeBlob = (content: string) => writeObject('blob', encoder.encode(content));
+
+  const writeTree = (entries: Array<{ mode: string; name: string; hash: string }>) =>
+    writeObject(
+      'tree',
+      concat(entries.flatMap(({ mode, name, hash }) => [encoder.encode(`${mode} ${name}\0`), fromHex(hash)]))
+    );
+
+  const writeCommit = (tree: string, parents: string[], timestamp: number, message: string) => {
+    const person = `Dev <dev@example.com> ${timestamp} +0900`;
+    const headers = [`tree ${tree}`, ...parents.map((parent) => `parent ${parent}`)];
+    return writeObject(
+      'commit',
+      encoder.encode(`${headers.join('\n')}\nauthor ${person}\ncommitter ${person}\n\n${message}`)
+    );
+  };
+
+  const writeText = (path: string, text: string) => files.set(path, encoder.encode(text));
+
+  const repository = () =>
+    createGitRepository({
+      paths: Array.from(files.keys()),
+      read: async (path) => files.get(path) ?? null,
+    });
+
+  return { writeBlob, writeTree, writeCommit, writeText, repository };
+}
+
+/**
+ * 커밋 2개: a.txt + src/b.ts → a.txt 수정, src/b.ts 삭제, src/c.ts 추가
+ */
+async function createSampleRepository() {
+  const git = createGitDir();
+
+  const a1 = await git.writeBlob('hello\n');
+  const b = await git.writeBlob('export const b = 1;\n');
+  const src1 = await git.writeTree([{ mode: '100644', name: 'b.ts', hash: b }]);
+  const tree1 = await git.writeTree([
+    { mode: '100644', name: 'a.txt', hash: a1 },
+    { mode: '40000', name: 'src', hash: src1 },
+  ]);
+  const first = await git.writeCommit(tree1, [], 1700000000, 'Initial commit\n');
+
+  const a2 = await git.writeBlob('hello world\n');
+  const c = await git.writeBlob('export const c = 2;\n');
+  const src2 = await git.writeTree([{ mode: '100644', name: 'c.ts', hash: c }]);
+  const tree2 = await git.writeTree([
+    { mode: '100644', name: 'a.txt', hash: a2 },
+    { mode: '40000', name: 'src', hash: src2 },
+    { mode: '160000', name: 'vendor', hash: 'f'.repeat(40) },
+  ]);
+  const second = await git.writeCommit(tree2, [first], 1700000100, 'Update files\n\nBody');
+
+  git.writeText('HEAD', 'ref: refs/heads/main\n');
+  git.writeText('refs/heads/main', `${second}\n`);
+  git.writeText('packed-refs', `# pack-refs with: peeled\n${first} refs/heads/legacy\n${first} refs/tags/v1\n`);
+
+  return { repository: git.repository(), first, second, hashes: { a1, a2, b, c } };
+}
+
+describe('Git - object 파싱', () => {
+  it('blob hash는 git hash-object와 동일', async () => {
+    expect(await hashBlob('hello\n')).toBe('ce013625030ba8dba906f756967f9e9ca394464a');
+  });
+
+  it('commit header / message 파싱', () => {
+    const commit = parseCommit(
+      'abc',
+      encoder.encode(
+        `tree ${'1'.repeat(40)}\nparent ${'2'.repeat(40)}\nparent ${'3'.repeat(40)}\n` +
+          'author Jane Doe <jane@example.com> 1700000000 +0900\ncommitter Bot <bot@example.com> 1700000500 -0000\n\nSubject\n\nBody\n'
+      )
+    );
+
+    expect(commit.tree).toBe('1'.repeat(40));
+    expect(commit.parents).toEqual(['2'.repeat(40), '3'.repeat(40)]);
+    expect(commit.author).toEqual({ name: 'Jane Doe', email: 'jane@example.com', timestamp: 1700000000 });
+    expect(commit.committer.timestamp).toBe(1700000500);
+    expect(commit.message).toBe('Subject\n\nBody\n');
+  });
+
+  it('tree entry 파싱 (mode / 이름 / 20-byte hash)', () => {
+    const hash = 'ab'.repeat(20);
+    const data = concat([
+      encoder.encode('100644 a b.txt\0'),
+      fromHex(hash),
+      encoder.encode('40000 dir\0'),
+      fromHex(hash),
+    ]);
+
+    expect(parseTree(data)).toEqual([
+      { mode: '100644', name: 'a b.txt', hash },
+      { mode: '40000', name: 'dir', hash },
+    ]);
+  });
+
+  it('delta: base 복사 + literal 삽입', () => {
+    const base = encoder.encode('hello world');
+    // base size 11, target size 12, copy(offset 0, size 6) + insert "there!"
+    const delta = new Uint8Array([11, 12, 0x90, 6, 6, ...encoder.encode('there!')]);
+
+    expect(new TextDecoder().decode(applyDelta(base, delta))).toBe('hello there!');
+    expect(() => applyDelta(encoder.encode('short'), delta)).toThrow('base size mismatch');
+  });
+});
+
+describe('Git - 저장소', () => {
+  it('HEAD / branch / packed-refs 해석', async () => {
+    const { repository, first, second } = await createSampleRepository();
+
+    expect(await repository.getSummary()).toEqual({
+      currentBranch: 'main',
+      head: second,
+      branches: ['legacy', 'main'],
+    });
+    expect(await repository.resolveRef('legacy')).toBe(first);
+    expect(await repository.resolveRef('v1')).toBe(first);
+    expect(await repository.resolveRef('missing')).toBeNull();
+  });
+
+  it('log는 부모 방향 + committer 시간 역순', async () => {
+    const { repository, first, second } = await createSampleRepository();
+
+    const log = await repository.getLog('HEAD', 10);
+    expect(log.map((commit) => commit.hash)).toEqual([second, first]);
+    expect(log[0].message).toBe('Update files\n\nBody');
+    expect(await repository.getLog('HEAD', 1)).toHaveLength(1);
+  });
+
+  it('tree 평탄화는 submodule 제외', async () => {
+    const { repository, second, hashes } = await createSampleRepository();
+
+    const tree = (await repository.readCommit(second)).tree;
+    expect(Object.fromEntries(await repository.flattenTree(tree))).toEqual({
+      'a.txt': hashes.a2,
+      'src/c.ts': hashes.c,
+    });
+  });
+
+  it('커밋 변경 파일 (root commit은 전체 added)', async () => {
+    const { repository, first, second } = await createSampleRepository();
+
+    expect(await repository.getCommitChanges(first)).toEqual([
+      { path: 'a.txt', status: 'added' },
+      { path: 'src/b.ts', status: 'added' },
+    ]);
+    expect(await repository.getCommitChanges(second)).toEqual([
+      { path: 'a.txt', status: 'modified' },
+      { path: 'src/b.ts', status: 'deleted' },
+      { path: 'src/c.ts', status: 'added' },
+    ]);
+  });
+
+  it('없는 커밋은 에러', async () => {
+    const { repository } = await createSampleRepository();
+    await expect(repository.readCommit('0'.repeat(40))).rejects.toThrow('not found');
+  });
+});
+
+describe('Git - status', () => {
+  it('staged (index ↔ HEAD) + unstaged (작업 트리 ↔ index)', () => {
+    const head = new Map([
+      ['a.txt', 'a1'],
+      ['b.txt', 'b1'],
+      ['gone.txt', 'g1'],
+      ['image.png', 'i1'],
+    ]);
+    const index = [
+      { path: 'a.txt', hash: 'a2', mode: 0o100644 },
+      { path: 'b.txt', hash: 'b1', mode: 0o100644 },
+      { path: 'new.txt', hash: 'n1', mode: 0o100644 },
+      { path: 'image.png', hash: 'i1', mode: 0o100644 },
+    ];
+    const working = new Map([
+      ['a.txt', 'a2'],
+      ['b.txt', 'b2'],
+      ['untracked.ts', 'u1'],
+    ]);
+    const present = new Set(['a.txt', 'b.txt', 'untracked.ts', 'image.png']);
+
+    expect(computeStatus(head, index, working, present, (path) => path !== 'image.png')).toEqual([
+      { path: 'a.txt', status: 'modified', staged: true },
+      { path: 'b.txt', status: 'modified', staged: false },
+      { path: 'gone.txt', status: 'deleted', staged: true },
+      { path: 'new.txt', status: 'added', staged: true },
+      { path: 'new.txt', status: 'deleted', staged: false },
+      { path: 'untracked.ts', status: 'untracked', staged: false },
+    ]);
+  });
+});
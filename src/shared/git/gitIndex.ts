@@ -0,0 +1,58 @@
+/**
+ * .git/index (DIRC) 파싱 - version 2 / 3 / 4
+ * - stage 0 (충돌 없는) 항목만 사용
+ */
+
+import { toHex } from './objects';
+import type { GitIndexEntry } from './types';
+
+const decoder = new TextDecoder();
+const EXTENDED_FLAG = 0x4000;
+
+export function parseGitIndex(data: Uint8Array): GitIndexEntry[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (decoder.decode(data.subarray(0, 4)) !== 'DIRC') throw new Error('Invalid git index signature.');
+
+  const version = view.getUint32(4);
+  if (version < 2 || version > 4) throw new Error(`Unsupported git index version ${version}.`);
+
+  const count = view.getUint32(8);
+  const entries: GitIndexEntry[] = [];
+  let offset = 12;
+  let previousPath = '';
+
+  for (let i = 0; i < count; i++) {
+    const entryStart = offset;
+    const mode = view.getUint32(offset + 24);
+    const hash = toHex(data.subarray(offset + 40, offset + 60));
+    const flags = view.getUint16(offset + 60);
+    offset += 62;
+    if (version >= 3 && flags & EXTENDED_FLAG) offset += 2;
+
+    let path: string;
+    if (version === 4) {
+      // prefix 압축: 이전 경로에서 N bytes 제거 후 suffix 추가
+      let removeCount = 0;
+      let byte: number;
+      do {
+        byte = data[offset++];
+        removeCount = (removeCount << 7) | (byte & 0x7f);
+        if (byte & 0x80) removeCount++;
+      } while (byte & 0x80);
+      const nul = data.indexOf(0, offset);
+      path = previousPath.slice(0, previousPath.length - removeCount) + decoder.decode(data.subarray(offset, nul));
+      offset = nul + 1;
+    } else {
+      const nul = data.indexOf(0, offset);
+      path = decoder.decode(data.subarray(offset, nul));
+      // 항목 길이는 8의 배수 (NUL 1~8개 padding)
+      offset = entryStart + Math.ceil((nul - entryStart + 1) / 8) * 8;
+    }
+    previousPath = path;
+
+    const stage = (flags >> 12) & 0x3;
+    if (stage === 0) entries.push({ path, hash, mode });
+  }
+
+  return entries;
+}
@@ -0,0 +1,69 @@
+/**
+ * Git Worker client - 저장소 하나당 Worker 하나 (open 이후 log / status / commitChanges / 특정 커밋의 파일 읽기)
+ */
+
+import type {
+  GitCommitSummary,
+  GitFileChange,
+  GitRepositorySummary,
+  GitWorkerRequest,
+  GitWorkerResponse,
+} from './types';
+
+type RequestBody<T extends GitWorkerRequest['type']> = Omit<Extract<GitWorkerRequest, { type: T }>, 'requestId'>;
+
+export interface GitWorkerClient {
+  open: (files: Record<string, File>) => Promise<GitRepositorySummary>;
+  log: (ref: string, limit: number) => Promise<GitCommitSummary[]>;
+  commitChanges: (hash: string) => Promise<Omit<GitFileChange, 'staged'>[]>;
+  status: (workingFiles: Record<string, string>, presentPaths: string[]) => Promise<GitFileChange[]>;
+  listFiles: (ref: string) => Promise<string[]>;
+  readFiles: (ref: string, paths: string[]) => Promise<Record<string, string>>;
+  dispose: () => void;
+}
+
+export function createGitWorkerClient(): GitWorkerClient {
+  const worker = new Worker(new URL('../../workers/gitRepository.worker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, { resolve: (response: GitWorkerResponse) => void; reject: (error: Error) => void }>();
+  let nextRequestId = 0;
+
+  worker.onmessage = (event: MessageEvent<GitWorkerResponse>) => {
+    const response = event.data;
+    const request = pending.get(response.requestId);
+    if (!request) return;
+
+    pending.delete(response.requestId);
+    if (response.type === 'error') request.reject(new Error(response.message));
+    else request.resolve(response);
+  };
+
+  const send = <T extends GitWorkerRequest['type']>(body: RequestBody<T>) =>
+    new Promise<GitWorkerResponse>((resolve, reject) => {
+      const requestId = ++nextRequestId;
+      pending.set(requestId, { resolve, reject });
+      worker.postMessage({ ...body, requestId });
+    });
+
+  const expect = <T extends GitWorkerResponse['type']>(response: GitWorkerResponse, type: T) => {
+    if (response.type !== type) throw new Error(`Unexpected git worker response: ${response.type}`);
+    return response as Extract<GitWorkerResponse, { type: T }>;
+  };
+
+  return {
+    open: async (files) => expect(await send<'open'>({ type: 'open', files }), 'summary').summary,
+    log: async (ref, limit) => expect(await send<'log'>({ type: 'log', ref, limit }), 'log').commits,
+    commitChanges: async (hash) =>
+      expect(await send<'commitChanges'>({ type: 'commitChanges', hash }), 'changes').changes,
+    status: async (workingFiles, presentPaths) =>
+      expect(await send<'status'>({ type: 'status', workingFiles, presentPaths }), 'status').changes,
+    listFiles: async (ref) => expect(await send<'listFiles'>({ type: 'listFiles', ref }), 'fileList').paths,
+    readFiles: async (ref, paths) => expect(await send<'readFiles'>({ type: 'readFiles', ref, paths }), 'files').files,
+    dispose: () => {
+      pending.forEach(({ reject }) => {
+        reject(new Error('Git worker disposed.'));
+      });
+      pending.clear();
+      worker.terminate();
+    },
+  };
+}
@@ -0,0 +1,152 @@
+/**
+ * Git object 파싱 (commit / tree) + zlib / SHA-1 / delta
+ * - zlib: DecompressionStream('deflate'), SHA-1: crypto.subtle (Worker에서도 사용 가능)
+ */
+
+import type { GitCommit, GitObjectType, GitPerson, GitTreeEntry } from './types';
+
+const decoder = new TextDecoder();
+const encoder = new TextEncoder();
+
+export async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const output = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+export function toHex(bytes: Uint8Array): string {
+  let hex = '';
+  for (let i = 0; i < bytes.length; i++) hex += bytes[i].toString(16).padStart(2, '0');
+  return hex;
+}
+
+/**
+ * 작업 트리 파일 내용 → blob hash (`git hash-object`와 동일)
+ */
+export async function hashBlob(content: string): Promise<string> {
+  const body = encoder.encode(content);
+  const header = encoder.encode(`blob ${body.length}\0`);
+  const data = new Uint8Array(header.length + body.length);
+  data.set(header);
+  data.set(body, header.length);
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-1', data)));
+}
+
+/**
+ * Loose object (`type size\0content`) → type + content
+ */
+export function parseLooseObject(raw: Uint8Array): { type: GitObjectType; data: Uint8Array } {
+  const nul = raw.indexOf(0);
+  const [type] = decoder.decode(raw.subarray(0, nul)).split(' ');
+  return { type: type as GitObjectType, data: raw.subarray(nul + 1) };
+}
+
+function parsePerson(value: string): GitPerson {
+  // "Name <email> 1700000000 +0900"
+  const match = /^(.*) <(.*)> (\d+) [+-]\d{4}$/.exec(value);
+  if (!match) return { name: value, email: '', timestamp: 0 };
+  return { name: match[1], email: match[2], timestamp: Number(match[3]) };
+}
+
+export function parseCommit(hash: string, data: Uint8Array): GitCommit {
+  const text = decoder.decode(data);
+  const headerEnd = text.indexOf('\n\n');
+  const headers = (headerEnd === -1 ? text : text.slice(0, headerEnd)).split('\n');
+  const commit: GitCommit = {
+    hash,
+    tree: '',
+    parents: [],
+    author: { name: '', email: '', timestamp: 0 },
+    committer: { name: '', email: '', timestamp: 0 },
+    message: headerEnd === -1 ? '' : text.slice(headerEnd + 2),
+  };
+
+  headers.forEach((line) => {
+    const space = line.indexOf(' ');
+    const key = line.slice(0, space);
+    const value = line.slice(space + 1);
+    if (key === 'tree') commit.tree = value;
+    else if (key === 'parent') commit.parents.push(value);
+    else if (key === 'author') commit.author = parsePerson(value);
+    else if (key === 'committer') commit.committer = parsePerson(value);
+  });
+
+  return commit;
+}
+
+/**
+ * Tree object: 반복 (`mode name\0<20-byte hash>`)
+ */
+export function parseTree(data: Uint8Array): GitTreeEntry[] {
+  const entries: GitTreeEntry[] = [];
+  let offset = 0;
+
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    const nul = data.indexOf(0, space);
+    entries.push({
+      mode: decoder.decode(data.subarray(offset, space)),
+      name: decoder.decode(data.subarray(space + 1, nul)),
+      hash: toHex(data.subarray(nul + 1, nul + 21)),
+    });
+    offset = nul + 21;
+  }
+
+  return entries;
+}
+
+export const isTreeMode = (mode: string) => mode === '40000' || mode === '040000';
+
+// Submodule (gitlink) - 다른 저장소의 커밋을 가리키므로 내용 비교 대상 아님
+export const isGitlinkMode = (mode: string) => mode === '160000';
+
+/**
+ * Pack delta 적용 (base + delta instructions → target)
+ */
+export function applyDelta(base: Uint8Array, delta: Uint8Array): Uint8Array {
+  let offset = 0;
+  const readVarint = () => {
+    let value = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = delta[offset++];
+      value |= (byte & 0x7f) << shift;
+      shift += 7;
+    } while (byte & 0x80);
+    return value;
+  };
+
+  const baseSize = readVarint();
+  if (baseSize !== base.length) throw new Error('Invalid delta: base size mismatch.');
+  const target = new Uint8Array(readVarint());
+  let position = 0;
+
+  while (offset < delta.length) {
+    const op = delta[offset++];
+    if (op & 0x80) {
+      // copy from base
+      let copyOffset = 0;
+      let copySize = 0;
+      for (let bit = 0; bit < 4; bit++) {
+        if (op & (1 << bit)) copyOffset |= delta[offset++] << (bit * 8);
+      }
+      for (let bit = 0; bit < 3; bit++) {
+        if (op & (0x10 << bit)) copySize |= delta[offset++] << (bit * 8);
+      }
+      copyOffset >>>= 0;
+      if (copySize === 0) copySize = 0x10000;
+      target.set(base.subarray(copyOffset, copyOffset + copySize), position);
+      position += copySize;
+    } else if (op > 0) {
+      // insert literal
+      target.set(delta.subarray(offset, offset + op), position);
+      offset += op;
+      position += op;
+    } else {
+      throw new Error('Invalid delta: reserved opcode 0.');
+    }
+  }
+
+  if (position !== target.length) throw new Error('Invalid delta: target size mismatch.');
+  return target;
+}
@@ -0,0 +1,115 @@
+/**
+ * Packfile 읽기 (.idx v2 + .pack)
+ * - OFS_DELTA / REF_DELTA 해석 (base는 같은 pack 또는 다른 저장소 object에서 조회)
+ * - 압축 데이터 길이는 pack에 없음 → idx의 다음 object offset까지를 해당 object 범위로 사용
+ */
+
+import { applyDelta, inflate, toHex } from './objects';
+import type { GitObject, GitObjectType } from './types';
+
+const OBJECT_TYPES: Record<number, GitObjectType> = { 1: 'commit', 2: 'tree', 3: 'blob', 4: 'tag' };
+const OFS_DELTA = 6;
+const REF_DELTA = 7;
+
+export interface PackIndex {
+  offsets: Map<string, number>; // hash → pack offset
+  objectEnds: Map<number, number>; // offset → 다음 object offset (압축 데이터 끝)
+}
+
+export interface Packfile {
+  index: PackIndex;
+  data: Uint8Array;
+}
+
+/**
+ * .idx (version 2) 파싱
+ */
+export function parsePackIndex(idx: Uint8Array, packSize: number): PackIndex {
+  const view = new DataView(idx.buffer, idx.byteOffset, idx.byteLength);
+  if (view.getUint32(0) !== 0xff744f63 || view.getUint32(4) !== 2) {
+    throw new Error('Unsupported pack index version (only v2 is supported).');
+  }
+
+  const count = view.getUint32(8 + 255 * 4);
+  const hashesStart = 8 + 256 * 4;
+  const offsetsStart = hashesStart + count * 20 + count * 4; // CRC32 테이블 건너뜀
+  const largeOffsetsStart = offsetsStart + count * 4;
+
+  const offsets = new Map<string, number>();
+  for (let i = 0; i < count; i++) {
+    const hash = toHex(idx.subarray(hashesStart + i * 20, hashesStart + (i + 1) * 20));
+    let offset = view.getUint32(offsetsStart + i * 4);
+    if (offset & 0x80000000) {
+      // 2GB 이상 pack: 64-bit offset 테이블
+      const largeIndex = offset & 0x7fffffff;
+      offset = Number(view.getBigUint64(largeOffsetsStart + largeIndex * 8));
+    }
+    offsets.set(hash, offset);
+  }
+
+  // 각 object의 끝 = 다음 object 시작 (마지막은 pack trailer(SHA-1 20 bytes) 앞)
+  const sorted = Array.from(offsets.values()).sort((a, b) => a - b);
+  const objectEnds = new Map<number, number>();
+  sorted.forEach((offset, i) => {
+    objectEnds.set(offset, i + 1 < sorted.length ? sorted[i + 1] : packSize - 20);
+  });
+
+  return { offsets, objectEnds };
+}
+
+/**
+ * pack offset의 object 읽기 (delta는 재귀적으로 base 해석)
+ * - resolveExternal: REF_DELTA base가 이 pack에 없을 때 (thin pack) 저장소에서 조회
+ */
+export async function readPackObject(
+  pack: Packfile,
+  offset: number,
+  resolveExternal: (hash: string) => Promise<GitObject | null>,
+  cache: Map<number, GitObject>
+): Promise<GitObject> {
+  const cached = cache.get(offset);
+  if (cached) return cached;
+
+  const { data } = pack;
+  let position = offset;
+  let byte = data[position++];
+  const typeNumber = (byte >> 4) & 0x7;
+  // 압축 해제 크기 (varint) - 데이터 검증에는 사용하지 않으므로 건너뜀
+  while (byte & 0x80) byte = data[position++];
+
+  let baseObject: GitObject | null = null;
+  if (typeNumber === OFS_DELTA) {
+    byte = data[position++];
+    let relativeOffset = byte & 0x7f;
+    while (byte & 0x80) {
+      byte = data[position++];
+      relativeOffset = ((relativeOffset + 1) << 7) | (byte & 0x7f);
+    }
+    baseObject = await readPackObject(pack, offset - relativeOffset, resolveExternal, cache);
+  } else if (typeNumber === REF_DELTA) {
+    const baseHash = toHex(data.subarray(position, position + 20));
+    position += 20;
+    const baseOffset = pack.index.offsets.get(baseHash);
+    baseObject =
+      baseOffset !== undefined
+        ? await readPackObject(pack, baseOffset, resolveExternal, cache)
+        : await resolveExternal(baseHash);
+    if (!baseObject) throw new Error(`Missing delta base object ${baseHash}.`);
+  }
+
+  const end = pack.index.objectEnds.get(offset) ?? data.length - 20;
+  const content = await inflate(data.subarray(position, end));
+
+  let object: GitObject;
+  if (baseObject) {
+    object = { type: baseObject.type, data: applyDelta(baseObject.data, content) };
+  } else {
+    const type = OBJECT_TYPES[typeNumber];
+    if (!type) throw new Error(`Unknown pack object type ${typeNumber} at offset ${offset}.`);
+    object = { type, data: content };
+  }
+
+  // blob은 크고 재사용이 적음 → commit / tree만 캐시
+  if (object.type !== 'blob') cache.set(offset, object);
+  return object;
+}
@@ -0,0 +1,283 @@
+/**
+ * Git 저장소 읽기 (git binary 없이 .git 폴더 파일만으로)
+ * - refs: HEAD, refs/heads/*, packed-refs
+ * - objects: loose object + packfile (delta 해석)
+ * - log / tree diff / index 기반 status
+ */
+
+import { parseGitIndex } from './gitIndex';
+import { inflate, isGitlinkMode, isTreeMode, parseCommit, parseLooseObject, parseTree } from './objects';
+import { type Packfile, parsePackIndex, readPackObject } from './packfile';
+import type { GitChangeStatus, GitCommit, GitIndexEntry, GitObject, GitRepositorySummary, GitTreeEntry } from './types';
+
+const decoder = new TextDecoder();
+
+/**
+ * .git 폴더 파일 접근 (경로는 .git 기준 상대 경로: 'HEAD', 'objects/pack/pack-1.idx')
+ */
+export interface GitFileSource {
+  paths: string[];
+  read: (path: string) => Promise<Uint8Array | null>;
+}
+
+export interface GitTreeChange {
+  path: string; // 저장소 기준 경로
+  status: Exclude<GitChangeStatus, 'untracked'>;
+}
+
+export type GitRepository = ReturnType<typeof createGitRepository>;
+
+export function createGitRepository(source: GitFileSource) {
+  const objectCache = new Map<string, GitObject>();
+  let packsPromise: Promise<{ pack: Packfile; cache: Map<number, GitObject> }[]> | null = null;
+
+  const readText = async (path: string) => {
+    const data = await source.read(path);
+    return data ? decoder.decode(data) : null;
+  };
+
+  const loadPacks = () => {
+    packsPromise ??= Promise.all(
+      source.paths
+        .filter((path) => path.startsWith('objects/pack/') && path.endsWith('.idx'))
+        .map(async (idxPath) => {
+          const [idx, data] = await Promise.all([
+            source.read(idxPath),
+            source.read(idxPath.replace(/\.idx$/, '.pack')),
+          ]);
+          if (!idx || !data) return null;
+          return { pack: { index: parsePackIndex(idx, data.length), data }, cache: new Map<number, GitObject>() };
+        })
+    ).then((packs) => packs.filter((pack) => pack !== null));
+    return packsPromise;
+  };
+
+  const readObject = async (hash: string): Promise<GitObject | null> => {
+    const cached = objectCache.get(hash);
+    if (cached) return cached;
+
+    let object: GitObject | null = null;
+    const loose = await source.read(`objects/${hash.slice(0, 2)}/${hash.slice(2)}`);
+    if (loose) {
+      object = parseLooseObject(await inflate(loose));
+    } else {
+      for (const { pack, cache } of await loadPacks()) {
+        const offset = pack.index.offsets.get(hash);
+        if (offset === undefined) continue;
+        object = await readPackObject(pack, offset, readObject, cache);
+        break;
+      }
+    }
+
+    if (object && object.type !== 'blob') objectCache.set(hash, object);
+    return object;
+  };
+
+  const readCommit = async (hash: string): Promise<GitCommit> => {
+    const object = await readObject(hash);
+    if (!object || object.type !== 'commit') throw new Error(`Commit ${hash} not found.`);
+    return parseCommit(hash, object.data);
+  };
+
+  const readTree = async (hash: string): Promise<GitTreeEntry[]> => {
+    const object = await readObject(hash);
+    if (!object || object.type !== 'tree') throw new Error(`Tree ${hash} not found.`);
+    return parseTree(object.data);
+  };
+
+  // ============================================
+  // Refs
+  // ============================================
+
+  let packedRefsPromise: Promise<Map<string, string>> | null = null;
+  const loadPackedRefs = () => {
+    packedRefsPromise ??= readText('packed-refs').then((text) => {
+      const refs = new Map<string, string>();
+      text?.split('\n').forEach((line) => {
+        if (!line || line.startsWith('#') || line.startsWith('^')) return;
+        const [hash, name] = line.split(' ');
+        if (hash && name) refs.set(name, hash);
+      });
+      return refs;
+    });
+    return packedRefsPromise;
+  };
+
+  /**
+   * ref 이름 ('HEAD', 'refs/heads/main', 'main') → commit hash
+   */
+  const resolveRef = async (ref: string, depth = 0): Promise<string | null> => {
+    if (/^[0-9a-f]{40}$/.test(ref)) return ref;
+    if (depth > 5) return null;
+
+    const candidates = ref === 'HEAD' || ref.startsWith('refs/') ? [ref] : [`refs/heads/${ref}`, `refs/tags/${ref}`];
+    for (const name of candidates) {
+      const text = (await readText(name))?.trim();
+      if (text) return text.startsWith('ref: ') ? resolveRef(text.slice(5), depth + 1) : text;
+
+      const packed = (await loadPackedRefs()).get(name);
+      if (packed) return packed;
+    }
+    return null;
+  };
+
+  const getSummary = async (): Promise<GitRepositorySummary> => {
+    const headText = (await readText('HEAD'))?.trim() ?? '';
+    const currentBranch = headText.startsWith('ref: refs/heads/') ? headText.slice('ref: refs/heads/'.length) : null;
+
+    const branches = new Set<string>();
+    source.paths.forEach((path) => {
+      if (path.startsWith('refs/heads/')) branches.add(path.slice('refs/heads/'.length));
+    });
+    (await loadPackedRefs()).forEach((_, name) => {
+      if (name.startsWith('refs/heads/')) branches.add(name.slice('refs/heads/'.length));
+    });
+    if (currentBranch) branches.add(currentBranch);
+
+    return { currentBranch, head: await resolveRef('HEAD'), branches: Array.from(branches).sort() };
+  };
+
+  // ============================================
+  // Log
+  // ============================================
+
+  /**
+   * ref부터 부모 방향으로 committer 시간 역순 (git log 기본 순서)
+   */
+  const getLog = async (ref: string, limit: number): Promise<GitCommit[]> => {
+    const start = await resolveRef(ref);
+    if (!start) return [];
+
+    const log: GitCommit[] = [];
+    const seen = new Set<string>([start]);
+    const queue: GitCommit[] = [await readCommit(start)];
+
+    while (queue.length > 0 && log.length < limit) {
+      queue.sort((a, b) => b.committer.timestamp - a.committer.timestamp);
+      const commit = queue.shift() as GitCommit;
+      log.push(commit);
+
+      for (const parent of commit.parents) {
+        if (seen.has(parent)) continue;
+        seen.add(parent);
+        try {
+          queue.push(await readCommit(parent));
+        } catch {
+          // shallow clone: 부모 커밋이 없음
+        }
+      }
+    }
+
+    return log;
+  };
+
+  // ============================================
+  // Trees
+  // ============================================
+
+  /**
+   * tree → 저장소 경로 → blob hash (submodule 제외)
+   */
+  const flattenTree = async (treeHash: string, prefix = '', result = new Map<string, string>()) => {
+    for (const entry of await readTree(treeHash)) {
+      const path = prefix + entry.name;
+      if (isTreeMode(entry.mode)) await flattenTree(entry.hash, `${path}/`, result);
+      else if (!isGitlinkMode(entry.mode)) result.set(path, entry.hash);
+    }
+    return result;
+  };
+
+  /**
+   * 두 tree 비교 (hash가 같은 하위 tree는 건너뜀), oldTree가 null이면 전체 added
+   */
+  const diffTrees = async (oldTree: string | null, newTree: string | null, prefix = ''): Promise<GitTreeChange[]> => {
+    if (oldTree === newTree) return [];
+
+    const oldEntries = new Map((oldTree ? await readTree(oldTree) : []).map((entry) => [entry.name, entry]));
+    const newEntries = new Map((newTree ? await readTree(newTree) : []).map((entry) => [entry.name, entry]));
+    const changes: GitTreeChange[] = [];
+
+    const names = new Set([...oldEntries.keys(), ...newEntries.keys()]);
+    for (const name of Array.from(names).sort()) {
+      const before = oldEntries.get(name);
+      const after = newEntries.get(name);
+      if (before?.hash === after?.hash && before?.mode === after?.mode) continue;
+
+      const path = prefix + name;
+      const beforeTree = before && isTreeMode(before.mode) ? before.hash : null;
+      const afterTree = after && isTreeMode(after.mode) ? after.hash : null;
+
+      if (beforeTree || afterTree) {
+        changes.push(...(await diffTrees(beforeTree, afterTree, `${path}/`)));
+      }
+      const beforeFile = before && !beforeTree && !isGitlinkMode(before.mode);
+      const afterFile = after && !afterTree && !isGitlinkMode(after.mode);
+      if (beforeFile && afterFile) changes.push({ path, status: 'modified' });
+      else if (afterFile) changes.push({ path, status: 'added' });
+      else if (beforeFile) changes.push({ path, status: 'deleted' });
+    }
+
+    return changes;
+  };
+
+  /**
+   * 커밋이 바꾼 파일 (첫 번째 부모 기준, root commit은 전체 added)
+   */
+  const getCommitChanges = async (hash: string): Promise<GitTreeChange[]> => {
+    const commit = await readCommit(hash);
+    const parentTree = commit.parents[0] ? (await readCommit(commit.parents[0])).tree : null;
+    return diffTrees(parentTree, commit.tree);
+  };
+
+  const readIndex = async (): Promise<GitIndexEntry[] | null> => {
+    const data = await source.read('index');
+    return data ? parseGitIndex(data) : null;
+  };
+
+  return { readObject, readCommit, readTree, resolveRef, getSummary, getLog, flattenTree, getCommitChanges, readIndex };
+}
+
+/**
+ * HEAD / index / 작업 트리 비교 (git status)
+ * - staged: index ↔ HEAD
+ * - unstaged: 작업 트리 ↔ index (내용을 가진 파일만 비교)
+ * - workingHashes: 작업 트리 경로 → blob hash (IDE에 로드된 파일)
+ * - presentPaths: 업로드된 모든 경로 (내용이 없어도 존재하면 deleted 아님)
+ * - inScope: 작업 트리와 비교할 경로 (소스 파일 등 IDE가 읽는 파일)
+ */
+export function computeStatus(
+  headFiles: Map<string, string>,
+  indexEntries: GitIndexEntry[] | null,
+  workingHashes: Map<string, string>,
+  presentPaths: Set<string>,
+  inScope: (path: string) => boolean
+): { path: string; status: GitChangeStatus; staged: boolean }[] {
+  const index = indexEntries ? new Map(indexEntries.map((entry) => [entry.path, entry.hash])) : headFiles;
+  const changes: { path: string; status: GitChangeStatus; staged: boolean }[] = [];
+
+  // Staged
+  index.forEach((hash, path) => {
+    const headHash = headFiles.get(path);
+    if (headHash === undefined) changes.push({ path, status: 'added', staged: true });
+    else if (headHash !== hash) changes.push({ path, status: 'modified', staged: true });
+  });
+  headFiles.forEach((_, path) => {
+    if (!index.has(path)) changes.push({ path, status: 'deleted', staged: true });
+  });
+
+  // Unstaged
+  index.forEach((hash, path) => {
+    if (!inScope(path)) return;
+    const workingHash = workingHashes.get(path);
+    if (workingHash !== undefined) {
+      if (workingHash !== hash) changes.push({ path, status: 'modified', staged: false });
+    } else if (!presentPaths.has(path)) {
+      changes.push({ path, status: 'deleted', staged: false });
+    }
+  });
+  workingHashes.forEach((_, path) => {
+    if (!index.has(path)) changes.push({ path, status: 'untracked', staged: false });
+  });
+
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
@@ -0,0 +1,82 @@
+/**
+ * Git 저장소 읽기 - 공용 타입 (Worker ↔ 메인 스레드)
+ */
+
+export type GitObjectType = 'commit' | 'tree' | 'blob' | 'tag';
+
+export interface GitObject {
+  type: GitObjectType;
+  data: Uint8Array;
+}
+
+export interface GitPerson {
+  name: string;
+  email: string;
+  timestamp: number; // seconds since epoch
+}
+
+export interface GitCommit {
+  hash: string;
+  tree: string;
+  parents: string[];
+  author: GitPerson;
+  committer: GitPerson;
+  message: string;
+}
+
+export interface GitTreeEntry {
+  mode: string;
+  name: string;
+  hash: string;
+}
+
+export interface GitIndexEntry {
+  path: string;
+  hash: string;
+  mode: number;
+}
+
+export type GitChangeStatus = 'added' | 'modified' | 'deleted' | 'untracked';
+
+export interface GitFileChange {
+  path: string; // 저장소 기준 경로 (Worker) / 업로드 경로 (UI, filesAtom 키와 동일)
+  status: GitChangeStatus;
+  staged: boolean;
+}
+
+export interface GitCommitSummary {
+  hash: string;
+  parents: string[];
+  subject: string;
+  message: string;
+  author: string;
+  authorEmail: string;
+  timestamp: number;
+}
+
+export interface GitRepositorySummary {
+  currentBranch: string | null; // detached HEAD면 null
+  head: string | null; // 커밋이 없으면 null
+  branches: string[];
+}
+
+// ============================================
+// Worker messages (workers/gitRepository.worker.ts ↔ gitWorkerClient)
+// ============================================
+
+export type GitWorkerRequest =
+  | { type: 'open'; requestId: number; files: Record<string, File> } // .git 기준 상대 경로 → File
+  | { type: 'log'; requestId: number; ref: string; limit: number }
+  | { type: 'commitChanges'; requestId: number; hash: string }
+  | { type: 'status'; requestId: number; workingFiles: Record<string, string>; presentPaths: string[] }
+  | { type: 'listFiles'; requestId: number; ref: string }
+  | { type: 'readFiles'; requestId: number; ref: string; paths: string[] };
+
+export type GitWorkerResponse =
+  | { type: 'summary'; requestId: number; summary: GitRepositorySummary }
+  | { type: 'log'; requestId: number; commits: GitCommitSummary[] }
+  | { type: 'changes'; requestId: number; changes: Omit<GitFileChange, 'staged'>[] }
+  | { type: 'status'; requestId: number; changes: GitFileChange[] }
+  | { type: 'fileList'; requestId: number; paths: string[] }
+  | { type: 'files'; requestId: number; files: Record<string, string> } // 경로 → 텍스트 내용
+  | { type: 'error'; requestId: number; message: string };
@@ -257,6 +257,40 @@ export async function getEdgesByOutV(outV: string, label?: EdgeLabel): Promise<E
   }
 }
 
+/**
+ * Edge 조회 (여러 outV, 한 transaction)
+ * - Range가 많은 문서에서 vertex마다 transaction을 여는 비용 방지
+ */
+export async function getEdgesByOutVs(outVs: string[], label?: EdgeLabel): Promise<Edge[]> {
+  if (outVs.length === 0) return [];
+
+  try {
+    const db = await openDB();
+
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_EDGES, 'readonly');
+      const index = tx.objectStore(STORE_EDGES).index('outV');
+      const edges: Edge[] = [];
+
+      tx.oncomplete = () => resolve(edges);
+      tx.onerror = () => reject(tx.error);
+
+      outVs.forEach((outV) => {
+        const request = index.getAll(outV);
+        request.onsuccess = () => {
+          (request.result as EdgeRecord[]).forEach((r) => {
+            if (label && r.label !== label) return;
+            edges.push({ id: r.id, type: 'edge', label: r.label, outV: r.outV, inV: r.inV });
+          });
+        };
+      });
+    });
+  } catch (error) {
+    console.error('[LSIF DB] Error getting edges by outVs:', error);
+    return [];
+  }
+}
+
 /**
  * Edge 삭제 (outV로 일괄 삭제)
  */
@@ -372,6 +406,65 @@ export async function deleteDocumentIndex(uri: string): Promise<void> {
   }
 }
 
+// ========================================
+// Full Scan (Dump Export)
+// ========================================
+
+/**
+ * 모든 Vertex 조회
+ */
+export async function getAllVertices(): Promise<Vertex[]> {
+  try {
+    const db = await openDB();
+
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_VERTICES, 'readonly');
+      const store = tx.objectStore(STORE_VERTICES);
+      const request = store.getAll();
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        resolve((request.result as VertexRecord[]).map((r) => r.data));
+      };
+    });
+  } catch (error) {
+    console.error('[LSIF DB] Error getting all vertices:', error);
+    return [];
+  }
+}
+
+/**
+ * 모든 Edge 조회
+ */
+export async function getAllEdges(): Promise<Edge[]> {
+  try {
+    const db = await openDB();
+
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_EDGES, 'readonly');
+      const store = tx.objectStore(STORE_EDGES);
+      const request = store.getAll();
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const records = request.result as EdgeRecord[];
+        resolve(
+          records.map((r) => ({
+            id: r.id,
+            type: 'edge' as const,
+            label: r.label,
+            outV: r.outV,
+            inV: r.inV,
+          }))
+        );
+      };
+    });
+  } catch (error) {
+    console.error('[LSIF DB] Error getting all edges:', error);
+    return [];
+  }
+}
+
 // ========================================
 // Batch Operations
 // ========================================
@@ -435,6 +528,86 @@ export async function batchSave(vertices: Vertex[], edges: Edge[]): Promise<void
   }
 }
 
+/**
+ * Batch 삭제 (Vertex + Edge 한 번에)
+ * @param vertexIds - 삭제할 Vertex ID
+ * @param edgeOutVs - 이 Vertex에서 나가는 모든 Edge 삭제
+ * @param edgeInVs - 이 Vertex로 들어오는 모든 Edge 삭제
+ */
+export async function batchDelete(vertexIds: string[], edgeOutVs: string[], edgeInVs: string[] = []): Promise<void> {
+  if (vertexIds.length === 0 && edgeOutVs.length === 0 && edgeInVs.length === 0) return;
+
+  try {
+    const db = await openDB();
+
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction([STORE_VERTICES, STORE_EDGES], 'readwrite');
+      const verticesStore = tx.objectStore(STORE_VERTICES);
+      const edgesStore = tx.objectStore(STORE_EDGES);
+
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+
+      // Vertices 삭제
+      vertexIds.forEach((id) => {
+        verticesStore.delete(id);
+      });
+
+      // Edges 삭제 (outV / inV index cursor)
+      const deleteByIndex = (indexName: 'outV' | 'inV', keys: string[]) => {
+        const index = edgesStore.index(indexName);
+        keys.forEach((key) => {
+          const request = index.openCursor(IDBKeyRange.only(key));
+          request.onsuccess = () => {
+            const cursor = request.result;
+            if (cursor) {
+              cursor.delete();
+              cursor.continue();
+            }
+          };
+        });
+      };
+
+      deleteByIndex('outV', edgeOutVs);
+      deleteByIndex('inV', edgeInVs);
+    });
+  } catch (error) {
+    console.error('[LSIF DB] Error batch deleting:', error);
+  }
+}
+
+/**
+ * 문서 하나의 Index 전체 삭제
+ * - Document / Range / ResultSet vertex
+ * - ResultSet에 연결된 DefinitionResult / HoverResult / ReferenceResult
+ * - 위 vertex에 연결된 모든 edge + Document index
+ * @returns 삭제된 문서의 ResultSet + 문서의 Range가 가리키던 ResultSet ID (ReferenceResult 재계산용)
+ */
+export async function deleteDocument(uri: string): Promise<string[]> {
+  const docId = `doc:${uri}`;
+
+  const ranges = await queryVertices('range', { documentId: docId });
+  const resultSets = await queryVertices('resultSet', { documentId: docId });
+
+  const rangeIds = ranges.map((v) => v.id);
+  const resultSetIds = resultSets.map((v) => v.id);
+
+  // Range → ResultSet (다른 문서 소유 포함)
+  const referencedResultSetIds = (await getEdgesByOutVs(rangeIds, 'next')).map((e) => e.inV);
+
+  // ResultSet → (definition | hover | references) 결과 vertex
+  const resultIds = (await getEdgesByOutVs(resultSetIds)).map((e) => e.inV);
+
+  await batchDelete(
+    [docId, ...rangeIds, ...resultSetIds, ...resultIds],
+    [docId, ...rangeIds, ...resultSetIds, ...resultIds],
+    rangeIds
+  );
+  await deleteDocumentIndex(uri);
+
+  return Array.from(new Set([...resultSetIds, ...referencedResultSetIds]));
+}
+
 /**
  * 전체 Index 초기화
  */
@@ -0,0 +1,272 @@
+/**
+ * LSIF Dump 테스트
+ *
+ * 내부 Index → JSON Lines dump → 내부 Index 왕복이 문서 / range / result를 보존하는지 확인
+ */
+
+import * as ts from 'typescript';
+import { describe, expect, it } from 'vitest';
+import { deserializeLSIFDump, parseLSIFDump, serializeLSIFDump } from '../dump';
+import { parseFileToLSIF } from '../indexer';
+import { hashContent } from '../query';
+import type { DumpElement, Edge, EdgeLabel, LSIFIndexResult, Position, RangeVertex, Vertex } from '../types';
+
+const FILE_PATH = 'src/utils/math.ts';
+const CONTENT = `export function add(a: number, b: number) {
+  return a + b;
+}
+
+export const ZERO = 0;
+
+export interface Point {
+  x: number;
+}
+`;
+
+function indexFile(filePath: string, content: string): LSIFIndexResult {
+  const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true);
+  return parseFileToLSIF(filePath, content, sourceFile);
+}
+
+function roundTrip(result: LSIFIndexResult, contents?: Record<string, string>): LSIFIndexResult[] {
+  const elements = serializeLSIFDump(result.vertices, result.edges, { contents });
+  const text = `${elements.map((element) => JSON.stringify(element)).join('\n')}\n`;
+  return deserializeLSIFDump(parseLSIFDump(text));
+}
+
+const byType = <T extends Vertex['type']>(vertices: Vertex[], type: T) =>
+  vertices.filter((vertex): vertex is Extract<Vertex, { type: T }> => vertex.type === type);
+
+describe('LSIF Dump - Export / Import 왕복', () => {
+  it('document / range / resultSet 보존', () => {
+    const original = indexFile(FILE_PATH, CONTENT);
+    const [imported] = roundTrip(original, { [FILE_PATH]: CONTENT });
+
+    expect(imported.documentId).toBe(`doc:${FILE_PATH}`);
+
+    const [document] = byType(imported.vertices, 'document');
+    expect(document.uri).toBe(FILE_PATH);
+    expect(document.contentHash).toBe(hashContent(CONTENT));
+
+    const rangesOf = (result: LSIFIndexResult) =>
+      byType(result.vertices, 'range')
+        .map(({ id, range, tag }) => ({ id, range, name: tag?.text }))
+        .sort((a, b) => a.id.localeCompare(b.id));
+    expect(rangesOf(imported)).toEqual(rangesOf(original));
+
+    const symbolsOf = (result: LSIFIndexResult) =>
+      byType(result.vertices, 'resultSet')
+        .map((resultSet) => resultSet.symbolName)
+        .sort();
+    expect(symbolsOf(imported)).toEqual(['Point', 'ZERO', 'add']);
+    expect(symbolsOf(imported)).toEqual(symbolsOf(original));
+  });
+
+  it('definitionResult의 정의 위치 보존', () => {
+    const original = indexFile(FILE_PATH, CONTENT);
+    const [imported] = roundTrip(original);
+
+    const definitionsOf = (result: LSIFIndexResult) =>
+      byType(result.vertices, 'definitionResult')
+        .map(({ result: location }) => location)
+        .sort((a, b) => a.range.start.line - b.range.start.line);
+    expect(definitionsOf(imported)).toHaveLength(3);
+    expect(definitionsOf(imported)).toEqual(definitionsOf(original));
+    expect(definitionsOf(imported)[0]).toMatchObject({ uri: FILE_PATH, range: { start: { line: 0 } } });
+  });
+
+  it('contents 없이 가져오면 contentHash가 비어 있음 (다음 파싱 때 재인덱싱)', () => {
+    const [imported] = roundTrip(indexFile(FILE_PATH, CONTENT));
+    const [document] = byType(imported.vertices, 'document');
+    expect(document.contentHash).toBe('');
+  });
+
+  it('contents가 없으면 현재 파일 내용으로 contentHash 계산', () => {
+    const elements = serializeLSIFDump(indexFile(FILE_PATH, CONTENT).vertices, []);
+    const [imported] = deserializeLSIFDump(elements, { [FILE_PATH]: CONTENT });
+    const [document] = byType(imported.vertices, 'document');
+    expect(document.contentHash).toBe(hashContent(CONTENT));
+  });
+});
+
+// ========================================
+// 외부 dump (lsif-tsc 형식)
+// ========================================
+
+const MATH = `export function add(a: number, b: number) {
+  return a + b;
+}
+`;
+const MAIN = `import { add } from './math';
+add(1, 2);
+`;
+
+const range = (id: number, line: number, start: number, end: number, tag: Record<string, unknown>): DumpElement => ({
+  id,
+  type: 'vertex',
+  label: 'range',
+  start: { line, character: start },
+  end: { line, character: end },
+  tag,
+});
+
+/**
+ * lsif-tsc가 만드는 구조
+ * - 숫자 id, projectRoot 기준 uri, contents 없음
+ * - import한 문서의 range → 문서별 resultSet → (next) export resultSet
+ * - item edge는 document(0.4) / shard(0.5) 둘 다, 다른 문서의 참조는 referenceResults로 연결
+ */
+const LSIF_TSC_DUMP: DumpElement[] = [
+  { id: 1, type: 'vertex', label: 'metaData', version: '0.4.3', projectRoot: 'file:///work/project' },
+  { id: 2, type: 'vertex', label: 'document', uri: 'file:///work/project/src/math.ts', languageId: 'typescript' },
+  { id: 3, type: 'vertex', label: 'document', uri: 'file:///work/project/src/main.ts', languageId: 'typescript' },
+  { id: 4, type: 'vertex', label: 'resultSet' },
+  { id: 5, type: 'vertex', label: 'moniker', kind: 'export', scheme: 'tsc', identifier: 'src/math:add' },
+  { id: 6, type: 'edge', label: 'moniker', outV: 4, inV: 5 },
+  range(7, 0, 16, 19, { type: 'definition', text: 'add', kind: 12 }),
+  { id: 8, type: 'edge', label: 'next', outV: 7, inV: 4 },
+  { id: 9, type: 'vertex', label: 'resultSet' },
+  { id: 10, type: 'edge', label: 'next', outV: 9, inV: 4 },
+  range(11, 0, 9, 12, { type: 'reference', text: 'add' }),
+  range(12, 1, 0, 3, { type: 'reference', text: 'add' }),
+  { id: 13, type: 'edge', label: 'next', outV: 11, inV: 9 },
+  { id: 14, type: 'edge', label: 'next', outV: 12, inV: 9 },
+  { id: 15, type: 'edge', label: 'contains', outV: 2, inVs: [7] },
+  { id: 16, type: 'edge', label: 'contains', outV: 3, inVs: [11, 12] },
+  { id: 17, type: 'vertex', label: 'definitionResult' },
+  { id: 18, type: 'edge', label: 'textDocument/definition', outV: 4, inV: 17 },
+  { id: 19, type: 'edge', label: 'item', outV: 17, inVs: [7], document: 2 },
+  { id: 20, type: 'vertex', label: 'referenceResult' },
+  { id: 21, type: 'edge', label: 'textDocument/references', outV: 4, inV: 20 },
+  { id: 22, type: 'edge', label: 'item', outV: 20, inVs: [7], shard: 2, property: 'definitions' },
+  { id: 23, type: 'edge', label: 'item', outV: 20, inVs: [11], shard: 3, property: 'references' },
+  { id: 24, type: 'vertex', label: 'referenceResult' },
+  { id: 25, type: 'edge', label: 'item', outV: 20, inVs: [24], shard: 3, property: 'referenceResults' },
+  { id: 26, type: 'edge', label: 'item', outV: 24, inVs: [12], document: 3, property: 'references' },
+  {
+    id: 27,
+    type: 'vertex',
+    label: 'hoverResult',
+    result: { contents: [{ language: 'typescript', value: 'function add(a: number, b: number): number' }] },
+  },
+  { id: 28, type: 'edge', label: 'textDocument/hover', outV: 4, inV: 27 },
+];
+
+/**
+ * query.ts와 같은 순서로 탐색 (range → next → resultSet → 결과 vertex)
+ * - IndexedDB 대신 가져온 vertex / edge를 메모리에서 조회
+ */
+function createQuery(results: LSIFIndexResult[]) {
+  const vertices = new Map(results.flatMap((r) => r.vertices).map((v) => [v.id, v]));
+  const edges: Edge[] = results.flatMap((r) => r.edges);
+
+  const follow = (id: string, label: EdgeLabel) => {
+    const edge = edges.find((e) => e.outV === id && e.label === label);
+    return edge ? vertices.get(edge.inV) : undefined;
+  };
+
+  const resultAt = (uri: string, position: Position, label: EdgeLabel) => {
+    const target = Array.from(vertices.values()).find(
+      (v): v is RangeVertex =>
+        v.type === 'range' &&
+        v.documentId === `doc:${uri}` &&
+        v.range.start.line === position.line &&
+        v.range.start.character <= position.character &&
+        position.character <= v.range.end.character
+    );
+    const resultSet = target && follow(target.id, 'next');
+    return resultSet && follow(resultSet.id, label);
+  };
+
+  return {
+    definition: (uri: string, position: Position) => {
+      const result = resultAt(uri, position, 'textDocument/definition');
+      return result?.type === 'definitionResult' ? result.result : null;
+    },
+    references: (uri: string, position: Position) => {
+      const result = resultAt(uri, position, 'textDocument/references');
+      return result?.type === 'referenceResult' ? result.result : [];
+    },
+    hover: (uri: string, position: Position) => {
+      const result = resultAt(uri, position, 'textDocument/hover');
+      return result?.type === 'hoverResult' ? result.result.contents : null;
+    },
+  };
+}
+
+describe('LSIF Dump - 외부 dump 가져오기', () => {
+  const files = { 'my-app/src/math.ts': MATH, 'my-app/src/main.ts': MAIN };
+  const text = LSIF_TSC_DUMP.map((element) => JSON.stringify(element)).join('\n');
+
+  it('업로드 폴더 경로로 매칭 + 현재 파일 내용으로 contentHash 계산', () => {
+    const results = deserializeLSIFDump(parseLSIFDump(text), files);
+
+    expect(results.map((r) => r.documentId)).toEqual(['doc:my-app/src/math.ts', 'doc:my-app/src/main.ts']);
+    const hashes = results.flatMap((r) => byType(r.vertices, 'document')).map((doc) => doc.contentHash);
+    expect(hashes).toEqual([hashContent(MATH), hashContent(MAIN)]);
+  });
+
+  it('definition: import한 문서에서 next chain을 따라 정의 위치 조회', () => {
+    const query = createQuery(deserializeLSIFDump(parseLSIFDump(text), files));
+    const definition = {
+      uri: 'my-app/src/math.ts',
+      range: { start: { line: 0, character: 16 }, end: { line: 0, character: 19 } },
+    };
+
+    expect(query.definition('my-app/src/main.ts', { line: 1, character: 1 })).toEqual(definition);
+    expect(query.definition('my-app/src/main.ts', { line: 0, character: 10 })).toEqual(definition);
+    expect(query.definition('my-app/src/math.ts', { line: 0, character: 17 })).toEqual(definition);
+  });
+
+  it('references: shard / document item edge와 referenceResults를 모두 펼침 (정의 위치 제외)', () => {
+    const query = createQuery(deserializeLSIFDump(parseLSIFDump(text), files));
+    const expected = [
+      { uri: 'my-app/src/main.ts', range: { start: { line: 0, character: 9 }, end: { line: 0, character: 12 } } },
+      { uri: 'my-app/src/main.ts', range: { start: { line: 1, character: 0 }, end: { line: 1, character: 3 } } },
+    ];
+
+    expect(query.references('my-app/src/math.ts', { line: 0, character: 17 })).toEqual(expected);
+    expect(query.references('my-app/src/main.ts', { line: 1, character: 0 })).toEqual(expected);
+  });
+
+  it('hover / symbol 이름 / export tag', () => {
+    const results = deserializeLSIFDump(parseLSIFDump(text), files);
+    const query = createQuery(results);
+
+    expect(query.hover('my-app/src/main.ts', { line: 1, character: 0 })).toBe(
+      '```typescript\nfunction add(a: number, b: number): number\n```'
+    );
+    // 문서별 resultSet은 같은 정의 문서에 별도 resultSet으로 남음
+    const resultSets = results.flatMap((r) => byType(r.vertices, 'resultSet'));
+    expect(resultSets.map((rs) => [rs.documentId, rs.symbolName])).toEqual([
+      ['doc:my-app/src/math.ts', 'add'],
+      ['doc:my-app/src/math.ts', 'add'],
+    ]);
+    const [definition] = byType(results[0].vertices, 'range');
+    expect(definition.tag).toEqual({ type: 'definition', text: 'add', kind: 'function' });
+  });
+});
+
+describe('LSIF Dump - 파싱', () => {
+  it('JSON Lines와 JSON 배열 모두 허용', () => {
+    const elements = [
+      { id: 1, type: 'vertex', label: 'metaData', version: '0.4.3' },
+      { id: 2, type: 'vertex', label: 'document', uri: 'file:///a.ts', languageId: 'typescript' },
+    ];
+
+    const lines = elements.map((element) => JSON.stringify(element)).join('\r\n');
+    expect(parseLSIFDump(lines)).toEqual(elements);
+    expect(parseLSIFDump(JSON.stringify(elements))).toEqual(elements);
+    expect(parseLSIFDump('  \n')).toEqual([]);
+  });
+
+  it('JSON이 아닌 줄은 줄 번호와 함께 에러', () => {
+    expect(() => parseLSIFDump('{"id":1,"type":"vertex","label":"metaData"}\nnot json')).toThrow('line 2');
+  });
+
+  it('metaData가 없으면 에러', () => {
+    expect(() => deserializeLSIFDump([{ id: 1, type: 'vertex', label: 'document', uri: 'file:///a.ts' }])).toThrow(
+      'metaData'
+    );
+  });
+});
@@ -0,0 +1,719 @@
+/**
+ * LSIF Dump - JSON Lines Export / Import
+ *
+ * IndexedDB에 저장된 LSIF Graph를 spec 형식(.lsif)으로 내보내고,
+ * 외부 도구(lsif-tsc 등)가 만든 dump를 IndexedDB로 가져온다
+ * - Export: 문자열 id → 숫자 id, 내부 result 배열 → item edge, ResultSet마다 moniker 생성
+ * - Import: next chain 평탄화, item edge → 내부 result 배열 (query.ts가 그대로 조회 가능)
+ */
+
+import { batchSave, deleteDocument, getAllEdges, getAllVertices, saveDocumentIndex } from './IndexDB';
+import { createEdge } from './indexer';
+import { hashContent } from './query';
+import type {
+  DefinitionResultVertex,
+  DocumentVertex,
+  DumpEdge,
+  DumpElement,
+  DumpId,
+  DumpVertex,
+  Edge,
+  HoverResultVertex,
+  LSIFIndexResult,
+  Position,
+  Range,
+  RangeVertex,
+  ReferenceResultVertex,
+  ResultSetVertex,
+  Vertex,
+} from './types';
+
+const LSIF_VERSION = '0.4.3';
+const DEFAULT_PROJECT_ROOT = 'file:///';
+const TOOL_NAME = 'vibe-code-ide';
+
+type RangeTag = NonNullable<RangeVertex['tag']>;
+type Location = { uri: string; range: Range };
+
+/**
+ * 내부 symbol kind ↔ LSP SymbolKind
+ */
+const SYMBOL_KINDS: Record<RangeTag['kind'], number> = {
+  class: 5,
+  enum: 10,
+  interface: 11,
+  function: 12,
+  variable: 13,
+  type: 26, // TypeParameter (LSP에 type alias kind 없음)
+  import: 2, // Module
+};
+
+function fromSymbolKind(kind: unknown): RangeTag['kind'] {
+  switch (kind) {
+    case 5:
+      return 'class';
+    case 6: // Method
+    case 9: // Constructor
+    case 12:
+      return 'function';
+    case 10:
+      return 'enum';
+    case 11:
+      return 'interface';
+    case 26:
+      return 'type';
+    default:
+      return 'variable';
+  }
+}
+
+// ========================================
+// Export
+// ========================================
+
+export interface SerializeDumpOptions {
+  projectRoot?: string; // document uri의 기준 (기본: file:///)
+  contents?: Record<string, string>; // 지정 시 document.contents(base64) 포함 → import 시 contentHash 복원
+}
+
+/**
+ * 내부 Vertex/Edge → LSIF dump elements
+ * - vertex는 항상 참조하는 edge보다 먼저 나온다 (spec 요구사항)
+ */
+export function serializeLSIFDump(
+  vertices: Vertex[],
+  edges: Edge[],
+  options: SerializeDumpOptions = {}
+): DumpElement[] {
+  const projectRoot = options.projectRoot ?? DEFAULT_PROJECT_ROOT;
+  const elements: DumpElement[] = [];
+
+  // 내부 문자열 id → dump 숫자 id
+  const ids = new Map<string, number>();
+  let counter = 0;
+
+  const emitVertex = (key: string | null, label: string, props: Record<string, unknown> = {}): number => {
+    const id = ++counter;
+    if (key) ids.set(key, id);
+    elements.push({ id, type: 'vertex', label, ...props });
+    return id;
+  };
+
+  const emitEdge = (label: string, outV: number, target: number | number[], props: Partial<DumpEdge> = {}) => {
+    elements.push({
+      id: ++counter,
+      type: 'edge',
+      label,
+      outV,
+      ...(Array.isArray(target) ? { inVs: target } : { inV: target }),
+      ...props,
+    });
+  };
+
+  // 같은 문서의 range끼리 묶어 item edge 생성
+  const emitItems = (outV: number, locations: Location[], property?: DumpEdge['property']) => {
+    const rangesByDoc = new Map<number, number[]>();
+
+    locations.forEach((loc) => {
+      const rangeId = ids.get(`range:doc:${loc.uri}:${loc.range.start.line}:${loc.range.start.character}`);
+      const docId = ids.get(`doc:${loc.uri}`);
+      if (rangeId === undefined || docId === undefined) return;
+
+      if (!rangesByDoc.has(docId)) rangesByDoc.set(docId, []);
+      rangesByDoc.get(docId)?.push(rangeId);
+    });
+
+    rangesByDoc.forEach((rangeIds, docId) => {
+      emitEdge('item', outV, rangeIds, { document: docId, ...(property ? { property } : {}) });
+    });
+  };
+
+  // Lookup 테이블
+  const vertexById = new Map(vertices.map((v) => [v.id, v]));
+  const outEdges = new Map<string, Edge[]>();
+  edges.forEach((edge) => {
+    if (!outEdges.has(edge.outV)) outEdges.set(edge.outV, []);
+    outEdges.get(edge.outV)?.push(edge);
+  });
+
+  const documents = vertices
+    .filter((v): v is DocumentVertex => v.type === 'document')
+    .sort((a, b) => a.uri.localeCompare(b.uri));
+  const resultSets = vertices.filter((v): v is ResultSetVertex => v.type === 'resultSet');
+  const rangesByDoc = new Map<string, RangeVertex[]>();
+  vertices.forEach((v) => {
+    if (v.type !== 'range') return;
+    if (!rangesByDoc.has(v.documentId)) rangesByDoc.set(v.documentId, []);
+    rangesByDoc.get(v.documentId)?.push(v);
+  });
+
+  // 1. metaData + project
+  emitVertex(null, 'metaData', {
+    version: LSIF_VERSION,
+    projectRoot,
+    positionEncoding: 'utf-16',
+    toolInfo: { name: TOOL_NAME },
+  });
+  const projectId = emitVertex(null, 'project', { kind: 'typescript' });
+
+  // 2. document + range + contains
+  documents.forEach((doc) => {
+    const content = options.contents?.[doc.uri];
+    const docId = emitVertex(doc.id, 'document', {
+      uri: toDocumentUri(doc.uri, projectRoot),
+      languageId: doc.languageId,
+      ...(content !== undefined ? { contents: encodeBase64(content) } : {}),
+    });
+
+    const rangeIds = (rangesByDoc.get(doc.id) || []).map((range) =>
+      emitVertex(range.id, 'range', {
+        start: range.range.start,
+        end: range.range.end,
+        ...(range.tag ? { tag: toDumpTag(range) } : {}),
+      })
+    );
+    if (rangeIds.length > 0) emitEdge('contains', docId, rangeIds);
+  });
+
+  if (documents.length > 0) {
+    emitEdge(
+      'contains',
+      projectId,
+      documents.map((doc) => ids.get(doc.id) as number)
+    );
+  }
+
+  // definition tag(= export된 선언) Range가 가리키는 ResultSet
+  const exportedResultSets = new Set<string>();
+  edges.forEach((edge) => {
+    const range = vertexById.get(edge.outV);
+    if (edge.label === 'next' && range?.type === 'range' && range.tag?.type === 'definition') {
+      exportedResultSets.add(edge.inV);
+    }
+  });
+
+  // 3. resultSet + moniker + 결과 vertex
+  resultSets.forEach((rs) => {
+    const rsId = emitVertex(rs.id, 'resultSet');
+    const uri = rs.documentId.replace('doc:', '');
+    const symbolKey = rs.id.slice(`rs:${rs.documentId}:`.length) || rs.symbolName;
+
+    const monikerId = emitVertex(null, 'moniker', {
+      scheme: 'tsc',
+      identifier: `${uri}:${symbolKey}`,
+      kind: exportedResultSets.has(rs.id) ? 'export' : 'local',
+      unique: exportedResultSets.has(rs.id) ? 'workspace' : 'document',
+    });
+    emitEdge('moniker', rsId, monikerId);
+
+    const rsEdges = outEdges.get(rs.id) || [];
+    const definitions: Location[] = [];
+
+    rsEdges.forEach((edge) => {
+      const result = vertexById.get(edge.inV);
+      if (result?.type !== 'definitionResult') return;
+
+      const defId = emitVertex(result.id, 'definitionResult');
+      emitEdge(edge.label, rsId, defId);
+      emitItems(defId, [result.result]);
+      definitions.push(result.result);
+    });
+
+    rsEdges.forEach((edge) => {
+      const result = vertexById.get(edge.inV);
+
+      if (result?.type === 'hoverResult') {
+        const hoverId = emitVertex(result.id, 'hoverResult', {
+          result: { contents: { kind: 'markdown', value: result.result.contents } },
+        });
+        emitEdge(edge.label, rsId, hoverId);
+      }
+
+      if (result?.type === 'referenceResult') {
+        const refId = emitVertex(result.id, 'referenceResult');
+        emitEdge(edge.label, rsId, refId);
+        emitItems(refId, definitions, 'definitions');
+        emitItems(refId, result.result, 'references');
+      }
+    });
+  });
+
+  // 4. Range → ResultSet (next)
+  edges.forEach((edge) => {
+    if (edge.label !== 'next') return;
+    const outV = ids.get(edge.outV);
+    const inV = ids.get(edge.inV);
+    if (outV !== undefined && inV !== undefined) emitEdge('next', outV, inV);
+  });
+
+  return elements;
+}
+
+/**
+ * IndexedDB의 전체 Index를 LSIF JSON Lines 문자열로 내보내기
+ * @param contents - 파일 내용 (filesAtom), 지정 시 document.contents 포함
+ */
+export async function exportLSIFDump(contents?: Record<string, string>): Promise<string> {
+  const [vertices, edges] = await Promise.all([getAllVertices(), getAllEdges()]);
+  const elements = serializeLSIFDump(vertices, edges, { contents });
+  return `${elements.map((element) => JSON.stringify(element)).join('\n')}\n`;
+}
+
+// ========================================
+// Import
+// ========================================
+
+/**
+ * LSIF dump 문자열 파싱 (JSON Lines 또는 JSON 배열)
+ */
+export function parseLSIFDump(text: string): DumpElement[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+
+  if (trimmed.startsWith('[')) {
+    return JSON.parse(trimmed) as DumpElement[];
+  }
+
+  const elements: DumpElement[] = [];
+  trimmed.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    try {
+      elements.push(JSON.parse(line) as DumpElement);
+    } catch {
+      throw new Error(`Invalid LSIF dump: line ${index + 1} is not valid JSON`);
+    }
+  });
+  return elements;
+}
+
+interface ImportedDocument {
+  path: string;
+  docId: string;
+  contents?: string;
+  result: LSIFIndexResult;
+}
+
+/**
+ * LSIF dump elements → 문서별 내부 LSIF Index
+ *
+ * - document uri는 metaData.projectRoot 기준 상대 경로로 변환
+ *   (files 지정 시 업로드 폴더 prefix가 붙은 경로로 매칭)
+ * - contentHash는 document.contents → files의 현재 내용 순으로 계산
+ *   (둘 다 없으면 빈 값 → 파일이 열리면 worker가 다시 인덱싱)
+ * - range → resultSet → resultSet ... chain은 첫 resultSet 하나로 평탄화
+ *   (query.ts는 next를 한 번만 따라가므로)
+ * - definitionResult / referenceResult의 item edge는 내부 result 배열로 변환
+ */
+export function deserializeLSIFDump(elements: DumpElement[], files?: Record<string, string>): LSIFIndexResult[] {
+  const knownPaths = files ? Object.keys(files) : undefined;
+  const vertices = new Map<string, DumpVertex>();
+  const outEdges = new Map<string, DumpEdge[]>();
+
+  elements.forEach((element) => {
+    if (element.type === 'vertex') {
+      vertices.set(String(element.id), element);
+    } else if (element.type === 'edge') {
+      const key = String(element.outV);
+      if (!outEdges.has(key)) outEdges.set(key, []);
+      outEdges.get(key)?.push(element);
+    }
+  });
+
+  const metaData = Array.from(vertices.values()).find((v) => v.label === 'metaData');
+  if (!metaData) {
+    throw new Error('Invalid LSIF dump: metaData vertex not found');
+  }
+  const projectRoot = typeof metaData.projectRoot === 'string' ? metaData.projectRoot : DEFAULT_PROJECT_ROOT;
+  const hasMonikers = Array.from(vertices.values()).some((v) => v.label === 'moniker');
+
+  const targetsOf = (edge: DumpEdge): string[] =>
+    (edge.inVs ?? (edge.inV !== undefined ? [edge.inV] : [])).map((id: DumpId) => String(id));
+
+  const follow = (key: string, label: string): string | undefined => {
+    const edge = outEdges.get(key)?.find((e) => e.label === label);
+    return edge ? targetsOf(edge)[0] : undefined;
+  };
+
+  // range → resultSet → resultSet ... 순서로 label edge 탐색
+  const resolveInChain = (key: string, label: string): string | undefined => {
+    const visited = new Set<string>();
+    let current: string | undefined = key;
+    while (current && !visited.has(current)) {
+      visited.add(current);
+      const target = follow(current, label);
+      if (target) return target;
+      current = follow(current, 'next');
+    }
+    return undefined;
+  };
+
+  const isExported = (key: string): boolean => {
+    const monikerKey = resolveInChain(key, 'moniker');
+    return !!monikerKey && vertices.get(monikerKey)?.kind === 'export';
+  };
+
+  // 1. Document
+  const documents = new Map<string, ImportedDocument>(); // dump id → document
+  const documentsByPath = new Map<string, ImportedDocument>();
+
+  vertices.forEach((vertex, key) => {
+    if (vertex.label !== 'document' || typeof vertex.uri !== 'string') return;
+
+    const path = toProjectPath(vertex.uri, projectRoot, knownPaths);
+    const docId = `doc:${path}`;
+    const contents = typeof vertex.contents === 'string' ? decodeBase64(vertex.contents) : undefined;
+    // lsif-tsc 등 외부 dump는 contents가 없음 → 가져오는 시점의 파일 내용 기준 (worker가 덮어쓰지 않도록)
+    const hashSource = contents ?? files?.[path];
+
+    const docVertex: DocumentVertex = {
+      id: docId,
+      type: 'document',
+      uri: path,
+      languageId: toLanguageId(vertex.languageId, path),
+      contentHash: hashSource !== undefined ? hashContent(hashSource) : '',
+    };
+
+    const document: ImportedDocument = {
+      path,
+      docId,
+      contents,
+      result: { vertices: [docVertex], edges: [], documentId: docId },
+    };
+    documents.set(key, document);
+    documentsByPath.set(path, document);
+  });
+
+  // 2. Range (document contains edge 기준)
+  const ranges = new Map<string, { vertex: RangeVertex; document: ImportedDocument }>();
+
+  documents.forEach((document, docKey) => {
+    const seenRangeIds = new Map<string, RangeVertex>();
+
+    outEdges.get(docKey)?.forEach((edge) => {
+      if (edge.label !== 'contains') return;
+
+      targetsOf(edge).forEach((rangeKey) => {
+        const dumpRange = vertices.get(rangeKey);
+        const range = dumpRange?.label === 'range' ? toRange(dumpRange) : null;
+        if (!range) return;
+
+        const id = `range:${document.docId}:${range.start.line}:${range.start.character}`;
+        const existing = seenRangeIds.get(id);
+        if (existing) {
+          ranges.set(rangeKey, { vertex: existing, document });
+          return;
+        }
+
+        const tag = fromDumpTag(dumpRange?.tag, hasMonikers && !isExported(rangeKey));
+        const rangeVertex: RangeVertex = {
+          id,
+          type: 'range',
+          documentId: document.docId,
+          range,
+          ...(tag ? { tag } : {}),
+        };
+
+        seenRangeIds.set(id, rangeVertex);
+        ranges.set(rangeKey, { vertex: rangeVertex, document });
+        document.result.vertices.push(rangeVertex);
+        document.result.edges.push(createEdge(document.docId, 'contains', id));
+      });
+    });
+  });
+
+  // item edge → Location[] (referenceResults는 재귀적으로 펼침)
+  const itemLocations = (resultKey: string, visited = new Set<string>()): Location[] => {
+    if (visited.has(resultKey)) return [];
+    visited.add(resultKey);
+
+    const locations: Location[] = [];
+    outEdges.get(resultKey)?.forEach((edge) => {
+      // 내부 ReferenceResult는 정의 위치를 제외한 참조만 저장
+      if (edge.label !== 'item' || edge.property === 'definitions' || edge.property === 'referenceLinks') return;
+
+      targetsOf(edge).forEach((target) => {
+        if (edge.property === 'referenceResults') {
+          locations.push(...itemLocations(target, visited));
+          return;
+        }
+        const range = ranges.get(target);
+        if (range) locations.push({ uri: range.document.path, range: range.vertex.range });
+      });
+    });
+
+    const unique = new Map(
+      locations.map((loc) => [`${loc.uri}:${loc.range.start.line}:${loc.range.start.character}`, loc])
+    );
+    return Array.from(unique.values());
+  };
+
+  // 3. ResultSet + 결과 vertex
+  const resultSetIds = new Set<string>();
+  const hubs = new Map<string, string | null>(); // 첫 resultSet dump id → 내부 rsId
+
+  const createResultSet = (hubKey: string, owner: { vertex: RangeVertex; document: ImportedDocument }) => {
+    const defKey = resolveInChain(hubKey, 'textDocument/definition');
+    const hoverKey = resolveInChain(hubKey, 'textDocument/hover');
+    const refKey = resolveInChain(hubKey, 'textDocument/references');
+    if (!defKey && !hoverKey && !refKey) return null;
+
+    const definitions = defKey ? itemLocations(defKey) : [];
+    const definition = definitions[0];
+    const document = (definition && documentsByPath.get(definition.uri)) || owner.document;
+    const definitionRange = definition
+      ? document.result.vertices.find(
+          (v): v is RangeVertex =>
+            v.type === 'range' &&
+            v.range.start.line === definition.range.start.line &&
+            v.range.start.character === definition.range.start.character
+        )
+      : undefined;
+
+    const symbolName =
+      definitionRange?.tag?.text ||
+      owner.vertex.tag?.text ||
+      textAt(document.contents, definition?.range) ||
+      textAt(owner.document.contents, owner.vertex.range) ||
+      monikerName(vertices.get(resolveInChain(hubKey, 'moniker') || '')) ||
+      `symbol${hubKey}`;
+
+    const moniker = vertices.get(resolveInChain(hubKey, 'moniker') || '');
+    let rsId = `rs:${document.docId}:${monikerSymbolKey(moniker, document.path) || symbolName}`;
+    if (resultSetIds.has(rsId)) rsId = `${rsId}#${hubKey}`;
+    resultSetIds.add(rsId);
+
+    const { vertices: docVertices, edges: docEdges } = document.result;
+    const resultSet: ResultSetVertex = { id: rsId, type: 'resultSet', documentId: document.docId, symbolName };
+    docVertices.push(resultSet);
+
+    if (definition) {
+      const defResult: DefinitionResultVertex = {
+        id: `defResult:${rsId}`,
+        type: 'definitionResult',
+        result: definition,
+      };
+      docVertices.push(defResult);
+      docEdges.push(createEdge(rsId, 'textDocument/definition', defResult.id));
+    }
+
+    const hover = hoverKey ? vertices.get(hoverKey)?.result : undefined;
+    const hoverContents = toMarkdown((hover as { contents?: unknown } | undefined)?.contents);
+    if (hoverContents) {
+      const hoverResult: HoverResultVertex = {
+        id: `hoverResult:${rsId}`,
+        type: 'hoverResult',
+        result: { contents: hoverContents },
+      };
+      docVertices.push(hoverResult);
+      docEdges.push(createEdge(rsId, 'textDocument/hover', hoverResult.id));
+    }
+
+    if (refKey) {
+      const references = itemLocations(refKey);
+      const refResult: ReferenceResultVertex = {
+        id: `refResult:${rsId}`,
+        type: 'referenceResult',
+        result: references,
+      };
+      docVertices.push(refResult);
+      docEdges.push(createEdge(rsId, 'textDocument/references', refResult.id));
+      references.forEach((ref) => {
+        const rangeId = `range:doc:${ref.uri}:${ref.range.start.line}:${ref.range.start.character}`;
+        docEdges.push(createEdge(refResult.id, 'item', rangeId));
+      });
+    }
+
+    return rsId;
+  };
+
+  ranges.forEach((range, rangeKey) => {
+    // next가 없는 range는 range 자체에 결과 edge가 달려 있을 수 있음
+    const hubKey = follow(rangeKey, 'next') ?? rangeKey;
+
+    if (!hubs.has(hubKey)) {
+      hubs.set(hubKey, createResultSet(hubKey, range));
+    }
+
+    const rsId = hubs.get(hubKey);
+    if (rsId) {
+      range.document.result.edges.push(createEdge(range.vertex.id, 'next', rsId));
+    }
+  });
+
+  return Array.from(documents.values()).map((document) => document.result);
+}
+
+/**
+ * LSIF dump를 IndexedDB로 가져오기
+ * - dump에 포함된 문서의 기존 Index는 교체
+ * - 현재 filesAtom에 없는 문서는 다음 파싱 때 정리됨 (worker의 삭제 처리)
+ * @param files - 현재 파일 (filesAtom, 업로드 폴더 prefix 매칭 + contentHash 계산용)
+ */
+export async function importLSIFDump(
+  text: string,
+  files?: Record<string, string>
+): Promise<{ documents: number; ranges: number; resultSets: number }> {
+  const results = deserializeLSIFDump(parseLSIFDump(text), files);
+  if (results.length === 0) {
+    throw new Error('Invalid LSIF dump: no document vertices found');
+  }
+
+  for (const result of results) {
+    await deleteDocument(result.documentId.replace('doc:', ''));
+  }
+
+  const vertices = results.flatMap((r) => r.vertices);
+  await batchSave(
+    vertices,
+    results.flatMap((r) => r.edges)
+  );
+
+  for (const result of results) {
+    const docVertex = result.vertices.find((v): v is DocumentVertex => v.type === 'document');
+    if (!docVertex) continue;
+
+    await saveDocumentIndex({
+      uri: docVertex.uri,
+      contentHash: docVertex.contentHash,
+      vertexId: docVertex.id,
+      updatedAt: Date.now(),
+    });
+  }
+
+  const stats = {
+    documents: results.length,
+    ranges: vertices.filter((v) => v.type === 'range').length,
+    resultSets: vertices.filter((v) => v.type === 'resultSet').length,
+  };
+  console.log('[LSIF Dump] Imported', stats);
+  return stats;
+}
+
+// ========================================
+// Utilities
+// ========================================
+
+function toDocumentUri(path: string, projectRoot: string): string {
+  const root = projectRoot.endsWith('/') ? projectRoot : `${projectRoot}/`;
+  return `${root}${path.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+function toProjectPath(uri: string, projectRoot: string, knownPaths?: string[]): string {
+  const root = projectRoot.endsWith('/') ? projectRoot : `${projectRoot}/`;
+  let path = uri.startsWith(root) ? uri.slice(root.length) : uri.replace(/^file:\/\/\/?/, '');
+
+  try {
+    path = decodeURIComponent(path);
+  } catch {
+    // 잘못된 escape → 원본 유지
+  }
+
+  // 업로드 폴더는 root 폴더 이름이 prefix로 붙음 ('my-app/src/App.tsx')
+  if (knownPaths && !knownPaths.includes(path)) {
+    const matches = knownPaths.filter((p) => p.endsWith(`/${path}`));
+    if (matches.length === 1) path = matches[0];
+  }
+
+  return path;
+}
+
+function toLanguageId(languageId: unknown, path: string): DocumentVertex['languageId'] {
+  if (languageId === 'vue' || path.endsWith('.vue')) return 'vue';
+  if (typeof languageId === 'string' && languageId.startsWith('javascript')) return 'javascript';
+  return 'typescript';
+}
+
+function toRange(vertex: DumpVertex): Range | null {
+  const start = vertex.start as Position | undefined;
+  const end = vertex.end as Position | undefined;
+  if (typeof start?.line !== 'number' || typeof end?.line !== 'number') return null;
+
+  return {
+    start: { line: start.line, character: start.character },
+    end: { line: end.line, character: end.character },
+  };
+}
+
+function toDumpTag(range: RangeVertex): Record<string, unknown> | undefined {
+  const { tag } = range;
+  if (!tag) return undefined;
+
+  if (tag.type === 'reference') {
+    // kind는 spec 외 필드 → import range 구분용 (getImportsFromLSIF) + 참조 대상 종류
+    return { type: 'reference', text: tag.text, kind: SYMBOL_KINDS[tag.kind] };
+  }
+  return { type: tag.type, text: tag.text, kind: SYMBOL_KINDS[tag.kind], fullRange: range.range };
+}
+
+/**
+ * @param demote - export moniker가 없는 definition은 declaration으로 (내부 definition tag = export)
+ */
+function fromDumpTag(tag: unknown, demote: boolean): RangeTag | undefined {
+  if (!tag || typeof tag !== 'object') return undefined;
+
+  const { type, text, kind } = tag as { type?: string; text?: unknown; kind?: unknown };
+  if (typeof text !== 'string') return undefined;
+
+  if (type === 'definition' || type === 'declaration') {
+    return { type: demote ? 'declaration' : type, text, kind: fromSymbolKind(kind) };
+  }
+  if (type === 'reference') {
+    return { type, text, kind: kind === SYMBOL_KINDS.import ? 'import' : fromSymbolKind(kind) };
+  }
+  return undefined;
+}
+
+/**
+ * Hover contents (MarkupContent | MarkedString | MarkedString[]) → Markdown
+ */
+function toMarkdown(contents: unknown): string {
+  if (typeof contents === 'string') return contents;
+  if (Array.isArray(contents)) return contents.map(toMarkdown).filter(Boolean).join('\n\n');
+
+  if (contents && typeof contents === 'object') {
+    const { language, value } = contents as { language?: string; value?: unknown };
+    if (typeof value !== 'string') return '';
+    return language ? `\`\`\`${language}\n${value}\n\`\`\`` : value;
+  }
+
+  return '';
+}
+
+/**
+ * 한 줄짜리 range의 원본 텍스트 (symbol 이름 추출용)
+ */
+function textAt(contents: string | undefined, range: Range | undefined): string {
+  if (!contents || !range || range.start.line !== range.end.line) return '';
+  const line = contents.split('\n')[range.start.line] || '';
+  const text = line.slice(range.start.character, range.end.character);
+  return /^[\w$]+$/.test(text) ? text : '';
+}
+
+function monikerName(moniker: DumpVertex | undefined): string {
+  if (typeof moniker?.identifier !== 'string') return '';
+  return moniker.identifier.split(/[:/.]/).filter(Boolean).pop() || '';
+}
+
+/** 직접 export한 dump의 moniker(`${uri}:${key}`) → 내부 ResultSet key (Class.member, name@line:char) */
+function monikerSymbolKey(moniker: DumpVertex | undefined, path: string): string {
+  if (moniker?.scheme !== 'tsc' || typeof moniker.identifier !== 'string') return '';
+  return moniker.identifier.startsWith(`${path}:`) ? moniker.identifier.slice(path.length + 1) : '';
+}
+
+function encodeBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function decodeBase64(data: string): string | undefined {
+  try {
+    const binary = atob(data);
+    return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+  } catch {
+    return undefined;
+  }
+}
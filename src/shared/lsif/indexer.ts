@@ -2,8 +2,8 @@
  * LSIF Indexer - AST to LSIF Graph Conversion
  *
  * TypeScript AST를 LSIF Vertex/Edge로 변환
- * - Export 선언 → Range + ResultSet + DefinitionResult + HoverResult
- * - Import 선언 → Range (tag: 'import')
+ * - TypeChecker 있음: 모든 identifier → Range (선언/참조), 선언마다 ResultSet + DefinitionResult + HoverResult
+ * - TypeChecker 없음 (Vue 등 Program 밖 파일): Export 선언 → Range + ResultSet, Import 선언 → Range (tag: 'import')
  * - Symbol 참조 → ReferenceResult (나중에 2-pass로 수집)
  */
 
@@ -30,10 +30,16 @@ import type {
  * 파일 하나를 LSIF Index로 변환
  * @param filePath - 파일 경로
  * @param content - 파일 내용
- * @param sourceFile - TypeScript AST
+ * @param sourceFile - TypeScript AST (checker 사용 시 같은 Program의 SourceFile)
+ * @param checker - 공유 Program의 TypeChecker (있으면 모든 identifier 인덱싱)
  * @returns LSIF Vertices + Edges
  */
-export function parseFileToLSIF(filePath: string, content: string, sourceFile: ts.SourceFile): LSIFIndexResult {
+export function parseFileToLSIF(
+  filePath: string,
+  content: string,
+  sourceFile: ts.SourceFile,
+  checker?: ts.TypeChecker
+): LSIFIndexResult {
   const vertices: Vertex[] = [];
   const edges: Edge[] = [];
 
@@ -48,6 +54,13 @@ export function parseFileToLSIF(filePath: string, content: string, sourceFile: t
   };
   vertices.push(docVertex);
 
+  if (checker) {
+    const indexed = indexIdentifiers(sourceFile, docId, checker);
+    vertices.push(...indexed.vertices);
+    edges.push(...indexed.edges);
+    return { vertices, edges, documentId: docId };
+  }
+
   // 2. Export/Import Range 수집
   const exportRanges: RangeVertex[] = [];
   const importRanges: RangeVertex[] = [];
@@ -267,6 +280,263 @@ function extractHoverContent(
   return `\`\`\`typescript\n${kind} ${name}\n\`\`\``;
 }
 
+// ========================================
+// Identifier Processing (TypeChecker)
+// ========================================
+
+/**
+ * 파일의 모든 identifier를 Range로 변환
+ * - 선언 이름 → tag 'definition'(export된 symbol) / 'declaration'(그 외)
+ * - 참조 → tag 'reference', import 이름은 kind 'import'
+ * - import / re-export alias는 원본 선언으로 해석 → 같은 ResultSet으로 연결 (shadowing은 checker가 구분)
+ * - ResultSet은 선언이 있는 문서가 소유, 다른 문서의 Range는 같은 rsId로 next edge만 생성
+ */
+function indexIdentifiers(
+  sourceFile: ts.SourceFile,
+  docId: string,
+  checker: ts.TypeChecker
+): { vertices: Vertex[]; edges: Edge[] } {
+  const vertices: Vertex[] = [];
+  const edges: Edge[] = [];
+  const ranges: RangeVertex[] = [];
+  const resultSetIds = new Set<string>();
+  const exportedDeclarations = getExportedDeclarations(sourceFile, checker);
+
+  const indexIdentifier = (identifier: ts.Identifier) => {
+    const symbol = resolveSymbol(identifier, checker);
+    const declaration = symbol?.declarations?.[0];
+    if (!symbol || !declaration) return;
+
+    // lib.d.ts, @types 등 외부 선언은 인덱싱하지 않음
+    const declarationFile = declaration.getSourceFile();
+    if (declarationFile.isDeclarationFile) return;
+
+    const ownerDocId = `doc:${declarationFile.fileName}`;
+    const rsId = `rs:${ownerDocId}:${getSymbolKey(symbol, declaration)}`;
+    const kind = getSymbolKind(declaration);
+
+    const range = nodeToRange(identifier, sourceFile);
+    const rangeId = `range:${docId}:${range.start.line}:${range.start.character}`;
+
+    let tag: RangeVertex['tag'];
+    if (isImportName(identifier)) {
+      tag = { type: 'reference', text: identifier.text, kind: 'import' };
+    } else if (symbol.declarations?.some((d) => ts.getNameOfDeclaration(d) === identifier)) {
+      const isExported = symbol.declarations.some((d) => exportedDeclarations.has(d));
+      tag = { type: isExported ? 'definition' : 'declaration', text: identifier.text, kind };
+    } else {
+      tag = { type: 'reference', text: identifier.text, kind };
+    }
+
+    ranges.push({ id: rangeId, type: 'range', documentId: docId, range, tag });
+    edges.push(createEdge(rangeId, 'next', rsId));
+
+    // 선언이 이 문서에 있으면 ResultSet + 결과 vertex 생성 (symbol당 한 번)
+    if (ownerDocId !== docId || resultSetIds.has(rsId)) return;
+    resultSetIds.add(rsId);
+
+    const nameNode = ts.getNameOfDeclaration(declaration) || declaration;
+
+    const resultSetVertex: ResultSetVertex = {
+      id: rsId,
+      type: 'resultSet',
+      documentId: docId,
+      symbolName: symbol.getName(),
+    };
+
+    const defResultId = `defResult:${rsId}`;
+    const defResultVertex: DefinitionResultVertex = {
+      id: defResultId,
+      type: 'definitionResult',
+      result: { uri: sourceFile.fileName, range: nodeToRange(nameNode, sourceFile) },
+    };
+
+    const hoverResultId = `hoverResult:${rsId}`;
+    const hoverResultVertex: HoverResultVertex = {
+      id: hoverResultId,
+      type: 'hoverResult',
+      result: { contents: getHoverText(symbol, declaration, checker) },
+    };
+
+    vertices.push(resultSetVertex, defResultVertex, hoverResultVertex);
+    edges.push(createEdge(rsId, 'textDocument/definition', defResultId));
+    edges.push(createEdge(rsId, 'textDocument/hover', hoverResultId));
+  };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isIdentifier(node)) indexIdentifier(node);
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  vertices.push(...ranges);
+  ranges.forEach((range) => {
+    edges.push(createEdge(docId, 'contains', range.id));
+  });
+
+  return { vertices, edges };
+}
+
+/**
+ * Identifier가 가리키는 symbol (alias는 원본 선언으로 해석)
+ */
+function resolveSymbol(identifier: ts.Identifier, checker: ts.TypeChecker): ts.Symbol | undefined {
+  const { parent } = identifier;
+
+  // { foo } 단축 속성 → 속성이 아니라 값(변수)의 참조
+  let symbol =
+    ts.isShorthandPropertyAssignment(parent) && parent.name === identifier
+      ? checker.getShorthandAssignmentValueSymbol(parent)
+      : checker.getSymbolAtLocation(identifier);
+
+  if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+    const aliased = checker.getAliasedSymbol(symbol);
+    const aliasedDeclaration = aliased.declarations?.[0];
+
+    // 외부 모듈 (react 등) / 해석 실패 → import 선언 자체를 정의로 사용
+    if (aliasedDeclaration && !aliasedDeclaration.getSourceFile().isDeclarationFile) {
+      symbol = aliased;
+    }
+  }
+
+  return symbol;
+}
+
+/**
+ * 모듈이 export하는 선언 (re-export / export default 포함)
+ */
+function getExportedDeclarations(sourceFile: ts.SourceFile, checker: ts.TypeChecker): Set<ts.Declaration> {
+  const declarations = new Set<ts.Declaration>();
+  const moduleSymbol = checker.getSymbolAtLocation(sourceFile);
+  if (!moduleSymbol) return declarations;
+
+  checker.getExportsOfModule(moduleSymbol).forEach((exported) => {
+    const target = exported.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(exported) : exported;
+    target.declarations?.forEach((d) => {
+      declarations.add(d);
+    });
+  });
+
+  return declarations;
+}
+
+/**
+ * 문서 안에서 유일한 ResultSet key
+ * - top-level 선언: 이름 (export 조회 rsId 'rs:{docId}:{name}' 호환)
+ * - top-level class/interface/enum 멤버: 'Class.member'
+ * - 그 외 (지역 변수, 파라미터 등): 'name@line:character'
+ */
+function getSymbolKey(symbol: ts.Symbol, declaration: ts.Declaration): string {
+  const name = symbol.getName();
+  if (isTopLevelDeclaration(declaration)) return name;
+
+  const container = declaration.parent;
+  if (
+    (ts.isClassDeclaration(container) || ts.isInterfaceDeclaration(container) || ts.isEnumDeclaration(container)) &&
+    container.name &&
+    isTopLevelDeclaration(container)
+  ) {
+    return `${container.name.text}.${name}`;
+  }
+
+  const sourceFile = declaration.getSourceFile();
+  const nameNode = ts.getNameOfDeclaration(declaration) || declaration;
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(nameNode.getStart(sourceFile));
+  return `${name}@${line}:${character}`;
+}
+
+function isTopLevelDeclaration(declaration: ts.Node): boolean {
+  if (ts.isSourceFile(declaration.parent)) return true;
+
+  // const foo = ... (VariableDeclaration → VariableDeclarationList → VariableStatement → SourceFile)
+  return (
+    ts.isVariableDeclaration(declaration) &&
+    ts.isVariableDeclarationList(declaration.parent) &&
+    ts.isVariableStatement(declaration.parent.parent) &&
+    ts.isSourceFile(declaration.parent.parent.parent)
+  );
+}
+
+function isImportName(identifier: ts.Identifier): boolean {
+  const { parent } = identifier;
+  return (
+    (ts.isImportSpecifier(parent) && parent.name === identifier) ||
+    (ts.isImportClause(parent) && parent.name === identifier) ||
+    (ts.isNamespaceImport(parent) && parent.name === identifier)
+  );
+}
+
+function getSymbolKind(declaration: ts.Declaration): NonNullable<RangeVertex['tag']>['kind'] {
+  if (
+    ts.isFunctionLike(declaration) ||
+    (ts.isVariableDeclaration(declaration) &&
+      !!declaration.initializer &&
+      (ts.isArrowFunction(declaration.initializer) || ts.isFunctionExpression(declaration.initializer)))
+  ) {
+    return 'function';
+  }
+  if (ts.isClassLike(declaration)) return 'class';
+  if (ts.isInterfaceDeclaration(declaration)) return 'interface';
+  if (ts.isTypeAliasDeclaration(declaration) || ts.isTypeParameterDeclaration(declaration)) return 'type';
+  if (ts.isEnumDeclaration(declaration)) return 'enum';
+  if (ts.isImportSpecifier(declaration) || ts.isImportClause(declaration) || ts.isNamespaceImport(declaration)) {
+    return 'import';
+  }
+  return 'variable';
+}
+
+/**
+ * Hover tooltip content (TypeChecker가 계산한 실제 타입)
+ */
+function getHoverText(symbol: ts.Symbol, declaration: ts.Declaration, checker: ts.TypeChecker): string {
+  const name = symbol.getName();
+  const { flags } = symbol;
+  let signature: string;
+
+  if (flags & ts.SymbolFlags.Class) {
+    signature = `class ${name}`;
+  } else if (flags & ts.SymbolFlags.Interface) {
+    signature = `interface ${name}`;
+  } else if (flags & ts.SymbolFlags.TypeAlias) {
+    const type = checker.getDeclaredTypeOfSymbol(symbol);
+    signature = `type ${name} = ${checker.typeToString(type, declaration, ts.TypeFormatFlags.InTypeAlias)}`;
+  } else if (flags & ts.SymbolFlags.Enum) {
+    signature = `enum ${name}`;
+  } else if (flags & ts.SymbolFlags.EnumMember) {
+    const value = ts.isEnumMember(declaration) ? checker.getConstantValue(declaration) : undefined;
+    signature = `(enum member) ${name}${value !== undefined ? ` = ${JSON.stringify(value)}` : ''}`;
+  } else if (flags & ts.SymbolFlags.TypeParameter) {
+    signature = `(type parameter) ${name}`;
+  } else if (flags & (ts.SymbolFlags.Function | ts.SymbolFlags.Method)) {
+    const keyword = flags & ts.SymbolFlags.Method ? '(method)' : 'function';
+    const type = checker.getTypeOfSymbolAtLocation(symbol, declaration);
+    const signatures = type.getCallSignatures().map((sig) => `${keyword} ${name}${checker.signatureToString(sig)}`);
+    signature = signatures.join('\n') || `${keyword} ${name}`;
+  } else {
+    const type = checker.typeToString(checker.getTypeOfSymbolAtLocation(symbol, declaration), declaration);
+    signature = `${getVariableKeyword(declaration)} ${name}: ${type}`;
+  }
+
+  const documentation = ts.displayPartsToString(symbol.getDocumentationComment(checker));
+  return `\`\`\`typescript\n${signature}\n\`\`\`${documentation ? `\n\n${documentation}` : ''}`;
+}
+
+function getVariableKeyword(declaration: ts.Declaration): string {
+  if (ts.isParameter(declaration)) return '(parameter)';
+  if (ts.isPropertyDeclaration(declaration) || ts.isPropertySignature(declaration)) return '(property)';
+  if (ts.isPropertyAssignment(declaration) || ts.isShorthandPropertyAssignment(declaration)) return '(property)';
+  if (ts.isImportSpecifier(declaration) || ts.isImportClause(declaration) || ts.isNamespaceImport(declaration)) {
+    return '(alias)';
+  }
+  if (ts.isVariableDeclaration(declaration) && ts.isVariableDeclarationList(declaration.parent)) {
+    const listFlags = declaration.parent.flags;
+    if (listFlags & ts.NodeFlags.Const) return 'const';
+    if (listFlags & ts.NodeFlags.Let) return 'let';
+    return 'var';
+  }
+  return 'let';
+}
+
 // ========================================
 // Import Processing
 // ========================================
@@ -349,58 +619,71 @@ function extractImportRange(node: ts.ImportDeclaration, sourceFile: ts.SourceFil
 
 /**
  * 전체 프로젝트에서 cross-file reference 수집
+ * - reference Range의 next edge가 가리키는 ResultSet별로 묶음 (TypeChecker 인덱싱)
+ * - next edge 없는 import Range (checker 없이 인덱싱된 파일)는 같은 이름의 ResultSet으로 매칭
  * @param allResults - 모든 파일의 LSIF 결과
+ * @param resultSetIds - 지정 시 이 ResultSet만 다시 계산 (incremental re-parse)
  * @returns ReferenceResult vertices + item edges
  */
-export function buildReferenceResults(allResults: LSIFIndexResult[]): {
+export function buildReferenceResults(
+  allResults: LSIFIndexResult[],
+  resultSetIds?: Set<string>
+): {
   vertices: ReferenceResultVertex[];
   edges: Edge[];
 } {
   const vertices: ReferenceResultVertex[] = [];
   const edges: Edge[] = [];
 
-  // 1. 모든 export symbol 수집 (docId → symbolName → Range)
-  const exportMap = new Map<string, Map<string, Range>>();
+  // 1. 모든 ResultSet 수집 (symbolName → rsId[])
+  const existingResultSets = new Set<string>();
+  const resultSetsByName = new Map<string, string[]>();
 
   allResults.forEach((result) => {
     result.vertices.forEach((vertex) => {
-      if (vertex.type === 'range' && vertex.tag?.type === 'definition') {
-        const docId = vertex.documentId;
-        const symbolName = vertex.tag.text;
-
-        if (!exportMap.has(docId)) {
-          exportMap.set(docId, new Map());
-        }
-        exportMap.get(docId)?.set(symbolName, vertex.range);
+      if (vertex.type !== 'resultSet') return;
+      if (resultSetIds && !resultSetIds.has(vertex.id)) return;
+
+      existingResultSets.add(vertex.id);
+      if (!resultSetsByName.has(vertex.symbolName)) {
+        resultSetsByName.set(vertex.symbolName, []);
       }
+      resultSetsByName.get(vertex.symbolName)?.push(vertex.id);
     });
   });
 
-  // 2. 모든 import 수집 (어떤 symbol이 어디서 참조되는지)
+  // 2. 모든 reference Range 수집 (어떤 symbol이 어디서 참조되는지)
   const referenceMap = new Map<string, Array<{ uri: string; range: Range }>>(); // key: rsId
 
+  const addReference = (rsId: string, vertex: RangeVertex) => {
+    if (!referenceMap.has(rsId)) {
+      referenceMap.set(rsId, []);
+    }
+    referenceMap.get(rsId)?.push({
+      uri: vertex.documentId.replace('doc:', ''),
+      range: vertex.range,
+    });
+  };
+
   allResults.forEach((result) => {
+    const nextByRange = new Map<string, string>();
+    result.edges.forEach((edge) => {
+      if (edge.label === 'next') nextByRange.set(edge.outV, edge.inV);
+    });
+
     result.vertices.forEach((vertex) => {
-      if (vertex.type === 'range' && vertex.tag?.type === 'reference' && vertex.tag.kind === 'import') {
-        const importName = vertex.tag.text;
-        const importerUri = vertex.documentId.replace('doc:', '');
-
-        // TODO: import path를 resolve해서 실제 definition의 rsId 찾기
-        // 현재는 간단하게 같은 이름으로 매칭 (나중에 개선 필요)
-        allResults.forEach((targetResult) => {
-          targetResult.vertices.forEach((targetVertex) => {
-            if (targetVertex.type === 'resultSet' && targetVertex.symbolName === importName) {
-              const rsId = targetVertex.id;
-
-              if (!referenceMap.has(rsId)) {
-                referenceMap.set(rsId, []);
-              }
-              referenceMap.get(rsId)?.push({
-                uri: importerUri,
-                range: vertex.range,
-              });
-            }
-          });
+      if (vertex.type !== 'range' || vertex.tag?.type !== 'reference') return;
+
+      const rsId = nextByRange.get(vertex.id);
+      if (rsId) {
+        if (existingResultSets.has(rsId)) addReference(rsId, vertex);
+        return;
+      }
+
+      // checker 없이 인덱싱된 import → 이름으로 매칭
+      if (vertex.tag.kind === 'import') {
+        resultSetsByName.get(vertex.tag.text)?.forEach((id) => {
+          addReference(id, vertex);
         });
       }
     });
@@ -420,7 +703,7 @@ export function buildReferenceResults(allResults: LSIFIndexResult[]): {
     edges.push(createEdge(rsId, 'textDocument/references', refResultId));
 
     // ReferenceResult → Range edges (item)
-    references.forEach((ref, _index) => {
+    references.forEach((ref) => {
       const rangeId = `range:doc:${ref.uri}:${ref.range.start.line}:${ref.range.start.character}`;
       edges.push(createEdge(refResultId, 'item', rangeId));
     });
@@ -455,7 +738,7 @@ function nodeToRange(node: ts.Node, sourceFile: ts.SourceFile): Range {
 /**
  * Edge 생성 헬퍼
  */
-function createEdge(outV: string, label: Edge['label'], inV: string): Edge {
+export function createEdge(outV: string, label: Edge['label'], inV: string): Edge {
   return {
     id: `edge:${outV}:${label}:${inV}`,
     type: 'edge',
@@ -96,10 +96,7 @@ export async function textDocumentDefinition(
 
     // 2. 해당 위치의 Range vertex 찾기
     const ranges = await queryVertices('range', { documentId: docId });
-    const targetRange = ranges.find((v) => {
-      const r = v as RangeVertex;
-      return isPositionInRange(position, r.range);
-    }) as RangeVertex | undefined;
+    const targetRange = findRangeAtPosition(ranges as RangeVertex[], position);
 
     if (!targetRange) return null;
 
@@ -128,10 +125,7 @@ export async function textDocumentHover(
   try {
     const docId = `doc:${uri}`;
     const ranges = await queryVertices('range', { documentId: docId });
-    const targetRange = ranges.find((v) => {
-      const r = v as RangeVertex;
-      return isPositionInRange(position, r.range);
-    }) as RangeVertex | undefined;
+    const targetRange = findRangeAtPosition(ranges as RangeVertex[], position);
 
     if (!targetRange) return null;
 
@@ -159,10 +153,7 @@ export async function textDocumentReferences(
   try {
     const docId = `doc:${uri}`;
     const ranges = await queryVertices('range', { documentId: docId });
-    const targetRange = ranges.find((v) => {
-      const r = v as RangeVertex;
-      return isPositionInRange(position, r.range);
-    }) as RangeVertex | undefined;
+    const targetRange = findRangeAtPosition(ranges as RangeVertex[], position);
 
     if (!targetRange) return [];
 
@@ -235,6 +226,7 @@ export async function getImportsFromLSIF(uri: string): Promise<ImportInfo[]> {
       from: '', // TODO: from 정보를 Range에 추가 필요
       isDefault: false,
       isNamespace: false,
+      isTypeOnly: false,
     }));
 
     return imports;
@@ -264,8 +256,8 @@ export async function getSymbolUsagesFromLSIF(uri: string, symbolName: string):
 
     if (!refResult) return [];
 
-    // 참조 파일 목록 추출
-    const usages = refResult.result.map((ref) => ref.uri);
+    // 참조 파일 목록 추출 (정의 파일 내부 참조 제외)
+    const usages = refResult.result.map((ref) => ref.uri).filter((refUri) => refUri !== uri);
     return Array.from(new Set(usages)); // 중복 제거
   } catch (error) {
     console.error('[LSIF Query] Error getting symbol usages:', error);
@@ -277,6 +269,30 @@ export async function getSymbolUsagesFromLSIF(uri: string, symbolName: string):
 // Utilities
 // ========================================
 
+/**
+ * 위치를 포함하는 가장 작은 Range
+ * - checker 없이 인덱싱된 export Range는 선언 전체 범위 → 안쪽 Range와 겹칠 수 있음
+ */
+function findRangeAtPosition(
+  ranges: RangeVertex[],
+  position: { line: number; character: number }
+): RangeVertex | undefined {
+  let best: RangeVertex | undefined;
+
+  ranges.forEach((r) => {
+    if (!isPositionInRange(position, r.range)) return;
+    if (!best || compareRangeSize(r.range, best.range) < 0) best = r;
+  });
+
+  return best;
+}
+
+function compareRangeSize(a: Range, b: Range): number {
+  const lineDiff = a.end.line - a.start.line - (b.end.line - b.start.line);
+  if (lineDiff !== 0) return lineDiff;
+  return a.end.character - a.start.character - (b.end.character - b.start.character);
+}
+
 /**
  * 위치가 Range 안에 있는지 확인
  */
@@ -170,6 +170,37 @@ export interface DocumentIndex {
   updatedAt: number;
 }
 
+// ========================================
+// Dump Types (LSIF JSON Lines)
+// ========================================
+
+/**
+ * LSIF dump 한 줄 (spec 형식, lsif-tsc 등 외부 도구와 호환)
+ * - IndexedDB 내부 형식과 달리 id는 숫자, 관계는 label + inV/inVs로 표현
+ */
+export type DumpId = number | string;
+
+export interface DumpVertex {
+  id: DumpId;
+  type: 'vertex';
+  label: string; // 'metaData' | 'project' | 'document' | 'range' | 'resultSet' | 'moniker' | '...Result'
+  [key: string]: unknown;
+}
+
+export interface DumpEdge {
+  id: DumpId;
+  type: 'edge';
+  label: string; // 'contains' | 'next' | 'item' | 'moniker' | 'textDocument/...'
+  outV: DumpId;
+  inV?: DumpId; // 1:1 edge
+  inVs?: DumpId[]; // 1:N edge (contains, item)
+  document?: DumpId; // item edge가 속한 문서 (0.4.x)
+  shard?: DumpId; // item edge가 속한 문서 (0.5.x)
+  property?: 'definitions' | 'references' | 'referenceResults' | 'referenceLinks';
+}
+
+export type DumpElement = DumpVertex | DumpEdge;
+
 // ========================================
 // Utility Types
 // ========================================
@@ -201,4 +232,5 @@ export interface ImportInfo {
   from: string;
   isDefault: boolean;
   isNamespace: boolean;
+  isTypeOnly: boolean; // import type / inline type specifier
 }
@@ -3,11 +3,17 @@
  * Future: Can be replaced with local file storage (.idea-like) for desktop app
  *
  * Stores: visibleNodeIds, cardPositions, transform
+ *         third-party typings (.d.ts) for the Language Service
+ *         mounted folder handle (FileSystemDirectoryHandle, Live Mount)
+ *         dead code baselines (세션 간 dead code 추이 비교)
  */
 
 const DB_NAME = 'vibe-code-viewer';
 const STORE_NAME = 'workspace-state';
-const DB_VERSION = 1;
+const TYPINGS_STORE_NAME = 'typings';
+const MOUNT_STORE_NAME = 'mounted-folder';
+const BASELINE_STORE_NAME = 'dead-code-baselines';
+const DB_VERSION = 4;
 
 export interface WorkspaceState {
   visibleNodeIds: string[];
@@ -15,6 +21,22 @@ export interface WorkspaceState {
   transform: { k: number; x: number; y: number };
 }
 
+export interface DeadCodeBaselineRecord {
+  id: string;
+  name: string;
+  createdAt: number;
+  items: Array<{
+    filePath: string;
+    symbolName: string;
+    line: number;
+    kind: string;
+    category: string;
+    functionName?: string;
+    componentName?: string;
+  }>;
+  counts: Record<string, number>; // 카테고리 → 항목 수
+}
+
 /**
  * Initialize IndexedDB
  */
@@ -28,10 +50,19 @@ function openDB(): Promise<IDBDatabase> {
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result;
 
-      // Create object store if it doesn't exist
+      // Create object stores if they don't exist
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         db.createObjectStore(STORE_NAME);
       }
+      if (!db.objectStoreNames.contains(TYPINGS_STORE_NAME)) {
+        db.createObjectStore(TYPINGS_STORE_NAME);
+      }
+      if (!db.objectStoreNames.contains(MOUNT_STORE_NAME)) {
+        db.createObjectStore(MOUNT_STORE_NAME);
+      }
+      if (!db.objectStoreNames.contains(BASELINE_STORE_NAME)) {
+        db.createObjectStore(BASELINE_STORE_NAME);
+      }
     };
   });
 }
@@ -115,3 +146,217 @@ export async function clearWorkspaceState(): Promise<void> {
     throw error;
   }
 }
+
+/**
+ * Save uploaded typings (`/node_modules/...` path → .d.ts content) to IndexedDB
+ */
+export async function saveTypings(typings: Record<string, string>): Promise<void> {
+  try {
+    const db = await openDB();
+    const transaction = db.transaction(TYPINGS_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(TYPINGS_STORE_NAME);
+
+    store.put(typings, 'typings');
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => {
+        db.close();
+        resolve();
+      };
+      transaction.onerror = () => {
+        db.close();
+        reject(transaction.error);
+      };
+    });
+  } catch (error) {
+    console.error('[IndexedDB] Failed to save typings:', error);
+    throw error;
+  }
+}
+
+/**
+ * Load uploaded typings from IndexedDB
+ */
+export async function loadTypings(): Promise<Record<string, string> | null> {
+  try {
+    const db = await openDB();
+    const transaction = db.transaction(TYPINGS_STORE_NAME, 'readonly');
+    const store = transaction.objectStore(TYPINGS_STORE_NAME);
+    const request = store.get('typings');
+
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => {
+        db.close();
+        resolve(request.result || null);
+      };
+      request.onerror = () => {
+        db.close();
+        reject(request.error);
+      };
+    });
+  } catch (error) {
+    console.error('[IndexedDB] Failed to load typings:', error);
+    return null;
+  }
+}
+
+/**
+ * Save mounted directory handle to IndexedDB (handle은 structured clone 가능)
+ */
+export async function saveMountedDirectory(handle: FileSystemDirectoryHandle): Promise<void> {
+  try {
+    const db = await openDB();
+    const transaction = db.transaction(MOUNT_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(MOUNT_STORE_NAME);
+
+    store.put(handle, 'directory');
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => {
+        db.close();
+        resolve();
+      };
+      transaction.onerror = () => {
+        db.close();
+        reject(transaction.error);
+      };
+    });
+  } catch (error) {
+    console.error('[IndexedDB] Failed to save mounted directory:', error);
+    throw error;
+  }
+}
+
+/**
+ * Load mounted directory handle from IndexedDB
+ */
+export async function loadMountedDirectory(): Promise<FileSystemDirectoryHandle | null> {
+  try {
+    const db = await openDB();
+    const transaction = db.transaction(MOUNT_STORE_NAME, 'readonly');
+    const store = transaction.objectStore(MOUNT_STORE_NAME);
+    const request = store.get('directory');
+
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => {
+        db.close();
+        resolve(request.result || null);
+      };
+      request.onerror = () => {
+        db.close();
+        reject(request.error);
+      };
+    });
+  } catch (error) {
+    console.error('[IndexedDB] Failed to load mounted directory:', error);
+    return null;
+  }
+}
+
+/**
+ * Clear mounted directory handle from IndexedDB
+ */
+export async function clearMountedDirectory(): Promise<void> {
+  try {
+    const db = await openDB();
+    const transaction = db.transaction(MOUNT_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(MOUNT_STORE_NAME);
+
+    store.delete('directory');
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => {
+        db.close();
+        resolve();
+      };
+      transaction.onerror = () => {
+        db.close();
+        reject(transaction.error);
+      };
+    });
+  } catch (error) {
+    console.error('[IndexedDB] Failed to clear mounted directory:', error);
+    throw error;
+  }
+}
+
+/**
+ * Save dead code baseline (id가 같으면 덮어씀)
+ */
+export async function saveDeadCodeBaseline(baseline: DeadCodeBaselineRecord): Promise<void> {
+  try {
+    const db = await openDB();
+    const transaction = db.transaction(BASELINE_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(BASELINE_STORE_NAME);
+
+    store.put(baseline, baseline.id);
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => {
+        db.close();
+        resolve();
+      };
+      transaction.onerror = () => {
+        db.close();
+        reject(transaction.error);
+      };
+    });
+  } catch (error) {
+    console.error('[IndexedDB] Failed to save dead code baseline:', error);
+    throw error;
+  }
+}
+
+/**
+ * Load all dead code baselines (오래된 순)
+ */
+export async function loadDeadCodeBaselines(): Promise<DeadCodeBaselineRecord[]> {
+  try {
+    const db = await openDB();
+    const transaction = db.transaction(BASELINE_STORE_NAME, 'readonly');
+    const store = transaction.objectStore(BASELINE_STORE_NAME);
+    const request = store.getAll();
+
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => {
+        db.close();
+        const baselines = (request.result || []) as DeadCodeBaselineRecord[];
+        resolve(baselines.sort((a, b) => a.createdAt - b.createdAt));
+      };
+      request.onerror = () => {
+        db.close();
+        reject(request.error);
+      };
+    });
+  } catch (error) {
+    console.error('[IndexedDB] Failed to load dead code baselines:', error);
+    return [];
+  }
+}
+
+/**
+ * Delete dead code baseline
+ */
+export async function deleteDeadCodeBaseline(id: string): Promise<void> {
+  try {
+    const db = await openDB();
+    const transaction = db.transaction(BASELINE_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(BASELINE_STORE_NAME);
+
+    store.delete(id);
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => {
+        db.close();
+        resolve();
+      };
+      transaction.onerror = () => {
+        db.close();
+        reject(transaction.error);
+      };
+    });
+  } catch (error) {
+    console.error('[IndexedDB] Failed to delete dead code baseline:', error);
+    throw error;
+  }
+}
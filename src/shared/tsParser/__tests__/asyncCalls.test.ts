@@ -0,0 +1,117 @@
+/**
+ * Unawaited Async Call 테스트
+ *
+ * Type Checker 기준으로 Promise 반환 호출의 사용 위치를 분류하는지 확인
+ */
+
+import { describe, expect, it } from 'vitest';
+import { extractAsyncCalls } from '../utils/asyncCalls';
+import { createLanguageService } from '../utils/languageService';
+
+const API = `
+export async function save(id: number): Promise<void> {}
+export function load(): Promise<string> {
+  return Promise.resolve('');
+}
+`;
+
+function analyze(code: string) {
+  const files = { '/api.ts': API, '/main.ts': code };
+  const program = createLanguageService(files).getProgram();
+  const sourceFile = program?.getSourceFile('/main.ts');
+  if (!program || !sourceFile) throw new Error('Program not created');
+
+  return extractAsyncCalls(sourceFile, program, (fileName) => Object.hasOwn(files, fileName)).map(
+    ({ calleeName, line, issue, callerName }) => [calleeName, line, issue, callerName]
+  );
+}
+
+describe('Async Call - 처리된 호출', () => {
+  it('await / return / .then / void / Promise를 받는 자리', () => {
+    const calls = analyze(`import { load, save } from './api';
+async function run() {
+  await save(1);
+  load().then(console.log);
+  void save(2);
+  const pending: Promise<void> = save(3);
+  await Promise.all([save(4), pending]);
+  return load();
+}
+const getText = () => load();
+const handler: () => Promise<void> = () => save(5);
+`);
+
+    expect(calls).toEqual([]);
+  });
+
+  it('타입 주석 없는 변수를 나중에 await', () => {
+    const calls = analyze(`import { load } from './api';
+async function run() {
+  const text = load();
+  console.log('loading');
+  return (await text).length;
+}
+`);
+
+    expect(calls).toEqual([]);
+  });
+});
+
+describe('Async Call - 문제 종류', () => {
+  it('floating: 결과를 버리는 호출문', () => {
+    expect(analyze(`import { save } from './api';\nasync function run() {\n  save(1);\n}\n`)).toEqual([
+      ['save', 3, 'floating', 'run'],
+    ]);
+  });
+
+  it('sync-caller: 동기 함수에서 결과를 값으로 사용', () => {
+    expect(
+      analyze(`import { load } from './api';\nfunction read() {\n  const text = load();\n  return text + '!';\n}\n`)
+    ).toEqual([['load', 3, 'sync-caller', 'read']]);
+  });
+
+  it('non-promise-expected: 동기 값을 기대하는 자리 + void 콜백의 화살표 본문', () => {
+    const calls = analyze(`import { load, save } from './api';
+function show(text: string) {}
+async function run(items: number[]) {
+  show(load());
+  const label: string = load();
+  items.forEach((item) => save(item));
+  await Promise.all(items.map((item) => save(item)));
+}
+`);
+
+    expect(calls).toEqual([
+      ['load', 4, 'non-promise-expected', 'run'],
+      ['load', 5, 'non-promise-expected', 'run'],
+      ['save', 6, 'non-promise-expected', '(anonymous)'],
+    ]);
+  });
+
+  it('condition: 항상 truthy인 조건식 (다른 곳에서 await해도 보고)', () => {
+    const calls = analyze(`import { load } from './api';
+async function run() {
+  if (load()) return;
+  const text = load();
+  if (!text) return;
+  await text;
+}
+`);
+
+    expect(calls).toEqual([
+      ['load', 3, 'condition', 'run'],
+      ['load', 4, 'condition', 'run'],
+    ]);
+  });
+
+  it('unawaited: 타입 주석 없는 변수를 한 번도 처리하지 않음', () => {
+    const calls = analyze(`import { save } from './api';
+async function run() {
+  const pending = save(1);
+  const done = pending === undefined;
+}
+`);
+
+    expect(calls).toEqual([['save', 3, 'unawaited', 'run']]);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * 모듈 경로 해석 테스트
+ *
+ * tsconfig paths / extends / references / baseUrl, vite alias, 기본 '@/' alias가
+ * 업로드된 설정 파일만으로 번들러와 같은 파일을 가리키는지 확인
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createModuleResolver } from '../utils/pathResolver';
+
+describe('경로 해석 - 상대 경로', () => {
+  it('확장자 / index / ESM .js import', () => {
+    const resolver = createModuleResolver({
+      'src/a.ts': '',
+      'src/utils/index.ts': '',
+      'src/lib/helper.ts': '',
+    });
+
+    expect(resolver.resolve('src/main.ts', './a')).toBe('src/a.ts');
+    expect(resolver.resolve('src/main.ts', './utils')).toBe('src/utils/index.ts');
+    expect(resolver.resolve('src/main.ts', './lib/helper.js')).toBe('src/lib/helper.ts');
+    expect(resolver.resolve('src/main.ts', './missing')).toBeNull();
+    expect(resolver.resolve('src/main.ts', 'react')).toBeNull();
+  });
+});
+
+describe('경로 해석 - tsconfig', () => {
+  it('paths 와일드카드 (prefix가 긴 패턴 우선) + 여러 target', () => {
+    const resolver = createModuleResolver({
+      'tsconfig.json': JSON.stringify({
+        compilerOptions: {
+          baseUrl: '.',
+          paths: {
+            '@core/*': ['packages/core/src/*'],
+            '@core/utils/*': ['packages/utils/src/*'],
+            '#shared/*': ['missing/*', 'shared/*'],
+            config: ['src/config/index.ts'],
+          },
+        },
+      }),
+      'packages/core/src/button.ts': '',
+      'packages/utils/src/format.ts': '',
+      'shared/constants.ts': '',
+      'src/config/index.ts': '',
+    });
+
+    expect(resolver.resolve('src/main.ts', '@core/button')).toBe('packages/core/src/button.ts');
+    expect(resolver.resolve('src/main.ts', '@core/utils/format')).toBe('packages/utils/src/format.ts');
+    expect(resolver.resolve('src/main.ts', '#shared/constants')).toBe('shared/constants.ts');
+    expect(resolver.resolve('src/main.ts', 'config')).toBe('src/config/index.ts');
+  });
+
+  it('paths는 baseUrl 기준, baseUrl만 있으면 non-relative import를 baseUrl에서 찾음', () => {
+    const resolver = createModuleResolver({
+      'app/tsconfig.json': '{ "compilerOptions": { "baseUrl": "./src", "paths": { "@/*": ["lib/*"] } } }',
+      'app/src/lib/api.ts': '',
+      'app/src/components/Button.tsx': '',
+    });
+
+    expect(resolver.resolve('app/src/main.ts', '@/api')).toBe('app/src/lib/api.ts');
+    expect(resolver.resolve('app/src/main.ts', 'components/Button')).toBe('app/src/components/Button.tsx');
+  });
+
+  it('extends 체인 (JSONC, 자식 설정이 우선)', () => {
+    const resolver = createModuleResolver({
+      'tsconfig.base.json': `{
+        // 공통 설정
+        "compilerOptions": { "baseUrl": ".", "paths": { "@base/*": ["base/*"] }, },
+      }`,
+      'tsconfig.json': '{ "extends": "./tsconfig.base", "compilerOptions": { "paths": { "@app/*": ["app/*"] } } }',
+      'packages/web/tsconfig.json': '{ "extends": "../../tsconfig.json" }',
+      'app/routes.ts': '',
+      'base/theme.ts': '',
+    });
+
+    // paths는 통째로 덮어씀 (TypeScript와 동일)
+    expect(resolver.resolve('src/main.ts', '@app/routes')).toBe('app/routes.ts');
+    expect(resolver.resolve('src/main.ts', '@base/theme')).toBeNull();
+    // 상속한 paths / baseUrl은 선언한 설정 파일 기준
+    expect(resolver.resolve('packages/web/src/main.ts', '@app/routes')).toBe('app/routes.ts');
+  });
+
+  it('references (같은 폴더는 병합, 하위 폴더는 별도 scope)', () => {
+    const resolver = createModuleResolver({
+      'tsconfig.json': '{ "files": [], "references": [{ "path": "./tsconfig.app.json" }, { "path": "./server" }] }',
+      'tsconfig.app.json': '{ "compilerOptions": { "paths": { "@app/*": ["./src/*"] } } }',
+      'server/tsconfig.json': '{ "compilerOptions": { "paths": { "@app/*": ["./lib/*"] } } }',
+      'src/store.ts': '',
+      'server/lib/store.ts': '',
+    });
+
+    expect(resolver.resolve('src/main.ts', '@app/store')).toBe('src/store.ts');
+    expect(resolver.resolve('server/index.ts', '@app/store')).toBe('server/lib/store.ts');
+  });
+});
+
+describe('경로 해석 - vite alias', () => {
+  it('object / array 형식 문자열 alias', () => {
+    const resolver = createModuleResolver({
+      'vite.config.ts': `
+        import path from 'node:path';
+        import { fileURLToPath } from 'node:url';
+        export default defineConfig({
+          resolve: {
+            alias: [
+              { find: '@components', replacement: path.resolve(__dirname, 'src/ui') },
+              { find: 'utils', replacement: fileURLToPath(new URL('./src/lib', import.meta.url)) },
+            ],
+          },
+        });
+      `,
+      'web/vite.config.js': `export default { resolve: { alias: { '#': '/app' } } };`,
+      'src/ui/Button.tsx': '',
+      'src/lib/date.ts': '',
+      'web/app/page.ts': '',
+    });
+
+    expect(resolver.resolve('src/main.ts', '@components/Button')).toBe('src/ui/Button.tsx');
+    expect(resolver.resolve('src/main.ts', 'utils/date')).toBe('src/lib/date.ts');
+    // prefix만 같고 '/'로 이어지지 않으면 매칭 안 됨
+    expect(resolver.resolve('src/main.ts', 'utils-extra')).toBeNull();
+    // 가장 가까운 vite.config만 적용
+    expect(resolver.resolve('web/main.ts', '#/page')).toBe('web/app/page.ts');
+    expect(resolver.resolve('src/main.ts', '#/page')).toBeNull();
+  });
+
+  it('정규식 alias', () => {
+    const resolver = createModuleResolver({
+      'vite.config.ts': `export default { resolve: { alias: [{ find: /^~\\//, replacement: path.resolve(__dirname, 'src') }] } };`,
+      'src/store/index.ts': '',
+    });
+
+    expect(resolver.resolve('src/main.ts', '~/store')).toBe('src/store/index.ts');
+  });
+});
+
+describe('경로 해석 - 기본 alias', () => {
+  it("설정 파일이 없으면 '@/', '~/' → 'src/'", () => {
+    const resolver = createModuleResolver({ 'src/features/auth.ts': '' });
+
+    expect(resolver.resolve('src/main.ts', '@/features/auth')).toBe('src/features/auth.ts');
+    expect(resolver.resolve('src/main.ts', '~/features/auth')).toBe('src/features/auth.ts');
+  });
+
+  it('매칭되는 path mapping이 있으면 (파일을 못 찾아도) 기본 alias 생략', () => {
+    const resolver = createModuleResolver({
+      'tsconfig.json': '{ "compilerOptions": { "paths": { "@/*": ["./app/*"] } } }',
+      'src/features/auth.ts': '',
+      'app/store.ts': '',
+    });
+
+    expect(resolver.resolve('src/main.ts', '@/store')).toBe('app/store.ts');
+    expect(resolver.resolve('src/main.ts', '@/features/auth')).toBeNull();
+  });
+
+  it('매칭되는 mapping이 없는 설정 파일만 있으면 기본 alias 사용', () => {
+    const resolver = createModuleResolver({
+      'tsconfig.json': '{ "compilerOptions": { "paths": { "#lib/*": ["./lib/*"] } } }',
+      'src/features/auth.ts': '',
+    });
+
+    expect(resolver.resolve('src/main.ts', '@/features/auth')).toBe('src/features/auth.ts');
+  });
+
+  it('isAliased: alias 경로는 npm 패키지가 아님', () => {
+    const resolver = createModuleResolver({
+      'tsconfig.json': '{ "compilerOptions": { "paths": { "#lib/*": ["./lib/*"] } } }',
+    });
+
+    expect(resolver.isAliased('src/main.ts', '#lib/missing')).toBe(true);
+    expect(resolver.isAliased('src/main.ts', '@/features/missing')).toBe(true);
+    expect(resolver.isAliased('src/main.ts', '@scope/package')).toBe(false);
+    expect(resolver.isAliased('src/main.ts', 'lodash')).toBe(false);
+    expect(resolver.isAliased('src/main.ts', './local')).toBe(false);
+  });
+});
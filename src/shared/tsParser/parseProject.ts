@@ -10,10 +10,13 @@ import { getDependencies } from '../../entities/SourceFileNode/lib/getters';
 import type { GraphData, SourceFileNode } from '../../entities/SourceFileNode/model/types';
 import { createLanguageService } from './utils/languageService';
 import { resolvePath } from './utils/pathResolver';
+import { isConfigDataFile } from './utils/projectConfig';
+import { getSymbolMembers } from './utils/symbolMembers';
 import { extractVueScript, isVueFile } from './utils/vueExtractor';
 
 /**
- * Extract function and variable declarations from a source file
+ * Extract function, variable, class, interface, enum and type alias declarations from a source file
+ * (class/interface members become child nodes: filePath::Class.member)
  *
  * ✅ 개선: snippet 재파싱 제거
  * - 전체 파일 sourceFile 공유
@@ -25,6 +28,9 @@ function extractDeclarations(
   nodes: SourceFileNode[],
   content: string
 ): void {
+  const getSnippet = (node: ts.Node) => content.substring(node.getStart(sourceFile), node.getEnd());
+  const getStartLine = (node: ts.Node) => sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+
   function visit(node: ts.Node): void {
     // Function declarations
     if (ts.isFunctionDeclaration(node) && node.name) {
@@ -81,25 +87,52 @@ function extractDeclarations(
     }
 
     // Arrow functions assigned to variables are handled above
-    // Class declarations
-    if (ts.isClassDeclaration(node) && node.name) {
+    // Class / Interface / Enum / Type alias declarations
+    if (
+      (ts.isClassDeclaration(node) ||
+        ts.isInterfaceDeclaration(node) ||
+        ts.isEnumDeclaration(node) ||
+        ts.isTypeAliasDeclaration(node)) &&
+      node.name
+    ) {
       const name = node.name.text;
-      const start = node.getStart(sourceFile);
-      const end = node.getEnd();
-      const snippet = content.substring(start, end);
-      const lineAndChar = sourceFile.getLineAndCharacterOfPosition(start);
+      const id = `${filePath}::${name}`;
+      const type = ts.isClassDeclaration(node)
+        ? 'class'
+        : ts.isInterfaceDeclaration(node)
+          ? 'interface'
+          : ts.isEnumDeclaration(node)
+            ? 'enum'
+            : 'type';
 
       // ✅ snippet 재파싱 제거 - 전체 sourceFile 공유
       nodes.push({
-        id: `${filePath}::${name}`,
+        id,
         label: name,
         filePath,
-        type: 'function', // Treat classes as functions for now
-        codeSnippet: snippet, // display용
-        startLine: lineAndChar.line + 1,
+        type,
+        codeSnippet: getSnippet(node), // display용
+        startLine: getStartLine(node),
         sourceFile, // ← 전체 파일 sourceFile 공유
         dependencies: [],
       });
+
+      // Class 메서드/프로퍼티, Interface 멤버 → 자식 노드 (filePath::Class.member)
+      if (ts.isClassDeclaration(node) || ts.isInterfaceDeclaration(node)) {
+        getSymbolMembers(node).forEach((member) => {
+          nodes.push({
+            id: `${id}.${member.name}`,
+            label: `${name}.${member.name}`,
+            filePath,
+            type: member.type,
+            codeSnippet: getSnippet(member.node),
+            startLine: getStartLine(member.node),
+            sourceFile,
+            dependencies: [],
+            parentId: id,
+          });
+        });
+      }
     }
 
     ts.forEachChild(node, visit);
@@ -134,6 +167,9 @@ export function parseProject(
     // .d.ts 제외
     if (filePath.endsWith('.d.ts')) return;
 
+    // tsconfig.json, package.json, pnpm-workspace.yaml 등 설정 파일 제외 (경로 해석에만 사용)
+    if (isConfigDataFile(filePath)) return;
+
     // ✅ 파일을 하나의 노드로 생성
     const fileName = filePath.split('/').pop() || filePath;
     const fileNameWithoutExt = fileName.replace(/\.(tsx?|jsx?|vue)$/, '');
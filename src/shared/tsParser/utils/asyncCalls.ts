@@ -0,0 +1,206 @@
+/**
+ * Unawaited Async Call 추출 (Dead Code 패널용)
+ *
+ * Promise를 반환하는 함수의 호출부 중 결과를 기다리지 않는 곳 탐지
+ * - 동기 함수가 async로 바뀌면 (`getUser()` → `getUserAsync()`) 기존 호출부는 타입 에러 없이 깨지기 쉬움
+ * - Type Checker로 호출 signature의 반환 타입이 Promise(thenable)인지 확인
+ * - 프로젝트 파일에 선언된 함수만 대상 (fetch 등 라이브러리 호출 제외)
+ * - await / .then / .catch / .finally / return / void / Promise를 받는 자리 → 처리된 호출로 간주
+ * - 조건식 (`if (load())`, `if (promise)`)은 항상 truthy → 다른 곳에서 await해도 문제로 보고
+ * - parseProject.worker가 LSIF 인덱싱과 같은 공유 Program으로 계산
+ */
+
+import * as ts from 'typescript';
+
+export type AsyncCallIssue = 'non-promise-expected' | 'sync-caller' | 'floating' | 'unawaited' | 'condition';
+
+export interface DocumentAsyncCall {
+  calleeName: string;
+  line: number; // 1-based
+  issue: AsyncCallIssue;
+  callerName?: string; // 호출부를 감싼 함수 (최상위 코드면 없음)
+}
+
+const PROMISE_HANDLERS = new Set(['then', 'catch', 'finally']);
+
+type FunctionLike = ts.FunctionLikeDeclaration;
+
+function isThenable(type: ts.Type): boolean {
+  if (type.isUnion()) return type.types.some(isThenable);
+  return !!type.getProperty('then');
+}
+
+// Promise를 받을 수 있는 자리인지 (any / unknown / 제네릭 / thenable 포함 union)
+function acceptsPromise(type: ts.Type): boolean {
+  if (type.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown | ts.TypeFlags.TypeParameter)) return true;
+  if (type.isUnion()) return type.types.some(acceptsPromise);
+  return isThenable(type);
+}
+
+// 괄호 / as / ! / satisfies 등 값이 그대로 전달되는 래퍼 건너뛰기
+function skipOuterWrappers(node: ts.Expression): ts.Expression {
+  let current = node;
+  while (
+    ts.isParenthesizedExpression(current.parent) ||
+    ts.isAsExpression(current.parent) ||
+    ts.isNonNullExpression(current.parent) ||
+    ts.isSatisfiesExpression(current.parent) ||
+    ts.isTypeAssertionExpression(current.parent)
+  ) {
+    current = current.parent;
+  }
+  return current;
+}
+
+function getEnclosingFunction(node: ts.Node): FunctionLike | undefined {
+  for (let current = node.parent; current; current = current.parent) {
+    if (ts.isFunctionLike(current) && 'body' in current) return current as FunctionLike;
+  }
+  return undefined;
+}
+
+function getFunctionName(fn: FunctionLike | undefined): string | undefined {
+  if (!fn) return undefined;
+  if (fn.name && ts.isIdentifier(fn.name)) return fn.name.text;
+  if (ts.isVariableDeclaration(fn.parent) && ts.isIdentifier(fn.parent.name)) return fn.parent.name.text;
+  if (ts.isPropertyAssignment(fn.parent) && ts.isIdentifier(fn.parent.name)) return fn.parent.name.text;
+  return '(anonymous)';
+}
+
+const isAsyncFunction = (fn: FunctionLike) => (ts.getCombinedModifierFlags(fn) & ts.ModifierFlags.Async) !== 0;
+
+function getCalleeName(call: ts.CallExpression): string {
+  const callee = call.expression;
+  if (ts.isIdentifier(callee)) return callee.text;
+  if (ts.isPropertyAccessExpression(callee)) return callee.name.text;
+  return callee.getText();
+}
+
+/**
+ * 값이 조건으로만 평가되는 자리 (Promise 객체는 항상 truthy)
+ * - if / while / do / for 조건, 삼항 조건, `!value`, `value && ...`, `value || ...`
+ */
+function isConditionPosition(node: ts.Expression, parent: ts.Node): boolean {
+  if (
+    (ts.isIfStatement(parent) || ts.isWhileStatement(parent) || ts.isDoStatement(parent)) &&
+    parent.expression === node
+  ) {
+    return true;
+  }
+  if (ts.isForStatement(parent) && parent.condition === node) return true;
+  if (ts.isConditionalExpression(parent) && parent.condition === node) return true;
+  if (ts.isPrefixUnaryExpression(parent) && parent.operator === ts.SyntaxKind.ExclamationToken) return true;
+  return (
+    ts.isBinaryExpression(parent) &&
+    parent.left === node &&
+    (parent.operatorToken.kind === ts.SyntaxKind.AmpersandAmpersandToken ||
+      parent.operatorToken.kind === ts.SyntaxKind.BarBarToken)
+  );
+}
+
+/**
+ * 호출 결과가 Promise로 처리되는 자리인지 판별
+ * @returns null: 처리됨, 아니면 문제 종류
+ */
+function classifyUsage(
+  checker: ts.TypeChecker,
+  expression: ts.Expression,
+  visitedDeclarations: Set<ts.Node>
+): AsyncCallIssue | null {
+  const node = skipOuterWrappers(expression);
+  const parent = node.parent;
+
+  if (ts.isAwaitExpression(parent) || ts.isVoidExpression(parent) || ts.isYieldExpression(parent)) return null;
+  if (ts.isReturnStatement(parent)) return null;
+  // 화살표 함수 본문 = 반환값: 기대 반환 타입이 없거나 Promise를 받을 때만 OK (`forEach(() => save())`는 void)
+  if (ts.isArrowFunction(parent) && parent.body === node) {
+    const returnType = checker.getContextualType(node);
+    return !returnType || acceptsPromise(returnType) ? null : 'non-promise-expected';
+  }
+  if (ts.isPropertyAccessExpression(parent) && parent.expression === node && PROMISE_HANDLERS.has(parent.name.text)) {
+    return null;
+  }
+  if (ts.isExpressionStatement(parent)) return 'floating';
+  if (isConditionPosition(node, parent)) return 'condition';
+
+  // 타입 주석 없는 변수: 변수를 사용하는 곳 중 하나라도 처리하면 OK (`const p = load(); await p;`)
+  if (ts.isVariableDeclaration(parent) && parent.initializer === node && !parent.type) {
+    if (!ts.isIdentifier(parent.name) || visitedDeclarations.has(parent)) return null;
+    visitedDeclarations.add(parent);
+
+    const symbol = checker.getSymbolAtLocation(parent.name);
+    const scope = getEnclosingFunction(parent)?.body ?? parent.getSourceFile();
+    if (!symbol) return null;
+
+    const usages: ts.Identifier[] = [];
+    const visit = (child: ts.Node) => {
+      if (ts.isIdentifier(child) && child !== parent.name && checker.getSymbolAtLocation(child) === symbol) {
+        usages.push(child);
+      }
+      ts.forEachChild(child, visit);
+    };
+    visit(scope);
+
+    if (usages.length === 0) return 'unawaited';
+    const issues = usages.map((usage) => classifyUsage(checker, usage, visitedDeclarations));
+    // 조건식은 다른 곳에서 await해도 항상 truthy인 버그
+    if (issues.includes('condition')) return 'condition';
+    return issues.includes(null) ? null : (issues.find((issue) => issue === 'non-promise-expected') ?? 'unawaited');
+  }
+
+  // 인자 / 타입이 있는 변수 / 객체 속성 등: 기대 타입이 Promise를 받으면 OK
+  const contextualType = checker.getContextualType(node);
+  if (contextualType) return acceptsPromise(contextualType) ? null : 'non-promise-expected';
+
+  return 'unawaited';
+}
+
+/**
+ * Program의 파일 하나에서 결과를 기다리지 않는 async 호출 (라인 순)
+ *
+ * @param isProjectFile - 호출 대상 선언이 프로젝트 파일인지 (typings / lib 선언 제외)
+ */
+export function extractAsyncCalls(
+  sourceFile: ts.SourceFile,
+  program: ts.Program,
+  isProjectFile: (fileName: string) => boolean
+): DocumentAsyncCall[] {
+  const checker = program.getTypeChecker();
+  const asyncCalls: DocumentAsyncCall[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node)) {
+      const signature = checker.getResolvedSignature(node);
+      const declarationFile = signature?.getDeclaration()?.getSourceFile();
+
+      if (
+        signature &&
+        declarationFile &&
+        !declarationFile.isDeclarationFile &&
+        isProjectFile(declarationFile.fileName) &&
+        isThenable(checker.getReturnTypeOfSignature(signature))
+      ) {
+        const usageIssue = classifyUsage(checker, node, new Set());
+
+        if (usageIssue) {
+          const caller = getEnclosingFunction(node);
+          // 결과를 값으로 쓰는 동기 함수: await하려면 caller도 async로 바꿔야 함
+          const issue = usageIssue === 'unawaited' && caller && !isAsyncFunction(caller) ? 'sync-caller' : usageIssue;
+          const { line } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+
+          asyncCalls.push({
+            calleeName: getCalleeName(node),
+            line: line + 1,
+            issue,
+            callerName: getFunctionName(caller),
+          });
+        }
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return asyncCalls;
+}
@@ -0,0 +1,215 @@
+/**
+ * Function-level Call Graph (TypeChecker 기반)
+ *
+ * Symbol 노드 (top-level function/const, class/interface 멤버) 단위의 호출 관계
+ * - calls: 이 Symbol 안에서 호출하는 Symbol 노드 id
+ * - calledBy: 이 Symbol을 호출하는 Symbol 노드 id (calls를 뒤집어서 계산)
+ *
+ * 호출로 취급하는 것:
+ * - foo(), api.fetch() (import한 인스턴스의 메서드 → 선언된 class/interface 멤버), new Foo()
+ * - 함수로 전달된 callback: useEffect(load), items.map(format), onClick={handleSave}
+ * - JSX 렌더링: <Header /> (컴포넌트 호출)
+ *
+ * 노드 id 규칙은 parseProject.worker의 extractSymbolNodes와 동일 (filePath::name, filePath::Class.member)
+ */
+
+import * as ts from 'typescript';
+import { getMemberName, getSymbolMembers } from './symbolMembers';
+
+/**
+ * caller Symbol 노드 id → callee Symbol 노드 id 목록
+ */
+export type CallEdges = Record<string, string[]>;
+
+export interface CallGraphEntry {
+  calls: string[];
+  calledBy: string[];
+}
+
+function isTopLevel(node: ts.Node): boolean {
+  return ts.isSourceFile(node.parent);
+}
+
+/**
+ * 선언 → Symbol 노드 id (Symbol 노드가 없는 선언은 null)
+ * - .d.ts (typings, lib) 선언은 프로젝트 노드가 아니므로 제외
+ */
+function getDeclarationNodeId(declaration: ts.Declaration): string | null {
+  const sourceFile = declaration.getSourceFile();
+  if (sourceFile.isDeclarationFile) return null;
+  const filePath = sourceFile.fileName;
+
+  // top-level function / class / interface
+  if (
+    (ts.isFunctionDeclaration(declaration) ||
+      ts.isClassDeclaration(declaration) ||
+      ts.isInterfaceDeclaration(declaration)) &&
+    declaration.name &&
+    isTopLevel(declaration)
+  ) {
+    return `${filePath}::${declaration.name.text}`;
+  }
+
+  // top-level const / let / var
+  if (ts.isVariableDeclaration(declaration) && ts.isIdentifier(declaration.name)) {
+    const statement = declaration.parent.parent;
+    return ts.isVariableStatement(statement) && isTopLevel(statement) ? `${filePath}::${declaration.name.text}` : null;
+  }
+
+  // constructor(private api: Api) → Class.api
+  if (ts.isParameter(declaration) && ts.isConstructorDeclaration(declaration.parent)) {
+    const owner = declaration.parent.parent;
+    return ts.isClassDeclaration(owner) && owner.name && isTopLevel(owner) && ts.isIdentifier(declaration.name)
+      ? `${filePath}::${owner.name.text}.${declaration.name.text}`
+      : null;
+  }
+
+  // class / interface 멤버
+  const owner = declaration.parent;
+  if (owner && (ts.isClassDeclaration(owner) || ts.isInterfaceDeclaration(owner)) && owner.name && isTopLevel(owner)) {
+    const memberName = ts.isConstructorDeclaration(declaration)
+      ? 'constructor'
+      : getMemberName((declaration as ts.ClassElement | ts.TypeElement).name);
+    return memberName ? `${filePath}::${owner.name.text}.${memberName}` : null;
+  }
+
+  return null;
+}
+
+/**
+ * 함수로 전달될 수 있는 선언인지 (callback 인자 판별용)
+ */
+function isFunctionLikeDeclaration(declaration: ts.Declaration): boolean {
+  if (
+    ts.isFunctionDeclaration(declaration) ||
+    ts.isMethodDeclaration(declaration) ||
+    ts.isMethodSignature(declaration)
+  ) {
+    return true;
+  }
+  if (ts.isVariableDeclaration(declaration) || ts.isPropertyDeclaration(declaration)) {
+    const initializer = declaration.initializer;
+    return !!initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer));
+  }
+  return false;
+}
+
+/**
+ * 호출 대상 표현식 → 선언 목록 (import alias는 원본 선언까지 따라감)
+ */
+function resolveDeclarations(expression: ts.Node, checker: ts.TypeChecker): ts.Declaration[] {
+  let target = expression;
+  while (ts.isParenthesizedExpression(target) || ts.isNonNullExpression(target) || ts.isAsExpression(target)) {
+    target = target.expression;
+  }
+  if (ts.isPropertyAccessExpression(target)) target = target.name;
+  if (!ts.isIdentifier(target) && !ts.isPrivateIdentifier(target)) return [];
+
+  let symbol = checker.getSymbolAtLocation(target);
+  if (!symbol) return [];
+
+  if (symbol.flags & ts.SymbolFlags.Alias) {
+    try {
+      symbol = checker.getAliasedSymbol(symbol);
+    } catch {
+      return [];
+    }
+  }
+
+  return symbol.declarations ?? [];
+}
+
+/**
+ * 파일 하나의 호출 관계 추출 (Program의 SourceFile + TypeChecker 필요)
+ * - caller: top-level function / const, class 멤버
+ * - 모듈 최상위 코드의 호출은 caller Symbol이 없으므로 제외
+ */
+export function extractCallEdges(sourceFile: ts.SourceFile, checker: ts.TypeChecker): CallEdges {
+  const filePath = sourceFile.fileName;
+  const edges: CallEdges = {};
+
+  const addCallee = (callerId: string, expression: ts.Node, callbackOnly: boolean) => {
+    resolveDeclarations(expression, checker).forEach((declaration) => {
+      if (callbackOnly && !isFunctionLikeDeclaration(declaration)) return;
+
+      const calleeId = getDeclarationNodeId(declaration);
+      if (!calleeId) return;
+
+      const callees = edges[callerId] ?? [];
+      if (!callees.includes(calleeId)) callees.push(calleeId);
+      edges[callerId] = callees;
+    });
+  };
+
+  const visit = (node: ts.Node, callerId: string) => {
+    if (ts.isCallExpression(node) || ts.isNewExpression(node)) {
+      addCallee(callerId, node.expression, false);
+
+      // 함수로 전달된 callback (useEffect(load), items.map(format))
+      node.arguments?.forEach((arg) => {
+        if (ts.isIdentifier(arg) || ts.isPropertyAccessExpression(arg)) addCallee(callerId, arg, true);
+      });
+    } else if (ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node)) {
+      addCallee(callerId, node.tagName, false);
+    } else if (ts.isJsxAttribute(node) && node.initializer && ts.isJsxExpression(node.initializer)) {
+      // onClick={handleSave}
+      const expression = node.initializer.expression;
+      if (expression && (ts.isIdentifier(expression) || ts.isPropertyAccessExpression(expression))) {
+        addCallee(callerId, expression, true);
+      }
+    }
+
+    ts.forEachChild(node, (child) => visit(child, callerId));
+  };
+
+  sourceFile.statements.forEach((statement) => {
+    if (ts.isFunctionDeclaration(statement) && statement.name && statement.body) {
+      visit(statement.body, `${filePath}::${statement.name.text}`);
+    } else if (ts.isVariableStatement(statement)) {
+      statement.declarationList.declarations.forEach((decl) => {
+        if (ts.isIdentifier(decl.name) && decl.initializer) {
+          visit(decl.initializer, `${filePath}::${decl.name.text}`);
+        }
+      });
+    } else if (ts.isClassDeclaration(statement) && statement.name) {
+      const className = statement.name.text;
+      getSymbolMembers(statement).forEach((member) => {
+        if (ts.isParameter(member.node)) return;
+        visit(member.node, `${filePath}::${className}.${member.name}`);
+      });
+    }
+  });
+
+  return edges;
+}
+
+/**
+ * 파일별 호출 관계 → Symbol 노드별 calls / calledBy
+ * - 존재하지 않는 노드 id (파싱 실패 파일, 삭제된 Symbol)는 제외
+ */
+export function buildCallGraph(edgesList: CallEdges[], nodeIds: Set<string>): Map<string, CallGraphEntry> {
+  const graph = new Map<string, CallGraphEntry>();
+
+  const getEntry = (nodeId: string) => {
+    let entry = graph.get(nodeId);
+    if (!entry) {
+      entry = { calls: [], calledBy: [] };
+      graph.set(nodeId, entry);
+    }
+    return entry;
+  };
+
+  edgesList.forEach((edges) => {
+    Object.entries(edges).forEach(([callerId, calleeIds]) => {
+      if (!nodeIds.has(callerId)) return;
+
+      calleeIds.forEach((calleeId) => {
+        if (!nodeIds.has(calleeId)) return;
+        getEntry(callerId).calls.push(calleeId);
+        getEntry(calleeId).calledBy.push(callerId);
+      });
+    });
+  });
+
+  return graph;
+}
@@ -0,0 +1,97 @@
+/**
+ * TypeScript Diagnostics 추출 (Problems 패널용)
+ *
+ * 파일 하나의 syntactic + semantic diagnostics를 직렬화 가능한 형태로 변환
+ * - parseProject.worker가 LSIF 인덱싱과 같은 공유 Program으로 계산
+ * - 분석기 환경 때문에 생기는 오류는 제외 (프로젝트 코드 문제가 아님)
+ *   - typings를 올리지 않은 npm 패키지 import (Cannot find module 'lodash')
+ *     alias 경로 ('@/features/x', tsconfig paths / vite alias)는 실제 누락 파일이므로 표시
+ *   - 분석기의 jsx: React 설정 때문에 생기는 'React' UMD global 오류 (react-jsx 프로젝트)
+ */
+
+import * as ts from 'typescript';
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export interface DocumentDiagnostic {
+  line: number; // 1-based
+  column: number; // 0-based
+  endLine: number;
+  endColumn: number;
+  severity: DiagnosticSeverity;
+  code: number; // TS 에러 코드 (2322 → TS2322)
+  message: string;
+  source: 'syntactic' | 'semantic';
+}
+
+// 파일당 최대 개수 (생성된 코드 등에서 수천 개가 나와도 UI가 멈추지 않도록)
+const MAX_DIAGNOSTICS_PER_FILE = 200;
+
+// 모듈을 찾지 못한 경우 (alias가 아닌 bare specifier면 typings 미업로드로 간주)
+const MODULE_NOT_FOUND_CODES = new Set([2307, 2792, 7016]);
+
+// 'React' refers to a UMD global (분석기 jsx 설정 문제)
+const JSX_FACTORY_UMD_CODE = 2686;
+
+function toSeverity(category: ts.DiagnosticCategory): DiagnosticSeverity {
+  if (category === ts.DiagnosticCategory.Error) return 'error';
+  if (category === ts.DiagnosticCategory.Warning) return 'warning';
+  return 'info';
+}
+
+function isEnvironmentDiagnostic(
+  diagnostic: ts.Diagnostic,
+  sourceFile: ts.SourceFile,
+  isAliased: (specifier: string) => boolean
+): boolean {
+  if (diagnostic.code === JSX_FACTORY_UMD_CODE) return true;
+
+  if (MODULE_NOT_FOUND_CODES.has(diagnostic.code) && diagnostic.start !== undefined) {
+    const specifier = sourceFile.text
+      .slice(diagnostic.start, diagnostic.start + (diagnostic.length ?? 0))
+      .replace(/^['"`]|['"`]$/g, '');
+    return !specifier.startsWith('.') && !specifier.startsWith('/') && !isAliased(specifier);
+  }
+
+  return false;
+}
+
+/**
+ * Program의 파일 하나에 대한 diagnostics (라인 순 정렬)
+ * @param isAliased - 프로젝트 alias에 매칭되는 import인지 (ModuleResolver.isAliased)
+ */
+export function extractDiagnostics(
+  sourceFile: ts.SourceFile,
+  program: ts.Program,
+  isAliased: (specifier: string) => boolean = () => false
+): DocumentDiagnostic[] {
+  const collect = (diagnostics: readonly ts.Diagnostic[], source: DocumentDiagnostic['source']) =>
+    diagnostics
+      .filter((diagnostic) => diagnostic.file === sourceFile && diagnostic.start !== undefined)
+      .filter((diagnostic) => !isEnvironmentDiagnostic(diagnostic, sourceFile, isAliased))
+      .map((diagnostic): DocumentDiagnostic => {
+        const start = diagnostic.start ?? 0;
+        const end = start + (diagnostic.length ?? 0);
+        const startPos = sourceFile.getLineAndCharacterOfPosition(start);
+        const endPos = sourceFile.getLineAndCharacterOfPosition(end);
+
+        return {
+          line: startPos.line + 1,
+          column: startPos.character,
+          endLine: endPos.line + 1,
+          endColumn: endPos.character,
+          severity: toSeverity(diagnostic.category),
+          code: diagnostic.code,
+          message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+          source,
+        };
+      });
+
+  const syntactic = collect(program.getSyntacticDiagnostics(sourceFile), 'syntactic');
+  // 문법 오류가 있으면 semantic 결과는 대부분 연쇄 오류이므로 생략
+  const semantic = syntactic.length > 0 ? [] : collect(program.getSemanticDiagnostics(sourceFile), 'semantic');
+
+  return [...syntactic, ...semantic]
+    .sort((a, b) => a.line - b.line || a.column - b.column)
+    .slice(0, MAX_DIAGNOSTICS_PER_FILE);
+}
@@ -6,24 +6,48 @@
 
 import * as ts from 'typescript';
 import { virtualTypeFiles } from '../virtual-types';
+import { getModuleResolver } from './pathResolver';
+import { dirname, isConfigDataFile } from './projectConfig';
+import { getTypingsFiles, getTypingsVersion, isAmbientTypingsFile } from './typings';
 
 /**
  * 메모리 기반 Language Service Host 생성
  */
 export function createLanguageServiceHost(files: Record<string, string>): ts.LanguageServiceHost {
-  // ✅ Virtual 타입 파일을 사용자 파일과 병합
-  const allFiles = { ...virtualTypeFiles, ...files };
+  // ✅ Virtual 타입 파일 + 업로드된 typings (node_modules) + 사용자 파일 병합
+  const typingsFiles = getTypingsFiles();
+  const allFiles = { ...virtualTypeFiles, ...typingsFiles, ...files };
 
   const fileVersions = new Map<string, number>();
+  const moduleResolver = getModuleResolver(allFiles);
 
   // 모든 파일의 초기 버전을 0으로 설정
   Object.keys(allFiles).forEach((fileName) => {
     fileVersions.set(fileName, 0);
   });
 
+  // node_modules 해석용 (메모리 파일 기준 fileExists / directoryExists)
+  const directories = new Set<string>();
+  Object.keys(allFiles).forEach((fileName) => {
+    for (let dir = dirname(fileName); dir && dir !== '/' && !directories.has(dir); dir = dirname(dir)) {
+      directories.add(dir);
+    }
+  });
+
+  const moduleResolutionHost: ts.ModuleResolutionHost = {
+    fileExists: (fileName) => Object.hasOwn(allFiles, fileName),
+    readFile: (fileName) => allFiles[fileName],
+    directoryExists: (directoryName) => directoryName === '/' || directories.has(directoryName),
+  };
+
   const host: ts.LanguageServiceHost = {
-    // ✅ Virtual 타입 파일 + 사용자 파일 모두 반환
-    getScriptFileNames: () => Object.keys(allFiles),
+    // ✅ Virtual 타입 파일 + 사용자 파일 모두 반환 (tsconfig.json 등 설정 파일 제외)
+    // typings는 @types만 전역으로 포함, 나머지는 import될 때 모듈 해석으로 포함
+    getScriptFileNames: () =>
+      Object.keys(allFiles).filter(
+        (fileName) =>
+          !isConfigDataFile(fileName) && (!Object.hasOwn(typingsFiles, fileName) || isAmbientTypingsFile(fileName))
+      ),
 
     getScriptVersion: (fileName: string) => {
       const version = fileVersions.get(fileName) || 0;
@@ -62,6 +86,12 @@ export function createLanguageServiceHost(files: Record<string, string>): ts.Lan
     readFile: (fileName: string) => allFiles[fileName],
 
     resolveModuleNames: (moduleNames: string[], containingFile: string) => {
+      // TypeScript는 getCurrentDirectory('/') 기준 절대 경로를 넘김 → 사용자 파일 key('src/App.tsx')로 복원
+      const containingKey =
+        Object.hasOwn(allFiles, containingFile) || !Object.hasOwn(allFiles, containingFile.slice(1))
+          ? containingFile
+          : containingFile.slice(1);
+
       return moduleNames.map((moduleName) => {
         // ✅ react 모듈 해석
         if (moduleName === 'react') {
@@ -72,17 +102,21 @@ export function createLanguageServiceHost(files: Record<string, string>): ts.Lan
           };
         }
 
-        // 상대 경로 해석
-        if (moduleName.startsWith('.')) {
-          const dir = containingFile.substring(0, containingFile.lastIndexOf('/'));
-          const resolved = `${dir}/${moduleName}`;
-
-          // 확장자 추가 시도
-          if (allFiles[resolved]) return { resolvedFileName: resolved };
-          if (allFiles[`${resolved}.ts`]) return { resolvedFileName: `${resolved}.ts` };
-          if (allFiles[`${resolved}.tsx`]) return { resolvedFileName: `${resolved}.tsx` };
-          if (allFiles[`${resolved}/index.ts`]) return { resolvedFileName: `${resolved}/index.ts` };
-          if (allFiles[`${resolved}/index.tsx`]) return { resolvedFileName: `${resolved}/index.tsx` };
+        // 상대 경로 + tsconfig/vite alias 해석 (parseProject.worker와 동일한 resolver)
+        const resolved = moduleResolver.resolve(containingKey, moduleName);
+        if (resolved && !resolved.endsWith('.vue')) {
+          return { resolvedFileName: resolved };
+        }
+
+        // npm 모듈: 업로드된 typings에서 node_modules 규칙으로 해석 (package.json types / exports, @types)
+        if (!resolved && !moduleName.startsWith('.')) {
+          const { resolvedModule } = ts.resolveModuleName(
+            moduleName,
+            containingFile,
+            host.getCompilationSettings(),
+            moduleResolutionHost
+          );
+          if (resolvedModule) return resolvedModule;
         }
 
         // ✅ 해결 실패 시 undefined 반환 (빈 문자열은 에러 발생)
@@ -103,13 +137,14 @@ export function createLanguageServiceHost(files: Record<string, string>): ts.Lan
  */
 let cachedLanguageService: ts.LanguageService | null = null;
 let cachedFilesReference: Record<string, string> | null = null;
+let cachedTypingsVersion = -1;
 
 /**
  * Language Service 생성 (캐싱 지원)
  *
  * **캐싱 전략**:
  * - 동일한 files 객체: 캐시된 Language Service 반환
- * - files 객체 변경: 새 Language Service 생성 + 캐시 업데이트
+ * - files 객체 또는 typings 변경: 새 Language Service 생성 + 캐시 업데이트
  *
  * **성능 개선**:
  * - Before: extractDefinitions() 호출 시마다 Language Service 생성
@@ -120,7 +155,7 @@ let cachedFilesReference: Record<string, string> | null = null;
  */
 export function createLanguageService(files: Record<string, string>): ts.LanguageService {
   // 캐시 확인: 동일한 files 객체인 경우 재사용
-  if (cachedLanguageService && cachedFilesReference === files) {
+  if (cachedLanguageService && cachedFilesReference === files && cachedTypingsVersion === getTypingsVersion()) {
     console.log('[createLanguageService] ✅ Cache hit, reusing Language Service');
     return cachedLanguageService;
   }
@@ -135,6 +170,7 @@ export function createLanguageService(files: Record<string, string>): ts.Languag
   // 캐시 저장
   cachedLanguageService = languageService;
   cachedFilesReference = files;
+  cachedTypingsVersion = getTypingsVersion();
 
   return languageService;
 }
@@ -152,6 +188,57 @@ export function invalidateLanguageService(): void {
   console.log('[invalidateLanguageService] 🗑️ Language Service cache cleared');
 }
 
+/**
+ * 🔥 Incremental Language Service (Worker용)
+ *
+ * - Worker는 filesAtom이 바뀔 때마다 파싱 요청을 받으므로 Language Service를 세션 동안 유지
+ * - 내용이 바뀐 파일만 script version 증가 → Program 재생성 시 변경된 SourceFile만 다시 파싱
+ */
+export interface IncrementalLanguageService {
+  languageService: ts.LanguageService;
+  /** 파일 목록 갱신 후 최신 Program 반환 */
+  update: (files: Record<string, string>) => ts.Program | undefined;
+}
+
+export function createIncrementalLanguageService(): IncrementalLanguageService {
+  let currentFiles: Record<string, string> = {};
+  let host = createLanguageServiceHost(currentFiles);
+  const versions = new Map<string, number>();
+
+  // host는 update마다 교체 (module resolver가 files 객체 기준으로 캐시되므로)
+  const delegatingHost: ts.LanguageServiceHost = {
+    getScriptFileNames: () => host.getScriptFileNames(),
+    getScriptVersion: (fileName) => String(versions.get(fileName) || 0),
+    getScriptSnapshot: (fileName) => host.getScriptSnapshot(fileName),
+    getCurrentDirectory: () => host.getCurrentDirectory(),
+    getCompilationSettings: () => host.getCompilationSettings(),
+    getDefaultLibFileName: (options) => host.getDefaultLibFileName(options),
+    fileExists: (fileName) => host.fileExists?.(fileName) ?? false,
+    readFile: (fileName) => host.readFile?.(fileName),
+    resolveModuleNames: (moduleNames, ...rest) =>
+      host.resolveModuleNames?.(moduleNames, ...rest) ?? moduleNames.map(() => undefined),
+  };
+
+  const languageService = ts.createLanguageService(delegatingHost, ts.createDocumentRegistry());
+
+  return {
+    languageService,
+    update: (files) => {
+      // typings도 같은 경로에 내용만 바뀔 수 있으므로 함께 비교
+      const nextFiles = { ...getTypingsFiles(), ...files };
+      Object.keys(nextFiles).forEach((fileName) => {
+        if (currentFiles[fileName] !== nextFiles[fileName]) {
+          versions.set(fileName, (versions.get(fileName) || 0) + 1);
+        }
+      });
+
+      currentFiles = nextFiles;
+      host = createLanguageServiceHost(files);
+      return languageService.getProgram();
+    },
+  };
+}
+
 /**
  * 함수 내부의 모든 로컬 변수 선언 찾기 (파라미터 포함)
  */
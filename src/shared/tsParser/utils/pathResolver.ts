@@ -2,64 +2,242 @@
  * 경로 해결 유틸리티
  *
  * Import 경로를 실제 파일 경로로 해결
+ * - 업로드된 tsconfig.json / jsconfig.json / vite.config의 alias 설정 사용 (projectConfig.ts)
+ * - monorepo workspace 패키지 이름 → 패키지 소스 (workspaceConfig.ts)
+ * - Main thread (CodeViewer, dependencyAnalyzer)와 parseProject.worker가 같은 resolver 공유
  */
 
+import {
+  dirname,
+  joinPaths,
+  type ProjectAliasConfig,
+  readProjectAliasConfig,
+  type ViteAliasRule,
+} from './projectConfig';
+import {
+  getPackageEntryCandidates,
+  matchWorkspacePackage,
+  readWorkspaceConfig,
+  type WorkspaceConfig,
+} from './workspaceConfig';
+
+/**
+ * 설정 파일에 매칭되는 path mapping이 없을 때 사용하는 기본 alias (기존 하드코딩 동작 유지)
+ */
+const FALLBACK_ALIASES: Array<{ prefix: string; target: string }> = [
+  { prefix: '@/', target: 'src/' },
+  { prefix: '~~/', target: 'src/' },
+  { prefix: '~/', target: 'src/' },
+];
+
+const RESOLVE_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.js', '.jsx', '.vue'];
+const INDEX_FILES = ['/index.ts', '/index.tsx', '/index.js', '/index.jsx', '/index.vue'];
+
+export interface ModuleResolver {
+  config: ProjectAliasConfig;
+  workspace: WorkspaceConfig;
+  /**
+   * Import 경로 해석 (로컬 파일이 아니면 null → npm 모듈)
+   */
+  resolve: (currentFile: string, importPath: string) => string | null;
+  /**
+   * tsconfig paths / vite alias / 기본 alias에 매칭되는 import인지 (파일을 못 찾아도 npm 패키지가 아님)
+   */
+  isAliased: (currentFile: string, importPath: string) => boolean;
+}
+
+/**
+ * files 객체별 resolver 캐시
+ * - 설정 파일 파싱은 files가 바뀔 때만 1번
+ */
+const resolverCache = new WeakMap<Record<string, string>, ModuleResolver>();
+
 /**
  * Import 경로를 실제 파일 경로로 해결
  */
 export function resolvePath(currentFile: string, importPath: string, files: Record<string, string>): string | null {
-  // 1. Alias 처리
-  let resolvedPath = importPath;
+  return getModuleResolver(files).resolve(currentFile, importPath);
+}
 
-  // @/ → src/
-  if (importPath.startsWith('@/')) {
-    resolvedPath = importPath.replace('@/', 'src/');
+/**
+ * files에 대한 (캐시된) ModuleResolver 가져오기
+ */
+export function getModuleResolver(files: Record<string, string>): ModuleResolver {
+  let resolver = resolverCache.get(files);
+  if (!resolver) {
+    resolver = createModuleResolver(files);
+    resolverCache.set(files, resolver);
   }
+  return resolver;
+}
 
-  // ~/ → src/
-  if (importPath.startsWith('~/')) {
-    resolvedPath = importPath.replace('~/', 'src/');
-  }
+/**
+ * ModuleResolver 생성
+ *
+ * 해석 순서:
+ * 1. 상대 경로 ('./', '../')
+ * 2. 가장 가까운 tsconfig/jsconfig의 paths
+ * 3. 가장 가까운 vite.config의 resolve.alias
+ * 4. tsconfig baseUrl
+ * 5. workspace 패키지 ('@acme/ui' → packages/ui의 exports / main / types)
+ * 6. (매칭되는 paths / alias가 없을 때만) 기본 alias '@/', '~/', '~~/' → 'src/'
+ */
+export function createModuleResolver(files: Record<string, string>): ModuleResolver {
+  const config = readProjectAliasConfig(files);
+  const workspace = readWorkspaceConfig(files);
 
-  // ~~/ → src/
-  if (importPath.startsWith('~~/')) {
-    resolvedPath = importPath.replace('~~/', 'src/');
-  }
+  const resolve = (currentFile: string, importPath: string): string | null => {
+    // 1. 상대 경로 처리
+    if (importPath.startsWith('.')) {
+      return findFileWithExtension(joinPaths(dirname(currentFile), importPath), files);
+    }
 
-  // 2. 상대 경로 처리
-  if (importPath.startsWith('.')) {
-    const currentDir = currentFile.substring(0, currentFile.lastIndexOf('/'));
-    resolvedPath = resolveRelativePath(currentDir, importPath);
-  }
+    // 2. tsconfig paths (가장 가까운 scope)
+    const scope = findNearest(config.tsconfigScopes, currentFile);
+    // paths / alias에 매칭된 import는 (파일을 못 찾아도) 기본 alias로 재해석하지 않음
+    let hasMatchingMapping = false;
+
+    if (scope) {
+      for (const rule of sortByPatternSpecificity(scope.paths)) {
+        const captured = matchPattern(rule.pattern, importPath);
+        if (captured === null) continue;
+        hasMatchingMapping = true;
+
+        for (const target of rule.targets) {
+          const resolved = findFileWithExtension(target.replace('*', captured), files);
+          if (resolved) return resolved;
+        }
+      }
+    }
+
+    // 3. vite resolve.alias (가장 가까운 vite.config)
+    const viteRoot = findNearest(config.viteAliases, currentFile)?.rootDir;
+
+    if (viteRoot !== undefined) {
+      for (const alias of config.viteAliases) {
+        if (alias.rootDir !== viteRoot) continue;
 
-  // 3. node_modules 경로는 null (외부 모듈)
-  if (!resolvedPath.startsWith('src/') && !resolvedPath.startsWith('examples/')) {
+        const aliased = applyViteAlias(alias, importPath);
+        if (aliased !== null) {
+          hasMatchingMapping = true;
+          const resolved = findFileWithExtension(joinPaths('', aliased), files);
+          if (resolved) return resolved;
+        }
+      }
+    }
+
+    // 4. baseUrl 기준 non-relative import
+    if (scope && scope.baseUrl !== null) {
+      const resolved = findFileWithExtension(joinPaths(scope.baseUrl, importPath), files);
+      if (resolved) return resolved;
+    }
+
+    // 5. workspace 패키지 (node_modules 심볼릭 링크 대신 로컬 소스로 해석)
+    const workspaceMatch = matchWorkspacePackage(workspace.packages, importPath);
+
+    if (workspaceMatch) {
+      for (const candidate of getPackageEntryCandidates(workspaceMatch.pkg, workspaceMatch.subpath)) {
+        const resolved = findFileWithExtension(candidate, files);
+        if (resolved) return resolved;
+      }
+    }
+
+    // 6. 설정 파일에 매칭되는 path mapping이 없는 경우의 기본 alias
+    if (!hasMatchingMapping) {
+      const fallback = FALLBACK_ALIASES.find(({ prefix }) => importPath.startsWith(prefix));
+      if (fallback) {
+        return findFileWithExtension(fallback.target + importPath.substring(fallback.prefix.length), files);
+      }
+    }
+
+    // 7. 나머지는 npm 모듈
     return null;
-  }
+  };
+
+  const isAliased = (currentFile: string, importPath: string): boolean => {
+    if (importPath.startsWith('.') || importPath.startsWith('/')) return false;
+
+    const scope = findNearest(config.tsconfigScopes, currentFile);
+    if (scope?.paths.some((rule) => matchPattern(rule.pattern, importPath) !== null)) return true;
+
+    const viteRoot = findNearest(config.viteAliases, currentFile)?.rootDir;
+    if (
+      viteRoot !== undefined &&
+      config.viteAliases.some((alias) => alias.rootDir === viteRoot && applyViteAlias(alias, importPath) !== null)
+    ) {
+      return true;
+    }
 
-  // 4. 파일 확장자 추가 시도
-  const resolved = findFileWithExtension(resolvedPath, files);
+    return FALLBACK_ALIASES.some(({ prefix }) => importPath.startsWith(prefix));
+  };
 
-  return resolved;
+  return { config, workspace, resolve, isAliased };
 }
 
 /**
- * 상대 경로 해결
+ * vite alias 적용 (매칭되지 않으면 null)
  */
-function resolveRelativePath(currentDir: string, relativePath: string): string {
-  const parts = currentDir.split('/').filter((p) => p !== '');
-  const importParts = relativePath.split('/').filter((p) => p !== '');
-
-  for (const part of importParts) {
-    if (part === '.') {
-    } else if (part === '..') {
-      parts.pop();
-    } else {
-      parts.push(part);
+function applyViteAlias(alias: ViteAliasRule, importPath: string): string | null {
+  if (typeof alias.find === 'string') {
+    if (importPath === alias.find || importPath.startsWith(`${alias.find}/`)) {
+      return alias.replacement + importPath.substring(alias.find.length);
     }
+    return null;
   }
+  return alias.find.test(importPath) ? importPath.replace(alias.find, `${alias.replacement}/`) : null;
+}
 
-  return parts.join('/');
+/**
+ * currentFile을 포함하는 가장 깊은 rootDir의 항목 찾기
+ */
+function findNearest<T extends { rootDir: string }>(items: T[], currentFile: string): T | undefined {
+  let nearest: T | undefined;
+
+  for (const item of items) {
+    const { rootDir } = item;
+    const contains = rootDir === '' || rootDir === '/' || currentFile.startsWith(`${rootDir}/`);
+    if (contains && (!nearest || rootDir.length > nearest.rootDir.length)) {
+      nearest = item;
+    }
+  }
+
+  return nearest;
+}
+
+/**
+ * TypeScript와 동일하게 prefix가 긴 패턴을 우선 적용
+ */
+function sortByPatternSpecificity<T extends { pattern: string }>(rules: T[]): T[] {
+  const prefixLength = (pattern: string) => {
+    const starIndex = pattern.indexOf('*');
+    return starIndex === -1 ? Number.MAX_SAFE_INTEGER : starIndex;
+  };
+  return [...rules].sort((a, b) => prefixLength(b.pattern) - prefixLength(a.pattern));
+}
+
+/**
+ * paths 패턴 매칭 ('@core/*' + '@core/utils' → 'utils', 정확히 일치하면 '')
+ * @returns 와일드카드에 매칭된 문자열 (매칭 실패 시 null)
+ */
+function matchPattern(pattern: string, importPath: string): string | null {
+  const starIndex = pattern.indexOf('*');
+
+  if (starIndex === -1) {
+    return pattern === importPath ? '' : null;
+  }
+
+  const prefix = pattern.substring(0, starIndex);
+  const suffix = pattern.substring(starIndex + 1);
+
+  if (
+    importPath.length >= prefix.length + suffix.length &&
+    importPath.startsWith(prefix) &&
+    importPath.endsWith(suffix)
+  ) {
+    return importPath.substring(prefix.length, importPath.length - suffix.length);
+  }
+
+  return null;
 }
 
 /**
@@ -67,35 +245,34 @@ function resolveRelativePath(currentDir: string, relativePath: string): string {
  */
 function findFileWithExtension(basePath: string, files: Record<string, string>): string | null {
   // 정확한 파일이 있으면 그대로 반환
-  if (files[basePath]) {
+  if (Object.hasOwn(files, basePath)) {
     return basePath;
   }
 
   // 확장자 시도
-  const extensions = ['.ts', '.tsx', '.js', '.jsx'];
-  for (const ext of extensions) {
+  for (const ext of RESOLVE_EXTENSIONS) {
     const withExt = basePath + ext;
-    if (files[withExt]) {
+    if (Object.hasOwn(files, withExt)) {
       return withExt;
     }
   }
 
-  // index 파일 시도
-  const indexExtensions = ['/index.ts', '/index.tsx', '/index.js', '/index.jsx'];
-  for (const ext of indexExtensions) {
-    const withIndex = basePath + ext;
-    if (files[withIndex]) {
-      return withIndex;
+  // ESM 스타일 '.js' import → '.ts' / '.tsx' 소스
+  const jsExtMatch = basePath.match(/\.(m|c)?jsx?$/);
+  if (jsExtMatch) {
+    const withoutExt = basePath.substring(0, basePath.length - jsExtMatch[0].length);
+    for (const ext of ['.ts', '.tsx', '.mts', '.cts']) {
+      if (Object.hasOwn(files, withoutExt + ext)) {
+        return withoutExt + ext;
+      }
     }
   }
 
-  // 파일명 fallback (파일명만으로 검색)
-  const fileName = basePath.split('/').pop();
-  if (fileName) {
-    for (const filePath of Object.keys(files)) {
-      if (filePath.endsWith(`/${fileName}`)) {
-        return filePath;
-      }
+  // index 파일 시도
+  for (const ext of INDEX_FILES) {
+    const withIndex = basePath + ext;
+    if (Object.hasOwn(files, withIndex)) {
+      return withIndex;
     }
   }
 
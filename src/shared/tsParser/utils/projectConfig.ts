@@ -0,0 +1,449 @@
+/**
+ * 프로젝트 설정 파서
+ *
+ * 업로드된 tsconfig.json / jsconfig.json / vite.config.* 에서 모듈 alias 정보를 추출
+ * - tsconfig: compilerOptions.baseUrl, compilerOptions.paths (extends 체인 + references 포함)
+ * - vite.config: resolve.alias (object / array 형식)
+ * - package.json / pnpm-workspace.yaml: workspace 패키지 (workspaceConfig.ts)
+ */
+
+import * as ts from 'typescript';
+
+/**
+ * tsconfig paths 규칙 하나 ('@core/*' → ['packages/core/src/*'])
+ */
+export interface PathMappingRule {
+  pattern: string; // '@core/*' (와일드카드는 최대 1개)
+  targets: string[]; // 파일 키 기준 경로 ('packages/core/src/*')
+}
+
+/**
+ * 디렉토리 하나에 적용되는 tsconfig 설정
+ * - 같은 디렉토리의 references (tsconfig.app.json 등)는 하나의 scope로 병합
+ */
+export interface TsConfigScope {
+  rootDir: string; // 설정 파일이 위치한 디렉토리 ('' = 루트)
+  configPaths: string[]; // 병합된 설정 파일들
+  baseUrl: string | null; // 파일 키 기준 baseUrl
+  paths: PathMappingRule[];
+}
+
+/**
+ * vite resolve.alias 항목
+ */
+export interface ViteAliasRule {
+  rootDir: string; // vite.config가 위치한 디렉토리
+  find: string | RegExp;
+  replacement: string; // 파일 키 기준 경로
+}
+
+export interface ProjectAliasConfig {
+  tsconfigScopes: TsConfigScope[];
+  viteAliases: ViteAliasRule[];
+}
+
+interface CompilerPathOptions {
+  baseUrl?: string;
+  paths?: PathMappingRule[];
+}
+
+const TSCONFIG_FILE_PATTERN = /(^|\/)(tsconfig(\.[\w-]+)?|jsconfig)\.json$/;
+const VITE_CONFIG_FILE_PATTERN = /(^|\/)vite\.config\.(ts|js|mts|mjs|cts|cjs)$/;
+const WORKSPACE_CONFIG_FILE_PATTERN = /(^|\/)(package\.json|pnpm-workspace\.ya?ml)$/;
+
+/**
+ * 모듈 해석에 사용되는 설정 파일인지 확인
+ * (업로드 시 .ts/.js 외에 함께 읽어야 하는 파일)
+ */
+export function isProjectConfigFile(filePath: string): boolean {
+  return (
+    TSCONFIG_FILE_PATTERN.test(filePath) ||
+    VITE_CONFIG_FILE_PATTERN.test(filePath) ||
+    WORKSPACE_CONFIG_FILE_PATTERN.test(filePath)
+  );
+}
+
+/**
+ * JSON / YAML 설정 파일인지 확인 (경로 해석에만 사용, 소스 파싱 대상 아님)
+ */
+export function isConfigDataFile(filePath: string): boolean {
+  return /\.(json|ya?ml)$/.test(filePath);
+}
+
+/**
+ * files에 포함된 모든 설정 파일에서 alias 정보 수집
+ */
+export function readProjectAliasConfig(files: Record<string, string>): ProjectAliasConfig {
+  const filePaths = Object.keys(files);
+
+  // 1. tsconfig.json / jsconfig.json (디렉토리별 scope)
+  const scopeByDir = new Map<string, TsConfigScope>();
+
+  const addToScope = (configPath: string) => {
+    const rootDir = dirname(configPath);
+    const scope = scopeByDir.get(rootDir) ?? { rootDir, configPaths: [], baseUrl: null, paths: [] };
+    if (scope.configPaths.includes(configPath)) return;
+
+    const options = loadCompilerPathOptions(configPath, files, new Set());
+    scope.configPaths.push(configPath);
+    if (options.baseUrl !== undefined && scope.baseUrl === null) scope.baseUrl = options.baseUrl;
+    if (options.paths) scope.paths.push(...options.paths);
+    scopeByDir.set(rootDir, scope);
+
+    // references: 같은 디렉토리면 병합, 다른 디렉토리면 별도 scope
+    for (const referencePath of readReferences(configPath, files)) {
+      addToScope(referencePath);
+    }
+  };
+
+  filePaths
+    .filter((filePath) => /(^|\/)(tsconfig|jsconfig)\.json$/.test(filePath))
+    .forEach((configPath) => {
+      addToScope(configPath);
+    });
+
+  // 2. vite.config.* (resolve.alias)
+  const viteAliases = filePaths
+    .filter((filePath) => VITE_CONFIG_FILE_PATTERN.test(filePath))
+    .flatMap((configPath) => extractViteAliases(configPath, files[configPath]));
+
+  return {
+    tsconfigScopes: Array.from(scopeByDir.values()),
+    viteAliases,
+  };
+}
+
+// ========================================
+// tsconfig.json
+// ========================================
+
+/**
+ * JSONC (주석, trailing comma 허용) 파싱
+ */
+function parseJsonConfig(content: string | undefined, configPath: string): Record<string, unknown> | null {
+  if (!content) return null;
+
+  const { config, error } = ts.parseConfigFileTextToJson(configPath, content);
+  if (error) {
+    console.warn(
+      `[projectConfig] Failed to parse ${configPath}:`,
+      ts.flattenDiagnosticMessageText(error.messageText, '\n')
+    );
+    return null;
+  }
+
+  return isRecord(config) ? config : null;
+}
+
+/**
+ * JSON 객체 여부 (배열 / null 제외)
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * baseUrl / paths 읽기 (extends 체인 병합)
+ * - baseUrl은 선언된 설정 파일 기준
+ * - paths는 baseUrl이 있으면 baseUrl 기준, 없으면 선언된 설정 파일 기준
+ */
+function loadCompilerPathOptions(
+  configPath: string,
+  files: Record<string, string>,
+  visited: Set<string>
+): CompilerPathOptions {
+  if (visited.has(configPath)) return {};
+  visited.add(configPath);
+
+  const json = parseJsonConfig(files[configPath], configPath);
+  if (!json) return {};
+
+  const configDir = dirname(configPath);
+  let result: CompilerPathOptions = {};
+
+  // 1. extends (문자열 또는 배열) - 뒤에 오는 설정이 우선
+  const extendsList: unknown[] = Array.isArray(json.extends) ? json.extends : [json.extends];
+  for (const extendsEntry of extendsList) {
+    if (typeof extendsEntry !== 'string') continue;
+    const parentPath = resolveExtendsPath(configDir, extendsEntry, files);
+    if (parentPath) {
+      result = { ...result, ...loadCompilerPathOptions(parentPath, files, visited) };
+    }
+  }
+
+  // 2. 현재 파일의 compilerOptions
+  const compilerOptions = isRecord(json.compilerOptions) ? json.compilerOptions : {};
+  const ownBaseUrl = typeof compilerOptions.baseUrl === 'string' ? joinPaths(configDir, compilerOptions.baseUrl) : null;
+
+  if (ownBaseUrl !== null) {
+    result.baseUrl = ownBaseUrl;
+  }
+
+  if (isRecord(compilerOptions.paths)) {
+    const pathsBase = ownBaseUrl ?? result.baseUrl ?? configDir;
+    result.paths = Object.entries(compilerOptions.paths)
+      .filter((entry): entry is [string, string[]] => Array.isArray(entry[1]))
+      .map(([pattern, targets]) => ({
+        pattern,
+        targets: targets.filter((t) => typeof t === 'string').map((t) => joinPaths(pathsBase, t)),
+      }));
+  }
+
+  return result;
+}
+
+/**
+ * extends 경로 해석
+ * - 상대 경로: './tsconfig.base.json', '../tsconfig'
+ * - 패키지: '@tsconfig/node20/tsconfig.json' (업로드된 node_modules가 있는 경우만)
+ */
+function resolveExtendsPath(configDir: string, extendsPath: string, files: Record<string, string>): string | null {
+  const candidates: string[] = [];
+
+  if (extendsPath.startsWith('.') || extendsPath.startsWith('/')) {
+    const base = joinPaths(configDir, extendsPath);
+    candidates.push(base, `${base}.json`, `${base}/tsconfig.json`);
+  } else {
+    // 상위 디렉토리의 node_modules를 순서대로 탐색
+    let dir: string | null = configDir;
+    while (dir !== null) {
+      const base = joinPaths(dir, `node_modules/${extendsPath}`);
+      candidates.push(base, `${base}.json`, `${base}/tsconfig.json`);
+      dir = dir === '' || dir === '/' ? null : dirname(dir);
+    }
+  }
+
+  return candidates.find((candidate) => Object.hasOwn(files, candidate)) ?? null;
+}
+
+/**
+ * references 경로 목록 (디렉토리면 tsconfig.json을 붙임)
+ */
+function readReferences(configPath: string, files: Record<string, string>): string[] {
+  const json = parseJsonConfig(files[configPath], configPath);
+  if (!json || !Array.isArray(json.references)) return [];
+
+  const configDir = dirname(configPath);
+  const references: unknown[] = json.references;
+
+  return references
+    .map((reference) => (isRecord(reference) && typeof reference.path === 'string' ? reference.path : null))
+    .filter((referencePath): referencePath is string => referencePath !== null)
+    .map((referencePath) => {
+      const resolved = joinPaths(configDir, referencePath);
+      return resolved.endsWith('.json') ? resolved : `${resolved}/tsconfig.json`;
+    })
+    .filter((resolved) => Object.hasOwn(files, resolved));
+}
+
+// ========================================
+// vite.config.*
+// ========================================
+
+/**
+ * vite.config의 resolve.alias 추출
+ * - { '@': path.resolve(__dirname, 'src') }
+ * - [{ find: '@', replacement: fileURLToPath(new URL('./src', import.meta.url)) }]
+ */
+function extractViteAliases(configPath: string, content: string | undefined): ViteAliasRule[] {
+  if (!content) return [];
+
+  const rootDir = dirname(configPath);
+  const sourceFile = ts.createSourceFile(configPath, content, ts.ScriptTarget.Latest, true);
+  const aliases: ViteAliasRule[] = [];
+
+  const addAlias = (find: string | RegExp | null, replacementExpr: ts.Expression | undefined) => {
+    if (find === null || !replacementExpr) return;
+    const replacement = evaluatePathExpression(replacementExpr, rootDir);
+    if (replacement !== null) {
+      aliases.push({ rootDir, find, replacement });
+    }
+  };
+
+  function visit(node: ts.Node): void {
+    if (ts.isPropertyAssignment(node) && getPropertyName(node.name) === 'alias') {
+      const initializer = node.initializer;
+
+      // Object 형식
+      if (ts.isObjectLiteralExpression(initializer)) {
+        initializer.properties.forEach((property) => {
+          if (ts.isPropertyAssignment(property)) {
+            addAlias(getPropertyName(property.name), property.initializer);
+          }
+        });
+      }
+
+      // Array 형식
+      if (ts.isArrayLiteralExpression(initializer)) {
+        initializer.elements.forEach((element) => {
+          if (!ts.isObjectLiteralExpression(element)) return;
+
+          let find: string | RegExp | null = null;
+          let replacement: ts.Expression | undefined;
+
+          element.properties.forEach((property) => {
+            if (!ts.isPropertyAssignment(property)) return;
+            const name = getPropertyName(property.name);
+
+            if (name === 'find') {
+              if (ts.isStringLiteralLike(property.initializer)) {
+                find = property.initializer.text;
+              } else if (ts.isRegularExpressionLiteral(property.initializer)) {
+                find = parseRegExpLiteral(property.initializer.text);
+              }
+            } else if (name === 'replacement') {
+              replacement = property.initializer;
+            }
+          });
+
+          addAlias(find, replacement);
+        });
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  }
+
+  visit(sourceFile);
+  return aliases;
+}
+
+/**
+ * 경로 표현식을 정적으로 평가 (평가 불가능하면 null)
+ * - 'src', './src', '/src'
+ * - path.resolve(__dirname, 'src'), path.join(process.cwd(), 'src')
+ * - fileURLToPath(new URL('./src', import.meta.url))
+ * - `${__dirname}/src`
+ */
+function evaluatePathExpression(expr: ts.Expression, rootDir: string): string | null {
+  // 문자열 리터럴
+  if (ts.isStringLiteralLike(expr)) {
+    const value = expr.text;
+    // bare specifier ('vue/dist/vue.esm-bundler.js')는 npm 모듈이므로 해석 불가
+    if (!value.startsWith('.') && !value.startsWith('/')) return null;
+    return joinPaths(rootDir, value.replace(/^\/+/, ''));
+  }
+
+  // 프로젝트 루트를 가리키는 표현식
+  if (isProjectRootExpression(expr)) {
+    return rootDir;
+  }
+
+  // 템플릿 리터럴: `${__dirname}/src`
+  if (ts.isTemplateExpression(expr)) {
+    const [span] = expr.templateSpans;
+    if (expr.head.text !== '' || expr.templateSpans.length !== 1 || !isProjectRootExpression(span.expression)) {
+      return null;
+    }
+    return joinPaths(rootDir, span.literal.text.replace(/^\/+/, ''));
+  }
+
+  if (ts.isCallExpression(expr)) {
+    const calleeName = getCalleeName(expr.expression);
+
+    // path.resolve(...) / path.join(...)
+    if (calleeName === 'resolve' || calleeName === 'join') {
+      let result = rootDir;
+      for (const arg of expr.arguments) {
+        if (isProjectRootExpression(arg)) {
+          result = rootDir;
+        } else if (ts.isStringLiteralLike(arg)) {
+          result = joinPaths(result, arg.text.replace(/^\/+/, ''));
+        } else {
+          return null;
+        }
+      }
+      return result;
+    }
+
+    // fileURLToPath(new URL('./src', import.meta.url))
+    if (calleeName === 'fileURLToPath' && expr.arguments[0]) {
+      return evaluateUrlExpression(expr.arguments[0], rootDir);
+    }
+  }
+
+  // new URL('./src', import.meta.url).pathname
+  if (ts.isPropertyAccessExpression(expr) && expr.name.text === 'pathname') {
+    return evaluateUrlExpression(expr.expression, rootDir);
+  }
+
+  return null;
+}
+
+function evaluateUrlExpression(expr: ts.Expression, rootDir: string): string | null {
+  if (!ts.isNewExpression(expr) || getCalleeName(expr.expression) !== 'URL') return null;
+
+  const [urlArg] = expr.arguments ?? [];
+  if (!urlArg || !ts.isStringLiteralLike(urlArg)) return null;
+
+  return joinPaths(rootDir, urlArg.text.replace(/^\/+/, ''));
+}
+
+/**
+ * __dirname, process.cwd(), import.meta.dirname, '.'
+ */
+function isProjectRootExpression(expr: ts.Expression): boolean {
+  if (ts.isIdentifier(expr) && expr.text === '__dirname') return true;
+  if (ts.isStringLiteralLike(expr) && (expr.text === '.' || expr.text === './')) return true;
+  if (ts.isPropertyAccessExpression(expr) && expr.name.text === 'dirname' && ts.isMetaProperty(expr.expression)) {
+    return true;
+  }
+  if (ts.isCallExpression(expr) && getCalleeName(expr.expression) === 'cwd') return true;
+  return false;
+}
+
+function getCalleeName(expr: ts.Expression): string | null {
+  if (ts.isIdentifier(expr)) return expr.text;
+  if (ts.isPropertyAccessExpression(expr)) return expr.name.text;
+  return null;
+}
+
+function getPropertyName(name: ts.PropertyName): string | null {
+  if (ts.isIdentifier(name) || ts.isStringLiteralLike(name)) return name.text;
+  return null;
+}
+
+function parseRegExpLiteral(text: string): RegExp | null {
+  const lastSlash = text.lastIndexOf('/');
+  try {
+    return new RegExp(text.slice(1, lastSlash), text.slice(lastSlash + 1));
+  } catch {
+    return null;
+  }
+}
+
+// ========================================
+// Path Utilities
+// ========================================
+
+/**
+ * 디렉토리 경로 ('src/a/b.ts' → 'src/a', 'b.ts' → '')
+ * 선행 '/'는 유지 ('/a.ts' → '/')
+ */
+export function dirname(filePath: string): string {
+  const index = filePath.lastIndexOf('/');
+  if (index === -1) return '';
+  if (index === 0) return '/';
+  return filePath.substring(0, index);
+}
+
+/**
+ * 경로 결합 + '.', '..' 정규화
+ * 선행 '/'는 유지 (Language Service의 '/App.tsx' 형식 지원)
+ */
+export function joinPaths(base: string, relative: string): string {
+  const isAbsolute = base.startsWith('/') || (base === '' && relative.startsWith('/'));
+  const parts = base.split('/').filter(Boolean);
+
+  for (const part of relative.split('/')) {
+    if (part === '' || part === '.') continue;
+    if (part === '..') {
+      parts.pop();
+    } else {
+      parts.push(part);
+    }
+  }
+
+  const joined = parts.join('/');
+  return isAbsolute ? `/${joined}` : joined;
+}
@@ -0,0 +1,87 @@
+/**
+ * Class / Interface 멤버 추출
+ *
+ * 멤버 하나당 Symbol 자식 노드 1개 (id: `filePath::Class.member`)
+ * - 검색, 캔버스 카드, dependency edge가 개별 메서드/프로퍼티를 대상으로 할 수 있도록
+ * - parseProject.worker (extractSymbolNodes)와 parseProject (extractDeclarations)가 공유
+ */
+
+import * as ts from 'typescript';
+
+export interface SymbolMember {
+  name: string;
+  type: 'method' | 'property';
+  node: ts.Node; // 멤버 선언 (parameter property는 ParameterDeclaration)
+}
+
+/**
+ * 멤버 이름 (identifier, #private, 문자열/숫자 리터럴)
+ * - computed name ([Symbol.iterator] 등)은 정적으로 이름을 알 수 없으므로 제외
+ */
+export function getMemberName(name: ts.PropertyName | undefined): string | null {
+  if (!name) return null;
+  if (ts.isIdentifier(name) || ts.isPrivateIdentifier(name)) return name.text;
+  if (ts.isStringLiteral(name) || ts.isNumericLiteral(name)) return name.text;
+  return null;
+}
+
+function getClassMemberType(member: ts.ClassElement): SymbolMember['type'] | null {
+  if (ts.isMethodDeclaration(member) || ts.isConstructorDeclaration(member)) return 'method';
+  if (ts.isGetAccessorDeclaration(member) || ts.isSetAccessorDeclaration(member)) return 'property';
+  if (ts.isPropertyDeclaration(member)) {
+    // 화살표 함수 필드 (handleClick = () => {...})는 메서드로 취급
+    const initializer = member.initializer;
+    return initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))
+      ? 'method'
+      : 'property';
+  }
+  return null;
+}
+
+function getInterfaceMemberType(member: ts.TypeElement): SymbolMember['type'] | null {
+  if (ts.isMethodSignature(member)) return 'method';
+  if (ts.isPropertySignature(member)) {
+    return member.type && ts.isFunctionTypeNode(member.type) ? 'method' : 'property';
+  }
+  if (ts.isGetAccessorDeclaration(member) || ts.isSetAccessorDeclaration(member)) return 'property';
+  return null;
+}
+
+/**
+ * Class / Interface의 멤버 목록 (선언 순서)
+ * - 같은 이름은 첫 선언만 (overload, get/set 쌍, static/instance 동명 멤버 → 노드 id 중복 방지)
+ * - index signature, call/construct signature, static block은 제외
+ */
+export function getSymbolMembers(declaration: ts.ClassLikeDeclaration | ts.InterfaceDeclaration): SymbolMember[] {
+  const members: SymbolMember[] = [];
+  const seen = new Set<string>();
+
+  const add = (name: string | null, type: SymbolMember['type'] | null, node: SymbolMember['node']) => {
+    if (!name || !type || seen.has(name)) return;
+    seen.add(name);
+    members.push({ name, type, node });
+  };
+
+  if (ts.isInterfaceDeclaration(declaration)) {
+    declaration.members.forEach((member) => {
+      add(getMemberName(member.name), getInterfaceMemberType(member), member);
+    });
+    return members;
+  }
+
+  declaration.members.forEach((member) => {
+    const name = ts.isConstructorDeclaration(member) ? 'constructor' : getMemberName(member.name);
+    add(name, getClassMemberType(member), member);
+
+    // constructor(private readonly api: Api) → parameter property도 클래스 프로퍼티
+    if (ts.isConstructorDeclaration(member)) {
+      member.parameters.forEach((param) => {
+        if (ts.isParameterPropertyDeclaration(param, member) && ts.isIdentifier(param.name)) {
+          add(param.name.text, 'property', param);
+        }
+      });
+    }
+  });
+
+  return members;
+}
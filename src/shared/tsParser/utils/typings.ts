@@ -0,0 +1,138 @@
+/**
+ * Third-party 타입 정의 (.d.ts) 관리
+ *
+ * 업로드된 node_modules/@types, 패키지 typings 폴더, typings bundle(JSON)을
+ * Language Service의 `/node_modules/...` 경로로 정규화해서 보관
+ * - Language Service host가 일반 node_modules 규칙(package.json types / exports)으로 해석
+ * - Main thread와 parseProject.worker가 각자 setTypingsFiles()로 같은 내용을 등록
+ * - IndexedDB 저장은 shared/storage/indexedDB.ts (세션 간 유지)
+ */
+
+/**
+ * typings bundle 형식
+ * - { "jotai/index.d.ts": "...", "jotai/package.json": "..." } (경로 → 내용)
+ * - { "files": { ... } } (위와 동일한 map을 files 필드로 감싼 형식)
+ */
+export type TypingsBundle = Record<string, string> | { files: Record<string, string> };
+
+const NODE_MODULES_ROOT = '/node_modules/';
+const TYPES_ROOT = '/node_modules/@types/';
+const TYPINGS_FILE_PATTERN = /(\.d\.[mc]?ts|(^|\/)package\.json)$/;
+
+let typingsFiles: Record<string, string> = {};
+let typingsVersion = 0;
+
+/**
+ * 현재 등록된 typings (`/node_modules/...` → 내용)
+ */
+export function getTypingsFiles(): Record<string, string> {
+  return typingsFiles;
+}
+
+/**
+ * typings가 바뀔 때마다 증가 (Language Service 캐시 무효화용)
+ */
+export function getTypingsVersion(): number {
+  return typingsVersion;
+}
+
+/**
+ * typings 등록 (내용이 같으면 버전 유지 → Worker가 LSIF를 불필요하게 재인덱싱하지 않음)
+ */
+export function setTypingsFiles(files: Record<string, string>): void {
+  if (files === typingsFiles) return;
+
+  const fileNames = Object.keys(files);
+  const isSame =
+    fileNames.length === Object.keys(typingsFiles).length &&
+    fileNames.every((fileName) => typingsFiles[fileName] === files[fileName]);
+
+  typingsFiles = files;
+  if (!isSame) typingsVersion++;
+}
+
+/**
+ * typings로 보관할 파일인지 (.d.ts / .d.mts / .d.cts + 진입점 해석용 package.json)
+ */
+export function isTypingsFile(filePath: string): boolean {
+  return TYPINGS_FILE_PATTERN.test(filePath);
+}
+
+/**
+ * 전역 타입으로 항상 Program에 포함할 파일인지 (tsc의 @types 자동 포함과 동일)
+ * - 그 외 typings는 import될 때만 Program에 포함
+ */
+export function isAmbientTypingsFile(filePath: string): boolean {
+  return filePath.startsWith(TYPES_ROOT) && /\.d\.[mc]?ts$/.test(filePath);
+}
+
+/**
+ * 폴더 업로드 결과 → `/node_modules/...` 경로의 typings
+ *
+ * webkitRelativePath는 선택한 폴더 이름부터 시작하므로 선택 위치에 따라 정규화
+ * - 'node_modules/@types/lodash/index.d.ts', 'app/node_modules/jotai/index.d.ts' → node_modules 이후 경로
+ * - '@types/lodash/index.d.ts' → '/node_modules/@types/lodash/index.d.ts'
+ * - 'sdk/index.d.ts' (패키지 폴더 하나) → sdk/package.json의 name ('@acme/sdk') 기준
+ */
+export function collectTypingsFromUpload(uploaded: Record<string, string>): Record<string, string> {
+  const packageNames = new Map<string, string>(); // 최상위 폴더 → package.json name
+
+  Object.entries(uploaded).forEach(([filePath, content]) => {
+    const match = filePath.match(/^([^/]+)\/package\.json$/);
+    if (!match) return;
+    try {
+      const { name } = JSON.parse(content);
+      if (typeof name === 'string' && name) packageNames.set(match[1], name);
+    } catch {
+      // 잘못된 package.json은 폴더 이름 사용
+    }
+  });
+
+  const typings: Record<string, string> = {};
+
+  Object.entries(uploaded).forEach(([filePath, content]) => {
+    if (!isTypingsFile(filePath)) return;
+
+    const nodeModulesIndex = filePath.lastIndexOf('node_modules/');
+    if (nodeModulesIndex !== -1) {
+      typings[NODE_MODULES_ROOT + filePath.substring(nodeModulesIndex + 'node_modules/'.length)] = content;
+      return;
+    }
+
+    const [topLevel, ...rest] = filePath.split('/');
+    const packageRoot = topLevel.startsWith('@') ? topLevel : (packageNames.get(topLevel) ?? topLevel);
+    typings[NODE_MODULES_ROOT + [packageRoot, ...rest].join('/')] = content;
+  });
+
+  return typings;
+}
+
+/**
+ * typings bundle(JSON) → `/node_modules/...` 경로의 typings
+ */
+export function parseTypingsBundle(text: string): Record<string, string> {
+  let bundle: TypingsBundle;
+  try {
+    bundle = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid typings bundle: not valid JSON');
+  }
+
+  const entries: Record<string, unknown> =
+    bundle && typeof bundle.files === 'object' && bundle.files !== null ? bundle.files : bundle;
+
+  if (!entries || typeof entries !== 'object' || Array.isArray(entries)) {
+    throw new Error('Invalid typings bundle: expected an object of file paths to contents');
+  }
+
+  const typings: Record<string, string> = {};
+
+  Object.entries(entries).forEach(([filePath, content]) => {
+    if (typeof content !== 'string' || !isTypingsFile(filePath)) return;
+
+    const relativePath = filePath.replace(/^\/+/, '').replace(/^(.*\/)?node_modules\//, '');
+    typings[NODE_MODULES_ROOT + relativePath] = content;
+  });
+
+  return typings;
+}
@@ -0,0 +1,401 @@
+/**
+ * Workspace (monorepo) 설정 파서
+ *
+ * 업로드된 pnpm-workspace.yaml / package.json `workspaces`에서 workspace 패키지 목록 추출
+ * - pnpm: packages: ['packages/*', '!**\/test/**']
+ * - npm / yarn: "workspaces": ["packages/*"] 또는 { "packages": [...] }
+ * - 패키지별 name / exports / main / module / types → '@acme/ui' 같은 bare import를 로컬 파일로 해석 (pathResolver.ts)
+ */
+
+import { dirname, isRecord, joinPaths } from './projectConfig';
+
+/**
+ * workspace 패키지 하나 (packages/ui/package.json)
+ */
+export interface WorkspacePackage {
+  name: string; // package.json name ('@acme/ui')
+  rootDir: string; // 파일 키 기준 디렉토리 ('packages/ui')
+  manifestPath: string; // 'packages/ui/package.json'
+  exports: unknown; // package.json exports (문자열 / 조건 객체 / subpath map)
+  entryFields: string[]; // source → types → typings → module → main 순서의 진입점 값
+}
+
+export interface WorkspaceConfig {
+  roots: string[]; // workspace가 선언된 디렉토리 ('' = 업로드 루트)
+  packages: WorkspacePackage[];
+}
+
+const PNPM_WORKSPACE_FILE_PATTERN = /(^|\/)pnpm-workspace\.ya?ml$/;
+const PACKAGE_JSON_FILE_PATTERN = /(^|\/)package\.json$/;
+
+/**
+ * exports 조건 우선순위
+ * - 소스를 보여주는 것이 목적이므로 source / types를 빌드 결과물보다 먼저 시도
+ */
+const EXPORT_CONDITIONS = ['source', 'types', 'import', 'module', 'browser', 'default', 'require', 'node'];
+const ENTRY_FIELDS = ['source', 'types', 'typings', 'module', 'main'];
+
+/**
+ * 빌드 결과물 디렉토리 (업로드된 소스에는 보통 없음 → src/로 대체해서 시도)
+ */
+const BUILD_OUTPUT_DIR_PATTERN = /^(\.\/)?(dist|lib|build|out|esm|cjs)\//;
+
+/**
+ * files에 포함된 workspace 설정에서 패키지 목록 수집
+ */
+export function readWorkspaceConfig(files: Record<string, string>): WorkspaceConfig {
+  const filePaths = Object.keys(files);
+  const globsByRoot = new Map<string, string[]>();
+
+  const addGlobs = (rootDir: string, globs: string[]) => {
+    if (globs.length === 0) return;
+    globsByRoot.set(rootDir, [...(globsByRoot.get(rootDir) ?? []), ...globs]);
+  };
+
+  // 1. pnpm-workspace.yaml
+  filePaths
+    .filter((filePath) => PNPM_WORKSPACE_FILE_PATTERN.test(filePath))
+    .forEach((filePath) => {
+      addGlobs(dirname(filePath), parsePnpmWorkspaceGlobs(files[filePath]));
+    });
+
+  // 2. package.json workspaces (npm / yarn)
+  const manifestPaths = filePaths.filter(
+    (filePath) => PACKAGE_JSON_FILE_PATTERN.test(filePath) && !filePath.includes('node_modules/')
+  );
+  const manifests = new Map<string, Record<string, unknown>>();
+
+  manifestPaths.forEach((manifestPath) => {
+    const json = parsePackageJson(files[manifestPath], manifestPath);
+    if (!json) return;
+    manifests.set(manifestPath, json);
+
+    const { workspaces } = json;
+    const globs: unknown[] = Array.isArray(workspaces)
+      ? workspaces
+      : isRecord(workspaces) && Array.isArray(workspaces.packages)
+        ? workspaces.packages
+        : [];
+    addGlobs(
+      dirname(manifestPath),
+      globs.filter((glob): glob is string => typeof glob === 'string')
+    );
+  });
+
+  // 3. glob에 매칭되는 디렉토리의 package.json → 패키지
+  const packages: WorkspacePackage[] = [];
+
+  manifests.forEach((json, manifestPath) => {
+    if (typeof json.name !== 'string' || !json.name) return;
+
+    const rootDir = dirname(manifestPath);
+    const isMember = Array.from(globsByRoot.entries()).some(([workspaceRoot, globs]) =>
+      matchesWorkspaceGlobs(workspaceRoot, rootDir, globs)
+    );
+    if (!isMember) return;
+
+    packages.push({
+      name: json.name,
+      rootDir,
+      manifestPath,
+      exports: json.exports,
+      entryFields: ENTRY_FIELDS.map((field) => json[field]).filter(
+        (value): value is string => typeof value === 'string'
+      ),
+    });
+  });
+
+  return {
+    roots: Array.from(globsByRoot.keys()),
+    packages,
+  };
+}
+
+/**
+ * filePath가 속한 workspace 패키지 (가장 깊은 rootDir)
+ */
+export function findWorkspacePackage(packages: WorkspacePackage[], filePath: string): WorkspacePackage | undefined {
+  let nearest: WorkspacePackage | undefined;
+
+  for (const pkg of packages) {
+    if (filePath.startsWith(`${pkg.rootDir}/`) && (!nearest || pkg.rootDir.length > nearest.rootDir.length)) {
+      nearest = pkg;
+    }
+  }
+
+  return nearest;
+}
+
+/**
+ * bare import에 해당하는 workspace 패키지 + subpath ('@acme/ui/button' → ['@acme/ui', './button'])
+ */
+export function matchWorkspacePackage(
+  packages: WorkspacePackage[],
+  importPath: string
+): { pkg: WorkspacePackage; subpath: string } | null {
+  let matched: WorkspacePackage | undefined;
+
+  for (const pkg of packages) {
+    if (importPath !== pkg.name && !importPath.startsWith(`${pkg.name}/`)) continue;
+    if (!matched || pkg.name.length > matched.name.length) matched = pkg;
+  }
+
+  return matched ? { pkg: matched, subpath: `.${importPath.substring(matched.name.length)}` } : null;
+}
+
+/**
+ * subpath의 후보 파일 경로 (파일 키 기준, 우선순위 순)
+ * - exports가 있으면 exports만 사용 (Node와 동일하게 나머지 경로는 막힘)
+ * - 없으면 '.'은 source / types / module / main, 나머지는 패키지 내부 경로 그대로
+ * - dist/ 등 빌드 결과물 경로는 src/ 경로를 함께 시도
+ */
+export function getPackageEntryCandidates(pkg: WorkspacePackage, subpath: string): string[] {
+  let targets: string[];
+
+  if (pkg.exports !== undefined && pkg.exports !== null) {
+    targets = resolveExportsSubpath(pkg.exports, subpath);
+  } else if (subpath === '.') {
+    targets = [...pkg.entryFields, './src/index', './index'];
+  } else {
+    targets = [subpath, `./src/${subpath.substring(2)}`];
+  }
+
+  return Array.from(new Set(targets.flatMap((target) => toSourceCandidates(pkg.rootDir, target))));
+}
+
+/**
+ * package.json target ('./dist/index.js') → 파일 후보 (빌드 결과물이면 src/ 대체 경로 포함)
+ */
+function toSourceCandidates(rootDir: string, target: string): string[] {
+  const candidates = [joinPaths(rootDir, target).replace(/\.d\.[mc]?ts$/, '')];
+
+  if (BUILD_OUTPUT_DIR_PATTERN.test(target)) {
+    const sourceTarget = target.replace(BUILD_OUTPUT_DIR_PATTERN, './src/').replace(/(\.d)?\.[mc]?[jt]sx?$/, '');
+    candidates.push(joinPaths(rootDir, sourceTarget));
+  }
+
+  return candidates;
+}
+
+/**
+ * 업로드된 모든 package.json (node_modules 제외)의 진입점 후보
+ * - main / module / source / types, exports의 subpath (패턴 제외), bin
+ * - workspace 멤버가 아닌 단일 프로젝트 package.json도 포함 (Dead Code 도달성 분석의 entry point)
+ * - 확장자 없는 후보 포함 → 호출부에서 실제 파일로 매칭
+ */
+export function getManifestEntryCandidates(files: Record<string, string>): string[] {
+  const candidates = new Set<string>();
+
+  Object.keys(files)
+    .filter((filePath) => PACKAGE_JSON_FILE_PATTERN.test(filePath) && !filePath.includes('node_modules/'))
+    .forEach((manifestPath) => {
+      const json = parsePackageJson(files[manifestPath], manifestPath);
+      if (!json) return;
+
+      const pkg: WorkspacePackage = {
+        name: typeof json.name === 'string' ? json.name : '',
+        rootDir: dirname(manifestPath),
+        manifestPath,
+        exports: json.exports,
+        entryFields: ENTRY_FIELDS.map((field) => json[field]).filter(
+          (value): value is string => typeof value === 'string'
+        ),
+      };
+
+      const subpaths = ['.'];
+      if (isRecord(json.exports)) {
+        subpaths.push(...Object.keys(json.exports).filter((key) => key.startsWith('./') && !key.includes('*')));
+      }
+      subpaths.forEach((subpath) => {
+        getPackageEntryCandidates(pkg, subpath).forEach((candidate) => {
+          candidates.add(candidate);
+        });
+      });
+
+      // bin: "cli.js" 또는 { "name": "./bin/cli.js" }
+      const bin: unknown[] =
+        typeof json.bin === 'string' ? [json.bin] : isRecord(json.bin) ? Object.values(json.bin) : [];
+      bin
+        .filter((target): target is string => typeof target === 'string')
+        .forEach((target) => {
+          toSourceCandidates(pkg.rootDir, target).forEach((candidate) => {
+            candidates.add(candidate);
+          });
+        });
+    });
+
+  return Array.from(candidates);
+}
+
+// ========================================
+// package.json exports
+// ========================================
+
+/**
+ * exports에서 subpath에 해당하는 target 목록
+ * - "exports": "./src/index.ts" / { "import": ..., "types": ... } → '.'
+ * - "exports": { ".": ..., "./button": ..., "./*": "./src/*.ts" }
+ */
+function resolveExportsSubpath(exports: unknown, subpath: string): string[] {
+  const isSubpathMap =
+    typeof exports === 'object' &&
+    exports !== null &&
+    !Array.isArray(exports) &&
+    Object.keys(exports).some((key) => key.startsWith('.'));
+
+  if (!isSubpathMap) {
+    return subpath === '.' ? resolveExportsTarget(exports) : [];
+  }
+
+  const subpathMap = exports as Record<string, unknown>;
+  if (Object.hasOwn(subpathMap, subpath)) {
+    return resolveExportsTarget(subpathMap[subpath]);
+  }
+
+  // 패턴 매칭 ('./*', './components/*.js') - prefix가 긴 패턴 우선
+  let best: { key: string; captured: string } | null = null;
+
+  for (const key of Object.keys(subpathMap)) {
+    const starIndex = key.indexOf('*');
+    if (starIndex === -1) continue;
+
+    const prefix = key.substring(0, starIndex);
+    const suffix = key.substring(starIndex + 1);
+    if (
+      subpath.length >= prefix.length + suffix.length &&
+      subpath.startsWith(prefix) &&
+      subpath.endsWith(suffix) &&
+      (!best || prefix.length > best.key.indexOf('*'))
+    ) {
+      best = { key, captured: subpath.substring(prefix.length, subpath.length - suffix.length) };
+    }
+  }
+
+  if (!best) return [];
+
+  const { key, captured } = best;
+  return resolveExportsTarget(subpathMap[key]).map((target) => target.replaceAll('*', captured));
+}
+
+/**
+ * 조건부 exports 값 → target 문자열 목록 (EXPORT_CONDITIONS 순서, null은 차단)
+ */
+function resolveExportsTarget(value: unknown): string[] {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.flatMap(resolveExportsTarget);
+  if (!value || typeof value !== 'object') return [];
+
+  const conditions = value as Record<string, unknown>;
+  const keys = Object.keys(conditions).sort((a, b) => conditionRank(a) - conditionRank(b));
+  return keys.flatMap((key) => resolveExportsTarget(conditions[key]));
+}
+
+function conditionRank(condition: string): number {
+  const index = EXPORT_CONDITIONS.indexOf(condition);
+  return index === -1 ? EXPORT_CONDITIONS.length : index;
+}
+
+// ========================================
+// Workspace globs
+// ========================================
+
+/**
+ * pnpm-workspace.yaml의 packages 목록 (block / flow 형식)
+ *
+ * packages:
+ *   - 'packages/*'
+ *   - "!**\/test/**"
+ */
+function parsePnpmWorkspaceGlobs(content: string | undefined): string[] {
+  if (!content) return [];
+
+  const globs: string[] = [];
+  let inPackages = false;
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/\s+#.*$/, '').trimEnd();
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+
+    const keyMatch = line.match(/^([\w-]+):\s*(.*)$/);
+    if (keyMatch) {
+      inPackages = keyMatch[1] === 'packages';
+      // flow 형식: packages: ['packages/*', 'apps/*']
+      if (inPackages && keyMatch[2].startsWith('[')) {
+        globs.push(
+          ...keyMatch[2]
+            .replace(/^\[|\]$/g, '')
+            .split(',')
+            .map(unquote)
+            .filter(Boolean)
+        );
+        inPackages = false;
+      }
+      continue;
+    }
+
+    const itemMatch = inPackages ? line.match(/^\s+-\s*(.+)$/) : null;
+    if (itemMatch) {
+      globs.push(unquote(itemMatch[1]));
+    }
+  }
+
+  return globs.filter(Boolean);
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(['"])(.*)\1$/, '$2');
+}
+
+/**
+ * 디렉토리가 workspace glob 목록에 포함되는지 ('!'로 시작하는 glob은 제외 규칙)
+ */
+function matchesWorkspaceGlobs(workspaceRoot: string, dir: string, globs: string[]): boolean {
+  const prefix = workspaceRoot === '' ? '' : `${workspaceRoot}/`;
+  if (!dir.startsWith(prefix) || dir === workspaceRoot) return false;
+
+  const relativeDir = dir.substring(prefix.length);
+  let included = false;
+
+  globs.forEach((glob) => {
+    const isNegated = glob.startsWith('!');
+    const pattern = (isNegated ? glob.substring(1) : glob).replace(/^\.\//, '').replace(/\/+$/, '');
+    if (globToRegExp(pattern).test(relativeDir)) {
+      included = !isNegated;
+    }
+  });
+
+  return included;
+}
+
+/**
+ * 'packages/*', 'apps/**' → RegExp (*: 경로 한 단계, **: 여러 단계)
+ */
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('/')
+    .map((segment) =>
+      segment === '**'
+        ? '.*'
+        : segment
+            .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+            .replace(/\*/g, '[^/]*')
+            .replace(/\?/g, '[^/]')
+    )
+    .join('/')
+    .replace(/\/\.\*$/, '(/.*)?')
+    .replace(/^\.\*\//, '(.*/)?');
+
+  return new RegExp(`^${source}$`);
+}
+
+function parsePackageJson(content: string | undefined, manifestPath: string): Record<string, unknown> | null {
+  if (!content) return null;
+
+  try {
+    const json: unknown = JSON.parse(content);
+    return isRecord(json) ? json : null;
+  } catch {
+    console.warn(`[workspaceConfig] Failed to parse ${manifestPath}`);
+    return null;
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * ZIP 읽기 / 쓰기 테스트
+ *
+ * createZip으로 만든 archive를 다시 읽었을 때 경로 / 내용이 그대로인지,
+ * 디렉토리 항목 / 손상된 입력을 제대로 처리하는지 확인
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createZip, listZipEntries, readZipEntry } from '../zipArchive';
+
+const decoder = new TextDecoder();
+
+/**
+ * stored 항목만 가진 최소 zip (CRC는 reader가 검증하지 않으므로 0)
+ */
+function buildStoredZip(entries: Array<{ path: string; data: string; flags?: number }>): Uint8Array {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(({ path, data, flags = 0 }) => {
+    const name = encoder.encode(path);
+    const body = encoder.encode(data);
+
+    const local = new Uint8Array(30 + name.length + body.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(6, flags, true);
+    localView.setUint32(18, body.length, true);
+    localView.setUint32(22, body.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(body, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(8, flags, true);
+    centralView.setUint32(20, body.length, true);
+    centralView.setUint32(24, body.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  });
+
+  const centralSize = centrals.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const output = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  [...locals, ...centrals, end].forEach((part) => {
+    output.set(part, position);
+    position += part.length;
+  });
+  return output;
+}
+
+describe('ZIP - 쓰기 / 읽기 왕복', () => {
+  it('경로와 내용 보존 (deflate / stored / UTF-8 파일명)', async () => {
+    const repeated = 'export const value = 1;\n'.repeat(200);
+    const binary = new Uint8Array([0, 255, 1, 254]);
+    const zip = await createZip([
+      { path: 'src/index.ts', data: repeated },
+      { path: 'assets/icon.bin', data: binary },
+      { path: 'docs/한글.md', data: '# 안녕' },
+    ]);
+
+    const entries = listZipEntries(zip);
+    expect(entries.map((entry) => entry.path)).toEqual(['src/index.ts', 'assets/icon.bin', 'docs/한글.md']);
+
+    const [source, icon, doc] = entries;
+    expect(source.method).toBe(8);
+    expect(source.compressedSize).toBeLessThan(source.size);
+    expect(icon.method).toBe(0);
+
+    expect(decoder.decode(await readZipEntry(zip, source))).toBe(repeated);
+    expect(Array.from(await readZipEntry(zip, icon))).toEqual([0, 255, 1, 254]);
+    expect(decoder.decode(await readZipEntry(zip, doc))).toBe('# 안녕');
+  });
+
+  it('빈 archive', async () => {
+    expect(listZipEntries(await createZip([]))).toEqual([]);
+  });
+});
+
+describe('ZIP - 읽기', () => {
+  it('디렉토리 항목은 목록에서 제외', async () => {
+    const zip = buildStoredZip([
+      { path: 'project/', data: '' },
+      { path: 'project/a.txt', data: 'hello' },
+    ]);
+
+    const entries = listZipEntries(zip);
+    expect(entries.map((entry) => entry.path)).toEqual(['project/a.txt']);
+    expect(decoder.decode(await readZipEntry(zip, entries[0]))).toBe('hello');
+  });
+
+  it('zip이 아니면 에러', () => {
+    expect(() => listZipEntries(new TextEncoder().encode('definitely not a zip archive'))).toThrow('Not a zip archive');
+  });
+
+  it('암호화된 항목은 에러', () => {
+    const zip = buildStoredZip([{ path: 'secret.txt', data: 'x', flags: 0x1 }]);
+    expect(() => listZipEntries(zip)).toThrow('Encrypted');
+  });
+
+  it('지원하지 않는 압축 방식은 에러', async () => {
+    const zip = buildStoredZip([{ path: 'a.txt', data: 'x' }]);
+    const [entry] = listZipEntries(zip);
+    await expect(readZipEntry(zip, { ...entry, method: 14 })).rejects.toThrow('Unsupported compression method 14');
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Zip Worker 메시지 타입 (workers/zipArchive.worker.ts ↔ zipWorkerClient)
+ */
+
+// 가져오기 / 내보내기 zip에 함께 들어가는 workspace 상태 파일 (루트 폴더 기준)
+export const WORKSPACE_FILE_NAME = '.vibe-workspace.json';
+
+export interface ListRequest {
+  type: 'list';
+  requestId: number;
+  buffer: ArrayBuffer;
+}
+
+export interface ExtractRequest {
+  type: 'extract';
+  requestId: number;
+  paths: string[];
+}
+
+export interface CreateRequest {
+  type: 'create';
+  requestId: number;
+  files: Record<string, string>;
+}
+
+export type ZipWorkerRequest = ListRequest | ExtractRequest | CreateRequest;
+
+export interface ZipListing {
+  entries: { path: string; size: number }[];
+  gitignoreFiles: Record<string, string>;
+  workspaceFile: string | null; // .vibe-workspace.json 내용
+}
+
+export type ZipWorkerResponse =
+  | ({ type: 'entries'; requestId: number } & ZipListing)
+  | { type: 'progress'; requestId: number; current: number; total: number; currentFile: string }
+  | { type: 'extracted'; requestId: number; files: Record<string, string> }
+  | { type: 'created'; requestId: number; buffer: ArrayBuffer }
+  | { type: 'error'; requestId: number; message: string };
@@ -0,0 +1,209 @@
+/**
+ * ZIP 읽기 / 쓰기 (외부 라이브러리 없이 CompressionStream 'deflate-raw' 사용)
+ * - 지원: stored (0) / deflate (8), UTF-8 파일명
+ * - 미지원: ZIP64, 암호화
+ * - 메인 스레드 / Worker 모두에서 사용 가능 (DOM 의존 없음)
+ */
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIR_SIGNATURE = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+export interface ZipEntryInfo {
+  path: string;
+  size: number; // 압축 해제 크기
+  compressedSize: number;
+  method: number;
+  localHeaderOffset: number;
+}
+
+export interface ZipInputFile {
+  path: string;
+  data: Uint8Array | string;
+}
+
+// ============================================
+// CRC32
+// ============================================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+async function transform(data: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([data as BlobPart]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+// ============================================
+// Read
+// ============================================
+
+/**
+ * Central directory → 파일 목록 (디렉토리 항목 제외, 내용은 읽지 않음)
+ */
+export function listZipEntries(data: Uint8Array): ZipEntryInfo[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  // End of central directory (뒤에서부터, comment 최대 65535 bytes)
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIR_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error('Not a zip archive (end of central directory not found).');
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  const centralDirOffset = view.getUint32(eocd + 16, true);
+  if (entryCount === 0xffff || centralDirOffset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported.');
+  }
+
+  const decoder = new TextDecoder();
+  const entries: ZipEntryInfo[] = [];
+  let offset = centralDirOffset;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Corrupted zip archive (invalid central directory entry).');
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeaderOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+
+    if (flags & 0x1) throw new Error(`Encrypted zip entries are not supported (${path}).`);
+    if (!path.endsWith('/')) {
+      entries.push({ path, size, compressedSize, method, localHeaderOffset });
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * 항목 하나 압축 해제
+ */
+export async function readZipEntry(data: Uint8Array, entry: ZipEntryInfo): Promise<Uint8Array> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const offset = entry.localHeaderOffset;
+  if (view.getUint32(offset, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Corrupted zip archive (invalid local header for ${entry.path}).`);
+  }
+
+  const nameLength = view.getUint16(offset + 26, true);
+  const extraLength = view.getUint16(offset + 28, true);
+  const start = offset + 30 + nameLength + extraLength;
+  const compressed = data.subarray(start, start + entry.compressedSize);
+
+  if (entry.method === METHOD_STORED) return compressed;
+  if (entry.method === METHOD_DEFLATE) return transform(compressed, new DecompressionStream('deflate-raw'));
+  throw new Error(`Unsupported compression method ${entry.method} (${entry.path}).`);
+}
+
+// ============================================
+// Write
+// ============================================
+
+function getDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * 파일 목록 → zip (deflate, 압축 이득이 없으면 stored)
+ */
+export async function createZip(files: ZipInputFile[]): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const { time, date } = getDosDateTime(new Date());
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.path);
+    const raw = typeof file.data === 'string' ? encoder.encode(file.data) : file.data;
+    const deflated = await transform(raw, new CompressionStream('deflate-raw'));
+    const [method, body] = deflated.length < raw.length ? [METHOD_DEFLATE, deflated] : [METHOD_STORED, raw];
+    const crc = crc32(raw);
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    localView.setUint16(4, 20, true); // version needed
+    localView.setUint16(6, UTF8_FLAG, true);
+    localView.setUint16(8, method, true);
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, date, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, body.length, true);
+    localView.setUint32(22, raw.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    centralView.setUint16(4, 20, true); // version made by
+    centralView.setUint16(6, 20, true); // version needed
+    centralView.setUint16(8, UTF8_FLAG, true);
+    centralView.setUint16(10, method, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, date, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, body.length, true);
+    centralView.setUint32(24, raw.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    localParts.push(local, body);
+    centralParts.push(central);
+    offset += local.length + body.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIR_SIGNATURE, true);
+  endView.setUint16(8, files.length, true);
+  endView.setUint16(10, files.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, end];
+  const output = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  parts.forEach((part) => {
+    output.set(part, position);
+    position += part.length;
+  });
+  return output;
+}
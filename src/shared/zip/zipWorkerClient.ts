@@ -0,0 +1,71 @@
+/**
+ * Zip Worker client
+ * - Worker 하나 = archive 하나 (list → extract 순서로 같은 Worker 사용), 끝나면 dispose
+ */
+
+import type { ZipListing, ZipWorkerRequest, ZipWorkerResponse } from './types';
+
+type ProgressHandler = (current: number, total: number, currentFile: string) => void;
+
+export interface ZipWorkerClient {
+  list: (buffer: ArrayBuffer) => Promise<ZipListing>;
+  extract: (paths: string[], onProgress?: ProgressHandler) => Promise<Record<string, string>>;
+  create: (files: Record<string, string>) => Promise<Blob>;
+  dispose: () => void;
+}
+
+export function createZipWorkerClient(): ZipWorkerClient {
+  const worker = new Worker(new URL('../../workers/zipArchive.worker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<
+    number,
+    { resolve: (response: ZipWorkerResponse) => void; reject: (error: Error) => void; onProgress?: ProgressHandler }
+  >();
+  let nextRequestId = 0;
+
+  worker.onmessage = (event: MessageEvent<ZipWorkerResponse>) => {
+    const response = event.data;
+    const request = pending.get(response.requestId);
+    if (!request) return;
+
+    if (response.type === 'progress') {
+      request.onProgress?.(response.current, response.total, response.currentFile);
+      return;
+    }
+
+    pending.delete(response.requestId);
+    if (response.type === 'error') request.reject(new Error(response.message));
+    else request.resolve(response);
+  };
+
+  const send = (request: ZipWorkerRequest, onProgress?: ProgressHandler, transfer: Transferable[] = []) =>
+    new Promise<ZipWorkerResponse>((resolve, reject) => {
+      pending.set(request.requestId, { resolve, reject, onProgress });
+      worker.postMessage(request, { transfer });
+    });
+
+  return {
+    list: async (buffer) => {
+      const response = await send({ type: 'list', requestId: ++nextRequestId, buffer }, undefined, [buffer]);
+      if (response.type !== 'entries') throw new Error(`Unexpected zip worker response: ${response.type}`);
+      const { entries, gitignoreFiles, workspaceFile } = response;
+      return { entries, gitignoreFiles, workspaceFile };
+    },
+    extract: async (paths, onProgress) => {
+      const response = await send({ type: 'extract', requestId: ++nextRequestId, paths }, onProgress);
+      if (response.type !== 'extracted') throw new Error(`Unexpected zip worker response: ${response.type}`);
+      return response.files;
+    },
+    create: async (files) => {
+      const response = await send({ type: 'create', requestId: ++nextRequestId, files });
+      if (response.type !== 'created') throw new Error(`Unexpected zip worker response: ${response.type}`);
+      return new Blob([response.buffer], { type: 'application/zip' });
+    },
+    dispose: () => {
+      pending.forEach(({ reject }) => {
+        reject(new Error('Zip worker disposed.'));
+      });
+      pending.clear();
+      worker.terminate();
+    },
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * CallGraphButtons Component
+ * Call Graph 기준으로 카드 확장 (callers / callees)
+ *
+ * - callees: 이 Symbol이 호출하는 Symbol 카드를 왼쪽에 펼침
+ * - callers: 이 Symbol을 호출하는 Symbol 카드를 오른쪽에 펼침
+ * (Canvas 링크 규칙과 동일: source = 호출 대상 (왼쪽), target = 호출하는 쪽 (오른쪽))
+ */
+
+import { useAtomValue, useSetAtom } from 'jotai';
+import { ArrowLeftToLine as IconCallees, ArrowRightFromLine as IconCallers } from 'lucide-react';
+import type React from 'react';
+import type { CanvasNode } from '../../../entities/CanvasNode/model/types';
+import { getCallGraph } from '../../../entities/SourceFileNode/lib/metadata';
+import {
+  cardPositionsAtom,
+  lastExpandedIdAtom,
+  visibleNodeIdsAtom,
+} from '../../MainContents/PipelineCanvas/model/atoms';
+
+// 펼친 카드 배치 간격 (카드 max-w 700px 기준)
+const COLUMN_GAP = 760;
+const ROW_GAP = 360;
+
+export function CallGraphButtons({ node }: { node: CanvasNode }) {
+  const visibleNodeIds = useAtomValue(visibleNodeIdsAtom);
+  const setVisibleNodeIds = useSetAtom(visibleNodeIdsAtom);
+  const setCardPositions = useSetAtom(cardPositionsAtom);
+  const setLastExpandedId = useSetAtom(lastExpandedIdAtom);
+
+  const { calls, calledBy } = getCallGraph(node);
+  if (calls.length === 0 && calledBy.length === 0) return null;
+
+  const expand = (e: React.MouseEvent, nodeIds: string[], direction: -1 | 1) => {
+    e.stopPropagation();
+
+    const newNodeIds = nodeIds.filter((nodeId) => !visibleNodeIds.has(nodeId));
+    if (newNodeIds.length === 0) return;
+
+    // 이미 열린 카드는 그대로 두고, 새 카드만 현재 카드 옆에 세로로 배치
+    setCardPositions((prev) => {
+      const next = new Map(prev);
+      const base = prev.get(node.id) || { x: 0, y: 0 };
+      newNodeIds.forEach((nodeId, index) => {
+        next.set(nodeId, { x: base.x + direction * COLUMN_GAP, y: base.y + index * ROW_GAP });
+      });
+      return next;
+    });
+
+    setVisibleNodeIds((prev) => new Set([...prev, ...newNodeIds]));
+    setLastExpandedId(newNodeIds[0]);
+  };
+
+  return (
+    <div className="flex items-center gap-0.5 ml-2">
+      {calls.length > 0 && (
+        <button
+          type="button"
+          onClick={(e) => expand(e, calls, -1)}
+          className="flex items-center gap-0.5 px-1 py-0.5 rounded transition-colors text-slate-400 hover:bg-white/10 hover:text-slate-200 text-[9px] font-mono"
+          title={`Expand callees (${calls.length})`}
+        >
+          <IconCallees className="w-3 h-3" />
+          {calls.length}
+        </button>
+      )}
+      {calledBy.length > 0 && (
+        <button
+          type="button"
+          onClick={(e) => expand(e, calledBy, 1)}
+          className="flex items-center gap-0.5 px-1 py-0.5 rounded transition-colors text-slate-400 hover:bg-white/10 hover:text-slate-200 text-[9px] font-mono"
+          title={`Expand callers (${calledBy.length})`}
+        >
+          {calledBy.length}
+          <IconCallers className="w-3 h-3" />
+        </button>
+      )}
+    </div>
+  );
+}
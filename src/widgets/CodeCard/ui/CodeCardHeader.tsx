@@ -26,6 +26,7 @@ import { getNodeDisplayLabel, getNodeShortPath, getNodeTypeLabel } from '../lib/
 // Utilities
 import { getNodeIcon } from '../lib/nodeIcons';
 // Components
+import { CallGraphButtons } from './CallGraphButtons';
 import { FoldLevelButton } from './FoldLevelButton';
 
 const CodeCardHeader = ({ node }: { node: CanvasNode }) => {
@@ -84,10 +85,15 @@ const CodeCardHeader = ({ node }: { node: CanvasNode }) => {
         </div>
       </div>
 
-      {/* Node Type Badge */}
-      <span className="text-[9px] uppercase tracking-wider bg-white/5 border border-white/10 px-1.5 py-0.5 rounded text-slate-400 font-mono ml-2">
-        {typeLabel}
-      </span>
+      <div className="flex items-center">
+        {/* Call Graph 확장 (callees / callers) */}
+        <CallGraphButtons node={node} />
+
+        {/* Node Type Badge */}
+        <span className="text-[9px] uppercase tracking-wider bg-white/5 border border-white/10 px-1.5 py-0.5 rounded text-slate-400 font-mono ml-2">
+          {typeLabel}
+        </span>
+      </div>
     </div>
   );
 };
@@ -8,20 +8,31 @@ import { getExports } from '../../../entities/SourceFileNode/lib/metadata';
 import type { SourceFileNode } from '../../../entities/SourceFileNode/model/types';
 import type { CodeDocSection } from './types';
 
+/**
+ * 타입 annotation이 없는 함수의 return 타입 (checker가 있으면 추론된 타입)
+ */
+function inferReturnType(func: ts.SignatureDeclaration, fallback: string, checker: ts.TypeChecker | undefined): string {
+  const signature = checker?.getSignatureFromDeclaration(func);
+  return checker && signature ? checker.typeToString(checker.getReturnTypeOfSignature(signature)) : fallback;
+}
+
 /**
  * TypeScript 함수 시그니처를 간결한 형식으로 변환
  * export function extractOutlineStructure(node: SourceFileNode): OutlineNode[]
  * → extractOutlineStructure(node: SourceFileNode) → OutlineNode[]
+ *
+ * @param checker - sourceFile이 속한 Program의 TypeChecker (있으면 annotation 없는 타입을 추론해서 표시)
  */
 function formatFunctionSignature(
   node: ts.FunctionDeclaration | ts.VariableStatement,
-  sourceFile: ts.SourceFile
+  sourceFile: ts.SourceFile,
+  checker?: ts.TypeChecker
 ): string {
   // Function Declaration
   if (ts.isFunctionDeclaration(node)) {
     const name = node.name?.getText(sourceFile) || 'anonymous';
     const params = node.parameters.map((p) => p.getText(sourceFile)).join(', ');
-    const returnType = node.type ? node.type.getText(sourceFile) : 'void';
+    const returnType = node.type ? node.type.getText(sourceFile) : inferReturnType(node, 'void', checker);
     return `${name}(${params}) → ${returnType}`;
   }
 
@@ -34,12 +45,16 @@ function formatFunctionSignature(
       if (ts.isArrowFunction(declaration.initializer) || ts.isFunctionExpression(declaration.initializer)) {
         const func = declaration.initializer as ts.ArrowFunction | ts.FunctionExpression;
         const params = func.parameters.map((p) => p.getText(sourceFile)).join(', ');
-        const returnType = func.type ? func.type.getText(sourceFile) : 'unknown';
+        const returnType = func.type ? func.type.getText(sourceFile) : inferReturnType(func, 'unknown', checker);
         return `${name}(${params}) → ${returnType}`;
       }
 
       // Constant/Variable
-      const type = declaration.type ? declaration.type.getText(sourceFile) : 'unknown';
+      const type = declaration.type
+        ? declaration.type.getText(sourceFile)
+        : checker
+          ? checker.typeToString(checker.getTypeAtLocation(declaration))
+          : 'unknown';
       return `${name}: ${type}`;
     }
   }
@@ -50,8 +65,10 @@ function formatFunctionSignature(
 /**
  * AST에서 export 선언 추출 (함수, 변수, interface)
  * 🔥 View 기반: Export 여부는 View로 확인, signature만 AST 사용
+ *
+ * @param checker - node.sourceFile이 속한 Program의 TypeChecker (선택)
  */
-export function extractExportSignatures(node: SourceFileNode): CodeDocSection[] {
+export function extractExportSignatures(node: SourceFileNode, checker?: ts.TypeChecker): CodeDocSection[] {
   const exportSections: CodeDocSection[] = [];
   const sourceFile = node.sourceFile;
 
@@ -70,7 +87,7 @@ export function extractExportSignatures(node: SourceFileNode): CodeDocSection[]
 
     // 함수 또는 변수 선언
     if (ts.isFunctionDeclaration(child) || ts.isVariableStatement(child)) {
-      const signature = formatFunctionSignature(child, sourceFile);
+      const signature = formatFunctionSignature(child, sourceFile, checker);
 
       exportSections.push({
         type: 'export',
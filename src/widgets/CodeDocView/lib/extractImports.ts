@@ -87,8 +87,7 @@ export function extractImports(node: SourceFileNode): ImportSymbol[] {
   const importView = getImports(node);
 
   importView.forEach((imp) => {
-    // TODO: Worker Import View에 isTypeOnly 필드 추가 필요
-    const isTypeOnly = false; // Fallback
+    const isTypeOnly = imp.isTypeOnly;
     const kind = inferSymbolKind(imp.name, isTypeOnly);
 
     imports.push({
@@ -73,9 +73,7 @@ function extractImportsFromAST(node: SourceFileNode): ImportSymbol[] {
   const importView = getImports(node);
 
   importView.forEach((imp) => {
-    // TODO: Worker Import View에 isTypeOnly 필드 추가 필요
-    // 현재는 name pattern으로 추론
-    const isTypeOnly = false; // Fallback - Worker View 확장 필요
+    const isTypeOnly = imp.isTypeOnly;
     const kind = inferSymbolKind(imp.name, isTypeOnly);
 
     imports.push({
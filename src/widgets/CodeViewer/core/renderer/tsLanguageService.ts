@@ -2,6 +2,7 @@
  * TypeScript Language Service wrapper for Go to Definition
  */
 import * as ts from 'typescript';
+import { getTypingsFiles, getTypingsVersion } from '../../../../shared/tsParser/utils/typings';
 import type { DefinitionLocation } from '../types/codeLine';
 
 // Cache Language Services by file path to avoid recreating them for every identifier
@@ -12,6 +13,7 @@ const languageServiceCache = new Map<
     languageService: ts.LanguageService;
     sourceFile: ts.SourceFile;
     code: string;
+    typingsVersion: number;
   }
 >();
 
@@ -21,7 +23,7 @@ const languageServiceCache = new Map<
 function getOrCreateLanguageService(code: string, filePath: string, isTsx: boolean) {
   // Check if we have a cached service for this file with the same code
   const cached = languageServiceCache.get(filePath);
-  if (cached && cached.code === code) {
+  if (cached && cached.code === code && cached.typingsVersion === getTypingsVersion()) {
     return cached;
   }
 
@@ -36,6 +38,8 @@ function getOrCreateLanguageService(code: string, filePath: string, isTsx: boole
   );
 
   // Create a minimal language service host
+  // npm import는 업로드된 typings (/node_modules/...)에서 해석
+  const typingsFiles = getTypingsFiles();
   const host: ts.LanguageServiceHost = {
     getScriptFileNames: () => [sourceFile.fileName],
     getScriptVersion: () => '0',
@@ -43,6 +47,9 @@ function getOrCreateLanguageService(code: string, filePath: string, isTsx: boole
       if (fileName === sourceFile.fileName) {
         return ts.ScriptSnapshot.fromString(code);
       }
+      if (Object.hasOwn(typingsFiles, fileName)) {
+        return ts.ScriptSnapshot.fromString(typingsFiles[fileName]);
+      }
       return undefined;
     },
     getCurrentDirectory: () => '/',
@@ -54,8 +61,8 @@ function getOrCreateLanguageService(code: string, filePath: string, isTsx: boole
       strict: false,
     }),
     getDefaultLibFileName: () => 'lib.d.ts', // Browser-safe: return dummy lib file name
-    fileExists: () => true,
-    readFile: () => undefined,
+    fileExists: (fileName) => fileName === sourceFile.fileName || Object.hasOwn(typingsFiles, fileName),
+    readFile: (fileName) => typingsFiles[fileName],
     readDirectory: () => [],
     directoryExists: () => true,
     getDirectories: () => [],
@@ -65,7 +72,7 @@ function getOrCreateLanguageService(code: string, filePath: string, isTsx: boole
   const languageService = ts.createLanguageService(host);
 
   // Cache it
-  const cacheEntry = { languageService, sourceFile, code };
+  const cacheEntry = { languageService, sourceFile, code, typingsVersion: getTypingsVersion() };
   languageServiceCache.set(filePath, cacheEntry);
 
   // Limit cache size to prevent memory leaks (keep last 50 files)
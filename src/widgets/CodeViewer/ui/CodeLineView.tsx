@@ -1,11 +1,14 @@
 import { useAtomValue } from 'jotai';
 import { useEffect, useMemo, useRef } from 'react';
 import { useEditorTheme } from '@/entities/AppTheme/EditorThemeProvider';
+import { useLineImpact } from '@/features/ChangeImpact/lib/useLineImpact';
 import { getFoldedCount, isLineFolded, isLineInsideFold } from '@/features/Code/CodeFold/lib/foldUtils';
 import { foldedLinesAtom } from '@/features/Code/CodeFold/model/atoms';
 import FoldBadge from '@/features/Code/CodeFold/ui/FoldBadge';
 import FoldButton from '@/features/Code/CodeFold/ui/FoldButton';
 import { targetLineAtom } from '@/features/File/Navigation/model/atoms';
+import { usePatchLineMark } from '@/features/Patch/lib/usePatchLineMark';
+import { useLineDiagnostics } from '@/features/Problems/lib/useLineDiagnostics';
 import { layoutNodesAtom } from '@/widgets/MainContents/PipelineCanvas/model/atoms';
 import type { CanvasNode } from '../../../entities/CanvasNode/model/types';
 import { getSymbolUsages } from '../../../entities/SourceFileNode/lib/metadata';
@@ -15,6 +18,27 @@ import CodeLineExportSlots from './CodeLineExportSlots';
 import CodeLineSegment from './CodeLineSegment';
 import CodeLineSlots from './CodeLineSlots';
 
+// Diagnostic severity별 squiggle / gutter 색상
+const SQUIGGLE_CLASS = {
+  error: 'underline decoration-wavy decoration-red-500 underline-offset-[3px]',
+  warning: 'underline decoration-wavy decoration-amber-400 underline-offset-[3px]',
+  info: 'underline decoration-wavy decoration-sky-400 underline-offset-[3px]',
+} as const;
+
+const GUTTER_MARKER_CLASS = {
+  error: 'bg-red-500',
+  warning: 'bg-amber-400',
+  info: 'bg-sky-400',
+} as const;
+
+// Change Impact 표시 (라인 왼쪽 막대)
+const IMPACT_BAR_CLASS = {
+  added: 'bg-emerald-400',
+  signature: 'bg-orange-400',
+  body: 'bg-amber-300',
+  import: 'bg-sky-400',
+} as const;
+
 // ============================================
 // Block Line Detection (for data attributes)
 // ============================================
@@ -68,6 +92,16 @@ const CodeLineView = ({
   const _layoutNodes = useAtomValue(layoutNodesAtom);
   const lineRef = useRef<HTMLDivElement>(null);
 
+  // TypeScript diagnostics (Problems 패널과 같은 데이터) → squiggle
+  const { lineDiagnostics, segmentDiagnostics } = useLineDiagnostics(node.filePath, line);
+  const lineSeverity = lineDiagnostics.find((d) => d.severity === 'error')?.severity ?? lineDiagnostics[0]?.severity;
+
+  // Change Impact 패널 결과 (바뀐 export 선언 / 영향받는 import)
+  const impactMark = useLineImpact(node.filePath, line.num);
+
+  // 미리보기 중인 패치 (추가된 라인 / 이 라인 앞에서 삭제된 라인)
+  const patchMark = usePatchLineMark(node.filePath, line.num);
+
   // 사용자에게 이 라인이 export 선언임을 시각적으로 표시하기 위함
   const hasDeclarationKeyword = line.hasDeclarationKeyword || false;
   const isDefinitionLine = hasDeclarationKeyword;
@@ -127,6 +161,7 @@ const CodeLineView = ({
         ${isDefinitionLine ? 'bg-vibe-accent/5' : ''}
         ${isTargetLine ? 'bg-yellow-400/20 ring-2 ring-yellow-400/50' : ''}
         ${isHighlighted ? 'bg-warm-500/10' : ''}
+        ${patchMark?.added ? 'bg-emerald-500/10' : ''}
         hover:bg-warm-500/5
         ${!options.interactive ? 'pointer-events-none' : ''}
       `}
@@ -134,6 +169,19 @@ const CodeLineView = ({
       data-block-start={isBlockStartLine ? blockStartLineNum : undefined}
       data-fold-end={isBlockStartLine && line.foldInfo ? line.foldInfo.foldEnd : undefined}
     >
+      {patchMark?.removed && (
+        <span
+          className="absolute left-0 right-0 top-0 h-px bg-red-500/70"
+          title={`Removed by patch:\n${patchMark.removed.join('\n')}`}
+        />
+      )}
+      {impactMark && (
+        <span
+          className={`absolute left-0 top-0 bottom-0 w-0.5 ${IMPACT_BAR_CLASS[impactMark.change]}`}
+          title={impactMark.title}
+        />
+      )}
+
       {/* Line Number Column: Aligned text-right, fixed leading/padding to match code */}
       <div
         className={`flex-none ${theme.dimensions.lineNumberWidth} ${theme.spacing.lineNumberX} flex items-center justify-end gap-1 text-3xs leading-snug ${theme.colors.lineNumber.text} border-r ${theme.colors.lineNumber.border} ${theme.colors.lineNumber.background}`}
@@ -141,6 +189,22 @@ const CodeLineView = ({
         {/* Render input slots for each dependency token in this line */}
         {options.showSlots && <CodeLineSlots line={line} />}
 
+        {patchMark && (
+          <span
+            className={patchMark.added ? 'text-emerald-400' : 'text-red-400'}
+            title={patchMark.removed ? `Removed by patch:\n${patchMark.removed.join('\n')}` : 'Added by patch'}
+          >
+            {patchMark.added ? '+' : '−'}
+          </span>
+        )}
+
+        {lineSeverity && (
+          <span
+            className={`w-1.5 h-1.5 rounded-full ${GUTTER_MARKER_CLASS[lineSeverity]}`}
+            title={lineDiagnostics.map((d) => `TS${d.code}: ${d.message}`).join('\n')}
+          />
+        )}
+
         <span className={lineNumberClassName}>{line.num}</span>
       </div>
 
@@ -153,17 +217,33 @@ const CodeLineView = ({
       <div
         className={`${options.softWrap ? 'flex-1' : 'w-fit min-w-full'} ${theme.spacing.lineX} ${theme.spacing.lineY} overflow-hidden ${options.softWrap ? 'whitespace-pre-wrap break-words' : 'whitespace-pre'} select-text font-mono ${!options.interactive ? 'pointer-events-none' : ''}`}
       >
-        {line.segments.map((segment, segIdx) => (
-          <CodeLineSegment
-            key={segIdx}
-            segment={segment}
-            segIdx={segIdx}
-            node={node}
-            line={line}
-            isFolded={isFolded}
-            foldedCount={foldedCount}
-          />
-        ))}
+        {line.segments.map((segment, segIdx) => {
+          const rendered = (
+            <CodeLineSegment
+              key={segIdx}
+              segment={segment}
+              segIdx={segIdx}
+              node={node}
+              line={line}
+              isFolded={isFolded}
+              foldedCount={foldedCount}
+            />
+          );
+
+          const diagnostics = segmentDiagnostics[segIdx];
+          if (!diagnostics || diagnostics.length === 0) return rendered;
+
+          const severity = diagnostics.find((d) => d.severity === 'error')?.severity ?? diagnostics[0].severity;
+          return (
+            <span
+              key={segIdx}
+              className={SQUIGGLE_CLASS[severity]}
+              title={diagnostics.map((d) => `TS${d.code}: ${d.message}`).join('\n')}
+            >
+              {rendered}
+            </span>
+          );
+        })}
 
         {/* Inline Fold Badge */}
         <FoldBadge line={line} node={node} isFolded={isFolded} foldedCount={foldedCount} />
@@ -170,7 +170,16 @@ export const SegmentRenderer = ({
 
     case 'definition':
     case 'local-variable':
-      return <LocalVariableSegment key={segIdx} segment={segment} node={node} style={style} isFocused={isFocused} />;
+      return (
+        <LocalVariableSegment
+          key={segIdx}
+          segment={segment}
+          node={node}
+          style={style}
+          isFocused={isFocused}
+          lineNum={line.num}
+        />
+      );
 
     default:
       return <StaticSegment key={segIdx} segment={segment} style={style} isFocused={isFocused} />;
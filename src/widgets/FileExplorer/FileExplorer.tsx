@@ -4,13 +4,14 @@
  */
 
 import { useAtom, useAtomValue } from 'jotai';
-import { Folder, FolderOpen } from 'lucide-react';
+import { Folder, FolderOpen, Package, PackageOpen } from 'lucide-react';
 import type React from 'react';
 import { useCallback, useEffect, useMemo, useState } from 'react';
 import { FileTreeItem } from '@/components/ide/FileTreeItem';
 import { filesAtom, focusedFolderAtom } from '@/entities/AppView/model/atoms';
 import { useOpenFile } from '@/features/File/OpenFiles/lib/useOpenFile';
 import { activeTabAtom, openedTabsAtom } from '@/features/File/OpenFiles/model/atoms';
+import { changedFilesAtom } from '@/features/LiveMount/model/atoms';
 import { FileIcon } from '../../entities/SourceFileNode/ui/FileIcon.tsx';
 import { useTreeKeyboardNavigation } from '../../shared/hooks/useTreeKeyboardNavigation';
 import { TreeView } from '../../shared/ui/TreeView/TreeView';
@@ -23,6 +24,7 @@ export function FileExplorer({ containerRef }: { containerRef: React.RefObject<H
   const files = useAtomValue(filesAtom);
   const activeTab = useAtomValue(activeTabAtom);
   const openedTabs = useAtomValue(openedTabsAtom);
+  const changedFiles = useAtomValue(changedFilesAtom);
   const { openFile } = useOpenFile();
   const [focusedFolder, setFocusedFolder] = useAtom(focusedFolderAtom);
 
@@ -114,11 +116,13 @@ export function FileExplorer({ containerRef }: { containerRef: React.RefObject<H
           const isActive = activeTab === node.filePath;
           const isOpened = node.filePath ? openedTabs.includes(node.filePath) : false;
           const fileExtension = node.name.includes('.') ? `.${node.name.split('.').pop()}` : undefined;
+          // Workspace 패키지 루트 폴더는 Package 아이콘 + 패키지 이름 표시 (monorepo 경계)
+          const [ClosedFolderIcon, OpenFolderIcon] = node.packageName ? [Package, PackageOpen] : [Folder, FolderOpen];
           const icon =
             node.type === 'folder'
               ? isCollapsed
-                ? Folder
-                : FolderOpen
+                ? ClosedFolderIcon
+                : OpenFolderIcon
               : ((() => <FileIcon fileName={node.name} />) as React.ComponentType);
 
           return (
@@ -133,6 +137,8 @@ export function FileExplorer({ containerRef }: { containerRef: React.RefObject<H
               isOpen={!isCollapsed}
               indent={depth}
               fileExtension={fileExtension}
+              badge={node.packageName !== node.name ? node.packageName : undefined}
+              changeMarker={node.filePath ? changedFiles.get(node.filePath) : undefined}
               onFocus={handleFocus}
               onDoubleClick={() => {
                 if (node.type === 'file' && node.filePath) {
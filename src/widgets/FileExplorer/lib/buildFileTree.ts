@@ -2,6 +2,7 @@
  * Build file tree from flat file list
  */
 import { joinPath, splitPath } from '@/shared/pathUtils';
+import { getModuleResolver } from '@/shared/tsParser/utils/pathResolver';
 import type { FolderNode } from '../model/types';
 
 /**
@@ -40,16 +41,25 @@ export function buildFileTree(files: Record<string, string>, focusedFolder: stri
     children: [],
   };
 
+  const focusPrefix = focusedFolder ? `${focusedFolder.replace(/\/$/, '')}/` : '';
+
+  // Workspace 패키지 루트 (monorepo 패키지 경계 표시용)
+  const packageNameByDir = new Map<string, string>();
+  getModuleResolver(files).workspace.packages.forEach((pkg) => {
+    if (pkg.rootDir.startsWith(focusPrefix)) {
+      packageNameByDir.set(pkg.rootDir.substring(focusPrefix.length), pkg.name);
+    }
+  });
+
   // Folder Focus Mode: 특정 폴더만 표시
   let filteredFiles = files;
   if (focusedFolder) {
     filteredFiles = {};
-    const prefix = focusedFolder.endsWith('/') ? focusedFolder : `${focusedFolder}/`;
 
     Object.keys(files).forEach((filePath) => {
-      if (filePath.startsWith(prefix)) {
+      if (filePath.startsWith(focusPrefix)) {
         // Remove prefix from path (e.g., "src/features/Search/ui/Modal.tsx" -> "ui/Modal.tsx")
-        const relativePath = filePath.substring(prefix.length);
+        const relativePath = filePath.substring(focusPrefix.length);
         filteredFiles[relativePath] = files[filePath];
       }
     });
@@ -80,6 +90,7 @@ export function buildFileTree(files: Record<string, string>, focusedFolder: stri
             type: isFile ? 'file' : 'folder',
             children: isFile ? undefined : [],
             filePath: isFile ? filePath : undefined,
+            packageName: isFile ? undefined : packageNameByDir.get(currentPath),
           };
           currentNode.children.push(childNode);
         }
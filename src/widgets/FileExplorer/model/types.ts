@@ -11,6 +11,7 @@ export interface FolderNode {
   type: 'folder' | 'file' | 'dead-code-item';
   children?: FolderNode[];
   filePath?: string; // file 또는 dead-code-item일 경우 전체 경로
+  packageName?: string; // workspace 패키지 루트 폴더일 경우 package.json name (monorepo)
   deadCodeItem?: DeadCodeItem; // dead-code-item일 경우 DeadCodeItem 정보
 }
 
@@ -1,22 +1,27 @@
 /**
  * IDEScrollView - 파일들을 세로 스크롤로 한번에 볼 수 있는 통합 뷰
  *
- * 두 가지 모드 지원:
- * 1. Dead Code 모드: Dead Code Panel에서 선택한 파일들 표시
- * 2. Tabs 모드: 열린 탭들의 파일 표시 (IDEView 대체)
+ * 네 가지 모드 지원:
+ * 1. Clone 모드: Clone Panel에서 선택한 clone class의 멤버들을 side-by-side로 표시
+ * 2. Dead Code 모드: Dead Code Panel에서 선택한 파일들 표시
+ * 3. Data Flow 모드: data-flow 경로의 파일들을 경로 순서대로 표시
+ * 4. Tabs 모드: 열린 탭들의 파일 표시 (IDEView 대체)
  */
 
 import { useAtomValue } from 'jotai';
 import { useEffect, useMemo } from 'react';
 import { filesAtom, fullNodeMapAtom } from '@/entities/AppView/model/atoms';
+import { selectedCloneClassAtom } from '@/features/Code/CodeAnalyzer/CloneDetector/model/atoms.ts';
 import { getItemKey } from '@/features/Code/CodeAnalyzer/DeadCodeAnalyzer/lib/categoryUtils.tsx';
 import {
   deadCodeResultsAtom,
   selectedDeadCodeItemsAtom,
 } from '@/features/Code/CodeAnalyzer/DeadCodeAnalyzer/model/atoms.ts';
+import { dataFlowIdeModeAtom, dataFlowTraceAtom } from '@/features/Code/DataFlow/model/atoms';
 import { activeTabAtom, openedTabsAtom } from '@/features/File/OpenFiles/model/atoms.ts';
 import type { DeadCodeItem } from '../../../features/Code/CodeAnalyzer/DeadCodeAnalyzer/lib/deadCodeAnalyzer.ts';
 import { useScrollNavigation } from './lib/useScrollNavigation.ts';
+import { CloneSideBySide } from './ui/CloneSideBySide.tsx';
 import FileSection from './ui/FileSection.tsx';
 
 const IDEScrollView = () => {
@@ -26,21 +31,32 @@ const IDEScrollView = () => {
   const fullNodeMap = useAtomValue(fullNodeMapAtom);
   const files = useAtomValue(filesAtom);
   const activeTab = useAtomValue(activeTabAtom);
+  const dataFlowTrace = useAtomValue(dataFlowTraceAtom);
+  const dataFlowIdeMode = useAtomValue(dataFlowIdeModeAtom);
+  const selectedCloneClass = useAtomValue(selectedCloneClassAtom);
 
-  // 모드 결정: Dead Code 선택이 있으면 Dead Code 모드, 없으면 Tabs 모드
+  // 모드 결정: Dead Code 선택 > Data Flow 경로 > Tabs 모드
   const isDeadCodeMode = selectedItems.size > 0 && deadCodeResults;
+  const dataFlowSteps = !isDeadCodeMode && dataFlowIdeMode ? dataFlowTrace?.steps : undefined;
 
-  // 표시할 파일 경로 결정 (Dead Code 모드 또는 Tabs 모드)
+  // 표시할 파일 경로 결정 (Dead Code / Data Flow / Tabs 모드)
   const displayFilePaths = useMemo(() => {
     if (isDeadCodeMode) {
       // Dead Code 모드: 선택된 항목들에서 파일 경로 추출
       const allItems: DeadCodeItem[] = [
         ...(deadCodeResults?.unusedExports || []),
+        ...(deadCodeResults?.unusedTypeExports || []),
         ...(deadCodeResults?.unusedImports || []),
+        ...(deadCodeResults?.typeOnlyImports || []),
         ...(deadCodeResults?.deadFunctions || []),
         ...(deadCodeResults?.unusedVariables || []),
         ...(deadCodeResults?.unusedProps || []),
         ...(deadCodeResults?.unusedArguments || []),
+        ...(deadCodeResults?.unawaitedAsyncCalls || []),
+        ...(deadCodeResults?.unreachableFiles || []),
+        ...(deadCodeResults?.unreachableExports || []),
+        ...(deadCodeResults?.unreachableClusters || []),
+        ...(deadCodeResults?.suppressed || []),
       ];
 
       const selectedDeadCodeItems = allItems.filter((item) => selectedItems.has(getItemKey(item)));
@@ -48,17 +64,34 @@ const IDEScrollView = () => {
       const filePathsSet = new Set<string>();
       selectedDeadCodeItems.forEach((item) => {
         filePathsSet.add(item.filePath);
+        item.clusterFiles?.forEach((filePath) => {
+          filePathsSet.add(filePath);
+        });
       });
 
       return Array.from(filePathsSet).sort();
+    } else if (dataFlowSteps) {
+      // Data Flow 모드: 경로에 등장하는 순서대로 (출처 → 사용처)
+      return Array.from(new Set(dataFlowSteps.map((step) => step.filePath)));
     } else {
       // Tabs 모드: 열린 탭들의 파일 경로 (IDEView 대체)
       return openedTabs;
     }
-  }, [isDeadCodeMode, selectedItems, deadCodeResults, openedTabs]);
+  }, [isDeadCodeMode, selectedItems, deadCodeResults, openedTabs, dataFlowSteps]);
 
-  // 각 파일에 대한 하이라이트할 라인 번호 추출 (Dead Code 모드에서만)
+  // 각 파일에 대한 하이라이트할 라인 번호 추출 (Dead Code / Data Flow 모드에서만)
   const highlightedLinesByFile = useMemo(() => {
+    if (dataFlowSteps) {
+      // Data Flow 모드: 경로 step 라인
+      const linesByFile = new Map<string, Set<number>>();
+      dataFlowSteps.forEach((step) => {
+        const lines = linesByFile.get(step.filePath) ?? new Set<number>();
+        lines.add(step.line);
+        linesByFile.set(step.filePath, lines);
+      });
+      return linesByFile;
+    }
+
     if (!isDeadCodeMode) {
       // Tabs 모드: 하이라이트 없음
       return new Map<string, Set<number>>();
@@ -67,11 +100,18 @@ const IDEScrollView = () => {
     // Dead Code 모드: 선택된 항목의 라인 번호
     const allItems: DeadCodeItem[] = [
       ...(deadCodeResults?.unusedExports || []),
+      ...(deadCodeResults?.unusedTypeExports || []),
       ...(deadCodeResults?.unusedImports || []),
+      ...(deadCodeResults?.typeOnlyImports || []),
       ...(deadCodeResults?.deadFunctions || []),
       ...(deadCodeResults?.unusedVariables || []),
       ...(deadCodeResults?.unusedProps || []),
       ...(deadCodeResults?.unusedArguments || []),
+      ...(deadCodeResults?.unawaitedAsyncCalls || []),
+      ...(deadCodeResults?.unreachableFiles || []),
+      ...(deadCodeResults?.unreachableExports || []),
+      ...(deadCodeResults?.unreachableClusters || []),
+      ...(deadCodeResults?.suppressed || []),
     ];
 
     const linesByFile = new Map<string, Set<number>>();
@@ -86,7 +126,7 @@ const IDEScrollView = () => {
       });
 
     return linesByFile;
-  }, [isDeadCodeMode, selectedItems, deadCodeResults]);
+  }, [isDeadCodeMode, selectedItems, deadCodeResults, dataFlowSteps]);
 
   // ==========================================
   // UI 반응 로직: activeTab 변경에 따른 스크롤
@@ -101,6 +141,11 @@ const IDEScrollView = () => {
     }
   }, [activeTab, scrollToFile, displayFilePaths]);
 
+  // Clone 모드: 멤버들을 나란히 (다른 모드보다 우선)
+  if (selectedCloneClass) {
+    return <CloneSideBySide cloneClass={selectedCloneClass} fullNodeMap={fullNodeMap} files={files} />;
+  }
+
   // 표시할 파일이 없을 때
   if (displayFilePaths.length === 0) {
     return (
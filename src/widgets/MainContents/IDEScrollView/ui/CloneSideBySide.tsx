@@ -0,0 +1,92 @@
+/**
+ * CloneSideBySide - clone class 멤버들을 열 단위로 나란히 표시
+ * 각 열은 독립 스크롤, 멤버 함수 범위를 하이라이트하고 시작 라인으로 스크롤
+ */
+
+import { useSetAtom } from 'jotai';
+import { X } from 'lucide-react';
+import { useEffect, useMemo, useRef } from 'react';
+import { Button } from '@/components/ui/Button.tsx';
+import type { CloneClass, CloneMember } from '@/features/Code/CodeAnalyzer/CloneDetector/lib/cloneDetector.ts';
+import { selectedCloneClassIdAtom } from '@/features/Code/CodeAnalyzer/CloneDetector/model/atoms.ts';
+import type { SourceFileNode } from '../../../../entities/SourceFileNode/model/types.ts';
+import FileSection from './FileSection.tsx';
+
+function CloneColumn({
+  member,
+  node,
+  files,
+}: {
+  member: CloneMember;
+  node: SourceFileNode;
+  files: Record<string, string>;
+}) {
+  const columnRef = useRef<HTMLDivElement>(null);
+
+  const highlightedLines = useMemo(() => {
+    const lines = new Set<number>();
+    for (let line = member.startLine; line <= member.endLine; line++) lines.add(line);
+    return lines;
+  }, [member.startLine, member.endLine]);
+
+  // 멤버 시작 라인으로 스크롤 (라인 DOM이 그려진 다음 프레임)
+  useEffect(() => {
+    const frame = requestAnimationFrame(() => {
+      const column = columnRef.current;
+      const line = column?.querySelector<HTMLElement>(`[data-line-num="${member.startLine}"]`);
+      if (column && line) {
+        column.scrollTop += line.getBoundingClientRect().top - column.getBoundingClientRect().top - 48;
+      }
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [member.startLine]);
+
+  return (
+    <div ref={columnRef} className="flex-1 h-full min-w-[420px] overflow-y-auto border-r border-border-DEFAULT">
+      <FileSection node={node} files={files} highlightedLines={highlightedLines} alwaysActive />
+    </div>
+  );
+}
+
+export function CloneSideBySide({
+  cloneClass,
+  fullNodeMap,
+  files,
+}: {
+  cloneClass: CloneClass;
+  fullNodeMap: Map<string, SourceFileNode>;
+  files: Record<string, string>;
+}) {
+  const setSelectedCloneClassId = useSetAtom(selectedCloneClassIdAtom);
+
+  return (
+    <div className="flex-1 h-full flex flex-col overflow-hidden bg-bg-elevated">
+      <div className="flex items-center gap-3 px-4 py-1.5 border-b border-border-hover text-xs">
+        <span className="font-medium text-text-primary">
+          {cloneClass.kind === 'exact' ? 'Exact' : 'Near'} clone · {cloneClass.members.length} copies
+        </span>
+        <span className="text-text-muted truncate">
+          {cloneClass.members.map((member) => `${member.name} (${Math.round(member.similarity * 100)}%)`).join(' · ')}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="ml-auto h-5 w-5 p-0 shrink-0"
+          onClick={() => setSelectedCloneClassId(null)}
+        >
+          <X size={12} />
+        </Button>
+      </div>
+
+      <div className="flex-1 flex overflow-x-auto overflow-y-hidden">
+        {cloneClass.members.map((member) => {
+          const node = fullNodeMap.get(member.filePath);
+          if (!node) return null;
+          return (
+            <CloneColumn key={`${member.filePath}:${member.startLine}`} member={member} node={node} files={files} />
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -35,8 +35,9 @@ const FileSection = forwardRef<
     node: SourceFileNode;
     files: Record<string, string>;
     highlightedLines: Set<number>;
+    alwaysActive?: boolean; // 나란히 비교할 때처럼 hover / activeTab과 상관없이 강조
   }
->(({ node, files, highlightedLines }, ref) => {
+>(({ node, files, highlightedLines, alwaysActive = false }, ref) => {
   const deadCodeResults = useAtomValue(deadCodeResultsAtom);
   const activeTab = useAtomValue(activeTabAtom);
   const hoveredFilePath = useAtomValue(hoveredFilePathAtom);
@@ -45,7 +46,7 @@ const FileSection = forwardRef<
   const [_isPending, startTransition] = useTransition();
 
   // Check if this file section is active (via activeTab or hover)
-  const isActive = activeTab === node.filePath || hoveredFilePath === node.filePath;
+  const isActive = alwaysActive || activeTab === node.filePath || hoveredFilePath === node.filePath;
 
   // Invalidate cache when deadCodeResults changes
   useEffect(() => {
@@ -33,6 +33,19 @@ const findOutputPort = (depEl: HTMLElement, nodeId: string, symbolName: string):
   return null;
 };
 
+// Call / Type 링크 연결 지점 (카드 상단에서 헤더 중앙까지의 거리)
+const CARD_HEADER_CENTER = 20;
+
+// 헤더끼리 연결하는 링크 스타일 (call: 호출 관계, type: type-only import - 런타임 의존 없음, cycle: 순환 경로)
+const HEADER_LINK_STYLES = {
+  call: { stroke: '#fbbf24', dasharray: '4,4' },
+  type: { stroke: '#38bdf8', dasharray: '1,5' },
+  cycle: { stroke: '#f87171', dasharray: '6,4' },
+} as const;
+
+// 순환을 닫는 링크는 카드 위로 arc (오른쪽 → 왼쪽으로 되돌아감)
+const CLOSING_ARC_HEIGHT = 160;
+
 const CanvasConnections: React.FC = () => {
   const [paths, setPaths] = useState<React.ReactElement[]>([]);
   const svgRef = useRef<SVGSVGElement>(null);
@@ -67,6 +80,51 @@ const CanvasConnections: React.FC = () => {
 
       if (!depEl || !consEl) return;
 
+      // Call / Type / Cycle 링크: 코드 안의 slot/port가 없으므로 카드 헤더끼리 연결 (callee 오른쪽 → caller 왼쪽)
+      if (link.kind === 'call' || link.kind === 'type' || link.kind === 'cycle') {
+        const style = HEADER_LINK_STYLES[link.kind];
+        const calleeRel = getRelativePoint(depEl.getBoundingClientRect(), contentRect, transform.k);
+        const callerRel = getRelativePoint(consEl.getBoundingClientRect(), contentRect, transform.k);
+
+        if (link.closesLoop) {
+          const startX = calleeRel.x + calleeRel.w / 2;
+          const endX = callerRel.x + callerRel.w / 2;
+          const topY = Math.min(calleeRel.y, callerRel.y) - CLOSING_ARC_HEIGHT;
+          newPaths.push(
+            <path
+              key={`${link.source}-${link.target}-closing-${newPaths.length}`}
+              d={`M ${startX} ${calleeRel.y} C ${startX} ${topY}, ${endX} ${topY}, ${endX} ${callerRel.y}`}
+              fill="none"
+              stroke={style.stroke}
+              strokeWidth="3"
+              strokeOpacity="0.9"
+              className="pointer-events-none"
+            />
+          );
+          return;
+        }
+
+        const startX = calleeRel.x + calleeRel.w;
+        const startY = calleeRel.y + CARD_HEADER_CENTER;
+        const endX = callerRel.x;
+        const endY = callerRel.y + CARD_HEADER_CENTER;
+        const dist = Math.abs(endX - startX);
+
+        newPaths.push(
+          <path
+            key={`${link.source}-${link.target}-${link.kind}-${newPaths.length}`}
+            d={`M ${startX} ${startY} C ${startX + dist * 0.4} ${startY}, ${endX - dist * 0.4} ${endY}, ${endX} ${endY}`}
+            fill="none"
+            stroke={style.stroke}
+            strokeWidth="2"
+            strokeOpacity="0.6"
+            strokeDasharray={style.dasharray}
+            className="pointer-events-none"
+          />
+        );
+        return;
+      }
+
       // End Point (Target/Right Node - Input Slots)
       // Find ALL slots for this dependency (may be used in multiple lines)
       const inputSlots = consEl.querySelectorAll(`[data-input-slot-for="${dependencyNode.id}"]`);
@@ -103,6 +161,8 @@ const CanvasConnections: React.FC = () => {
 
       // 3. Draw Bezier for each end point
       const isCrossFile = consumerNode.filePath !== dependencyNode.filePath;
+      // monorepo: 다른 workspace 패키지에서 가져온 의존성 (패키지 경계)
+      const isCrossPackage = isCrossFile && consumerNode.packageName !== dependencyNode.packageName;
       const edgeColor = getEdgeColor(dependencyNode.type);
 
       endPoints.forEach((endPoint) => {
@@ -142,10 +202,10 @@ const CanvasConnections: React.FC = () => {
             key={uniqueKey}
             d={d}
             fill="none"
-            stroke={isCrossFile ? '#94a3b8' : edgeColor}
+            stroke={isCrossPackage ? '#a78bfa' : isCrossFile ? '#94a3b8' : edgeColor}
             strokeWidth={isHorizontal ? '3' : '2'}
             strokeOpacity={isHorizontal ? '0.8' : '0.5'}
-            strokeDasharray={isCrossFile ? '8,8' : 'none'}
+            strokeDasharray={isCrossPackage ? '2,6' : isCrossFile ? '8,8' : 'none'}
             className="pointer-events-none"
           />
         );
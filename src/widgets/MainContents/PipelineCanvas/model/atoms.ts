@@ -22,8 +22,18 @@ export const openedFilesAtom = atom(new Set<string>());
 // 레이아웃 계산된 Canvas 노드들
 export const layoutNodesAtom = atom([] as CanvasNode[]);
 
-// 노드 간 링크 정보
-export const layoutLinksAtom = atom([] as { source: string; target: string }[]);
+// 노드 간 링크 정보 (import: 파일 의존성, type: type-only import 의존성, call: Symbol 호출 관계, cycle: 순환 의존성 경로)
+export interface CanvasLink {
+  source: string;
+  target: string;
+  kind?: 'import' | 'type' | 'call' | 'cycle';
+  closesLoop?: boolean; // cycle: 순환을 닫는 edge
+}
+
+export const layoutLinksAtom = atom([] as CanvasLink[]);
+
+// 순환 의존성 강조 링크 (Circular Dependency 패널에서 설정, 양 끝이 보일 때만 그림)
+export const cycleLinksAtom = atom([] as CanvasLink[]);
 
 // ============================================================================
 // Canvas Transform (Pan & Zoom from useD3Zoom)
@@ -3,11 +3,11 @@ import { useEffect, useState } from 'react';
 import { fullNodeMapAtom } from '@/entities/AppView/model/atoms';
 import type { CanvasNode } from '../../../entities/CanvasNode/model/types.ts';
 import type { GraphData } from '../../../entities/SourceFileNode/model/types.ts';
-import { layoutLinksAtom, layoutNodesAtom } from './model/atoms.ts';
+import { type CanvasLink, cycleLinksAtom, layoutLinksAtom, layoutNodesAtom } from './model/atoms.ts';
 
 export const useCanvasLayout = (_initialData: GraphData | null, visibleNodeIds: Set<string>) => {
   const [layoutNodes, setLayoutNodes] = useState<CanvasNode[]>([]);
-  const [layoutLinks, setLayoutLinks] = useState<{ source: string; target: string }[]>([]);
+  const [layoutLinks, setLayoutLinks] = useState<CanvasLink[]>([]);
 
   // Atom setters
   const setLayoutNodesAtom = useSetAtom(layoutNodesAtom);
@@ -15,12 +15,13 @@ export const useCanvasLayout = (_initialData: GraphData | null, visibleNodeIds:
 
   // Read fullNodeMap from atom (now derived from graphDataAtom)
   const fullNodeMap = useAtomValue(fullNodeMapAtom);
+  const cycleLinks = useAtomValue(cycleLinksAtom);
 
   // --- Simple Layout: Just display visible nodes without auto-positioning ---
   useEffect(() => {
     // Create canvas nodes for all visible nodes
     const canvasNodes: CanvasNode[] = [];
-    const links: { source: string; target: string }[] = [];
+    const links: CanvasLink[] = [];
 
     visibleNodeIds.forEach((nodeId) => {
       const node = fullNodeMap.get(nodeId);
@@ -42,12 +43,34 @@ export const useCanvasLayout = (_initialData: GraphData | null, visibleNodeIds:
             links.push({ source: depId, target: nodeId });
           }
         });
+
+        // type-only import 의존성 (런타임 의존 없음 → 별도 스타일)
+        node.typeDependencies?.forEach((depId) => {
+          if (visibleNodeIds.has(depId)) {
+            links.push({ source: depId, target: nodeId, kind: 'type' });
+          }
+        });
+
+        // Create links based on call graph (Symbol 노드)
+        // source = callee (left), target = caller (right)
+        node.views?.callGraph?.calls.forEach((calleeId) => {
+          if (calleeId !== nodeId && visibleNodeIds.has(calleeId)) {
+            links.push({ source: calleeId, target: nodeId, kind: 'call' });
+          }
+        });
+      }
+    });
+
+    // 순환 의존성 경로 (import 링크 위에 겹쳐 그림)
+    cycleLinks.forEach((link) => {
+      if (visibleNodeIds.has(link.source) && visibleNodeIds.has(link.target)) {
+        links.push(link);
       }
     });
 
     setLayoutNodes(canvasNodes);
     setLayoutLinks(links);
-  }, [visibleNodeIds, fullNodeMap]);
+  }, [visibleNodeIds, fullNodeMap, cycleLinks]);
 
   // --- Sync atoms with layout data ---
   useEffect(() => {
@@ -0,0 +1,110 @@
+/**
+ * gitRepository.worker.ts - 업로드한 .git 폴더 읽기 Worker
+ * git binary 없이 refs / loose objects / packfiles / index를 직접 해석 (오프라인)
+ *
+ * 경로는 모두 저장소 기준 (업로드 루트 폴더 제외) - 변환은 메인 스레드에서
+ */
+
+import { isSourceFile } from '../shared/fileSystem/sourceFiles';
+import { hashBlob } from '../shared/git/objects';
+import { computeStatus, createGitRepository, type GitRepository } from '../shared/git/repository';
+import type { GitCommitSummary, GitWorkerRequest, GitWorkerResponse } from '../shared/git/types';
+
+let repository: GitRepository | null = null;
+
+function post(response: GitWorkerResponse) {
+  self.postMessage(response);
+}
+
+const decoder = new TextDecoder();
+
+// ref (branch / 커밋 hash)의 tree → 경로 → blob hash
+async function readRefFiles(repo: GitRepository, ref: string): Promise<Map<string, string>> {
+  const hash = await repo.resolveRef(ref);
+  if (!hash) throw new Error(`Unknown git ref: ${ref}`);
+  return repo.flattenTree((await repo.readCommit(hash)).tree);
+}
+
+function getRepository(): GitRepository {
+  if (!repository) throw new Error('No git repository loaded.');
+  return repository;
+}
+
+async function handleRequest(request: GitWorkerRequest) {
+  const { requestId } = request;
+
+  if (request.type === 'open') {
+    const { files } = request;
+    repository = createGitRepository({
+      paths: Object.keys(files),
+      read: async (path) => (files[path] ? new Uint8Array(await files[path].arrayBuffer()) : null),
+    });
+    post({ type: 'summary', requestId, summary: await repository.getSummary() });
+    return;
+  }
+
+  const repo = getRepository();
+
+  if (request.type === 'log') {
+    const commits: GitCommitSummary[] = (await repo.getLog(request.ref, request.limit)).map((commit) => ({
+      hash: commit.hash,
+      parents: commit.parents,
+      subject: commit.message.split('\n')[0],
+      message: commit.message.trim(),
+      author: commit.author.name,
+      authorEmail: commit.author.email,
+      timestamp: commit.author.timestamp,
+    }));
+    post({ type: 'log', requestId, commits });
+  } else if (request.type === 'commitChanges') {
+    post({ type: 'changes', requestId, changes: await repo.getCommitChanges(request.hash) });
+  } else if (request.type === 'status') {
+    const head = await repo.resolveRef('HEAD');
+    const headFiles = head ? await repo.flattenTree((await repo.readCommit(head)).tree) : new Map<string, string>();
+
+    const workingHashes = new Map<string, string>();
+    for (const [path, content] of Object.entries(request.workingFiles)) {
+      workingHashes.set(path, await hashBlob(content));
+    }
+
+    // IDE가 내용을 읽는 파일만 작업 트리와 비교 (이미지 등은 업로드되지 않으므로)
+    const changes = computeStatus(
+      headFiles,
+      await repo.readIndex(),
+      workingHashes,
+      new Set(request.presentPaths),
+      (path) => isSourceFile(path) || workingHashes.has(path)
+    );
+    post({ type: 'status', requestId, changes });
+  } else if (request.type === 'listFiles') {
+    post({ type: 'fileList', requestId, paths: Array.from((await readRefFiles(repo, request.ref)).keys()) });
+  } else if (request.type === 'readFiles') {
+    const blobs = await readRefFiles(repo, request.ref);
+    const files: Record<string, string> = {};
+    for (const path of request.paths) {
+      const hash = blobs.get(path);
+      const object = hash ? await repo.readObject(hash) : null;
+      if (object?.type === 'blob') files[path] = decoder.decode(object.data);
+    }
+    post({ type: 'files', requestId, files });
+  }
+}
+
+// 요청은 순서대로 처리 (open 이전의 log / status가 먼저 실행되지 않도록)
+let requestQueue: Promise<void> = Promise.resolve();
+
+self.addEventListener('message', (event: MessageEvent<GitWorkerRequest>) => {
+  const request = event.data;
+  requestQueue = requestQueue.then(async () => {
+    try {
+      await handleRequest(request);
+    } catch (error) {
+      console.error(`[GitWorker] ${request.type} failed:`, error);
+      post({
+        type: 'error',
+        requestId: request.requestId,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+});
@@ -6,32 +6,75 @@
  * - Symbol 노드 생성 (type, interface, function, const, class, enum)
  * - Dependencies 추출
  * - 성능: AST 순회 1번으로 파일 + Symbol 노드 모두 생성
+ * - Incremental: contentHash가 바뀐 파일만 재파싱 (Worker는 App에서 재사용)
  */
 
 import * as ts from 'typescript';
-import { batchSave, saveDocumentIndex } from '../shared/lsif/IndexDB';
+import {
+  batchDelete,
+  batchSave,
+  deleteDocument,
+  getAllDocumentIndexes,
+  saveDocumentIndex,
+} from '../shared/lsif/IndexDB';
 import { buildReferenceResults, parseFileToLSIF } from '../shared/lsif/indexer';
+import { hashContent } from '../shared/lsif/query';
 import type { DocumentIndex, LSIFIndexResult } from '../shared/lsif/types';
-
-// Mock tsconfig.json paths (실제로는 tsconfig.json에서 읽어와야 하지만 웹 환경이므로 하드코딩)
-const PATH_ALIASES: Record<string, string> = {
-  '@/*': 'src/*',
-};
+import { type DocumentAsyncCall, extractAsyncCalls } from '../shared/tsParser/utils/asyncCalls';
+import { buildCallGraph, type CallEdges, extractCallEdges } from '../shared/tsParser/utils/callGraph';
+import { type DocumentDiagnostic, extractDiagnostics } from '../shared/tsParser/utils/diagnostics';
+import { createIncrementalLanguageService } from '../shared/tsParser/utils/languageService';
+import { getModuleResolver, resolvePath } from '../shared/tsParser/utils/pathResolver';
+import { isConfigDataFile } from '../shared/tsParser/utils/projectConfig';
+import { getSymbolMembers } from '../shared/tsParser/utils/symbolMembers';
+import { getTypingsVersion, setTypingsFiles } from '../shared/tsParser/utils/typings';
+import { findWorkspacePackage } from '../shared/tsParser/utils/workspaceConfig';
 
 // Worker 메시지 타입
 interface ParseProjectRequest {
   type: 'parseProject';
+  requestId: number; // 오래된 응답 무시용
   files: Record<string, string>;
 }
 
+// Third-party typings 갱신 (바뀐 경우에만 전송, 다음 파싱에서 LSIF 전체 재인덱싱)
+interface SetTypingsRequest {
+  type: 'setTypings';
+  typings: Record<string, string>;
+}
+
+type WorkerRequest = ParseProjectRequest | SetTypingsRequest;
+
+interface ParseProjectStats {
+  totalFiles: number;
+  reparsedFiles: number; // contentHash가 바뀌어 다시 파싱한 파일 수
+  removedFiles: number;
+  usageViewsUpdated: number;
+}
+
+interface ParseProjectResult {
+  nodes: SerializedSourceFileNode[];
+  stats: ParseProjectStats;
+  lsifSync: Promise<void>; // 다음 요청이 index를 읽기 전에 끝나야 함 (requestQueue에서 대기)
+}
+
 interface ParseProjectResponse {
   type: 'result';
+  requestId: number;
   nodes: SerializedSourceFileNode[];
   parseTime: number;
+  stats: ParseProjectStats;
+}
+
+interface ParseProjectError {
+  type: 'error';
+  requestId: number;
+  message: string;
 }
 
 interface ParseProjectProgress {
   type: 'progress';
+  requestId: number;
   current: number;
   total: number;
   currentFile: string;
@@ -50,6 +93,12 @@ interface ImportInfo {
   from: string;
   isDefault: boolean;
   isNamespace: boolean;
+  isTypeOnly: boolean;
+}
+
+interface CallGraphInfo {
+  calls: string[];
+  calledBy: string[];
 }
 
 // SourceFileNode 직렬화 타입 (sourceFile 제외)
@@ -61,11 +110,17 @@ interface SerializedSourceFileNode {
   codeSnippet: string;
   startLine: number;
   dependencies: string[];
+  typeDependencies?: string[];
+  packageName?: string;
+  parentId?: string;
   // 🔥 NEW: View Map
   views?: {
     exports?: ExportInfo[];
     imports?: ImportInfo[];
     usages?: Record<string, string[]>;
+    callGraph?: CallGraphInfo; // Symbol 노드만 (function/method 호출 관계)
+    diagnostics?: DocumentDiagnostic[]; // 파일 노드만 (TypeScript syntactic + semantic)
+    asyncCalls?: DocumentAsyncCall[]; // 파일 노드만 (결과를 기다리지 않는 async 호출)
   };
 }
 
@@ -92,92 +147,49 @@ function extractVueScript(content: string, filePath: string): string | null {
 }
 
 /**
- * 확장자 자동 추가 헬퍼 함수
- */
-function tryResolveWithExtensions(basePath: string, files: Record<string, string>): string | null {
-  const extensions = ['', '.ts', '.tsx', '.js', '.jsx', '.vue', '/index.ts', '/index.tsx'];
-
-  for (const ext of extensions) {
-    const testPath = basePath + ext;
-    if (files[testPath]) {
-      return testPath;
-    }
-  }
-
-  return null;
-}
-
-/**
- * Path Alias 해석 (tsconfig.json paths 기반)
- * @example
- * resolveAlias('@/features/File/...') → 'src/features/File/...'
+ * Import module specifier 추출 (값 import / type-only import 분리)
+ * - type-only: `import type { A }`, 모든 이름이 inline type인 `import { type A, type B }`
+ * - 파일 경로 해석은 resolveDependencies()에서 매번 수행 (다른 파일 추가/삭제 시 결과가 바뀌므로)
  */
-function resolveAlias(importPath: string): string | null {
-  for (const [aliasPattern, targetPattern] of Object.entries(PATH_ALIASES)) {
-    // aliasPattern: '@/*' → prefix: '@/', suffix: '/*'
-    const prefix = aliasPattern.replace(/\/\*$/, '/');
-
-    if (importPath.startsWith(prefix)) {
-      // '@/features/File/...' → 'features/File/...'
-      const pathWithoutPrefix = importPath.substring(prefix.length);
-
-      // targetPattern: 'src/*' → 'src/'
-      const target = targetPattern.replace(/\/\*$/, '/');
+function getModuleSpecifiers(sourceFile: ts.SourceFile): { values: string[]; types: string[] } {
+  const values: string[] = [];
+  const types: string[] = [];
 
-      // 'src/' + 'features/File/...' → 'src/features/File/...'
-      return target + pathWithoutPrefix;
+  sourceFile.statements.forEach((statement) => {
+    if (
+      ts.isImportDeclaration(statement) &&
+      statement.moduleSpecifier &&
+      ts.isStringLiteral(statement.moduleSpecifier)
+    ) {
+      const clause = statement.importClause;
+      const bindings = clause?.namedBindings;
+      const isTypeOnly =
+        !!clause &&
+        (clause.isTypeOnly ||
+          (!clause.name &&
+            !!bindings &&
+            ts.isNamedImports(bindings) &&
+            bindings.elements.length > 0 &&
+            bindings.elements.every((element) => element.isTypeOnly)));
+
+      (isTypeOnly ? types : values).push(statement.moduleSpecifier.text);
     }
-  }
-
-  return null;
-}
-
-/**
- * 경로 해석 (Path Alias 지원)
- * - Path Alias (@/ 등) → tsconfig paths 기반 변환
- * - 상대 경로 (./, ../)
- * - 나머지는 npm 모듈
- */
-function resolvePath(from: string, to: string, files: Record<string, string>): string | null {
-  // 1. Path Alias 처리 (tsconfig.json paths 반영)
-  const aliasResolved = resolveAlias(to);
-  if (aliasResolved) {
-    return tryResolveWithExtensions(aliasResolved, files);
-  }
-
-  // 2. 상대 경로 처리
-  if (to.startsWith('.')) {
-    const fromDir = from.substring(0, from.lastIndexOf('/'));
-    const resolved = to.startsWith('./') ? `${fromDir}/${to.substring(2)}` : `${fromDir}/${to}`;
-
-    return tryResolveWithExtensions(resolved, files);
-  }
+  });
 
-  // 3. 나머지는 npm 모듈
-  return null;
+  return { values, types };
 }
 
 /**
  * Dependencies 추출 (import 문)
  */
-function getDependencies(sourceFile: ts.SourceFile, filePath: string, files: Record<string, string>): string[] {
+function resolveDependencies(filePath: string, specifiers: string[], files: Record<string, string>): string[] {
   const dependencies: string[] = [];
 
-  sourceFile.statements.forEach((statement) => {
-    if (
-      ts.isImportDeclaration(statement) &&
-      statement.moduleSpecifier &&
-      ts.isStringLiteral(statement.moduleSpecifier)
-    ) {
-      // Type-only import 제외
-      if (statement.importClause?.isTypeOnly) return;
-
-      const source = statement.moduleSpecifier.text;
-      const resolvedPath = resolvePath(filePath, source, files);
+  specifiers.forEach((source) => {
+    const resolvedPath = resolvePath(filePath, source, files);
 
-      if (resolvedPath && !dependencies.includes(resolvedPath)) {
-        dependencies.push(resolvedPath);
-      }
+    if (resolvedPath && !dependencies.includes(resolvedPath)) {
+      dependencies.push(resolvedPath);
     }
   });
 
@@ -289,6 +301,7 @@ const VIEW_REGISTRY: Record<string, ViewFunction> = {
 
       const from = statement.moduleSpecifier.text;
       const line = getLineNumber(sourceFile, statement);
+      const isTypeOnly = !!statement.importClause?.isTypeOnly;
 
       // Default import
       if (statement.importClause?.name) {
@@ -298,6 +311,7 @@ const VIEW_REGISTRY: Record<string, ViewFunction> = {
           from,
           isDefault: true,
           isNamespace: false,
+          isTypeOnly,
         });
       }
 
@@ -311,6 +325,7 @@ const VIEW_REGISTRY: Record<string, ViewFunction> = {
               from,
               isDefault: false,
               isNamespace: false,
+              isTypeOnly: isTypeOnly || element.isTypeOnly,
             });
           });
         }
@@ -322,6 +337,7 @@ const VIEW_REGISTRY: Record<string, ViewFunction> = {
             from,
             isDefault: false,
             isNamespace: true,
+            isTypeOnly,
           });
         }
       }
@@ -351,7 +367,7 @@ function createViews(sourceFile: ts.SourceFile, filePath: string): Record<string
 }
 
 /**
- * Symbol 노드 추출 (type, interface, function, const, class, enum)
+ * Symbol 노드 추출 (type, interface, function, const, class, enum + class/interface 멤버)
  * 🔥 Worker 파싱 시점에 1번만 실행 - AST 재순회 방지
  */
 function extractSymbolNodes(sourceFile: ts.SourceFile, filePath: string, nodes: SerializedSourceFileNode[]): void {
@@ -380,6 +396,7 @@ function extractSymbolNodes(sourceFile: ts.SourceFile, filePath: string, nodes:
         startLine: getLineNumber(sourceFile, statement),
         dependencies: [],
       });
+      extractMemberNodes(sourceFile, filePath, statement, nodes);
     }
 
     // Function
@@ -424,6 +441,7 @@ function extractSymbolNodes(sourceFile: ts.SourceFile, filePath: string, nodes:
         startLine: getLineNumber(sourceFile, statement),
         dependencies: [],
       });
+      extractMemberNodes(sourceFile, filePath, statement, nodes);
     }
 
     // Enum
@@ -441,28 +459,298 @@ function extractSymbolNodes(sourceFile: ts.SourceFile, filePath: string, nodes:
   });
 }
 
+/**
+ * 멤버 노드 추출 (class 메서드/프로퍼티, interface 멤버)
+ * - id: `filePath::Class.member` (LSIF resultSet key와 동일한 형식)
+ */
+function extractMemberNodes(
+  sourceFile: ts.SourceFile,
+  filePath: string,
+  declaration: ts.ClassDeclaration | ts.InterfaceDeclaration,
+  nodes: SerializedSourceFileNode[]
+): void {
+  if (!declaration.name) return;
+
+  const parentName = declaration.name.text;
+  const parentId = `${filePath}::${parentName}`;
+
+  getSymbolMembers(declaration).forEach((member) => {
+    nodes.push({
+      id: `${parentId}.${member.name}`,
+      label: `${parentName}.${member.name}`,
+      filePath,
+      type: member.type,
+      codeSnippet: member.node.getText(sourceFile),
+      startLine: getLineNumber(sourceFile, member.node),
+      dependencies: [],
+      parentId,
+    });
+  });
+}
+
+// ============================================
+// 🔥 INCREMENTAL PARSE (LSIF DocumentIndex contentHash 기반)
+// ============================================
+
+/**
+ * 파일 하나의 파싱 결과 캐시
+ * - Worker는 App에서 재사용되므로 세션 동안 유지
+ * - contentHash가 같으면 AST 재파싱 없이 재사용
+ */
+interface CachedDocument {
+  contentHash: string;
+  fileNode: SerializedSourceFileNode;
+  symbolNodes: SerializedSourceFileNode[];
+  moduleSpecifiers: string[]; // dependencies 재계산용
+  typeModuleSpecifiers: string[]; // typeDependencies 재계산용
+  lsif: LSIFIndexResult | null; // 공유 Program이 필요하므로 파싱 후 별도 단계에서 생성
+  calls: CallEdges; // caller Symbol id → callee Symbol id (LSIF와 같은 단계에서 TypeChecker로 생성)
+}
+
+const documentCache = new Map<string, CachedDocument>();
+
+// LSIF 인덱싱용 공유 Program (변경된 파일만 다시 파싱)
+const incrementalLanguageService = createIncrementalLanguageService();
+
+// 마지막 LSIF 인덱싱에 사용한 typings 버전 (바뀌면 npm import의 타입/hover가 달라지므로 전체 재인덱싱)
+let indexedTypingsVersion = getTypingsVersion();
+
+/**
+ * 파싱 대상 파일인지 확인 (.d.ts, tsconfig.json / package.json / pnpm-workspace.yaml 등 설정 파일 제외)
+ */
+function isParsableFile(filePath: string, content: string | undefined): boolean {
+  if (!content) return false;
+  if (filePath.endsWith('.d.ts')) return false;
+  if (isConfigDataFile(filePath)) return false;
+  return true;
+}
+
+/**
+ * 파일 하나의 TypeScript AST 생성 (Vue 파일은 script 태그만)
+ */
+function createScriptSourceFile(filePath: string, content: string): ts.SourceFile {
+  const scriptKind = filePath.endsWith('.tsx')
+    ? ts.ScriptKind.TSX
+    : filePath.endsWith('.jsx')
+      ? ts.ScriptKind.JSX
+      : filePath.endsWith('.vue')
+        ? ts.ScriptKind.TS
+        : ts.ScriptKind.TS;
+
+  let parseContent = content;
+
+  // Vue 파일이면 script 태그만 추출
+  if (isVueFile(filePath)) {
+    parseContent = extractVueScript(content, filePath) || '';
+  }
+
+  return ts.createSourceFile(filePath, parseContent, ts.ScriptTarget.Latest, true, scriptKind);
+}
+
+/**
+ * 파일 하나 파싱 (파일 노드 + Symbol 노드)
+ */
+function parseDocument(filePath: string, content: string, contentHash: string): CachedDocument | null {
+  // 파일명 추출
+  const fileName = filePath.split('/').pop() || filePath;
+  const fileNameWithoutExt = fileName.replace(/\.(tsx?|jsx?|vue)$/, '');
+
+  try {
+    // TypeScript AST 생성
+    const sourceFile = createScriptSourceFile(filePath, content);
+
+    // 🔥 View Map 생성 (Single Pass Multi-View)
+    const views = createViews(sourceFile, filePath);
+
+    // 1️⃣ 파일 노드 생성 (+ View Map 포함, dependencies는 매 파싱마다 재계산)
+    const fileNode: SerializedSourceFileNode = {
+      id: filePath,
+      label: fileNameWithoutExt,
+      filePath,
+      type: 'file',
+      codeSnippet: content,
+      startLine: 1,
+      dependencies: [],
+      views, // 🔥 미리 계산된 메타데이터
+    };
+
+    // 2️⃣ Symbol 노드 생성 (type, interface, function, const, class, enum)
+    const symbolNodes: SerializedSourceFileNode[] = [];
+    extractSymbolNodes(sourceFile, filePath, symbolNodes);
+
+    const moduleSpecifiers = getModuleSpecifiers(sourceFile);
+
+    return {
+      contentHash,
+      fileNode,
+      symbolNodes,
+      moduleSpecifiers: moduleSpecifiers.values,
+      typeModuleSpecifiers: moduleSpecifiers.types,
+      lsif: null,
+      calls: {},
+    };
+  } catch (error) {
+    console.error(`[Worker] Error parsing ${filePath}:`, error);
+    return null;
+  }
+}
+
+/**
+ * 파일 하나를 LSIF Index로 변환 (AST → Graph Database)
+ * - Program에 포함된 파일: TypeChecker로 모든 identifier 인덱싱
+ * - Program 밖 파일 (Vue 등): export/import만 인덱싱
+ */
+function indexDocument(filePath: string, content: string, program: ts.Program | undefined): LSIFIndexResult | null {
+  try {
+    const programSourceFile = program?.getSourceFile(filePath);
+    if (program && programSourceFile) {
+      return parseFileToLSIF(filePath, content, programSourceFile, program.getTypeChecker());
+    }
+    return parseFileToLSIF(filePath, content, createScriptSourceFile(filePath, content));
+  } catch (lsifError) {
+    console.error(`[Worker] LSIF indexing error for ${filePath}:`, lsifError);
+    return null;
+  }
+}
+
+/**
+ * 파일 하나의 호출 관계 추출 (Program 밖 파일 (Vue 등)은 TypeChecker가 없으므로 빈 결과)
+ */
+function extractDocumentCalls(filePath: string, program: ts.Program | undefined): CallEdges {
+  const programSourceFile = program?.getSourceFile(filePath);
+  if (!program || !programSourceFile) return {};
+
+  try {
+    return extractCallEdges(programSourceFile, program.getTypeChecker());
+  } catch (callGraphError) {
+    console.error(`[Worker] Call graph error for ${filePath}:`, callGraphError);
+    return {};
+  }
+}
+
+/**
+ * 파일 하나의 diagnostics를 파일 노드 View에 반영 (Program 밖 파일 (Vue 등)은 제외)
+ */
+function updateDocumentDiagnostics(
+  doc: CachedDocument,
+  program: ts.Program | undefined,
+  files: Record<string, string>
+): void {
+  const filePath = doc.fileNode.filePath;
+  const programSourceFile = isVueFile(filePath) ? undefined : program?.getSourceFile(filePath);
+
+  let diagnostics: DocumentDiagnostic[] = [];
+  if (program && programSourceFile) {
+    try {
+      const resolver = getModuleResolver(files);
+      diagnostics = extractDiagnostics(programSourceFile, program, (specifier) =>
+        resolver.isAliased(filePath, specifier)
+      );
+    } catch (diagnosticsError) {
+      console.error(`[Worker] Diagnostics error for ${filePath}:`, diagnosticsError);
+    }
+  }
+
+  if (diagnostics.length > 0) {
+    doc.fileNode.views = { ...doc.fileNode.views, diagnostics };
+  } else if (doc.fileNode.views?.diagnostics) {
+    delete doc.fileNode.views.diagnostics;
+  }
+}
+
+/**
+ * 파일 하나의 unawaited async 호출을 파일 노드 View에 반영 (Program 밖 파일 (Vue 등)은 제외)
+ * - 호출 대상은 업로드된 프로젝트 파일에 선언된 함수만 (typings / lib 제외)
+ */
+function updateDocumentAsyncCalls(
+  doc: CachedDocument,
+  program: ts.Program | undefined,
+  files: Record<string, string>
+): void {
+  const filePath = doc.fileNode.filePath;
+  const programSourceFile = isVueFile(filePath) ? undefined : program?.getSourceFile(filePath);
+
+  let asyncCalls: DocumentAsyncCall[] = [];
+  if (program && programSourceFile && !programSourceFile.isDeclarationFile) {
+    try {
+      asyncCalls = extractAsyncCalls(programSourceFile, program, (fileName) => Object.hasOwn(files, fileName));
+    } catch (asyncCallsError) {
+      console.error(`[Worker] Async call analysis error for ${filePath}:`, asyncCallsError);
+    }
+  }
+
+  if (asyncCalls.length > 0) {
+    doc.fileNode.views = { ...doc.fileNode.views, asyncCalls };
+  } else if (doc.fileNode.views?.asyncCalls) {
+    delete doc.fileNode.views.asyncCalls;
+  }
+}
+
+/**
+ * LSIF 결과가 소유하거나 가리키는 ResultSet ID (ReferenceResult 재계산 대상)
+ */
+function collectResultSetIds(lsif: LSIFIndexResult | null | undefined, ids: Set<string>): void {
+  if (!lsif) return;
+  lsif.vertices.forEach((vertex) => {
+    if (vertex.type === 'resultSet') ids.add(vertex.id);
+  });
+  lsif.edges.forEach((edge) => {
+    if (edge.label === 'next') ids.add(edge.inV);
+  });
+}
+
+/**
+ * 문서의 import/export 이름 (영향 범위 계산용)
+ */
+function collectSymbolNames(doc: CachedDocument | undefined, names: Set<string>): void {
+  if (!doc) return;
+  doc.fileNode.views?.imports?.forEach((imp) => {
+    names.add(imp.name);
+  });
+  doc.fileNode.views?.exports?.forEach((exp) => {
+    names.add(exp.name);
+  });
+}
+
 /**
  * 프로젝트 파싱 (Worker 내부)
+ *
+ * Incremental 전략:
+ * 1. contentHash가 캐시와 같은 파일은 재파싱 없이 재사용
+ * 2. 삭제된 파일은 캐시 + LSIF IndexedDB에서 제거
+ * 3. usages View / ReferenceResult는 변경된 파일이 import·export하는 이름에 해당하는 것만 다시 계산
+ * 4. LSIF는 IndexedDB에 저장된 DocumentIndex.contentHash와 다른 문서 + 그 문서를 직간접적으로 import하는 문서만 다시 저장
+ * 5. 호출 관계(calls)는 LSIF를 다시 인덱싱하는 문서만 다시 추출, calledBy는 캐시된 calls 전체에서 조립
+ * 6. diagnostics도 LSIF를 다시 인덱싱하는 문서만 다시 계산 (import한 파일이 바뀌면 타입 오류가 달라지므로 함께)
+ *    unawaited async 호출도 같은 기준 (import한 함수가 async로 바뀌면 호출부 결과가 달라짐)
  */
-function parseProjectInWorker(files: Record<string, string>): SerializedSourceFileNode[] {
-  const nodes: SerializedSourceFileNode[] = [];
-  const filePathsArray = Object.keys(files);
+async function parseProjectInWorker(files: Record<string, string>, requestId: number): Promise<ParseProjectResult> {
+  const filePathsArray = Object.keys(files).filter((filePath) => isParsableFile(filePath, files[filePath]));
   const totalFiles = filePathsArray.length;
+  const currentPaths = new Set(filePathsArray);
 
-  // 🔥 LSIF Index 수집용
-  const lsifResults: LSIFIndexResult[] = [];
+  // 🔥 1️⃣ IndexedDB에 저장된 문서 hash 조회
+  const storedHashes = new Map<string, string>();
+  (await getAllDocumentIndexes()).forEach((index) => {
+    storedHashes.set(index.uri, index.contentHash);
+  });
+
+  const reparsedPaths: string[] = []; // 메모리 캐시 miss → AST 재파싱
+  const lsifChangedPaths: string[] = []; // IndexedDB hash 불일치 → LSIF 재저장
+  const usageAffectedNames = new Set<string>(); // usages View 재계산 대상 이름
+  const lsifAffectedResultSets = new Set<string>(); // ReferenceResult 재계산 대상 ResultSet
 
+  // 🔥 2️⃣ 변경/추가된 파일만 파싱
   filePathsArray.forEach((filePath, index) => {
     const content = files[filePath];
-    if (!content) return;
-
-    // .d.ts 파일 제외
-    if (filePath.endsWith('.d.ts')) return;
+    const contentHash = hashContent(content);
+    const cached = documentCache.get(filePath);
 
     // 진행 상황 보고 (10% 단위)
     if (index % Math.max(1, Math.floor(totalFiles / 10)) === 0) {
       const progress: ParseProjectProgress = {
         type: 'progress',
+        requestId,
         current: index + 1,
         total: totalFiles,
         currentFile: filePath,
@@ -470,155 +758,241 @@ function parseProjectInWorker(files: Record<string, string>): SerializedSourceFi
       self.postMessage(progress);
     }
 
-    // 파일명 추출
-    const fileName = filePath.split('/').pop() || filePath;
-    const fileNameWithoutExt = fileName.replace(/\.(tsx?|jsx?|vue)$/, '');
+    if (cached?.contentHash !== contentHash) {
+      collectSymbolNames(cached, usageAffectedNames);
 
-    try {
-      const scriptKind = filePath.endsWith('.tsx')
-        ? ts.ScriptKind.TSX
-        : filePath.endsWith('.jsx')
-          ? ts.ScriptKind.JSX
-          : filePath.endsWith('.vue')
-            ? ts.ScriptKind.TS
-            : ts.ScriptKind.TS;
-
-      let parseContent = content;
-
-      // Vue 파일이면 script 태그만 추출
-      if (isVueFile(filePath)) {
-        parseContent = extractVueScript(content, filePath) || '';
-      }
-
-      // TypeScript AST 생성
-      const sourceFile = ts.createSourceFile(filePath, parseContent, ts.ScriptTarget.Latest, true, scriptKind);
-
-      // Dependencies 추출
-      const dependencies = getDependencies(sourceFile, filePath, files);
-
-      // 🔥 3️⃣ View Map 생성 (Single Pass Multi-View)
-      const views = createViews(sourceFile, filePath);
-
-      // 🔥 4️⃣ LSIF Index 생성 (AST → Graph Database)
-      try {
-        const lsifIndex = parseFileToLSIF(filePath, content, sourceFile);
-        lsifResults.push(lsifIndex);
-        console.log(
-          `[Worker] LSIF index created for ${filePath}: ${lsifIndex.vertices.length} vertices, ${lsifIndex.edges.length} edges`
-        );
-      } catch (lsifError) {
-        console.error(`[Worker] LSIF indexing error for ${filePath}:`, lsifError);
+      const parsed = parseDocument(filePath, content, contentHash);
+      if (!parsed) {
+        documentCache.delete(filePath);
+        return;
       }
 
-      // 1️⃣ 파일 노드 생성 (+ View Map 포함)
-      nodes.push({
-        id: filePath,
-        label: fileNameWithoutExt,
-        filePath,
-        type: 'file',
-        codeSnippet: content,
-        startLine: 1,
-        dependencies,
-        views, // 🔥 미리 계산된 메타데이터
-      });
+      documentCache.set(filePath, parsed);
+      collectSymbolNames(parsed, usageAffectedNames);
+      reparsedPaths.push(filePath);
+    }
 
-      // 2️⃣ Symbol 노드 생성 (type, interface, function, const, class, enum)
-      // 🔥 AST 순회 1번으로 모든 symbol 수집
-      extractSymbolNodes(sourceFile, filePath, nodes);
-    } catch (error) {
-      console.error(`[Worker] Error parsing ${filePath}:`, error);
+    if (storedHashes.get(filePath) !== contentHash) {
+      lsifChangedPaths.push(filePath);
+      collectResultSetIds(cached?.lsif, lsifAffectedResultSets);
     }
   });
 
-  // 🔥 4️⃣ Usage View 생성 (2차 패스 - 모든 imports 수집 후)
-  // symbolName → [importerFilePath] 매핑
-  const usageMap = new Map<string, Set<string>>(); // symbolName#filePath → Set<importerFilePath>
+  // 🔥 3️⃣ 삭제된 파일 정리
+  const removedPaths: string[] = [];
 
-  nodes.forEach((node) => {
-    if (node.type !== 'file' || !node.views?.imports) return;
+  for (const [filePath, cached] of documentCache) {
+    if (currentPaths.has(filePath)) continue;
+    collectSymbolNames(cached, usageAffectedNames);
+    collectResultSetIds(cached.lsif, lsifAffectedResultSets);
+    documentCache.delete(filePath);
+    removedPaths.push(filePath);
+  }
 
-    const imports = node.views.imports as ImportInfo[];
-    const importerFilePath = node.filePath;
+  const lsifRemovedPaths = Array.from(storedHashes.keys()).filter((uri) => !currentPaths.has(uri));
 
-    imports.forEach((imp) => {
-      const importedSymbolName = imp.name;
+  // 🔥 4️⃣ 노드 조립 + dependencies 재계산 (다른 파일 추가/삭제, tsconfig / workspace 변경 반영)
+  const nodes: SerializedSourceFileNode[] = [];
+  const documents: CachedDocument[] = [];
+  const workspacePackages = getModuleResolver(files).workspace.packages;
+
+  filePathsArray.forEach((filePath) => {
+    const doc = documentCache.get(filePath);
+    if (!doc) return;
+
+    doc.fileNode.dependencies = resolveDependencies(filePath, doc.moduleSpecifiers, files);
+    // 값 import가 없는 모듈만 type 의존성 (canvas에서 구분 표시)
+    doc.fileNode.typeDependencies = resolveDependencies(filePath, doc.typeModuleSpecifiers, files).filter(
+      (dependency) => !doc.fileNode.dependencies.includes(dependency)
+    );
+
+    // monorepo 패키지 경계 (workspace 패키지 밖 파일은 undefined)
+    const packageName = findWorkspacePackage(workspacePackages, filePath)?.name;
+    [doc.fileNode, ...doc.symbolNodes].forEach((node) => {
+      node.packageName = packageName;
+    });
 
-      // 이 symbol을 export하는 파일 찾기 (간단한 매칭 - from 경로 기반)
-      // 실제로는 from을 해석해서 정확한 파일을 찾아야 하지만, 일단 symbol 이름으로 매칭
-      nodes.forEach((candidateNode) => {
-        if (candidateNode.type !== 'file' || !candidateNode.views?.exports) return;
+    documents.push(doc);
+    nodes.push(doc.fileNode, ...doc.symbolNodes);
+  });
 
-        const exports = candidateNode.views.exports as ExportInfo[];
-        const matchingExport = exports.find((exp) => exp.name === importedSymbolName);
+  // 🔥 5️⃣ Usage View 갱신 (영향받는 파일만)
+  // symbolName → [importerFilePath] 매핑
+  const importersByName = new Map<string, Set<string>>();
 
-        if (matchingExport) {
-          const usageKey = `${importedSymbolName}#${candidateNode.filePath}`;
-          if (!usageMap.has(usageKey)) {
-            usageMap.set(usageKey, new Set());
-          }
-          usageMap.get(usageKey)?.add(importerFilePath);
-        }
-      });
+  documents.forEach((doc) => {
+    doc.fileNode.views?.imports?.forEach((imp) => {
+      if (!importersByName.has(imp.name)) {
+        importersByName.set(imp.name, new Set());
+      }
+      importersByName.get(imp.name)?.add(doc.fileNode.filePath);
     });
   });
 
-  // 🔥 5️⃣ Usage View를 각 파일 노드에 추가
-  nodes.forEach((node) => {
-    if (node.type !== 'file' || !node.views?.exports) return;
+  const reparsedSet = new Set(reparsedPaths);
+  let usageUpdatedCount = 0;
+
+  documents.forEach((doc) => {
+    const views = doc.fileNode.views;
+    if (!views?.exports) return;
+
+    // 재파싱된 파일 or 변경된 import/export 이름을 export하는 파일만 재계산
+    const isAffected =
+      reparsedSet.has(doc.fileNode.filePath) || views.exports.some((exp) => usageAffectedNames.has(exp.name));
+    if (!isAffected) return;
 
-    const exports = node.views.exports as ExportInfo[];
     const usages: Record<string, string[]> = {};
 
-    exports.forEach((exp) => {
-      const usageKey = `${exp.name}#${node.filePath}`;
-      const importers = usageMap.get(usageKey);
+    // 이 symbol을 import하는 파일 찾기 (간단한 매칭 - symbol 이름 기반)
+    // 실제로는 from을 해석해서 정확한 파일을 찾아야 하지만, 일단 symbol 이름으로 매칭
+    views.exports.forEach((exp) => {
+      const importers = importersByName.get(exp.name);
 
       if (importers && importers.size > 0) {
         usages[exp.name] = Array.from(importers);
       }
     });
 
-    // Usage View 추가
     if (Object.keys(usages).length > 0) {
-      node.views!.usages = usages;
+      views.usages = usages;
+    } else {
+      delete views.usages;
     }
+    usageUpdatedCount++;
+  });
+
+  // 🔥 6️⃣ LSIF 인덱싱 + 호출 관계 + diagnostics + async 호출 추출 (공유 Program의 TypeChecker)
+  // 변경/삭제된 파일을 (type-only 포함) 직간접적으로 import하는 파일도 다시 인덱싱
+  // (바뀐 타입이 중간 파일을 거쳐 전파되면 cross-file 참조 / diagnostics / async 호출 결과가 달라지므로)
+  const importersByPath = new Map<string, string[]>();
+  documents.forEach((doc) => {
+    [...doc.fileNode.dependencies, ...(doc.fileNode.typeDependencies ?? [])].forEach((dep) => {
+      importersByPath.set(dep, [...(importersByPath.get(dep) ?? []), doc.fileNode.filePath]);
+    });
+  });
+
+  const lsifChangedSet = new Set([...lsifChangedPaths, ...removedPaths, ...lsifRemovedPaths]);
+  const lsifDependentSet = new Set<string>();
+  const dependentQueue = Array.from(lsifChangedSet);
+  while (dependentQueue.length > 0) {
+    importersByPath.get(dependentQueue.shift()!)?.forEach((importer) => {
+      if (lsifChangedSet.has(importer) || lsifDependentSet.has(importer)) return;
+      lsifDependentSet.add(importer);
+      dependentQueue.push(importer);
+    });
+  }
+  const lsifDependentPaths = Array.from(lsifDependentSet);
+
+  const typingsChanged = indexedTypingsVersion !== getTypingsVersion();
+  indexedTypingsVersion = getTypingsVersion();
+
+  const lsifSavePaths = new Set(
+    typingsChanged
+      ? filePathsArray.filter((filePath) => documentCache.has(filePath))
+      : [...lsifChangedPaths, ...lsifDependentPaths]
+  );
+  const lsifIndexPaths = new Set([...reparsedPaths, ...lsifSavePaths]);
+
+  if (lsifIndexPaths.size > 0) {
+    const program = incrementalLanguageService.update(files);
+
+    lsifIndexPaths.forEach((filePath) => {
+      const doc = documentCache.get(filePath);
+      if (!doc) return;
+
+      doc.lsif = indexDocument(filePath, files[filePath], program);
+      doc.calls = extractDocumentCalls(filePath, program);
+      updateDocumentDiagnostics(doc, program, files);
+      updateDocumentAsyncCalls(doc, program, files);
+      if (lsifSavePaths.has(filePath)) collectResultSetIds(doc.lsif, lsifAffectedResultSets);
+    });
+  }
+
+  // 🔥 7️⃣ Call Graph View 조립 (calls는 파일별 캐시, calledBy는 전체 calls를 뒤집어서 매번 계산)
+  const callGraph = buildCallGraph(
+    documents.map((doc) => doc.calls),
+    new Set(nodes.map((node) => node.id))
+  );
+
+  documents.forEach((doc) => {
+    doc.symbolNodes.forEach((node) => {
+      const entry = callGraph.get(node.id);
+      if (entry) {
+        node.views = { ...node.views, callGraph: entry };
+      } else if (node.views?.callGraph) {
+        delete node.views.callGraph;
+      }
+    });
   });
 
-  // 🔥 6️⃣ LSIF Reference Results 생성 (cross-file references)
-  console.log('[Worker] Building LSIF reference results...');
-  const { vertices: refVertices, edges: refEdges } = buildReferenceResults(lsifResults);
-  console.log(`[Worker] Built ${refVertices.length} reference results`);
+  // 🔥 8️⃣ LSIF Index 동기화 (변경분만)
+  const lsifResults = documents.map((doc) => doc.lsif).filter((r): r is LSIFIndexResult => r !== null);
+  const changedLsifResults = Array.from(lsifSavePaths)
+    .map((filePath) => documentCache.get(filePath)?.lsif)
+    .filter((r): r is LSIFIndexResult => !!r);
 
-  // 🔥 7️⃣ LSIF Index를 IndexedDB에 저장
-  console.log('[Worker] Saving LSIF index to IndexedDB...');
-  saveLSIFIndexes(lsifResults, refVertices, refEdges)
+  const lsifSync = syncLSIFIndexes(changedLsifResults, lsifRemovedPaths, lsifResults, lsifAffectedResultSets)
     .then(() => {
-      console.log('[Worker] LSIF index saved successfully');
+      console.log('[Worker] LSIF index synced successfully');
     })
     .catch((error) => {
-      console.error('[Worker] Failed to save LSIF index:', error);
+      console.error('[Worker] Failed to sync LSIF index:', error);
     });
 
-  return nodes;
+  const stats: ParseProjectStats = {
+    totalFiles,
+    reparsedFiles: reparsedPaths.length,
+    removedFiles: removedPaths.length,
+    usageViewsUpdated: usageUpdatedCount,
+  };
+
+  return { nodes, stats, lsifSync };
 }
 
 /**
- * LSIF Indexes를 IndexedDB에 저장
+ * LSIF Indexes를 IndexedDB에 동기화
+ * 1. 삭제/변경된 문서의 기존 vertex/edge 제거
+ * 2. 변경된 문서의 새 vertex/edge 저장
+ * 3. 영향받는 ResultSet의 ReferenceResult만 다시 계산
  */
-async function saveLSIFIndexes(lsifResults: LSIFIndexResult[], refVertices: any[], refEdges: any[]): Promise<void> {
+async function syncLSIFIndexes(
+  changedResults: LSIFIndexResult[],
+  removedUris: string[],
+  allResults: LSIFIndexResult[],
+  affectedResultSets: Set<string>
+): Promise<void> {
+  if (changedResults.length === 0 && removedUris.length === 0) {
+    console.log('[Worker] LSIF index up to date, nothing to sync');
+    return;
+  }
+
   try {
-    // 1. 모든 vertices와 edges 수집
-    const allVertices = lsifResults.flatMap((r) => r.vertices).concat(refVertices);
-    const allEdges = lsifResults.flatMap((r) => r.edges).concat(refEdges);
+    // 1. 삭제된 문서 + 변경된 문서의 이전 index 제거 (range 위치가 바뀌므로)
+    const changedUris = changedResults.map((r) => r.documentId.replace('doc:', ''));
+    for (const uri of [...removedUris, ...changedUris]) {
+      const deletedResultSets = await deleteDocument(uri);
+      deletedResultSets.forEach((rsId) => {
+        affectedResultSets.add(rsId);
+      });
+    }
+
+    // 2. 영향받는 ReferenceResult 제거 후 재계산
+    const { vertices: refVertices, edges: refEdges } = buildReferenceResults(allResults, affectedResultSets);
+    const staleRefResultIds = Array.from(affectedResultSets).map((rsId) => `refResult:${rsId}`);
+    await batchDelete(staleRefResultIds, staleRefResultIds, staleRefResultIds);
 
-    console.log(`[Worker] Batch saving ${allVertices.length} vertices, ${allEdges.length} edges...`);
+    console.log(
+      `[Worker] Syncing LSIF: ${changedResults.length} changed, ${removedUris.length} removed, ${refVertices.length} reference results`
+    );
 
-    // 2. Batch save
+    // 3. 새 vertices/edges 저장
+    const allVertices = changedResults.flatMap((r) => r.vertices).concat(refVertices);
+    const allEdges = changedResults.flatMap((r) => r.edges).concat(refEdges);
     await batchSave(allVertices, allEdges);
 
-    // 3. Document indexes 저장
-    for (const result of lsifResults) {
-      const docVertex = allVertices.find((v) => v.type === 'document' && v.id === result.documentId);
+    // 4. Document indexes 저장
+    for (const result of changedResults) {
+      const docVertex = result.vertices.find((v) => v.type === 'document' && v.id === result.documentId);
 
       if (docVertex && docVertex.type === 'document') {
         const docIndex: DocumentIndex = {
@@ -630,44 +1004,65 @@ async function saveLSIFIndexes(lsifResults: LSIFIndexResult[], refVertices: any[
         await saveDocumentIndex(docIndex);
       }
     }
-
-    console.log('[Worker] LSIF indexes saved to IndexedDB');
   } catch (error) {
-    console.error('[Worker] Error saving LSIF indexes:', error);
+    console.error('[Worker] Error syncing LSIF indexes:', error);
     throw error;
   }
 }
 
 // Worker 메시지 핸들러
-self.addEventListener('message', (event: MessageEvent<ParseProjectRequest>) => {
-  const { type, files } = event.data;
+// 🔥 Worker는 App에서 재사용 → 요청을 순서대로 처리 (async 파싱이 겹치지 않도록)
+let requestQueue: Promise<void> = Promise.resolve();
 
-  if (type === 'parseProject') {
-    console.log(`[Worker] Starting project parsing: ${Object.keys(files).length} files`);
-    const startTime = performance.now();
+self.addEventListener('message', (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
 
-    try {
-      const nodes = parseProjectInWorker(files);
-      const parseTime = performance.now() - startTime;
+  if (request.type === 'setTypings') {
+    requestQueue = requestQueue.then(() => {
+      setTypingsFiles(request.typings);
+      console.log(`[Worker] Typings updated: ${Object.keys(request.typings).length} files`);
+    });
+    return;
+  }
 
-      console.log(`[Worker] Project parsing complete: ${nodes.length} nodes in ${parseTime.toFixed(2)}ms`);
+  if (request.type === 'parseProject') {
+    const { files, requestId } = request;
+    requestQueue = requestQueue.then(async () => {
+      console.log(`[Worker] Starting project parsing: ${Object.keys(files).length} files`);
+      const startTime = performance.now();
 
-      const response: ParseProjectResponse = {
-        type: 'result',
-        nodes,
-        parseTime,
-      };
+      try {
+        const { nodes, stats, lsifSync } = await parseProjectInWorker(files, requestId);
+        const parseTime = performance.now() - startTime;
 
-      self.postMessage(response);
-    } catch (error) {
-      console.error('[Worker] Project parse error:', error);
-      // 에러 발생 시 빈 배열 반환
-      self.postMessage({
-        type: 'result',
-        nodes: [],
-        parseTime: 0,
-      });
-    }
+        console.log(
+          `[Worker] Project parsing complete: ${nodes.length} nodes in ${parseTime.toFixed(2)}ms ` +
+            `(${stats.reparsedFiles}/${stats.totalFiles} reparsed, ${stats.removedFiles} removed)`
+        );
+
+        const response: ParseProjectResponse = {
+          type: 'result',
+          requestId,
+          nodes,
+          parseTime,
+          stats,
+        };
+
+        self.postMessage(response);
+
+        // 결과는 먼저 보내고, IndexedDB 동기화가 끝난 뒤에 다음 요청 처리 (동기화 중인 index를 읽지 않도록)
+        await lsifSync;
+      } catch (error) {
+        console.error('[Worker] Project parse error:', error);
+        // result 대신 error 전송 (이전 그래프 유지, stats 없는 result를 받지 않도록)
+        const response: ParseProjectError = {
+          type: 'error',
+          requestId,
+          message: error instanceof Error ? error.message : String(error),
+        };
+        self.postMessage(response);
+      }
+    });
   }
 });
 
@@ -0,0 +1,93 @@
+/**
+ * zipArchive.worker.ts - Zip import / export Worker
+ * 압축 해제 / 압축을 메인 스레드 밖에서 처리 (큰 GitHub archive에서도 UI가 멈추지 않도록)
+ *
+ * Import: list (항목 목록 + .gitignore, 미리보기용) → extract (선택된 경로만 압축 해제)
+ * Export: create (경로 → 내용 → zip)
+ */
+
+import { isGitignoreFile } from '../shared/fileSystem/gitignore';
+import {
+  type CreateRequest,
+  type ExtractRequest,
+  type ListRequest,
+  WORKSPACE_FILE_NAME,
+  type ZipWorkerRequest,
+  type ZipWorkerResponse,
+} from '../shared/zip/types';
+import { createZip, listZipEntries, readZipEntry, type ZipEntryInfo } from '../shared/zip/zipArchive';
+
+// list 이후 extract에서 다시 사용 (Worker 하나당 archive 하나)
+let archive: { data: Uint8Array; entries: Map<string, ZipEntryInfo> } | null = null;
+
+const decoder = new TextDecoder();
+
+function post(response: ZipWorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(response, { transfer });
+}
+
+async function handleList({ requestId, buffer }: ListRequest) {
+  const data = new Uint8Array(buffer);
+  const entries = listZipEntries(data);
+  archive = { data, entries: new Map(entries.map((entry) => [entry.path, entry])) };
+
+  const gitignoreFiles: Record<string, string> = {};
+  let workspaceFile: string | null = null;
+
+  for (const entry of entries) {
+    if (isGitignoreFile(entry.path)) {
+      gitignoreFiles[entry.path] = decoder.decode(await readZipEntry(data, entry));
+    } else if (entry.path === WORKSPACE_FILE_NAME || entry.path.endsWith(`/${WORKSPACE_FILE_NAME}`)) {
+      workspaceFile = decoder.decode(await readZipEntry(data, entry));
+    }
+  }
+
+  post({
+    type: 'entries',
+    requestId,
+    entries: entries.map(({ path, size }) => ({ path, size })),
+    gitignoreFiles,
+    workspaceFile,
+  });
+}
+
+async function handleExtract({ requestId, paths }: ExtractRequest) {
+  if (!archive) throw new Error('No zip archive loaded.');
+
+  const files: Record<string, string> = {};
+  for (let i = 0; i < paths.length; i++) {
+    const entry = archive.entries.get(paths[i]);
+    if (!entry) continue;
+
+    files[entry.path] = decoder.decode(await readZipEntry(archive.data, entry));
+    if ((i + 1) % 50 === 0 || i === paths.length - 1) {
+      post({ type: 'progress', requestId, current: i + 1, total: paths.length, currentFile: entry.path });
+    }
+  }
+
+  archive = null;
+  post({ type: 'extracted', requestId, files });
+}
+
+async function handleCreate({ requestId, files }: CreateRequest) {
+  const zip = await createZip(Object.entries(files).map(([path, data]) => ({ path, data })));
+  const buffer = zip.buffer as ArrayBuffer;
+  post({ type: 'created', requestId, buffer }, [buffer]);
+}
+
+self.addEventListener('message', async (event: MessageEvent<ZipWorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    if (request.type === 'list') await handleList(request);
+    else if (request.type === 'extract') await handleExtract(request);
+    else if (request.type === 'create') await handleCreate(request);
+  } catch (error) {
+    console.error(`[ZipWorker] ${request.type} failed:`, error);
+    post({
+      type: 'error',
+      requestId: request.requestId,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});